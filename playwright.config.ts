@@ -7,10 +7,19 @@ import { defineConfig, devices } from '@playwright/test'
  *   OCIS_URL - Base URL (default: https://cloud.faure.ca)
  *   OCIS_USER - oCIS username (default: admin)
  *   OCIS_PASSWORD - oCIS password (required)
+ *   OCIS_MOCK - Run against the offline mock server (tests/mock-ocis) instead
+ *   OCIS_MOCK_PORT - Mock server port (default: 9300)
  */
+const useMock = !!process.env.OCIS_MOCK
+const mockPort = parseInt(process.env.OCIS_MOCK_PORT || '9300', 10)
+
 export default defineConfig({
   testDir: './tests/e2e',
 
+  // The mock server has no web UI, so only the API-level specs run against it;
+  // they don't run against a live instance (which needs bearer tokens)
+  ...(useMock ? { testMatch: '**/*.api.spec.ts' } : { testIgnore: '**/*.api.spec.ts' }),
+
   // Run tests sequentially to avoid auth conflicts
   fullyParallel: false,
   workers: 1,
@@ -34,7 +43,7 @@ export default defineConfig({
 
   use: {
     // Base URL for oCIS instance
-    baseURL: process.env.OCIS_URL || 'https://cloud.faure.ca',
+    baseURL: useMock ? `http://127.0.0.1:${mockPort}` : process.env.OCIS_URL || 'https://cloud.faure.ca',
 
     // Capture trace on first retry for debugging
     trace: 'on-first-retry',
@@ -61,6 +70,6 @@ export default defineConfig({
     // },
   ],
 
-  // Global setup runs authentication before all tests
+  // Global setup runs authentication before all tests (or starts the mock server)
   globalSetup: './tests/e2e/global-setup.ts',
 })
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
+import { startMockOcis, type MockOcisServer } from '../../tests/mock-ocis/server'
+import { createEmptyFilters } from '../types'
+import type { SavedQuery, SearchHttpClient } from '../types'
+import { SavedQueryConflictError } from '../utils/savedQueries'
+import { createDavSavedQueryStore, SAVED_QUERIES_PATH } from './davSavedQueryStore'
+
+let server: MockOcisServer
+
+beforeAll(async () => {
+  server = await startMockOcis()
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+afterEach(() => {
+  server.reset()
+})
+
+/**
+ * fetch-based client that rejects like the web client (error.response.status)
+ */
+const http: SearchHttpClient = {
+  async request(config) {
+    const response = await fetch(config.url, {
+      method: config.method,
+      headers: config.headers,
+      body: config.data as string | undefined,
+    })
+    if (!response.ok) {
+      throw Object.assign(new Error(`HTTP ${response.status}`), { response: { status: response.status } })
+    }
+    return { data: await response.text(), headers: Object.fromEntries(response.headers.entries()) }
+  },
+}
+
+function createStore(personal: string | null = 'storage-users-1$personal-admin') {
+  return createDavSavedQueryStore({
+    http,
+    getServerUrl: () => server.url,
+    getPersonalSpace: () => (personal ? { id: personal } : undefined),
+  })
+}
+
+const query = (id: string): SavedQuery => ({ id, name: id, filters: createEmptyFilters(), savedAt: '2024-01-01T00:00:00.000Z' })
+
+describe('createDavSavedQueryStore', () => {
+  it('loads nothing before the first save', async () => {
+    expect(await createStore().load()).toBeNull()
+  })
+
+  it('creates the hidden folder and file on the first save', async () => {
+    const store = createStore()
+    const etag = await store.save([query('a')], null)
+    expect(etag).toBeTruthy()
+    expect(server.entries.some(e => e.path === '/.advanced-search' && e.isFolder)).toBe(true)
+    expect(server.entries.some(e => e.path === SAVED_QUERIES_PATH)).toBe(true)
+
+    const loaded = await store.load()
+    expect(loaded).toEqual({ queries: [query('a')], etag })
+  })
+
+  it('only writes over the version it loaded', async () => {
+    const store = createStore()
+    const first = await store.save([query('a')], null)
+    const second = await store.save([query('a'), query('b')], first)
+    expect(second).not.toBe(first)
+
+    await expect(store.save([query('c')], first)).rejects.toBeInstanceOf(SavedQueryConflictError)
+    await expect(store.save([query('c')], null)).rejects.toBeInstanceOf(SavedQueryConflictError)
+    expect((await store.load())?.queries.map(q => q.id)).toEqual(['a', 'b'])
+  })
+
+  it('fails while the personal space is unknown', async () => {
+    await expect(createStore(null).load()).rejects.toThrow('Personal space not available')
+  })
+})
@@ -0,0 +1,104 @@
+/**
+ * Saved query store backed by a JSON file in the user's personal space
+ * (`/.advanced-search/saved-searches.json` by default), so saved searches
+ * follow the user across browsers.
+ *
+ * Writes are conditional on the etag read before (`If-Match`, or
+ * `If-None-Match: *` when creating the file); a 412 means someone else
+ * saved in between and is reported as a SavedQueryConflictError.
+ */
+
+import type { SpaceResource } from '@ownclouders/web-client'
+import type { SavedQueryStore, SearchHttpClient } from '../types'
+import { SavedQueryConflictError, parseSavedQueries, serializeSavedQueries } from '../utils/savedQueries'
+
+export const SAVED_QUERIES_PATH = '/.advanced-search/saved-searches.json'
+
+export interface DavSavedQueryStoreOptions {
+  http: SearchHttpClient
+  /** Server URL without trailing slash */
+  getServerUrl: () => string
+  /** The user's personal space (undefined until spaces are loaded) */
+  getPersonalSpace: () => Pick<SpaceResource, 'id'> | undefined
+  /** File path within the personal space */
+  path?: string
+}
+
+function statusOf(error: unknown): number | undefined {
+  return (error as { response?: { status?: number } })?.response?.status
+}
+
+function headerValue(headers: unknown, name: string): string | null {
+  const value = (headers as Record<string, unknown> | undefined)?.[name]
+  return typeof value === 'string' && value ? value : null
+}
+
+/**
+ * Create the WebDAV saved query store
+ */
+export function createDavSavedQueryStore(options: DavSavedQueryStoreOptions): SavedQueryStore {
+  const path = options.path || SAVED_QUERIES_PATH
+  const folder = path.slice(0, path.lastIndexOf('/'))
+
+  function spaceUrl(): string {
+    const space = options.getPersonalSpace()
+    if (!space) {
+      throw new Error('Personal space not available')
+    }
+    return `${options.getServerUrl()}/dav/spaces/${encodeURIComponent(space.id)}`
+  }
+
+  const encodePath = (p: string) => p.split('/').map(s => encodeURIComponent(s)).join('/')
+
+  async function put(content: string, etag: string | null) {
+    try {
+      return await options.http.request({
+        method: 'PUT',
+        url: `${spaceUrl()}${encodePath(path)}`,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(etag ? { 'If-Match': etag } : { 'If-None-Match': '*' }),
+        },
+        data: content,
+      })
+    } catch (error) {
+      if (statusOf(error) === 412) {
+        throw new SavedQueryConflictError()
+      }
+      throw error
+    }
+  }
+
+  return {
+    id: 'dav',
+
+    async load() {
+      try {
+        const response = await options.http.request({
+          method: 'GET',
+          url: `${spaceUrl()}${encodePath(path)}`,
+        })
+        const { queries, errors } = parseSavedQueries(response.data)
+        if (errors.length > 0) console.warn('[SavedQueryStore] Skipped invalid saved searches:', errors)
+        return { queries, etag: headerValue(response.headers, 'etag') }
+      } catch (error) {
+        if (statusOf(error) === 404) return null
+        throw error
+      }
+    },
+
+    async save(queries, etag) {
+      const content = serializeSavedQueries(queries)
+      let response
+      try {
+        response = await put(content, etag)
+      } catch (error) {
+        // The folder doesn't exist yet (first save)
+        if (statusOf(error) !== 409 || !folder) throw error
+        await options.http.request({ method: 'MKCOL', url: `${spaceUrl()}${encodePath(folder)}` })
+        response = await put(content, etag)
+      }
+      return headerValue(response.headers, 'etag')
+    },
+  }
+}
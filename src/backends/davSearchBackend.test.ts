@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { SpaceResource } from '@ownclouders/web-client'
+import { buildSearchReportBody, createDavSearchBackend } from './davSearchBackend'
+
+describe('buildSearchReportBody', () => {
+  it('escapes the pattern and requests all registered properties', () => {
+    const body = buildSearchReportBody({ query: 'size>=100 AND name:"a&b"', offset: 0, limit: 50 })
+    expect(body).toContain('<oc:pattern>size&gt;=100 AND name:&quot;a&amp;b&quot;</oc:pattern>')
+    expect(body).toContain('<oc:limit>50</oc:limit>')
+    expect(body).not.toContain('<oc:offset>')
+    expect(body).toContain('<oc:photo-camera-make/>')
+    expect(body).toContain('<d:getetag/>')
+  })
+
+  it('adds offset and ordering', () => {
+    const body = buildSearchReportBody({ query: '*', offset: 100, limit: 50, sort: { field: 'mtime', direction: 'asc' } })
+    expect(body).toContain('<oc:offset>100</oc:offset>')
+    expect(body).toContain('<oc:sort-by>mtime</oc:sort-by>')
+    expect(body).toContain('<oc:sort-order>asc</oc:sort-order>')
+  })
+
+  it('requests only the selected properties', () => {
+    const body = buildSearchReportBody({ query: '*', offset: 0, limit: 10, properties: ['fileid'] })
+    expect(body).toContain('<oc:fileid/>')
+    expect(body).not.toContain('<d:displayname/>')
+  })
+})
+
+describe('createDavSearchBackend', () => {
+  it('sends a REPORT to the space with the abort signal', async () => {
+    const request = vi.fn().mockRejectedValue(new Error('offline'))
+    const backend = createDavSearchBackend({
+      http: { request },
+      getServerUrl: () => 'https://cloud.example.com',
+      getDriveAlias: () => undefined,
+    })
+    const signal = new AbortController().signal
+
+    await expect(backend.search({
+      space: { id: 'a$b' } as SpaceResource,
+      query: '*',
+      offset: 0,
+      limit: 10,
+      signal,
+    })).rejects.toThrow('offline')
+    expect(request).toHaveBeenCalledWith(expect.objectContaining({
+      method: 'REPORT',
+      url: 'https://cloud.example.com/dav/spaces/a%24b',
+      signal,
+    }))
+  })
+})
@@ -0,0 +1,197 @@
+/**
+ * Search backend using the oCIS WebDAV REPORT (`oc:search-files`) endpoint
+ */
+
+import type {
+  SearchBackend,
+  SearchBackendRequest,
+  SearchHttpClient,
+  SearchResource,
+} from '../types'
+import { escapeXML } from '../utils/kql'
+import { splitSpaceHref } from '../utils/spaces'
+import { parseContentRangeTotal } from '../utils/paging'
+import { SERVER_SORT_FIELDS } from '../utils/sort'
+import {
+  DAV_PROPERTIES,
+  buildPropXml,
+  selectDavProperties,
+  applyDavProperties,
+  readDavProperty,
+} from '../utils/davProperties'
+
+export interface DavSearchBackendOptions {
+  http: SearchHttpClient
+  /** Server URL without trailing slash */
+  getServerUrl: () => string
+  /** Drive alias of a space, for results from other spaces than the one queried */
+  getDriveAlias: (spaceId: string) => string | undefined
+}
+
+/**
+ * Build the REPORT body for a page request.
+ * The pattern is XML-escaped since KQL can contain < > (comparison operators).
+ */
+export function buildSearchReportBody(request: Pick<SearchBackendRequest, 'query' | 'offset' | 'limit' | 'sort' | 'properties'>): string {
+  const properties = request.properties ? selectDavProperties(request.properties) : DAV_PROPERTIES
+  const lines = [
+    `    <oc:pattern>${escapeXML(request.query)}</oc:pattern>`,
+    `    <oc:limit>${request.limit}</oc:limit>`,
+  ]
+  if (request.offset > 0) {
+    lines.push(`    <oc:offset>${request.offset}</oc:offset>`)
+  }
+  if (request.sort) {
+    lines.push(
+      `    <oc:sort-by>${SERVER_SORT_FIELDS[request.sort.field]}</oc:sort-by>`,
+      `    <oc:sort-order>${request.sort.direction}</oc:sort-order>`
+    )
+  }
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<oc:search-files xmlns:oc="http://owncloud.org/ns" xmlns:d="DAV:">
+  <oc:search>
+${lines.join('\n')}
+  </oc:search>
+${buildPropXml(properties)}
+</oc:search-files>`
+}
+
+/**
+ * Parse WebDAV REPORT search response XML into Resource objects.
+ *
+ * The oCIS search API returns XML in WebDAV multistatus format:
+ * <d:multistatus>
+ *   <d:response>
+ *     <d:href>/dav/spaces/space-id/path/to/file.pdf</d:href>
+ *     <d:propstat>
+ *       <d:prop>
+ *         <d:displayname>file.pdf</d:displayname>
+ *         <d:getcontenttype>application/pdf</d:getcontenttype>
+ *         ...
+ *       </d:prop>
+ *     </d:propstat>
+ *   </d:response>
+ * </d:multistatus>
+ *
+ * Each result is tagged with the space it belongs to, taken from its href
+ * (the server may return hits from other spaces than the one queried).
+ * Properties are read as declared in the DAV property registry (utils/davProperties.ts).
+ *
+ * @param xmlText - Raw XML response from WebDAV REPORT request
+ * @param spaceId - The space ID used in the request (fallback for hrefs without one)
+ * @param driveAlias - Drive alias for navigation (e.g., "personal/admin")
+ * @param getDriveAlias - Drive alias of another known space, by space ID
+ * @returns Array of SearchResource objects ready for display
+ * @throws Error if XML is malformed or contains parser errors
+ */
+export function parseSearchResponse(
+  xmlText: string,
+  spaceId: string,
+  driveAlias: string,
+  getDriveAlias: (spaceId: string) => string | undefined = () => undefined
+): SearchResource[] {
+  // Pre-validate that response looks like XML
+  const trimmed = xmlText.trim()
+  if (!trimmed.startsWith('<?xml') && !trimmed.startsWith('<')) {
+    throw new Error('Invalid response: expected XML but received non-XML content')
+  }
+
+  const parser = new DOMParser()
+  const doc = parser.parseFromString(xmlText, 'application/xml')
+
+  // DOMParser doesn't throw on invalid XML - check for parsererror element instead
+  const parserError = doc.querySelector('parsererror')
+
+  // Also verify we got the expected WebDAV multistatus root element
+  const multistatus = doc.getElementsByTagNameNS('DAV:', 'multistatus')[0]
+
+  if (parserError || !multistatus) {
+    throw new Error(`XML parsing failed: ${parserError?.textContent?.slice(0, 100) || 'Unexpected response format (not a WebDAV multistatus)'}`)
+  }
+
+  const responses = doc.getElementsByTagNameNS('DAV:', 'response')
+  const items: SearchResource[] = []
+  let skippedCount = 0
+
+  for (let i = 0; i < responses.length; i++) {
+    const response = responses[i]
+    const href = response.getElementsByTagNameNS('DAV:', 'href')[0]?.textContent
+
+    // href is required - skip malformed response entries
+    if (!href) {
+      skippedCount++
+      continue
+    }
+
+    // Split the href into space and path within the space
+    // (server may return the space ID URL-encoded or not)
+    const location = splitSpaceHref(href)
+    const itemSpaceId = location?.spaceId || spaceId
+    const itemDriveAlias = itemSpaceId === spaceId ? driveAlias : getDriveAlias(itemSpaceId) || driveAlias
+    const path = location ? location.path : href
+
+    // Fallback: extract filename from path if displayname element is empty
+    const pathParts = path.split('/')
+    const nameFromPath = pathParts.length > 0 ? pathParts[pathParts.length - 1] : ''
+
+    const item: SearchResource = {
+      id: '',
+      fileId: '',
+      name: nameFromPath || 'Unknown',
+      path: path,
+      webDavPath: href,
+      mimeType: '',
+      size: 0,
+      mdate: '',
+      // Required fields for Resource type compatibility
+      etag: '',
+      permissions: '',
+      starred: false,
+      spaceId: itemSpaceId,
+      driveAlias: itemDriveAlias,
+      parentId: '',
+    }
+    applyDavProperties(item, (ns, name) => readDavProperty(response, ns, name))
+
+    // Folders have special MIME type, resource type or trailing slash
+    const isFolder = item.isFolder || item.mimeType === 'httpd/unix-directory' || href.endsWith('/')
+    // Generate synthetic ID if server doesn't return fileid
+    item.id = item.fileId || `${itemSpaceId}!${path}`
+    item.isFolder = isFolder
+    item.type = isFolder ? 'folder' : 'file'
+
+    items.push(item)
+  }
+
+  if (skippedCount > 0 && typeof console !== 'undefined') {
+    console.warn(`[parseSearchResponse] Skipped ${skippedCount} items with missing href`)
+  }
+
+  return items
+}
+
+/**
+ * Create the WebDAV REPORT search backend
+ */
+export function createDavSearchBackend(options: DavSearchBackendOptions): SearchBackend {
+  return {
+    id: 'dav',
+    async search(request) {
+      const { space } = request
+      const response = await options.http.request({
+        method: 'REPORT',
+        url: `${options.getServerUrl()}/dav/spaces/${encodeURIComponent(space.id)}`,
+        headers: {
+          'Content-Type': 'application/xml'
+        },
+        data: buildSearchReportBody(request),
+        signal: request.signal
+      })
+      const xmlText = typeof response.data === 'string' ? response.data : new XMLSerializer().serializeToString(response.data as Node)
+      const driveAlias = space.driveAlias || 'personal/home'
+      const items = parseSearchResponse(xmlText, space.id, driveAlias, options.getDriveAlias)
+      const headers = (response.headers || {}) as Record<string, string | undefined>
+      return { items, total: parseContentRangeTotal(headers['content-range']) }
+    },
+  }
+}
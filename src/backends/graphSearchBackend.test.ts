@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { buildGraphSearchBody, parseGraphSearchResponse } from './graphSearchBackend'
+
+const space = { id: 'drive-1', driveAlias: 'project/photos' }
+
+describe('buildGraphSearchBody', () => {
+  it('builds a driveItem search limited to the drive', () => {
+    expect(buildGraphSearchBody({ space, query: 'name:*.jpg', offset: 20, limit: 10 })).toEqual({
+      requests: [{
+        entityTypes: ['driveItem'],
+        query: { queryString: 'name:*.jpg' },
+        contentSources: ['/drives/drive-1'],
+        from: 20,
+        size: 10,
+      }],
+    })
+  })
+
+  it('maps ordering and property selection to driveItem fields', () => {
+    const [request] = buildGraphSearchBody({
+      space,
+      query: '*',
+      offset: 0,
+      limit: 10,
+      sort: { field: 'takenDateTime', direction: 'desc' },
+      properties: ['getcontentlength', 'photo-iso', 'photo-camera-make', 'oc-unknown'],
+    }).requests as Array<Record<string, unknown>>
+    expect(request.sortProperties).toEqual([{ name: 'photo/takenDateTime', isDescending: true }])
+    expect(request.fields).toEqual(['id', 'name', 'parentReference', 'file', 'folder', 'size', 'photo'])
+  })
+})
+
+describe('parseGraphSearchResponse', () => {
+  it('turns driveItem hits into results with the total', () => {
+    const page = parseGraphSearchResponse({
+      value: [{
+        hitsContainers: [{
+          total: 42,
+          hits: [
+            {
+              hitId: 'f1',
+              resource: {
+                id: 'f1',
+                name: 'IMG 1.jpg',
+                size: 1024,
+                eTag: '"e1"',
+                lastModifiedDateTime: '2024-06-01T10:00:00Z',
+                file: { mimeType: 'image/jpeg' },
+                parentReference: { id: 'p1', driveId: 'drive-1', path: '/drive/root:/Holiday' },
+                photo: { cameraMake: 'Canon' },
+                location: { latitude: 48.1, longitude: 11.5 },
+              },
+            },
+            {
+              hitId: 'd1',
+              resource: { id: 'd1', name: 'Holiday', folder: {}, parentReference: { driveId: 'drive-2', path: '/drives/drive-2/root:' } },
+            },
+          ],
+        }],
+      }],
+    }, space, id => id === 'drive-2' ? 'personal/einstein' : undefined)
+
+    expect(page.total).toBe(42)
+    expect(page.items[0]).toMatchObject({
+      id: 'f1',
+      fileId: 'f1',
+      name: 'IMG 1.jpg',
+      path: '/Holiday/IMG 1.jpg',
+      webDavPath: '/dav/spaces/drive-1/Holiday/IMG%201.jpg',
+      mimeType: 'image/jpeg',
+      size: 1024,
+      etag: '"e1"',
+      isFolder: false,
+      spaceId: 'drive-1',
+      driveAlias: 'project/photos',
+      parentId: 'p1',
+      photo: { cameraMake: 'Canon' },
+      location: { latitude: 48.1, longitude: 11.5 },
+    })
+    expect(page.items[1]).toMatchObject({
+      path: '/Holiday',
+      isFolder: true,
+      type: 'folder',
+      spaceId: 'drive-2',
+      driveAlias: 'personal/einstein',
+    })
+  })
+
+  it('has no total if the server does not report one', () => {
+    expect(parseGraphSearchResponse({ value: [{ hitsContainers: [{ hits: [] }] }] }, space).total).toBeNull()
+  })
+
+  it('rejects responses without hits container', () => {
+    expect(() => parseGraphSearchResponse({ error: { code: 'itemNotFound' } }, space)).toThrow('hits container')
+  })
+})
@@ -0,0 +1,183 @@
+/**
+ * Search backend using the libre-graph / MS-Graph-style search endpoint
+ * (`POST /graph/v1.0/search/query` with driveItem hits).
+ *
+ * Each space is searched on its own by restricting the request's content
+ * sources to the drive; paging uses `from`/`size` and the hit container's
+ * `total`.
+ */
+
+import type { SpaceResource } from '@ownclouders/web-client'
+import type {
+  SearchBackend,
+  SearchBackendPage,
+  SearchBackendRequest,
+  SearchHttpClient,
+  SearchResource,
+  SortField,
+} from '../types'
+
+export interface GraphSearchBackendOptions {
+  http: SearchHttpClient
+  /** Server URL without trailing slash */
+  getServerUrl: () => string
+  /** Drive alias of a space, for hits from other drives than the one queried */
+  getDriveAlias: (spaceId: string) => string | undefined
+}
+
+/**
+ * driveItem as returned in search hits (the fields we read)
+ */
+interface GraphDriveItem {
+  id?: string
+  name?: string
+  size?: number
+  eTag?: string
+  lastModifiedDateTime?: string
+  file?: { mimeType?: string }
+  folder?: Record<string, unknown>
+  parentReference?: { id?: string; driveId?: string; path?: string }
+  photo?: SearchResource['photo']
+  location?: SearchResource['location']
+  image?: SearchResource['image']
+}
+
+interface GraphSearchResponse {
+  value?: Array<{
+    hitsContainers?: Array<{
+      hits?: Array<{ hitId?: string; resource?: GraphDriveItem }>
+      total?: number
+      moreResultsAvailable?: boolean
+    }>
+  }>
+}
+
+const GRAPH_SORT_FIELDS: Record<SortField, string> = {
+  name: 'name',
+  size: 'size',
+  mtime: 'lastModifiedDateTime',
+  takenDateTime: 'photo/takenDateTime',
+}
+
+// driveItem fields that are always needed to build a result
+const REQUIRED_FIELDS = ['id', 'name', 'parentReference', 'file', 'folder']
+
+/**
+ * driveItem field holding a DAV property (by registry name)
+ */
+function graphFieldFor(property: string): string | null {
+  if (property.startsWith('photo-')) return 'photo'
+  if (property.startsWith('location-')) return 'location'
+  if (property.startsWith('image-')) return 'image'
+  const fields: Record<string, string> = {
+    getcontentlength: 'size',
+    size: 'size',
+    getlastmodified: 'lastModifiedDateTime',
+    getetag: 'eTag',
+  }
+  return fields[property] || null
+}
+
+/**
+ * Build the search/query body for a page request
+ */
+export function buildGraphSearchBody(
+  request: Pick<SearchBackendRequest, 'query' | 'offset' | 'limit' | 'sort' | 'properties'> & { space: Pick<SpaceResource, 'id'> }
+): Record<string, unknown> {
+  const fields = request.properties
+    ? [...new Set([...REQUIRED_FIELDS, ...request.properties.map(graphFieldFor).filter((f): f is string => f !== null)])]
+    : undefined
+  return {
+    requests: [{
+      entityTypes: ['driveItem'],
+      query: { queryString: request.query },
+      contentSources: [`/drives/${request.space.id}`],
+      from: request.offset,
+      size: request.limit,
+      ...(fields && { fields }),
+      ...(request.sort && {
+        sortProperties: [{ name: GRAPH_SORT_FIELDS[request.sort.field], isDescending: request.sort.direction === 'desc' }],
+      }),
+    }],
+  }
+}
+
+/**
+ * Path of a driveItem within its drive. Parent paths look like
+ * `/drive/root:/Photos` or `/drives/<id>/root:/Photos`.
+ */
+function itemPath(item: GraphDriveItem): string {
+  const parent = (item.parentReference?.path || '').replace(/^.*?root:/, '').replace(/\/+$/, '')
+  return `${parent}/${item.name || ''}`
+}
+
+/**
+ * Turn a search/query response into results
+ *
+ * @throws Error if the response has no hits container
+ */
+export function parseGraphSearchResponse(
+  data: unknown,
+  space: Pick<SpaceResource, 'id' | 'driveAlias'>,
+  getDriveAlias: (spaceId: string) => string | undefined = () => undefined
+): SearchBackendPage {
+  const container = (data as GraphSearchResponse)?.value?.[0]?.hitsContainers?.[0]
+  if (!container) {
+    throw new Error('Unexpected response format (no search hits container)')
+  }
+
+  const items = (container.hits || [])
+    .map(hit => hit.resource)
+    .filter((resource): resource is GraphDriveItem => !!resource?.id)
+    .map(resource => {
+      const spaceId = resource.parentReference?.driveId || space.id
+      const path = itemPath(resource)
+      const isFolder = !!resource.folder
+      const item: SearchResource = {
+        id: resource.id!,
+        fileId: resource.id,
+        name: resource.name || path.split('/').pop() || 'Unknown',
+        path,
+        webDavPath: `/dav/spaces/${encodeURIComponent(spaceId)}${path.split('/').map(s => encodeURIComponent(s)).join('/')}`,
+        mimeType: resource.file?.mimeType || (isFolder ? 'httpd/unix-directory' : ''),
+        size: resource.size ?? 0,
+        mdate: resource.lastModifiedDateTime || '',
+        lastModifiedDateTime: resource.lastModifiedDateTime,
+        type: isFolder ? 'folder' : 'file',
+        isFolder,
+        etag: resource.eTag || '',
+        permissions: '',
+        starred: false,
+        spaceId,
+        driveAlias: (spaceId === space.id ? space.driveAlias : getDriveAlias(spaceId)) || space.driveAlias || 'personal/home',
+        parentId: resource.parentReference?.id || '',
+      }
+      if (resource.photo) item.photo = resource.photo
+      if (resource.location) item.location = resource.location
+      if (resource.image) item.image = resource.image
+      return item
+    })
+
+  return { items, total: typeof container.total === 'number' ? container.total : null }
+}
+
+/**
+ * Create the libre-graph search backend
+ */
+export function createGraphSearchBackend(options: GraphSearchBackendOptions): SearchBackend {
+  return {
+    id: 'graph',
+    async search(request) {
+      const response = await options.http.request({
+        method: 'POST',
+        url: `${options.getServerUrl()}/graph/v1.0/search/query`,
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        data: buildGraphSearchBody(request),
+        signal: request.signal
+      })
+      return parseGraphSearchResponse(response.data, request.space, options.getDriveAlias)
+    },
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
+import { startMockOcis, type MockOcisServer } from '../../tests/mock-ocis/server'
+import type { SearchHttpClient, SearchResource } from '../types'
+import { createOcisFileOperations, joinPath } from './ocisFileOperations'
+
+let server: MockOcisServer
+const personal = 'storage-users-1$personal-admin'
+const marketing = 'storage-users-1$project-marketing'
+
+beforeAll(async () => {
+  server = await startMockOcis()
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+afterEach(() => {
+  server.reset()
+})
+
+/**
+ * fetch-based client that rejects like the web client (error.response.status)
+ */
+const http: SearchHttpClient = {
+  async request(config) {
+    const response = await fetch(config.url, {
+      method: config.method,
+      headers: config.headers,
+      body: config.data === undefined || typeof config.data === 'string' ? config.data : JSON.stringify(config.data),
+      signal: config.signal,
+    })
+    if (!response.ok) {
+      throw Object.assign(new Error(`HTTP ${response.status}`), { response: { status: response.status } })
+    }
+    const data = config.responseType === 'stream'
+      ? response.body
+      : config.responseType === 'blob' ? await response.blob() : await response.text()
+    return { data, headers: Object.fromEntries(response.headers.entries()) }
+  },
+}
+
+const operations = createOcisFileOperations({ http, getServerUrl: () => server.url })
+
+function resource(spaceId: string, path: string): SearchResource {
+  const entry = server.entries.find(e => e.spaceId === spaceId && e.path === path)!
+  return { id: entry.id, fileId: entry.id, spaceId, path, name: entry.name } as SearchResource
+}
+
+const exists = (spaceId: string, path: string) => server.entries.some(e => e.spaceId === spaceId && e.path === path)
+
+describe('joinPath', () => {
+  it('joins folder and name', () => {
+    expect(joinPath('/', 'a.txt')).toBe('/a.txt')
+    expect(joinPath('/Projects/', 'a b.txt')).toBe('/Projects/a b.txt')
+  })
+})
+
+describe('createOcisFileOperations', () => {
+  it('downloads file content', async () => {
+    const body = await operations.download(resource(personal, '/Documents/notes.txt'))
+    expect(await new Response(body).text()).toContain('Meeting notes')
+  })
+
+  it('deletes resources', async () => {
+    await operations.delete(resource(personal, '/Documents/notes.txt'))
+    expect(exists(personal, '/Documents/notes.txt')).toBe(false)
+  })
+
+  it('copies and moves into a folder of another space', async () => {
+    await operations.copy(resource(personal, '/Documents/Budget 2024.xlsx'), { spaceId: marketing, path: '/Campaign' })
+    expect(exists(marketing, '/Campaign/Budget 2024.xlsx')).toBe(true)
+    expect(exists(personal, '/Documents/Budget 2024.xlsx')).toBe(true)
+
+    await operations.move(resource(personal, '/Photos/2023'), { spaceId: marketing, path: '/' })
+    expect(exists(marketing, '/2023/beach.jpg')).toBe(true)
+    expect(exists(personal, '/Photos/2023')).toBe(false)
+  })
+
+  it('never overwrites existing names', async () => {
+    const notes = resource(personal, '/Documents/notes.txt')
+    await operations.copy(notes, { spaceId: personal, path: '/Archive' })
+    await expect(operations.copy(notes, { spaceId: personal, path: '/Archive' }))
+      .rejects.toMatchObject({ response: { status: 412 } })
+  })
+
+  it('adds and removes tags', async () => {
+    const item = resource(personal, '/Documents/report-2024.pdf')
+    const tags = () => server.entries.find(e => e.id === item.id)!.tags
+
+    await operations.addTags(item, ['urgent', 'work'])
+    expect(tags()).toEqual(['work', 'finance', 'urgent'])
+    await operations.removeTags(item, ['finance'])
+    expect(tags()).toEqual(['work', 'urgent'])
+  })
+
+  it('rejects tag changes of resources without a file ID', async () => {
+    const item = { ...resource(personal, '/Documents/report-2024.pdf'), fileId: undefined }
+    await expect(operations.addTags(item, ['urgent'])).rejects.toThrow('Resource has no file ID')
+  })
+
+  it('rejects resources without space or path', async () => {
+    await expect(operations.delete({ id: 'x', name: 'x' } as SearchResource)).rejects.toThrow('Resource has no space or path')
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * File operations against oCIS: content, delete, copy and move over WebDAV
+ * (`/dav/spaces/<id>/<path>`), tags through the libre-graph tags endpoint
+ * (`/graph/v1.0/extensions/org.libregraph/tags`).
+ *
+ * Copies and moves never overwrite (`Overwrite: F`), so a taken name fails
+ * with 412.
+ */
+
+import type { FileOperations, FileOperationTarget, SearchHttpClient, SearchResource } from '../types'
+
+export interface OcisFileOperationsOptions {
+  http: SearchHttpClient
+  /** Server URL without trailing slash */
+  getServerUrl: () => string
+}
+
+const encodePath = (path: string) => path.split('/').map(s => encodeURIComponent(s)).join('/')
+
+/**
+ * Path of a folder's child, e.g. ('/Projects', 'a.txt') → '/Projects/a.txt'
+ */
+export function joinPath(folder: string, name: string): string {
+  return `${folder.replace(/\/+$/, '')}/${name}`
+}
+
+/**
+ * Create the oCIS file operations
+ */
+export function createOcisFileOperations(options: OcisFileOperationsOptions): FileOperations {
+  function davUrl(spaceId: string, path: string): string {
+    return `${options.getServerUrl()}/dav/spaces/${encodeURIComponent(spaceId)}${encodePath(path)}`
+  }
+
+  function itemUrl(item: SearchResource): string {
+    if (!item.spaceId || !item.path) {
+      throw new Error('Resource has no space or path')
+    }
+    return davUrl(item.spaceId, item.path)
+  }
+
+  async function transfer(method: 'COPY' | 'MOVE', item: SearchResource, target: FileOperationTarget): Promise<void> {
+    await options.http.request({
+      method,
+      url: itemUrl(item),
+      headers: {
+        Destination: davUrl(target.spaceId, joinPath(target.path, item.name || '')),
+        Overwrite: 'F',
+      },
+    })
+  }
+
+  async function tags(method: 'PUT' | 'DELETE', item: SearchResource, values: string[]): Promise<void> {
+    // Not the resource ID: DAV results without a file ID get a made-up one
+    const resourceId = item.fileId
+    if (!resourceId) {
+      throw new Error('Resource has no file ID')
+    }
+    await options.http.request({
+      method,
+      url: `${options.getServerUrl()}/graph/v1.0/extensions/org.libregraph/tags`,
+      headers: { 'Content-Type': 'application/json' },
+      data: { resourceId, tags: values },
+    })
+  }
+
+  return {
+    id: 'ocis',
+    async download(item, signal) {
+      const response = await options.http.request({
+        method: 'GET',
+        url: itemUrl(item),
+        responseType: 'stream',
+        adapter: 'fetch',
+        signal,
+      })
+      // Clients that can't stream return the whole body
+      if (response.data instanceof ReadableStream) return response.data as ReadableStream<Uint8Array>
+      return (response.data instanceof Blob ? response.data : new Blob([response.data as BlobPart])).stream()
+    },
+    async delete(item) {
+      await options.http.request({ method: 'DELETE', url: itemUrl(item) })
+    },
+    copy: (item, target) => transfer('COPY', item, target),
+    move: (item, target) => transfer('MOVE', item, target),
+    addTags: (item, values) => tags('PUT', item, values),
+    removeTags: (item, values) => tags('DELETE', item, values),
+  }
+}
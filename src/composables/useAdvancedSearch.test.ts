@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { useAdvancedSearch } from './useAdvancedSearch'
+import type { SearchBackend, SearchBackendRequest, SearchResource } from '../types'
 
 // Mock vue3-gettext
 vi.mock('vue3-gettext', () => ({
@@ -10,30 +11,67 @@ vi.mock('vue3-gettext', () => ({
   })
 }))
 
+const { mockRequest, mockSpaces } = vi.hoisted(() => ({
+  mockRequest: vi.fn(),
+  mockSpaces: [] as Array<Record<string, unknown>>,
+}))
+
 // Mock @ownclouders/web-pkg
 vi.mock('@ownclouders/web-pkg', () => ({
   useClientService: () => ({
     httpAuthenticated: {
-      request: vi.fn().mockResolvedValue({
-        status: 207,
-        data: '<?xml version="1.0"?><d:multistatus xmlns:d="DAV:"></d:multistatus>'
-      })
+      request: mockRequest
     }
   }),
   useConfigStore: () => ({
     serverUrl: 'https://cloud.example.com'
   }),
   useSpacesStore: () => ({
-    spaces: [
-      { id: 'space-123', name: 'Personal', driveType: 'personal', driveAlias: 'personal/user' }
-    ]
+    spaces: mockSpaces
   })
 }))
 
+let fakeBackendCount = 0
+
+/**
+ * In-memory backend: results per space, sliced by offset/limit, with totals
+ */
+function createFakeBackend(
+  results: Record<string, SearchResource[]>,
+  { ignoreOffset = false, sortByName = false } = {}
+): SearchBackend & { requests: SearchBackendRequest[] } {
+  const requests: SearchBackendRequest[] = []
+  return {
+    id: `fake-${++fakeBackendCount}`,
+    requests,
+    async search(request) {
+      requests.push(request)
+      let items = results[request.space.id] || []
+      if (sortByName && request.sort?.field === 'name') {
+        items = [...items].sort((a, b) => (a.name || '').localeCompare(b.name || ''))
+        if (request.sort.direction === 'desc') items.reverse()
+      }
+      const offset = ignoreOffset ? 0 : request.offset
+      return { items: items.slice(offset, offset + request.limit), total: ignoreOffset ? null : items.length }
+    },
+  }
+}
+
+function files(spaceId: string, ...names: string[]): SearchResource[] {
+  return names.map(name => ({ id: `${spaceId}-${name}`, fileId: `${spaceId}-${name}`, name, path: `/${name}`, spaceId }))
+}
+
 describe('useAdvancedSearch', () => {
   let search: ReturnType<typeof useAdvancedSearch>
 
   beforeEach(() => {
+    mockRequest.mockReset().mockResolvedValue({
+      status: 207,
+      data: '<?xml version="1.0"?><d:multistatus xmlns:d="DAV:"></d:multistatus>'
+    })
+    mockSpaces.splice(0, mockSpaces.length,
+      { id: 'space-123', name: 'Personal', driveType: 'personal', driveAlias: 'personal/user' }
+    )
     search = useAdvancedSearch()
   })
 
@@ -214,6 +252,17 @@ describe('useAdvancedSearch', () => {
     })
   })
 
+  describe('addRawClause', () => {
+    it('ANDs clauses to the raw KQL filter', () => {
+      search.addRawClause('name:*beach*')
+      expect(search.state.filters.raw).toBe('name:*beach*')
+      search.addRawClause('  ')
+      search.addRawClause('tags:a OR tags:b')
+      expect(search.state.filters.raw).toBe('name:*beach* AND (tags:a OR tags:b)')
+      expect(search.kqlQuery.value).toBe('name:*beach* AND (tags:a OR tags:b)')
+    })
+  })
+
   describe('removeFilter', () => {
     it('removes term filter', () => {
       search.state.filters.term = 'test'
@@ -254,6 +303,71 @@ describe('useAdvancedSearch', () => {
     it('handles unknown filter ID gracefully', () => {
       expect(() => search.removeFilter('unknown')).not.toThrow()
     })
+
+    it('drops the negation of a removed filter', () => {
+      search.state.filters.standard.tags = 'draft'
+      search.toggleFilterNegation('tags')
+      search.removeFilter('tags')
+      expect(search.state.filters.negated).toBeUndefined()
+    })
+  })
+
+  describe('scope', () => {
+    it('shows a scope chip and clears the scope on removal', () => {
+      search.setScope('currentFolder', { spaceId: 'space-123', path: '/Photos' })
+      expect(search.activeFilters.value[0]).toMatchObject({ id: 'scope', value: 'Personal: /Photos' })
+      search.removeFilter('scope')
+      expect(search.state.filters.scope).toBe('allFiles')
+      expect(search.state.filters.scopeTarget).toBeUndefined()
+    })
+
+    it('keeps the scope when applying KQL', () => {
+      search.setScope('space', { spaceId: 'space-123' })
+      search.parseKqlToFilters('name:a')
+      expect(search.state.filters.scope).toBe('space')
+      expect(search.state.filters.scopeTarget).toEqual({ spaceId: 'space-123' })
+    })
+  })
+
+  describe('OR and NOT', () => {
+    it('toggles negation and marks the chip', () => {
+      search.state.filters.standard.tags = 'draft'
+      search.toggleFilterNegation('tags')
+      expect(search.activeFilters.value[0]).toMatchObject({ id: 'tags', negated: true })
+      expect(search.kqlQuery.value).toBe('NOT tags:draft')
+      search.toggleFilterNegation('tags')
+      expect(search.state.filters.negated).toBeUndefined()
+    })
+
+    it('does not negate the search term', () => {
+      search.state.filters.term = 'report'
+      search.toggleFilterNegation('term')
+      expect(search.state.filters.negated).toBeUndefined()
+    })
+
+    it('ORs filters in match any mode', () => {
+      search.updateStandardFilters({ type: 'folder', content: 'budget' })
+      search.setMatchMode('any')
+      expect(search.kqlQuery.value).toBe('(Type:2 OR content:budget)')
+      search.setMatchMode('all')
+      expect(search.state.filters.match).toBeUndefined()
+    })
+
+    it('shows a folder chip', () => {
+      search.updateStandardFilters({ path: '/Projects' })
+      expect(search.activeFilters.value[0]).toMatchObject({ id: 'path', value: '/Projects' })
+    })
+  })
+
+  describe('location', () => {
+    it('shows a location chip and clears the location on removal', () => {
+      search.updatePhotoFilters({ location: { type: 'radius', latitude: 41.3784, longitude: 2.1925, radiusKm: 2.5 } })
+      expect(search.activeFilters.value[0]).toMatchObject({ id: 'location', value: '2.5 km around 41.3784° N, 2.1925° E' })
+      search.updatePhotoFilters({ location: { type: 'box', north: 42.9, south: 40.5, east: 3.3, west: 0.1 } })
+      expect(search.activeFilters.value[0].value).toBe('40.5000° N, 0.1000° E – 42.9000° N, 3.3000° E')
+      search.removeFilter('location')
+      expect(search.state.filters.photo.location).toBeUndefined()
+    })
   })
 
   describe('clearFilters', () => {
@@ -289,6 +403,17 @@ describe('useAdvancedSearch', () => {
       search.setViewMode('table')
       expect(search.state.viewMode).toBe('table')
     })
+
+    it('sorts by date taken for the timeline unless sorted by a date', () => {
+      search.setSort({ field: 'name', direction: 'asc' })
+      search.setViewMode('timeline')
+      expect(search.state.sort).toEqual({ field: 'takenDateTime', direction: 'desc' })
+
+      search.setSort({ field: 'mtime', direction: 'asc' })
+      search.setViewMode('list')
+      search.setViewMode('timeline')
+      expect(search.state.sort).toEqual({ field: 'mtime', direction: 'asc' })
+    })
   })
 
   describe('setSort', () => {
@@ -296,6 +421,30 @@ describe('useAdvancedSearch', () => {
       search.setSort({ field: 'name', direction: 'asc' })
       expect(search.state.sort).toEqual({ field: 'name', direction: 'asc' })
     })
+
+    it('orders loaded results client-side without a new request', () => {
+      search.state.results = {
+        totalCount: 3,
+        items: [
+          { id: 'b', name: 'file10.txt', path: '/file10.txt' },
+          { id: 'a', name: 'file2.txt', path: '/file2.txt' },
+          { id: 'c', name: 'Docs', path: '/Docs', isFolder: true },
+        ],
+        hasMore: false,
+        currentPage: 0,
+      }
+      search.setSort({ field: 'name', direction: 'asc', foldersFirst: true })
+      expect(search.sortedItems.value.map(i => i.id)).toEqual(['c', 'a', 'b'])
+      expect(mockRequest).not.toHaveBeenCalled()
+    })
+
+    it('sends the sort key with the search', async () => {
+      search.setSort({ field: 'takenDateTime', direction: 'asc' })
+      await search.executeSearch()
+      const [options] = mockRequest.mock.calls[0]
+      expect(options.data).toContain('<oc:sort-by>photo.takenDateTime</oc:sort-by>')
+      expect(options.data).toContain('<oc:sort-order>asc</oc:sort-order>')
+    })
   })
 
   describe('setKqlQuery', () => {
@@ -322,8 +471,8 @@ describe('useAdvancedSearch', () => {
     })
 
     it('parses name filter', () => {
-      search.parseKqlToFilters('name:*.pdf')
-      expect(search.state.filters.standard.name).toBe('*.pdf')
+      search.parseKqlToFilters('name:*report*')
+      expect(search.state.filters.standard.name).toBe('report')
     })
 
     it('parses type filter (numeric)', () => {
@@ -342,7 +491,7 @@ describe('useAdvancedSearch', () => {
     })
 
     it('parses content filter', () => {
-      search.parseKqlToFilters('content:annual report')
+      search.parseKqlToFilters('content:"annual report"')
       expect(search.state.filters.standard.content).toBe('annual report')
     })
 
@@ -357,7 +506,7 @@ describe('useAdvancedSearch', () => {
     })
 
     it('parses camera model filter', () => {
-      search.parseKqlToFilters('photo.cameramodel:EOS R5')
+      search.parseKqlToFilters('photo.cameramodel:"EOS R5"')
       expect(search.state.filters.photo.cameraModel).toBe('EOS R5')
     })
 
@@ -392,9 +541,44 @@ describe('useAdvancedSearch', () => {
     })
 
     it('unescapes KQL special characters', () => {
-      search.parseKqlToFilters('name:file\\:name')
+      search.parseKqlToFilters('name:*file\\:name*')
       expect(search.state.filters.standard.name).toBe('file:name')
     })
+
+    it('parses quoted values containing colons', () => {
+      search.parseKqlToFilters('name:"*10:30 meeting*"')
+      expect(search.state.filters.standard.name).toBe('10:30 meeting')
+    })
+
+    it('maps OR and NOT clauses onto filters', () => {
+      search.parseKqlToFilters('Type:1 AND (mediatype:pdf OR mediatype:spreadsheet) AND NOT name:*draft*')
+      expect(search.state.filters.standard).toEqual({ type: 'file', mediaType: 'pdf,spreadsheet', name: 'draft' })
+      expect(search.state.filters.negated).toEqual(['name'])
+      expect(search.state.filters.raw).toBeUndefined()
+      expect(search.kqlQuery.value).toBe('Type:1 AND (mediatype:pdf OR mediatype:spreadsheet) AND NOT name:*draft*')
+    })
+
+    it('shows unmapped clauses as a KQL chip', () => {
+      search.parseKqlToFilters('owner:alice')
+      expect(search.activeFilters.value[0]).toMatchObject({ id: 'raw', value: 'owner:alice' })
+      search.removeFilter('raw')
+      expect(search.state.filters.raw).toBeUndefined()
+    })
+
+    it('reports syntax errors with position and keeps filters', () => {
+      search.state.filters.standard.name = '*.pdf'
+      const applied = search.parseKqlToFilters('name:foo AND (size>=1')
+      expect(applied).toBe(false)
+      expect(search.state.kqlError).toEqual({ message: 'Missing closing parenthesis', position: 13 })
+      expect(search.state.filters.standard.name).toBe('*.pdf')
+    })
+
+    it('clears the syntax error after a successful parse', () => {
+      search.parseKqlToFilters('name:(')
+      expect(search.state.kqlError).not.toBeNull()
+      search.parseKqlToFilters('name:ok')
+      expect(search.state.kqlError).toBeNull()
+    })
   })
 
   describe('executeSearch', () => {
@@ -424,6 +608,257 @@ describe('useAdvancedSearch', () => {
       expect(search.state.error).toBeDefined()
       expect(search.state.loading).toBe(false)
     })
+
+    it('sends one REPORT per accessible space', async () => {
+      mockSpaces.push(
+        { id: 'project-1', name: 'Marketing', driveType: 'project', driveAlias: 'project/marketing' },
+        { id: 'old', name: 'Archive', driveType: 'project', disabled: true },
+      )
+      await search.executeSearch()
+      const urls = mockRequest.mock.calls.map(([options]) => options.url)
+      expect(urls).toEqual([
+        'https://cloud.example.com/dav/spaces/space-123',
+        'https://cloud.example.com/dav/spaces/project-1',
+      ])
+    })
+
+    it('requests the first page without an offset', async () => {
+      await search.executeSearch()
+      const [options] = mockRequest.mock.calls[0]
+      expect(options.data).toContain('<oc:limit>100</oc:limit>')
+      expect(options.data).not.toContain('<oc:offset>')
+    })
+
+    it('reports an error when every space fails', async () => {
+      mockSpaces.push({ id: 'project-1', name: 'Marketing', driveType: 'project' })
+      mockRequest.mockRejectedValue({ response: { status: 503 } })
+      await search.executeSearch()
+      expect(search.state.error).toContain('503')
+      expect(search.state.results?.items).toEqual([])
+    })
+
+    it('searches only the scoped space, with server-side scope', async () => {
+      mockSpaces.push({ id: 'project-1', name: 'Marketing', driveType: 'project' })
+      search.state.filters.standard.type = 'file'
+      search.setScope('currentFolder', { spaceId: 'project-1', path: '/Plans', fileId: 'p1$p1!plans' })
+      await search.executeSearch()
+      expect(mockRequest).toHaveBeenCalledTimes(1)
+      const [options] = mockRequest.mock.calls[0]
+      expect(options.url).toBe('https://cloud.example.com/dav/spaces/project-1')
+      expect(options.data).toContain('<oc:pattern>Type:1 AND scope:p1$p1!plans</oc:pattern>')
+    })
+
+    it('reports a scoped space that no longer exists', async () => {
+      search.setScope('space', { spaceId: 'gone' })
+      await search.executeSearch()
+      expect(search.state.error).toBe('The selected space is no longer available')
+    })
+
+    it('reports a missing space', async () => {
+      mockSpaces.splice(0, mockSpaces.length)
+      await search.executeSearch()
+      expect(search.state.error).toBe('No space available for search')
+      expect(mockRequest).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('with an injected backend', () => {
+    it('pages by offset and reports the server total', async () => {
+      const backend = createFakeBackend({ 'space-123': files('space-123', 'a', 'b', 'c', 'd', 'e') })
+      search = useAdvancedSearch({ backend })
+      search.pageSize.value = 2
+
+      await search.executeSearch()
+      expect(search.state.results).toMatchObject({ totalCount: 5, hasMore: true, currentPage: 0 })
+      expect(search.state.results?.items).toHaveLength(2)
+
+      await search.loadMore()
+      await search.loadMore()
+      expect(search.state.results?.items.map(i => i.name)).toEqual(['a', 'b', 'c', 'd', 'e'])
+      expect(search.state.results).toMatchObject({ totalCount: 5, hasMore: false, currentPage: 2 })
+      expect(backend.requests.map(r => r.offset)).toEqual([0, 2, 4])
+    })
+
+    it('switches to cursor mode when the server ignores the offset', async () => {
+      const backend = createFakeBackend({ 'space-123': files('space-123', 'a', 'b', 'c') }, { ignoreOffset: true })
+      search = useAdvancedSearch({ backend })
+      search.pageSize.value = 2
+
+      await search.executeSearch()
+      await search.loadMore()
+      expect(search.state.results?.items.map(i => i.name)).toEqual(['a', 'b', 'c'])
+      expect(search.state.results?.hasMore).toBe(false)
+      expect(backend.requests.map(r => [r.offset, r.limit])).toEqual([[0, 2], [2, 2], [0, 4]])
+    })
+
+    it('merges spaces without duplicates and keeps results of spaces that fail', async () => {
+      mockSpaces.push(
+        { id: 'project-1', name: 'Marketing', driveType: 'project' },
+        { id: 'project-2', name: 'Broken', driveType: 'project' },
+      )
+      const backend = createFakeBackend({
+        'space-123': files('space-123', 'a'),
+        'project-1': [...files('space-123', 'a'), ...files('project-1', 'b')],
+      })
+      const realSearch = backend.search
+      backend.search = request => request.space.id === 'project-2'
+        ? Promise.reject({ response: { status: 500 } })
+        : realSearch(request)
+      search = useAdvancedSearch({ backend })
+
+      await search.executeSearch()
+      expect(search.state.results?.items.map(i => i.id)).toEqual(['space-123-a', 'project-1-b'])
+      expect(search.state.results?.spaceErrors).toEqual([
+        expect.objectContaining({ spaceId: 'project-2', spaceName: 'Broken' }),
+      ])
+    })
+
+    it('passes sort and property selection to the backend', async () => {
+      const backend = createFakeBackend({})
+      search = useAdvancedSearch({ backend, properties: ['fileid', 'displayname'] })
+      search.setSort({ field: 'size', direction: 'asc' })
+      await search.executeSearch()
+      expect(backend.requests[0]).toMatchObject({
+        sort: { field: 'size', direction: 'asc' },
+        properties: ['fileid', 'displayname'],
+      })
+    })
+
+    it('retries without scope: and filters client-side when the backend rejects it', async () => {
+      const backend = createFakeBackend({
+        'space-123': [
+          { id: 'in', fileId: 'in', name: 'in', path: '/Docs/in', spaceId: 'space-123' },
+          { id: 'out', fileId: 'out', name: 'out', path: '/out', spaceId: 'space-123' },
+        ],
+      })
+      const realSearch = backend.search
+      backend.search = request => request.query.includes('scope:')
+        ? Promise.reject({ response: { status: 400 } })
+        : realSearch(request)
+      search = useAdvancedSearch({ backend })
+      search.setScope('currentFolder', { spaceId: 'space-123', path: '/Docs', fileId: 'docs-id' })
+
+      await search.executeSearch()
+      expect(backend.requests).toHaveLength(1)
+      expect(backend.requests[0].query).not.toContain('scope:')
+      expect(search.state.results?.items.map(i => i.id)).toEqual(['in'])
+    })
+
+    describe('with a location filter', () => {
+      const located = (id: string, latitude: number, longitude: number): SearchResource =>
+        ({ id, fileId: id, name: id, path: `/${id}`, spaceId: 'space-123', location: { latitude, longitude } })
+      // Inside the box around a 10 km radius, but only 'center' is within the radius
+      const items = [located('center', 41.3784, 2.1925), located('corner', 41.4584, 2.2985), { ...files('space-123', 'none')[0], id: 'none' }]
+
+      const serveCapabilities = (indexed: boolean) => mockRequest.mockImplementation(({ url }: { url: string }) =>
+        Promise.resolve(url.includes('/cloud/capabilities')
+          ? { status: 200, data: { ocs: { data: { capabilities: { search: { property: { 'photo.location': { enabled: indexed } } } } } } } }
+          : { status: 207, data: '' }))
+
+      it('sends the box around a radius and checks the radius on the results', async () => {
+        serveCapabilities(true)
+        const backend = createFakeBackend({ 'space-123': items })
+        search = useAdvancedSearch({ backend })
+        search.updatePhotoFilters({ location: { type: 'radius', latitude: 41.3784, longitude: 2.1925, radiusKm: 10 } })
+
+        await search.executeSearch()
+        expect(backend.requests[0].query).toContain('photo.location.latitude>=')
+        expect(search.state.results?.items.map(i => i.id)).toEqual(['center'])
+        expect(search.state.results?.totalCount).toBe(1)
+      })
+
+      it('filters on the results when the server has no location index', async () => {
+        serveCapabilities(false)
+        const backend = createFakeBackend({ 'space-123': items })
+        search = useAdvancedSearch({ backend })
+        search.updatePhotoFilters({ location: { type: 'box', north: 42, south: 41, east: 3, west: 2 } })
+        search.toggleFilterNegation('location')
+
+        await search.executeSearch()
+        expect(backend.requests[0].query).toBe('*')
+        expect(search.kqlQuery.value).toContain('NOT ((photo.location.latitude')
+        expect(search.state.results?.items.map(i => i.id)).toEqual(['none'])
+
+        const matches = await search.findMatches(search.state.filters)
+        expect(backend.requests[1].query).toBe('*')
+        expect(matches.items.map(i => i.id)).toEqual(['none'])
+        expect(mockRequest.mock.calls.filter(([request]) => request.url.includes('/cloud/capabilities'))).toHaveLength(1)
+      })
+    })
+
+    it('re-runs the search when the sort changes and the server sorts', async () => {
+      const backend = createFakeBackend({ 'space-123': files('space-123', 'c', 'a', 'b') }, { sortByName: true })
+      search = useAdvancedSearch({ backend })
+      search.pageSize.value = 2
+      search.setSort({ field: 'name', direction: 'asc' })
+
+      await search.executeSearch()
+      expect(backend.requests).toHaveLength(1)
+      search.setSort({ field: 'name', direction: 'desc' })
+      await vi.waitFor(() => expect(search.state.loading).toBe(false))
+      expect(backend.requests).toHaveLength(2)
+      expect(backend.requests[1]).toMatchObject({ offset: 0, sort: { field: 'name', direction: 'desc' } })
+      expect(search.state.results?.items.map(i => i.name)).toEqual(['c', 'b'])
+    })
+
+    it('only re-sorts locally when the server does not sort', async () => {
+      const backend = createFakeBackend({ 'space-123': files('space-123', 'c', 'a', 'b') })
+      search = useAdvancedSearch({ backend })
+      search.pageSize.value = 2
+      search.setSort({ field: 'name', direction: 'asc' })
+
+      await search.executeSearch()
+      search.setSort({ field: 'name', direction: 'desc' })
+      expect(backend.requests).toHaveLength(1)
+      expect(search.sortedItems.value.map(i => i.name)).toEqual(['c', 'a'])
+    })
+  })
+
+  describe('findMatches', () => {
+    it('runs filters in the background without touching the current search', async () => {
+      mockSpaces.push({ id: 'project-1', name: 'Marketing', driveType: 'project' })
+      const backend = createFakeBackend({
+        'space-123': files('space-123', 'a', 'b', 'c'),
+        'project-1': files('project-1', 'd'),
+      })
+      search = useAdvancedSearch({ backend })
+      search.state.filters.term = 'current'
+
+      const matches = await search.findMatches({ ...search.state.filters, term: 'invoice' }, 2)
+      expect(matches).toMatchObject({ complete: true })
+      expect(matches.items.map(i => i.id)).toEqual(['space-123-a', 'space-123-b', 'space-123-c', 'project-1-d'])
+      expect(backend.requests[0]).toMatchObject({ query: 'name:*invoice*', limit: 2, sort: { field: 'mtime', direction: 'desc' } })
+      expect(backend.requests.filter(r => r.space.id === 'space-123').map(r => r.offset)).toEqual([0, 2])
+      expect(search.state.results).toBeNull()
+      expect(search.state.filters.term).toBe('current')
+    })
+
+    it('pages servers that ignore the offset with a growing limit', async () => {
+      const backend = createFakeBackend({ 'space-123': files('space-123', 'a', 'b', 'c') }, { ignoreOffset: true })
+      search = useAdvancedSearch({ backend })
+
+      const matches = await search.findMatches(search.state.filters, 2)
+      expect(matches).toMatchObject({ complete: true })
+      expect(matches.items.map(i => i.id)).toEqual(['space-123-a', 'space-123-b', 'space-123-c'])
+    })
+
+    it('stops paging a space at the match limit and reports an incomplete run', async () => {
+      const names = Array.from({ length: 1001 }, (_, i) => `f${i}`)
+      const backend = createFakeBackend({ 'space-123': files('space-123', ...names) })
+      search = useAdvancedSearch({ backend })
+
+      const matches = await search.findMatches(search.state.filters, 500)
+      expect(matches.complete).toBe(false)
+      expect(matches.items).toHaveLength(1000)
+      expect(backend.requests).toHaveLength(2)
+    })
+
+    it('fails when a space fails', async () => {
+      const backend = createFakeBackend({})
+      backend.search = () => Promise.reject({ response: { status: 500 } })
+      search = useAdvancedSearch({ backend })
+      await expect(search.findMatches(search.state.filters)).rejects.toEqual({ response: { status: 500 } })
+    })
   })
 
   describe('loadMore', () => {
@@ -455,6 +890,20 @@ describe('useAdvancedSearch', () => {
       // Should not change page since loading
       expect(search.state.results?.currentPage).toBe(0)
     })
+
+    it('flags the next page as loading more', async () => {
+      const backend = createFakeBackend({ 'space-123': files('space-123', 'a', 'b', 'c') })
+      search = useAdvancedSearch({ backend })
+      search.pageSize.value = 2
+      await search.executeSearch()
+      expect(search.loadingMore.value).toBe(false)
+
+      const loading = search.loadMore()
+      expect(search.loadingMore.value).toBe(true)
+      await loading
+      expect(search.loadingMore.value).toBe(false)
+      expect(search.state.results?.items).toHaveLength(3)
+    })
   })
 
   describe('fetchCameraMakes', () => {
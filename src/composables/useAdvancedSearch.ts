@@ -1,151 +1,131 @@
 /**
  * Composable for advanced search functionality
- * Handles KQL query building and search execution via WebDAV REPORT
+ * Handles KQL query building and search execution through a SearchBackend
+ * (WebDAV REPORT by default, see src/backends/)
  */
 
 import { ref, computed, reactive, onUnmounted, getCurrentInstance } from 'vue'
 import { useClientService, useConfigStore, useSpacesStore } from '@ownclouders/web-pkg'
 import type { Resource, SpaceResource } from '@ownclouders/web-client'
 import type {
+  SearchBackend,
+  SearchBackendPage,
+  SearchResource,
   SearchFilters,
   AdvancedSearchState,
   ActiveFilter,
+  FilterMatchMode,
   SortConfig,
   ResultViewMode,
+  SpaceSearchError,
+  SearchScope,
+  SearchScopeTarget,
 } from '../types'
 import { createEmptyFilters, createEmptyResults } from '../types'
-import {
-  escapeXML,
-  buildStandardKQL,
-  buildPhotoKQL,
-} from '../utils/kql'
+import { appendKqlClause, buildKQL, kqlToFilters } from '../utils/kql'
+import { KqlSyntaxError } from '../utils/kqlParser'
 import { formatBytes } from '../utils/format'
+import { formatCoordinates } from '../utils/geoMap'
+import { filterByLocation, isLocationIndexed, planLocationFilter } from '../utils/locationFilter'
+import { getSearchableSpaces } from '../utils/spaces'
+import {
+  createPagingState,
+  getPageRequest,
+  isOffsetIgnored,
+  applyPage,
+  sumTotals,
+} from '../utils/paging'
+import type { SpacePagingState, PageRequest } from '../utils/paging'
+import { getActiveScopeTarget, addScopeToKql, filterByScope, normalizeFolderPath } from '../utils/scope'
+import { DEFAULT_SORT, sortResources, isSortedByPrimary } from '../utils/sort'
+import { createDavSearchBackend } from '../backends/davSearchBackend'
+import { createGraphSearchBackend } from '../backends/graphSearchBackend'
 import { useTranslations } from './useTranslations'
 
 /**
- * Parse WebDAV REPORT search response XML into Resource objects.
- *
- * The oCIS search API returns XML in WebDAV multistatus format:
- * <d:multistatus>
- *   <d:response>
- *     <d:href>/dav/spaces/space-id/path/to/file.pdf</d:href>
- *     <d:propstat>
- *       <d:prop>
- *         <d:displayname>file.pdf</d:displayname>
- *         <d:getcontenttype>application/pdf</d:getcontenttype>
- *         ...
- *       </d:prop>
- *     </d:propstat>
- *   </d:response>
- * </d:multistatus>
- *
- * @param xmlText - Raw XML response from WebDAV REPORT request
- * @param spaceId - The space ID used in the request (for path extraction)
- * @param driveAlias - Drive alias for navigation (e.g., "personal/admin")
- * @returns Array of Resource objects ready for display
- * @throws Error if XML is malformed or contains parser errors
+ * What a search backend turned out to support, learned from its responses
  */
-function parseSearchResponse(xmlText: string, spaceId: string, driveAlias: string): Resource[] {
-  // Pre-validate that response looks like XML
-  const trimmed = xmlText.trim()
-  if (!trimmed.startsWith('<?xml') && !trimmed.startsWith('<')) {
-    throw new Error('Invalid response: expected XML but received non-XML content')
-  }
+interface BackendSupport {
+  /** Accepts `scope:` in queries; cleared the first time a scoped query is rejected */
+  scope: boolean
+  /** Orders results by the requested sort key; unknown until a full first page was checked */
+  sort: boolean | null
+}
 
-  const parser = new DOMParser()
-  const doc = parser.parseFromString(xmlText, 'application/xml')
+// Shared across composable instances, by backend ID
+const backendSupport = new Map<string, BackendSupport>()
 
-  // DOMParser doesn't throw on invalid XML - check for parsererror element instead
-  const parserError = doc.querySelector('parsererror')
+function getBackendSupport(backend: SearchBackend): BackendSupport {
+  let support = backendSupport.get(backend.id)
+  if (!support) {
+    support = { scope: true, sort: null }
+    backendSupport.set(backend.id, support)
+  }
+  return support
+}
 
-  // Also verify we got the expected WebDAV multistatus root element
-  const multistatus = doc.getElementsByTagNameNS('DAV:', 'multistatus')[0]
+/**
+ * One page of one space's results
+ */
+/**
+ * Matches of a query run in the background (see findMatches)
+ */
+export interface QueryMatches {
+  items: SearchResource[]
+  /** Every match was fetched; false when a space had more than MAX_BACKGROUND_MATCHES */
+  complete: boolean
+}
 
-  if (parserError || !multistatus) {
-    throw new Error(`XML parsing failed: ${parserError?.textContent?.slice(0, 100) || 'Unexpected response format (not a WebDAV multistatus)'}`)
-  }
+// Matches fetched per space by a background run
+const MAX_BACKGROUND_MATCHES = 1000
 
-  const responses = doc.getElementsByTagNameNS('DAV:', 'response')
-  const items: Resource[] = []
-  let skippedCount = 0
-
-  for (let i = 0; i < responses.length; i++) {
-    const response = responses[i]
-    const href = response.getElementsByTagNameNS('DAV:', 'href')[0]?.textContent
-
-    // href is required - skip malformed response entries
-    if (!href) {
-      skippedCount++
-      continue
-    }
-
-    // Extract standard WebDAV properties
-    const displayname = response.getElementsByTagNameNS('DAV:', 'displayname')[0]?.textContent || ''
-    const contentType = response.getElementsByTagNameNS('DAV:', 'getcontenttype')[0]?.textContent || ''
-    const contentLength = response.getElementsByTagNameNS('DAV:', 'getcontentlength')[0]?.textContent || '0'
-    const lastModified = response.getElementsByTagNameNS('DAV:', 'getlastmodified')[0]?.textContent || ''
-
-    // Extract ownCloud-specific properties (oc: namespace)
-    const fileId = response.getElementsByTagNameNS('http://owncloud.org/ns', 'fileid')[0]?.textContent || ''
-    const parentId = response.getElementsByTagNameNS('http://owncloud.org/ns', 'file-parent')[0]?.textContent || ''
-
-    // Extract file path from href by removing the WebDAV space prefix.
-    // Server may return spaceId URL-encoded or not, so check both formats.
-    const spacePrefix = `/dav/spaces/${spaceId}`
-    const encodedSpacePrefix = `/dav/spaces/${encodeURIComponent(spaceId)}`
-    let path = href
-    if (href.startsWith(spacePrefix)) {
-      path = decodeURIComponent(href.substring(spacePrefix.length))
-    } else if (href.startsWith(encodedSpacePrefix)) {
-      path = decodeURIComponent(href.substring(encodedSpacePrefix.length))
-    }
-
-    // Folders have special MIME type or trailing slash
-    const isFolder = contentType === 'httpd/unix-directory' || href.endsWith('/')
-
-    // Fallback: extract filename from path if displayname element is empty
-    const pathParts = path.split('/')
-    const nameFromPath = pathParts.length > 0 ? pathParts[pathParts.length - 1] : ''
-
-    items.push({
-      // Generate synthetic ID if server doesn't return fileid
-      id: fileId || `${spaceId}!${path}`,
-      fileId,
-      name: displayname || nameFromPath || 'Unknown',
-      path: path,
-      webDavPath: href,
-      mimeType: contentType,
-      size: parseInt(contentLength, 10) || 0,
-      mdate: lastModified,
-      type: isFolder ? 'folder' : 'file',
-      isFolder,
-      // Required fields for Resource type compatibility
-      etag: '',
-      permissions: '',
-      starred: false,
-      spaceId: spaceId,
-      driveAlias: driveAlias,
-      parentId: parentId,
-    } as Resource)
-  }
+interface SpacePage extends SearchBackendPage {
+  request: PageRequest
+}
 
-  if (skippedCount > 0 && typeof console !== 'undefined') {
-    console.warn(`[parseSearchResponse] Skipped ${skippedCount} items with missing href`)
-  }
+/**
+ * Paging progress of the current search across its spaces
+ */
+interface PagingSession {
+  spaces: SpaceResource[]
+  states: Map<string, SpacePagingState>
+  /** Keys of all results received, for de-duplication */
+  seen: Set<string>
+}
 
-  return items
+export interface AdvancedSearchOptions {
+  /**
+   * Search transport: 'dav' (WebDAV REPORT, default), 'graph' (libre-graph
+   * search endpoint) or any SearchBackend (e.g. a fake in tests)
+   */
+  backend?: 'dav' | 'graph' | SearchBackend
+  /** Properties to request, as DAV property registry names (default: all) */
+  properties?: string[]
 }
 
 /**
  * Main advanced search composable
  */
-export function useAdvancedSearch() {
+export function useAdvancedSearch(options: AdvancedSearchOptions = {}) {
   // Get services from web-pkg
   const clientService = useClientService()
   const configStore = useConfigStore()
   const spacesStore = useSpacesStore()
   const { $gettext } = useTranslations()
 
+  const backend = resolveBackend(options.backend)
+
+  function resolveBackend(choice: AdvancedSearchOptions['backend'] = 'dav'): SearchBackend {
+    if (typeof choice === 'object') return choice
+    const backendOptions = {
+      http: clientService.httpAuthenticated,
+      getServerUrl: () => (configStore.serverUrl || '').replace(/\/$/, ''),
+      getDriveAlias: (spaceId: string) =>
+        (spacesStore.spaces as SpaceResource[]).find(s => s?.id === spaceId)?.driveAlias,
+    }
+    return choice === 'graph' ? createGraphSearchBackend(backendOptions) : createDavSearchBackend(backendOptions)
+  }
+
   // Reactive state
   const state = reactive<AdvancedSearchState>({
     filters: createEmptyFilters(),
@@ -153,19 +133,25 @@ export function useAdvancedSearch() {
     loading: false,
     error: null,
     kqlQuery: '',
+    kqlError: null,
     viewMode: 'list',
-    sort: { field: 'mtime', direction: 'desc' },
+    sort: { ...DEFAULT_SORT },
   })
 
   // Page size for pagination
   const pageSize = ref(100)
 
+  // A further page is being fetched (the loaded results stay)
+  const loadingMore = ref(false)
+
   // Request timeout in milliseconds (30 seconds)
   const REQUEST_TIMEOUT_MS = 30000
 
   // AbortController for cancelling in-flight requests
   let currentAbortController: AbortController | null = null
   let currentTimeoutId: ReturnType<typeof setTimeout> | null = null
+  // Where each space's results continue (set by the first page, advanced by loadMore)
+  let paging: PagingSession | null = null
 
   // Clean up on component unmount to prevent memory leaks and orphaned requests
   // Only register if we're inside a component context (not in tests)
@@ -182,17 +168,17 @@ export function useAdvancedSearch() {
     })
   }
 
+  /**
+   * Results in display order (see utils/sort.ts)
+   */
+  const sortedItems = computed<SearchResource[]>(() =>
+    state.results ? sortResources(state.results.items as SearchResource[], state.sort) : []
+  )
+
   /**
    * Build KQL query string from current filters
    */
-  const buildKQLQuery = computed(() => {
-    const { standard, photo, term } = state.filters
-    const parts = [
-      ...buildStandardKQL(standard, term || ''),
-      ...buildPhotoKQL(photo)
-    ]
-    return parts.length > 0 ? parts.join(' AND ') : '*'
-  })
+  const buildKQLQuery = computed(() => buildKQL(state.filters))
 
   /**
    * Get list of active filters for display as chips
@@ -201,6 +187,21 @@ export function useAdvancedSearch() {
     const filters: ActiveFilter[] = []
     const { standard, photo, term } = state.filters
 
+    // Scope (space or folder)
+    const scopeTarget = getActiveScopeTarget(state.filters)
+    if (scopeTarget) {
+      const space = (spacesStore.spaces as SpaceResource[]).find(s => s?.id === scopeTarget.spaceId)
+      const spaceName = space?.name || scopeTarget.spaceId
+      const isFolder = state.filters.scope === 'currentFolder'
+      filters.push({
+        id: 'scope',
+        label: isFolder ? $gettext('Folder') : $gettext('Space'),
+        field: 'scope',
+        value: isFolder ? `${spaceName}: ${normalizeFolderPath(scopeTarget.path)}` : spaceName,
+        category: 'standard',
+      })
+    }
+
     // Text term
     if (term && term.trim()) {
       filters.push({
@@ -285,6 +286,16 @@ export function useAdvancedSearch() {
       })
     }
 
+    if (standard.path) {
+      filters.push({
+        id: 'path',
+        label: $gettext('Folder'),
+        field: 'path',
+        value: standard.path,
+        category: 'standard',
+      })
+    }
+
     // Photo filters
     if (photo.cameraMake) {
       filters.push({
@@ -346,9 +357,54 @@ export function useAdvancedSearch() {
       })
     }
 
-    return filters
+    if (photo.location) {
+      const location = photo.location
+      filters.push({
+        id: 'location',
+        label: $gettext('Location'),
+        field: 'photo.location',
+        value: location.type === 'box'
+          ? `${formatCoordinates({ latitude: location.south, longitude: location.west })} – ${formatCoordinates({ latitude: location.north, longitude: location.east })}`
+          : $gettext('%{radius} km around %{point}')
+            .replace('%{radius}', location.radiusKm.toLocaleString(undefined, { maximumFractionDigits: 1 }))
+            .replace('%{point}', formatCoordinates(location)),
+        category: 'photo',
+      })
+    }
+
+    // KQL clauses that couldn't be mapped onto a filter field
+    if (state.filters.raw) {
+      filters.push({
+        id: 'raw',
+        label: $gettext('KQL'),
+        field: 'kql',
+        value: state.filters.raw,
+        category: 'text',
+      })
+    }
+
+    const negated = state.filters.negated || []
+    return filters.map(filter => negated.includes(filter.id) ? { ...filter, negated: true } : filter)
   })
 
+  // Whether the server indexes GPS locations (search capabilities), loaded when first needed
+  let locationIndexed: Promise<boolean> | null = null
+
+  function isLocationSearchable(): Promise<boolean> {
+    if (!locationIndexed) {
+      const serverUrl = (configStore.serverUrl || '').replace(/\/$/, '')
+      locationIndexed = clientService.httpAuthenticated
+        .request({ method: 'GET', url: `${serverUrl}/ocs/v1.php/cloud/capabilities?format=json` })
+        .then(response => isLocationIndexed(response.data))
+        .catch(err => {
+          // Location filters still work, on the results
+          console.warn('[Search] Failed to load the search capabilities:', err)
+          return false
+        })
+    }
+    return locationIndexed
+  }
+
   /**
    * Execute search with current filters using WebDAV REPORT
    */
@@ -378,67 +434,166 @@ export function useAdvancedSearch() {
     state.kqlQuery = buildKQLQuery.value
 
     try {
-      const serverUrl = (configStore.serverUrl || '').replace(/\/$/, '')
-
-      // Get the personal space (or first available space)
-      const spaces = spacesStore.spaces as SpaceResource[]
-      const personalSpace = spaces.find((s: SpaceResource) => s.driveType === 'personal') || spaces[0]
+      const allSpaces = spacesStore.spaces as SpaceResource[]
+      const scopeTarget = getActiveScopeTarget(state.filters)
+
+      // Later pages continue the spaces of the first one
+      const continuing = page > 0 && paging !== null
+      let spaces: SpaceResource[]
+      if (continuing) {
+        spaces = paging!.spaces
+      } else if (scopeTarget) {
+        // A scoped search only goes to the space it is restricted to
+        const scopeSpace = allSpaces.find(s => s?.id === scopeTarget.spaceId)
+        if (!scopeSpace) {
+          throw new Error($gettext('The selected space is no longer available'))
+        }
+        spaces = [scopeSpace]
+      } else {
+        // Fan out to every space the user can access (personal, projects, shares)
+        spaces = getSearchableSpaces(allSpaces)
+      }
 
-      if (!personalSpace) {
+      if (spaces.length === 0) {
         throw new Error($gettext('No space available for search'))
       }
 
-      const spaceId = personalSpace.id
-      const driveAlias = personalSpace.driveAlias || 'personal/home'
+      const session: PagingSession = continuing
+        ? { spaces, states: new Map(paging!.states), seen: new Set(paging!.seen) }
+        : { spaces, states: new Map(spaces.map(s => [s.id, createPagingState(s.id)])), seen: new Set() }
 
       const limit = pageSize.value
-      const pattern = state.kqlQuery
-
-      // Build WebDAV REPORT search request
-      // Pattern must be XML-escaped since KQL can contain < > (comparison operators)
-      const searchBody = `<?xml version="1.0" encoding="UTF-8"?>
-<oc:search-files xmlns:oc="http://owncloud.org/ns" xmlns:d="DAV:">
-  <oc:search>
-    <oc:pattern>${escapeXML(pattern)}</oc:pattern>
-    <oc:limit>${limit}</oc:limit>
-  </oc:search>
-  <d:prop>
-    <d:displayname/>
-    <d:getcontenttype/>
-    <d:getcontentlength/>
-    <d:getlastmodified/>
-    <oc:fileid/>
-    <oc:file-parent/>
-    <oc:photo-taken-date-time/>
-    <oc:photo-camera-make/>
-    <oc:photo-camera-model/>
-  </d:prop>
-</oc:search-files>`
-
-      const response = await clientService.httpAuthenticated.request({
-        method: 'REPORT',
-        url: `${serverUrl}/dav/spaces/${encodeURIComponent(spaceId)}`,
-        headers: {
-          'Content-Type': 'application/xml'
-        },
-        data: searchBody,
-        signal: abortSignal
-      })
+      const sort = { field: state.sort.field, direction: state.sort.direction }
+
+      // Servers without a location index get the query without it (see utils/locationFilter.ts)
+      const locationPlan = planLocationFilter(
+        state.filters,
+        state.filters.photo.location ? await isLocationSearchable() : false
+      )
+      const serverQuery = buildKQL(locationPlan.serverFilters)
+
+      // Server-side scope: the folder's resource ID, or the space root for space scope
+      const serverScope = scopeTarget && {
+        ...scopeTarget,
+        fileId: scopeTarget.fileId || (state.filters.scope === 'space' ? spaces[0].fileId : undefined),
+      }
+      const support = getBackendSupport(backend)
+
+      const sendSearch = async (space: SpaceResource, query: string, request: PageRequest): Promise<SpacePage> => {
+        const result = await backend.search({
+          space,
+          query,
+          ...request,
+          sort,
+          properties: options.properties,
+          signal: abortSignal,
+        })
+        return { request, ...result }
+      }
 
-      // Clear timeout on successful response
+      const searchSpace = async (space: SpaceResource, request: PageRequest): Promise<SpacePage> => {
+        const query = serverQuery
+        if (!serverScope?.fileId || !support.scope) {
+          return sendSearch(space, query, request)
+        }
+        try {
+          return await sendSearch(space, addScopeToKql(query, serverScope), request)
+        } catch (err) {
+          // Server rejects scope: KQL - fall back to client-side filtering from now on
+          if ((err as { response?: { status?: number } })?.response?.status !== 400) throw err
+          support.scope = false
+          return sendSearch(space, query, request)
+        }
+      }
+
+      // Request the next page of a space; a server that ignores the offset
+      // is asked again with a bigger limit (cursor mode)
+      const fetchPage = async (space: SpaceResource, pagingState: SpacePagingState, request: PageRequest) => {
+        const result = await searchSpace(space, request)
+        if (!isOffsetIgnored(request, result.items, session.seen)) {
+          return { pagingState, result }
+        }
+        const cursorState = { ...pagingState, offsetSupported: false }
+        return { pagingState: cursorState, result: await searchSpace(space, getPageRequest(cursorState, limit)!) }
+      }
+
+      const pending = spaces
+        .map(space => ({ space, pagingState: session.states.get(space.id)! }))
+        .map(entry => ({ ...entry, request: getPageRequest(entry.pagingState, limit) }))
+        .filter((entry): entry is { space: SpaceResource; pagingState: SpacePagingState; request: PageRequest } => entry.request !== null)
+
+      // One failing space must not fail the whole search
+      const outcomes = await Promise.allSettled(
+        pending.map(({ space, pagingState, request }) => fetchPage(space, pagingState, request))
+      )
+
+      // Clear timeout once all spaces have answered
       if (currentTimeoutId) {
         clearTimeout(currentTimeoutId)
         currentTimeoutId = null
       }
 
-      const xmlText = typeof response.data === 'string' ? response.data : new XMLSerializer().serializeToString(response.data)
-      const items = parseSearchResponse(xmlText, spaceId, driveAlias)
+      // Superseded by a newer search
+      if (abortSignal.aborted && !timedOut) {
+        return
+      }
+
+      // Nothing succeeded: report it like a single failed search
+      if (outcomes.length > 0 && outcomes.every(outcome => outcome.status === 'rejected')) {
+        throw (outcomes[0] as PromiseRejectedResult).reason
+      }
+
+      // Apply pages in space order, so de-duplication keeps the same copy every time
+      const fresh: Resource[] = []
+      const fullPages: Resource[][] = []
+      const spaceErrors: SpaceSearchError[] = []
+      outcomes.forEach((outcome, i) => {
+        const { space } = pending[i]
+        if (outcome.status === 'rejected') {
+          spaceErrors.push({
+            spaceId: space.id,
+            spaceName: space.name || space.driveAlias || space.id,
+            message: timedOut ? $gettext('Timed out') : describeSearchError(outcome.reason),
+          })
+          // A space that fails on the first page is left out; later pages can be retried
+          if (!continuing) {
+            session.states.delete(space.id)
+          }
+          return
+        }
+        const { pagingState, result } = outcome.value
+        if (result.items.length === result.request.limit) fullPages.push(result.items)
+        const applied = applyPage(pagingState, result.request, result.items, result.total, session.seen)
+        session.states.set(space.id, applied.state)
+        fresh.push(...applied.items)
+      })
+      session.spaces = spaces.filter(space => session.states.has(space.id))
+      paging = session
+
+      // A full page in the requested order means the server sorts (by chance is unlikely)
+      if (support.sort === null && fullPages.length > 0) {
+        support.sort = fullPages.every(items => isSortedByPrimary(items, sort))
+      }
+
+      // Client-side scope filtering (the server may not have applied scope:)
+      const clientScoped = !!scopeTarget && (!serverScope?.fileId || !support.scope)
+      const scopedItems = scopeTarget ? filterByScope(fresh, scopeTarget) : fresh
+      const clientLocation = locationPlan.client
+      const pageItems = clientLocation
+        ? filterByLocation(scopedItems, clientLocation.filter, clientLocation.negated)
+        : scopedItems
+      const items = continuing ? [...(state.results?.items || []), ...pageItems] : pageItems
+      const pagingStates = [...session.states.values()]
+      const hasMore = pagingStates.some(s => !s.exhausted)
+      // Server totals don't account for results dropped by client-side filtering
+      const total = clientScoped || clientLocation ? null : sumTotals(pagingStates)
 
       state.results = {
-        totalCount: items.length,
-        items: page === 0 ? items : [...(state.results?.items || []), ...items],
-        hasMore: items.length === limit,
+        totalCount: hasMore ? total : items.length,
+        items,
+        hasMore,
         currentPage: page,
+        ...(spaceErrors.length > 0 && { spaceErrors }),
       }
     } catch (err: unknown) {
       // Clear timeout on error
@@ -463,30 +618,35 @@ export function useAdvancedSearch() {
         return
       }
 
-      const error = err as { response?: { status?: number; data?: unknown }; code?: string; message?: string }
-      const status = error.response?.status
-
-      // Specific HTTP error handling
-      if (status === 503) {
-        state.error = $gettext('The search service is temporarily unavailable (503 Service Unavailable). The service may be starting up or under maintenance.')
-      } else if (status === 502) {
-        state.error = $gettext('The search service is not responding (502 Bad Gateway). Please try again in a moment.')
-      } else if (status === 500) {
-        state.error = $gettext('The search service encountered an error (500 Internal Server Error). Please try again.')
-      } else if (status === 401 || status === 403) {
-        state.error = $gettext('Authentication error (401 Unauthorized). Your session may have expired.')
-      } else if (error.code === 'ECONNREFUSED' || error.message?.includes('Network') || error.message?.includes('network')) {
-        state.error = $gettext('Unable to connect to the server. Please check your network connection.')
-      } else {
-        state.error = error.message || $gettext('Search failed. Please try again.')
-      }
-
+      state.error = describeSearchError(err)
       state.results = createEmptyResults()
     } finally {
       state.loading = false
     }
   }
 
+  /**
+   * Turn a failed search request into a user-facing message
+   */
+  function describeSearchError(err: unknown): string {
+    const error = (err || {}) as { response?: { status?: number; data?: unknown }; code?: string; message?: string }
+    const status = error.response?.status
+
+    // Specific HTTP error handling
+    if (status === 503) {
+      return $gettext('The search service is temporarily unavailable (503 Service Unavailable). The service may be starting up or under maintenance.')
+    } else if (status === 502) {
+      return $gettext('The search service is not responding (502 Bad Gateway). Please try again in a moment.')
+    } else if (status === 500) {
+      return $gettext('The search service encountered an error (500 Internal Server Error). Please try again.')
+    } else if (status === 401 || status === 403) {
+      return $gettext('Authentication error (401 Unauthorized). Your session may have expired.')
+    } else if (error.code === 'ECONNREFUSED' || error.message?.includes('Network') || error.message?.includes('network')) {
+      return $gettext('Unable to connect to the server. Please check your network connection.')
+    }
+    return error.message || $gettext('Search failed. Please try again.')
+  }
+
   /**
    * Load next page of results
    */
@@ -494,7 +654,83 @@ export function useAdvancedSearch() {
     if (!state.results || !state.results.hasMore || state.loading) {
       return
     }
-    await executeSearch(state.results.currentPage + 1)
+    loadingMore.value = true
+    try {
+      await executeSearch(state.results.currentPage + 1)
+    } finally {
+      loadingMore.value = false
+    }
+  }
+
+  /**
+   * Run a query in the background (saved-search alerts) without touching the
+   * current search: all matches of every space searched, page by page, up to
+   * MAX_BACKGROUND_MATCHES per space. Fails if any space fails, so callers
+   * never see a partial result.
+   */
+  async function findMatches(filters: SearchFilters, limit = pageSize.value): Promise<QueryMatches> {
+    const allSpaces = spacesStore.spaces as SpaceResource[]
+    const scopeTarget = getActiveScopeTarget(filters)
+    const spaces = scopeTarget
+      ? allSpaces.filter(s => s?.id === scopeTarget.spaceId)
+      : getSearchableSpaces(allSpaces)
+    if (spaces.length === 0) {
+      throw new Error(scopeTarget
+        ? $gettext('The selected space is no longer available')
+        : $gettext('No space available for search'))
+    }
+
+    const locationPlan = planLocationFilter(filters, filters.photo.location ? await isLocationSearchable() : false)
+    const query = buildKQL(locationPlan.serverFilters)
+    const support = getBackendSupport(backend)
+    const serverScope = scopeTarget && {
+      ...scopeTarget,
+      fileId: scopeTarget.fileId || (filters.scope === 'space' ? spaces[0].fileId : undefined),
+    }
+    const sort = { field: 'mtime', direction: 'desc' } as const
+
+    const searchSpace = async (space: SpaceResource, request: PageRequest): Promise<SearchBackendPage> => {
+      const base = { space, ...request, sort, properties: options.properties }
+      if (serverScope?.fileId && support.scope) {
+        try {
+          return await backend.search({ ...base, query: addScopeToKql(query, serverScope) })
+        } catch (err) {
+          if ((err as { response?: { status?: number } })?.response?.status !== 400) throw err
+          support.scope = false
+        }
+      }
+      return backend.search({ ...base, query })
+    }
+
+    // Page through a space like loadMore does, switching to cursor mode when
+    // the server ignores the offset
+    const matchSpace = async (space: SpaceResource): Promise<QueryMatches> => {
+      let pagingState = createPagingState(space.id)
+      const seen = new Set<string>()
+      const items: Resource[] = []
+      for (let request = getPageRequest(pagingState, limit); request; request = getPageRequest(pagingState, limit)) {
+        if (items.length >= MAX_BACKGROUND_MATCHES) return { items: items as SearchResource[], complete: false }
+        let page = await searchSpace(space, request)
+        if (isOffsetIgnored(request, page.items, seen)) {
+          pagingState = { ...pagingState, offsetSupported: false }
+          request = getPageRequest(pagingState, limit)!
+          page = await searchSpace(space, request)
+        }
+        const applied = applyPage(pagingState, request, page.items, page.total, seen)
+        pagingState = applied.state
+        items.push(...applied.items)
+      }
+      return { items: items as SearchResource[], complete: true }
+    }
+
+    const results = await Promise.all(spaces.map(matchSpace))
+    const items = results.flatMap(result => result.items)
+    const scoped = scopeTarget ? filterByScope(items, scopeTarget) : items
+    const clientLocation = locationPlan.client
+    return {
+      items: clientLocation ? filterByLocation(scoped, clientLocation.filter, clientLocation.negated) : scoped,
+      complete: results.every(result => result.complete),
+    }
   }
 
   /**
@@ -503,7 +739,9 @@ export function useAdvancedSearch() {
   function clearFilters(): void {
     state.filters = createEmptyFilters()
     state.results = null
+    paging = null
     state.kqlQuery = ''
+    state.kqlError = null
   }
 
   // Filter registry: maps filter ID to reset action
@@ -516,12 +754,16 @@ export function useAdvancedSearch() {
     size: () => { state.filters.standard.sizeRange = undefined },
     mtime: () => { state.filters.standard.modifiedRange = undefined },
     content: () => { state.filters.standard.content = undefined },
+    path: () => { state.filters.standard.path = undefined },
     cameraMake: () => { state.filters.photo.cameraMake = undefined },
     cameraModel: () => { state.filters.photo.cameraModel = undefined },
     takenDate: () => { state.filters.photo.takenDateRange = undefined },
     iso: () => { state.filters.photo.isoRange = undefined },
     fNumber: () => { state.filters.photo.fNumberRange = undefined },
     focalLength: () => { state.filters.photo.focalLengthRange = undefined },
+    location: () => { state.filters.photo.location = undefined },
+    raw: () => { state.filters.raw = undefined },
+    scope: () => { setScope('allFiles') },
   }
 
   /**
@@ -529,6 +771,45 @@ export function useAdvancedSearch() {
    */
   function removeFilter(filterId: string): void {
     filterResetRegistry[filterId]?.()
+    setFilterNegated(filterId, false)
+  }
+
+  /**
+   * Mark a filter as excluding (NOT) or requiring its matches.
+   * The search term, raw KQL and the scope can't be negated as a whole.
+   */
+  function setFilterNegated(filterId: string, negated: boolean): void {
+    if (filterId === 'term' || filterId === 'raw' || filterId === 'scope') return
+    const current = (state.filters.negated || []).filter(id => id !== filterId)
+    const next = negated ? [...current, filterId] : current
+    state.filters.negated = next.length > 0 ? next : undefined
+  }
+
+  /**
+   * Toggle whether a filter excludes or requires its matches
+   */
+  function toggleFilterNegation(filterId: string): void {
+    setFilterNegated(filterId, !(state.filters.negated || []).includes(filterId))
+  }
+
+  /**
+   * Set how the non-negated filters are combined (AND for 'all', OR for 'any')
+   */
+  function setMatchMode(mode: FilterMatchMode): void {
+    state.filters.match = mode === 'any' ? 'any' : undefined
+  }
+
+  /**
+   * Restrict the search to a space or folder ('allFiles' searches everywhere)
+   */
+  function setScope(scope: SearchScope, target?: SearchScopeTarget): void {
+    if (scope === 'allFiles' || !target) {
+      state.filters.scope = 'allFiles'
+      state.filters.scopeTarget = undefined
+      return
+    }
+    state.filters.scope = scope
+    state.filters.scopeTarget = { ...target }
   }
 
   /**
@@ -536,13 +817,23 @@ export function useAdvancedSearch() {
    */
   function setViewMode(mode: ResultViewMode): void {
     state.viewMode = mode
+    // The timeline pages through results by date, newest first
+    if (mode === 'timeline' && state.sort.field !== 'takenDateTime' && state.sort.field !== 'mtime') {
+      setSort({ field: 'takenDateTime', direction: 'desc' })
+    }
   }
 
   /**
-   * Set sort configuration
+   * Set sort configuration. Loaded results are re-sorted client-side; when
+   * more pages are pending and the server orders results, the search is
+   * re-run so the pages follow the new order.
    */
   function setSort(sort: SortConfig): void {
+    const primaryChanged = sort.field !== state.sort.field || sort.direction !== state.sort.direction
     state.sort = sort
+    if (primaryChanged && getBackendSupport(backend).sort && state.results?.hasMore) {
+      void executeSearch(0)
+    }
   }
 
   /**
@@ -566,6 +857,15 @@ export function useAdvancedSearch() {
     Object.assign(state.filters.photo, updates)
   }
 
+  /**
+   * AND a KQL clause to the raw KQL filter (e.g. a refinement of the
+   * loaded results that should apply on the server)
+   */
+  function addRawClause(clause: string): void {
+    if (!clause.trim()) return
+    state.filters.raw = appendKqlClause(state.filters.raw, clause.trim())
+  }
+
   /**
    * Fetch camera makes - returns empty, uses static list only
    * TODO: WebDAV doesn't return photo-camera-make property in responses,
@@ -589,303 +889,35 @@ export function useAdvancedSearch() {
    */
   function setKqlQuery(query: string): void {
     state.kqlQuery = query
+    state.kqlError = null
   }
 
-  /**
-   * Maximum recursion depth for KQL parsing.
-   * Prevents stack overflow from maliciously crafted or malformed nested queries.
-   * Value of 10 is generous for legitimate queries (rarely >3 levels deep).
-   */
-  const MAX_KQL_PARSE_DEPTH = 10
-
   /**
    * Parse a KQL query string and populate the filters (reverse of buildKQLQuery).
    *
-   * Algorithm:
-   * 1. Reset all filters to empty state
-   * 2. Split the KQL string by AND operators (respecting parentheses)
-   * 3. Parse each part to extract field:value pairs or range expressions
-   * 4. Map parsed values to corresponding filter fields
+   * The query is parsed into an AST (see utils/kqlParser.ts) and mapped onto
+   * the filter model by kqlToFilters. Clauses without a matching filter field
+   * are kept in `filters.raw`, so nothing is dropped.
    *
-   * Handles: field:value, field>=value, field<=value, (range AND range), nested parentheses
+   * On a syntax error the filters are left unchanged and `state.kqlError`
+   * records the message and character position.
    *
    * @param kql - KQL query string (e.g., "name:*.pdf AND size>=1000")
+   * @returns true if the query was applied
    */
-  function parseKqlToFilters(kql: string): void {
-    state.filters = createEmptyFilters()
-
-    if (!kql || kql === '*') {
-      return
-    }
-
-    // Split by AND while preserving parenthesized expressions as single units
-    const parts = splitKqlParts(kql)
-
-    for (const part of parts) {
-      parseKqlPart(part.trim(), 0)
-    }
-  }
-
-  /**
-   * Split KQL string by AND operators, respecting parentheses.
-   *
-   * Example: "name:foo AND (size>=100 AND size<=1000) AND type:file"
-   * Returns: ["name:foo", "(size>=100 AND size<=1000)", "type:file"]
-   *
-   * The parenthesized range expression is kept together because AND inside
-   * parentheses should not split the expression.
-   *
-   * @param kql - KQL query string
-   * @returns Array of KQL parts to be parsed individually
-   */
-  function splitKqlParts(kql: string): string[] {
-    const parts: string[] = []
-    let current = ''
-    let depth = 0 // Tracks parenthesis nesting depth
-
-    // Split by AND keyword (case-insensitive), capturing the AND token
-    const tokens = kql.split(/\s+(AND)\s+/i)
-
-    for (const token of tokens) {
-      if (token.toUpperCase() === 'AND') {
-        // Only split on AND when at depth 0 (not inside parentheses)
-        if (depth === 0) {
-          if (current.trim()) {
-            parts.push(current.trim())
-          }
-          current = ''
-        } else {
-          // Inside parentheses - keep AND as part of the expression
-          current += ' AND '
-        }
-      } else {
-        // Count parentheses using regex (faster than char-by-char iteration)
-        const openCount = (token.match(/\(/g) || []).length
-        const closeCount = (token.match(/\)/g) || []).length
-        depth += openCount - closeCount
-        current += token
-      }
-    }
-
-    if (current.trim()) {
-      parts.push(current.trim())
-    }
-
-    return parts
-  }
-
-  /**
-   * Parse a single KQL part and update the corresponding filter fields.
-   *
-   * Handles three types of expressions:
-   * 1. Parenthesized: "(expr)" - unwrap and recurse, or detect range pairs
-   * 2. Range comparison: "field>=value" or "field<=value"
-   * 3. Field:value: "name:*.pdf", "mediatype:image/*"
-   * 4. Free text: anything without ":" becomes a search term
-   *
-   * @param part - The KQL part to parse (e.g., "name:foo", "size>=100")
-   * @param depth - Current recursion depth to prevent stack overflow from malformed queries
-   */
-  function parseKqlPart(part: string, depth: number): void {
-    if (depth >= MAX_KQL_PARSE_DEPTH) {
-      console.warn('[useAdvancedSearch] KQL parsing depth limit reached, skipping:', part.slice(0, 50))
-      return
-    }
-
-    // Handle parenthesized expressions - either range pairs or nested queries
-    if (part.startsWith('(') && part.endsWith(')')) {
-      const inner = part.slice(1, -1)
-
-      // Check if this is a range expression like "(size>=100 AND size<=1000)"
-      // Heuristic: if it has AND with exactly 2 parts that are both range
-      // comparisons on the same field, treat as a combined min/max range
-      if (inner.includes(' AND ')) {
-        const rangeParts = inner.split(/\s+AND\s+/i)
-        if (rangeParts.length === 2) {
-          const range1 = parseRangePart(rangeParts[0])
-          const range2 = parseRangePart(rangeParts[1])
-          // Both parts are ranges on the same field = combined range filter
-          if (range1 && range2 && range1.field === range2.field) {
-            applyRangeToFilters(range1.field, range1, range2)
-            return
-          }
-        }
-      }
-
-      // Not a range pair - recursively parse the inner content
-      const subParts = splitKqlParts(inner)
-      for (const subPart of subParts) {
-        parseKqlPart(subPart.trim(), depth + 1)
-      }
-      return
-    }
-
-    // Try to parse as range comparison (field>=value or field<=value)
-    const rangeMatch = parseRangePart(part)
-    if (rangeMatch) {
-      applyRangeToFilters(rangeMatch.field, rangeMatch, null)
-      return
-    }
-
-    // Parse field:value patterns
-    const colonIndex = part.indexOf(':')
-    if (colonIndex === -1) {
-      // Free text search term
-      if (part.trim()) {
-        state.filters.term = (state.filters.term ? state.filters.term + ' ' : '') + part.trim()
-      }
-      return
-    }
-
-    const field = part.substring(0, colonIndex).toLowerCase()
-    let value = part.substring(colonIndex + 1)
-
-    // Remove quotes if present
-    if ((value.startsWith('"') && value.endsWith('"')) ||
-        (value.startsWith("'") && value.endsWith("'"))) {
-      value = value.slice(1, -1)
-    }
-
-    // Unescape KQL escapes
-    value = value.replace(/\\([+\-=&|><!(){}[\]^"~:\\/])/g, '$1')
-
-    // Map field to filter
-    switch (field) {
-      case 'name':
-        state.filters.standard.name = value
-        break
-      case 'type':
-        if (value === '1') state.filters.standard.type = 'file'
-        else if (value === '2') state.filters.standard.type = 'folder'
-        else state.filters.standard.type = value as 'file' | 'folder'
-        break
-      case 'mediatype':
-        state.filters.standard.mediaType = value
-        break
-      case 'tags':
-      case 'tag':
-        // Only add non-empty tag values
-        if (value && value.trim()) {
-          const trimmedValue = value.trim()
-          state.filters.standard.tags = state.filters.standard.tags
-            ? state.filters.standard.tags + ',' + trimmedValue
-            : trimmedValue
-        }
-        break
-      case 'content':
-        state.filters.standard.content = value
-        break
-      case 'photo.cameramake':
-        state.filters.photo.cameraMake = value
-        break
-      case 'photo.cameramodel':
-        state.filters.photo.cameraModel = value
-        break
-      case 'photo.orientation':
-        state.filters.photo.orientation = parseInt(value, 10)
-        break
-      default:
-        // Unknown field - ignore silently
-        break
-    }
-  }
-
-  /**
-   * Parse a range comparison expression (e.g., "size>=100", "mtime<=2024-01-01").
-   *
-   * Regex breakdown: ^([a-z.]+)(>=|<=|>|<)(.+)$
-   * - ([a-z.]+)  = field name (allows dots for photo.iso, photo.fnumber, etc.)
-   * - (>=|<=|>|<) = comparison operator
-   * - (.+)       = value (number or date string)
-   *
-   * @param part - KQL part that might be a range expression
-   * @returns Parsed field/operator/value or null if not a range expression
-   */
-  function parseRangePart(part: string): { field: string; op: string; value: string } | null {
-    const match = part.match(/^([a-z.]+)(>=|<=|>|<)(.+)$/i)
-    if (match) {
-      return {
-        field: match[1].toLowerCase(),
-        op: match[2],
-        value: match[3]
-      }
-    }
-    return null
-  }
-
-  /**
-   * Apply parsed range values to the appropriate filter field.
-   *
-   * Maps KQL field names to filter objects with appropriate type conversions:
-   * - size: parseInt for bytes
-   * - mtime: string for ISO date
-   * - photo.iso: parseInt for numeric ISO
-   * - photo.fnumber, photo.focallength: parseFloat for decimal values
-   *
-   * @param field - KQL field name (e.g., "size", "photo.iso")
-   * @param range1 - First range comparison (always present)
-   * @param range2 - Second range comparison (for combined min/max), or null
-   */
-  function applyRangeToFilters(
-    field: string,
-    range1: { op: string; value: string },
-    range2: { op: string; value: string } | null
-  ): void {
-    const ranges = [range1]
-    if (range2) ranges.push(range2)
-
-    // Extract min and max from the range operators
-    let min: string | number | undefined
-    let max: string | number | undefined
-
-    for (const r of ranges) {
-      if (r.op === '>=' || r.op === '>') {
-        min = r.value
-      } else if (r.op === '<=' || r.op === '<') {
-        max = r.value
+  function parseKqlToFilters(kql: string): boolean {
+    try {
+      // The scope isn't part of the KQL, keep it
+      const { scope, scopeTarget } = state.filters
+      state.filters = { ...kqlToFilters(kql || ''), scope, scopeTarget }
+      state.kqlError = null
+      return true
+    } catch (err) {
+      if (err instanceof KqlSyntaxError) {
+        state.kqlError = { message: err.message, position: err.position }
+        return false
       }
-    }
-
-    switch (field) {
-      case 'size':
-        state.filters.standard.sizeRange = {
-          min: min !== undefined ? parseInt(min as string, 10) : undefined,
-          max: max !== undefined ? parseInt(max as string, 10) : undefined
-        }
-        break
-      case 'mtime':
-        state.filters.standard.modifiedRange = {
-          start: min as string || '',
-          end: max as string || ''
-        }
-        break
-      case 'photo.takendatetime':
-        state.filters.photo.takenDateRange = {
-          start: min as string || '',
-          end: max as string || ''
-        }
-        break
-      case 'photo.iso':
-        state.filters.photo.isoRange = {
-          min: min !== undefined ? parseInt(min as string, 10) : undefined,
-          max: max !== undefined ? parseInt(max as string, 10) : undefined
-        }
-        break
-      case 'photo.fnumber':
-        state.filters.photo.fNumberRange = {
-          min: min !== undefined ? parseFloat(min as string) : undefined,
-          max: max !== undefined ? parseFloat(max as string) : undefined
-        }
-        break
-      case 'photo.focallength':
-        state.filters.photo.focalLengthRange = {
-          min: min !== undefined ? parseFloat(min as string) : undefined,
-          max: max !== undefined ? parseFloat(max as string) : undefined
-        }
-        break
-      default:
-        // Unknown range field - ignore silently
-        break
+      throw err
     }
   }
 
@@ -893,21 +925,29 @@ export function useAdvancedSearch() {
     // State
     state,
     pageSize,
+    loadingMore,
 
     // Computed
     kqlQuery: buildKQLQuery,
     activeFilters,
+    sortedItems,
 
     // Methods
     executeSearch,
     loadMore,
+    findMatches,
     clearFilters,
     removeFilter,
+    setFilterNegated,
+    toggleFilterNegation,
+    setMatchMode,
+    setScope,
     setViewMode,
     setSort,
     updateFilters,
     updateStandardFilters,
     updatePhotoFilters,
+    addRawClause,
     setKqlQuery,
     parseKqlToFilters,
     fetchCameraMakes,
@@ -0,0 +1,273 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { useBulkActions } from './useBulkActions'
+import type { FileOperations, SearchResource } from '../types'
+
+vi.mock('vue3-gettext', () => ({
+  useGettext: () => ({
+    $gettext: (msg: string) => msg,
+    $ngettext: (singular: string, plural: string, n: number) => (n === 1 ? singular : plural),
+    $pgettext: (_context: string, msg: string) => msg,
+  })
+}))
+
+vi.mock('@ownclouders/web-pkg', () => ({
+  useClientService: () => ({ httpAuthenticated: { request: vi.fn() } }),
+  useConfigStore: () => ({ serverUrl: 'https://cloud.example.com/' }),
+  useSpacesStore: () => ({ spaces: [{ id: 's1', name: 'Personal' }, { id: 's2', name: 'Marketing' }] }),
+}))
+
+function resource(id: string, extra: Partial<SearchResource> = {}): SearchResource {
+  return { id, fileId: `s1!${id}`, name: `${id}.txt`, path: `/${id}.txt`, spaceId: 's1', ...extra } as SearchResource
+}
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { response: { status } })
+
+function createOperations(overrides: Partial<FileOperations> = {}): FileOperations {
+  return {
+    id: 'fake',
+    download: vi.fn(async (item: SearchResource) => new Blob([`content of ${item.name}`]).stream()),
+    delete: vi.fn(async () => {}),
+    copy: vi.fn(async () => {}),
+    move: vi.fn(async () => {}),
+    addTags: vi.fn(async () => {}),
+    removeTags: vi.fn(async () => {}),
+    ...overrides,
+  }
+}
+
+/**
+ * File names stored in a ZIP archive (from its local file headers)
+ */
+async function zipEntryNames(file: Blob): Promise<string[]> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  const view = new DataView(bytes.buffer)
+  const names: string[] = []
+  for (let i = 0; i + 30 <= bytes.length; i++) {
+    if (view.getUint32(i, true) !== 0x04034b50) continue
+    const length = view.getUint16(i + 26, true)
+    names.push(new TextDecoder().decode(bytes.slice(i + 30, i + 30 + length)))
+  }
+  return names
+}
+
+/**
+ * Download stream that keeps what is written to it
+ */
+function createDownload() {
+  const parts: Uint8Array[] = []
+  const download = { fileName: '', type: '', closed: false, aborted: false, file: () => new Blob(parts) }
+  const openDownload = vi.fn(async (fileName: string, type: string) => {
+    Object.assign(download, { fileName, type })
+    return new WritableStream<Uint8Array>({
+      write(chunk) { parts.push(chunk) },
+      close() { download.closed = true },
+      abort() { download.aborted = true },
+    })
+  })
+  return { download, openDownload }
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('useBulkActions', () => {
+  it('deletes every item and reports per-item failures', async () => {
+    const operations = createOperations({
+      delete: vi.fn(async (item: SearchResource) => {
+        if (item.id === 'b') throw httpError(403)
+        if (item.id === 'c') throw httpError(423)
+      }),
+    })
+    const { deleteItems, result, running } = useBulkActions({ operations })
+
+    const outcome = await deleteItems([resource('a'), resource('b'), resource('c')])
+    expect(operations.delete).toHaveBeenCalledTimes(3)
+    expect(outcome).toEqual(result.value)
+    expect(result.value?.succeeded).toBe(1)
+    expect(result.value?.failures.map(f => [f.item.id, f.message])).toEqual([
+      ['b', 'Permission denied.'],
+      ['c', 'The item is locked.'],
+    ])
+    expect(running.value).toBeNull()
+  })
+
+  it('reports progress while running', async () => {
+    let release!: () => void
+    const blocked = new Promise<void>(resolve => { release = resolve })
+    const operations = createOperations({
+      copy: vi.fn(async (item: SearchResource) => {
+        if (item.id === 'b') await blocked
+      }),
+    })
+    const { copyItems, running, progress } = useBulkActions({ operations, concurrency: 1 })
+
+    const done = copyItems([resource('a'), resource('b')], { spaceId: 's2', path: '/Target' })
+    await vi.waitFor(() => expect(progress.value).toEqual({ done: 1, total: 2 }))
+    expect(running.value).toBe('copy')
+    expect(operations.copy).toHaveBeenLastCalledWith(resource('b'), { spaceId: 's2', path: '/Target' })
+
+    release()
+    expect((await done)?.succeeded).toBe(2)
+    expect(progress.value).toBeNull()
+  })
+
+  it('runs one action at a time', async () => {
+    const { moveItems, addTags } = useBulkActions({ operations: createOperations() })
+    const first = moveItems([resource('a')], { spaceId: 's1', path: '/' })
+    expect(await addTags([resource('a')], ['x'])).toBeNull()
+    expect((await first)?.action).toBe('move')
+  })
+
+  it('stops starting items when cancelled', async () => {
+    const operations = createOperations()
+    const { removeTags, cancel } = useBulkActions({ operations, concurrency: 1 })
+    operations.removeTags = vi.fn(async () => cancel())
+
+    const outcome = await removeTags([resource('a'), resource('b')], ['x'])
+    expect(operations.removeTags).toHaveBeenCalledTimes(1)
+    expect(outcome).toMatchObject({ succeeded: 1, cancelled: true })
+  })
+
+  it('downloads the files that could be fetched as one archive', async () => {
+    const { download, openDownload } = createDownload()
+    const operations = createOperations({
+      download: vi.fn(async (item: SearchResource) => {
+        if (item.id === 'gone') throw httpError(404)
+        return new Blob([item.name || '']).stream()
+      }),
+    })
+    const { downloadArchive } = useBulkActions({ operations, openDownload })
+
+    const outcome = await downloadArchive([
+      resource('a', { path: '/Docs/a.txt' }),
+      resource('gone'),
+      resource('folder', { name: 'Folder', path: '/Folder', isFolder: true }),
+      resource('b', { spaceId: 's2' }),
+    ])
+
+    expect(outcome?.failures.map(f => [f.item.id, f.message])).toEqual([
+      ['gone', 'Not found. It may have been moved or deleted.'],
+      ['folder', 'Folders can’t be added to the archive'],
+    ])
+    expect(openDownload).toHaveBeenCalledTimes(1)
+    expect(download.fileName).toMatch(/^search-results-\d{4}-\d{2}-\d{2}\.zip$/)
+    expect(download.type).toBe('application/zip')
+    expect(download.closed).toBe(true)
+    expect(await zipEntryNames(download.file())).toEqual(['Personal/Docs/a.txt', 'Marketing/b.txt'])
+  })
+
+  it('streams file contents into the download as they arrive', async () => {
+    const { download, openDownload } = createDownload()
+    let sendRest!: () => void
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('first part '))
+        sendRest = () => {
+          controller.enqueue(new TextEncoder().encode('second part'))
+          controller.close()
+        }
+      },
+    })
+    const operations = createOperations({ download: vi.fn(async () => body) })
+    const done = useBulkActions({ operations, openDownload }).downloadArchive([resource('a')])
+
+    await vi.waitFor(async () => expect(await download.file().text()).toContain('first part'))
+    expect(download.closed).toBe(false)
+    sendRest()
+    expect((await done)?.succeeded).toBe(1)
+    expect(await download.file().text()).toContain('first part second part')
+  })
+
+  it('reports files that fail while they are read', async () => {
+    const { download, openDownload } = createDownload()
+    const operations = createOperations({
+      download: vi.fn(async (item: SearchResource) => {
+        if (item.id !== 'broken') return new Blob([item.name || '']).stream()
+        return new ReadableStream<Uint8Array>({
+          start(controller) { controller.error(new Error('Connection reset')) },
+        })
+      }),
+    })
+    const { downloadArchive } = useBulkActions({ operations, openDownload, concurrency: 1 })
+
+    const outcome = await downloadArchive([resource('broken'), resource('a')])
+    expect(outcome?.failures.map(f => [f.item.id, f.message])).toEqual([['broken', 'Connection reset']])
+    expect(download.closed).toBe(true)
+    expect(await zipEntryNames(download.file())).toEqual(['broken.txt', 'a.txt'])
+  })
+
+  it('does not save an empty archive', async () => {
+    const { download, openDownload } = createDownload()
+    const operations = createOperations({ download: vi.fn(async () => { throw httpError(403) }) })
+    const outcome = await useBulkActions({ operations, openDownload }).downloadArchive([resource('a')])
+    expect(outcome?.failures).toHaveLength(1)
+    expect(download.closed).toBe(false)
+    expect(download.aborted).toBe(true)
+  })
+
+  it('aborts the download when cancelled', async () => {
+    const { download, openDownload } = createDownload()
+    const operations = createOperations()
+    const { downloadArchive, cancel } = useBulkActions({ operations, openDownload, concurrency: 1 })
+    operations.download = vi.fn(async (item: SearchResource) => {
+      cancel()
+      return new Blob([item.name || '']).stream()
+    })
+
+    expect(await downloadArchive([resource('a'), resource('b')])).toMatchObject({ cancelled: true })
+    expect(download.aborted).toBe(true)
+  })
+
+  it('does nothing when the save dialog is dismissed', async () => {
+    const operations = createOperations()
+    const openDownload = vi.fn(async () => { throw new DOMException('Dismissed', 'AbortError') })
+    const { downloadArchive, result } = useBulkActions({ operations, openDownload })
+
+    expect(await downloadArchive([resource('a')])).toBeNull()
+    expect(operations.download).not.toHaveBeenCalled()
+    expect(result.value).toBeNull()
+  })
+
+  it('copies the private links, one per line', async () => {
+    const writeText = vi.fn(async (text: Promise<string>) => { await text })
+    const { copyLinks } = useBulkActions({ operations: createOperations(), writeText })
+
+    const done = copyLinks([resource('a'), resource('b')])
+    // Started while the click is handled, before the links are collected
+    expect(writeText).toHaveBeenCalledTimes(1)
+    expect((await done)?.succeeded).toBe(2)
+    expect(await writeText.mock.calls[0][0]).toBe('https://cloud.example.com/f/s1!a\nhttps://cloud.example.com/f/s1!b')
+  })
+
+  it('reports items without a file ID and copies the other links', async () => {
+    const writeText = vi.fn(async (text: Promise<string>) => { await text })
+    const { copyLinks } = useBulkActions({ operations: createOperations(), writeText })
+
+    const outcome = await copyLinks([resource('a'), resource('b', { fileId: undefined, id: 's1!/b.txt' })])
+    expect(outcome?.failures.map(f => [f.item.id, f.message])).toEqual([['s1!/b.txt', 'File ID not available']])
+    expect(await writeText.mock.calls[0][0]).toBe('https://cloud.example.com/f/s1!a')
+  })
+
+  it('writes nothing when no item has a link', async () => {
+    const writeText = vi.fn(async (text: Promise<string>) => { await text })
+    const { copyLinks } = useBulkActions({ operations: createOperations(), writeText })
+
+    const outcome = await copyLinks([resource('a', { fileId: undefined, id: 's1!/a.txt' })])
+    expect(outcome?.failures.map(f => f.message)).toEqual(['File ID not available'])
+    expect(outcome?.error).toBeUndefined()
+    await expect(writeText.mock.calls[0][0]).rejects.toThrow()
+  })
+
+  it('reports when the links could not be written', async () => {
+    const writeText = vi.fn(async () => { throw new Error('Clipboard access denied') })
+    const { copyLinks, result } = useBulkActions({ operations: createOperations(), writeText })
+
+    await copyLinks([resource('a')])
+    expect(result.value?.error).toBe('Clipboard access denied')
+  })
+})
@@ -0,0 +1,283 @@
+/**
+ * Composable for actions on the selected results
+ *
+ * Each action runs per item through FileOperations (oCIS WebDAV and
+ * libre-graph by default, see backends/ocisFileOperations.ts), a few items
+ * at a time (utils/bulkActions.ts). Progress is reported while it runs;
+ * afterwards `result` lists the items that failed and why. Only one action
+ * runs at a time.
+ */
+
+import { ref } from 'vue'
+import { useClientService, useConfigStore, useSpacesStore } from '@ownclouders/web-pkg'
+import type { SpaceResource } from '@ownclouders/web-client'
+import type { FileOperations, FileOperationTarget, SearchResource } from '../types'
+import { createOcisFileOperations } from '../backends/ocisFileOperations'
+import {
+  getArchiveEntryNames,
+  getPrivateLink,
+  runBulk,
+  type BulkFailure,
+  type BulkRunResult,
+} from '../utils/bulkActions'
+import { getExportFileName } from '../utils/exportResults'
+import { createZipWriter } from '../utils/zip'
+import { openDownloadStream } from '../utils/download'
+import { useTranslations } from './useTranslations'
+
+export type BulkActionKind = 'download' | 'delete' | 'copy' | 'move' | 'addTags' | 'removeTags' | 'copyLinks'
+
+export interface BulkActionResult {
+  action: BulkActionKind
+  succeeded: number
+  failures: BulkFailure[]
+  cancelled: boolean
+  /** Why the action as a whole failed (e.g. clipboard not available) */
+  error?: string
+}
+
+export interface BulkActionsOptions {
+  /** 'ocis' (default) or custom operations (e.g. a fake in tests) */
+  operations?: 'ocis' | FileOperations
+  /** Items processed at the same time */
+  concurrency?: number
+  /** Opens the stream an archive is written to (default: a download, see utils/download.ts) */
+  openDownload?: (fileName: string, type: string) => Promise<WritableStream<Uint8Array>>
+  /** Writes copied links once they are known (default: the clipboard) */
+  writeText?: (text: Promise<string>) => Promise<void>
+}
+
+/**
+ * Write text that is still being collected to the clipboard. The write
+ * starts right away, while the click is handled: browsers reject clipboard
+ * writes once the user gesture is over.
+ */
+async function writeToClipboard(text: Promise<string>): Promise<void> {
+  if (!navigator.clipboard) {
+    throw new Error('Clipboard API not available')
+  }
+  if (typeof ClipboardItem === 'undefined') {
+    await navigator.clipboard.writeText(await text)
+    return
+  }
+  await navigator.clipboard.write([
+    new ClipboardItem({ 'text/plain': text.then(value => new Blob([value], { type: 'text/plain' })) }),
+  ])
+}
+
+/**
+ * Composable for bulk actions on results
+ */
+export function useBulkActions(options: BulkActionsOptions = {}) {
+  const clientService = useClientService()
+  const configStore = useConfigStore()
+  const spacesStore = useSpacesStore()
+  const { $gettext } = useTranslations()
+
+  const getServerUrl = () => (configStore.serverUrl || '').replace(/\/$/, '')
+  const operations = typeof options.operations === 'object'
+    ? options.operations
+    : createOcisFileOperations({ http: clientService.httpAuthenticated, getServerUrl })
+
+  /** The action that is running */
+  const running = ref<BulkActionKind | null>(null)
+  const progress = ref<{ done: number; total: number } | null>(null)
+  /** Outcome of the last action */
+  const result = ref<BulkActionResult | null>(null)
+  let cancelled = false
+
+  function getSpaceName(spaceId: string): string {
+    const space = (spacesStore.spaces as SpaceResource[]).find(s => s?.id === spaceId)
+    return space?.name || space?.driveAlias || spaceId
+  }
+
+  /**
+   * User-facing reason an item failed
+   */
+  function describeError(err: unknown, action: BulkActionKind): string {
+    const status = (err as { response?: { status?: number } })?.response?.status
+    switch (status) {
+      case 401:
+        return $gettext('Session expired. Please log in again.')
+      case 403:
+        return $gettext('Permission denied.')
+      case 404:
+        return $gettext('Not found. It may have been moved or deleted.')
+      case 409:
+        return $gettext('The target folder does not exist.')
+      case 412:
+        return $gettext('An item with this name already exists in the target folder.')
+      case 423:
+        return $gettext('The item is locked.')
+      case 507:
+        return $gettext('Not enough storage space.')
+    }
+    if (err instanceof Error && err.message) return err.message
+    return action === 'download' ? $gettext('Download failed') : $gettext('Action failed')
+  }
+
+  async function run(
+    action: BulkActionKind,
+    items: SearchResource[],
+    perItem: (item: SearchResource) => Promise<void>,
+    finish?: (outcome: BulkRunResult) => Promise<void> | void
+  ): Promise<BulkActionResult | null> {
+    if (running.value || items.length === 0) return null
+    running.value = action
+    cancelled = false
+    result.value = null
+    progress.value = { done: 0, total: items.length }
+    try {
+      const outcome = await runBulk(items, perItem, {
+        concurrency: options.concurrency,
+        onProgress: (done, total) => { progress.value = { done, total } },
+        isCancelled: () => cancelled,
+        describeError: err => describeError(err, action),
+      })
+      const actionResult: BulkActionResult = {
+        action,
+        succeeded: outcome.succeeded.length,
+        failures: outcome.failures,
+        cancelled: outcome.cancelled,
+      }
+      try {
+        if (!outcome.cancelled) await finish?.(outcome)
+      } catch (err) {
+        actionResult.error = err instanceof Error ? err.message : $gettext('Action failed')
+        console.error(`[BulkActions] ${action} failed:`, err)
+      }
+      result.value = actionResult
+      return actionResult
+    } finally {
+      running.value = null
+      progress.value = null
+    }
+  }
+
+  /**
+   * Download the selected files as one ZIP archive, built in the browser:
+   * file contents are streamed through the archive into the download as
+   * they arrive. Call it from the click handler (see openDownloadStream()).
+   */
+  async function downloadArchive(items: SearchResource[]): Promise<BulkActionResult | null> {
+    if (running.value || items.length === 0) return null
+    let output: WritableStream<Uint8Array>
+    try {
+      output = await (options.openDownload ?? openDownloadStream)(getExportFileName('zip'), 'application/zip')
+    } catch (err) {
+      // Save dialog dismissed
+      if (err instanceof DOMException && err.name === 'AbortError') return null
+      console.error('[BulkActions] download failed:', err)
+      result.value = {
+        action: 'download',
+        succeeded: 0,
+        failures: [],
+        cancelled: false,
+        error: err instanceof Error ? err.message : $gettext('Download failed'),
+      }
+      return result.value
+    }
+
+    const archive = createZipWriter(output)
+    const names = getArchiveEntryNames(items, getSpaceName)
+    const nameOf = new Map(items.map((item, i) => [item, names[i]]))
+    const outcome = await run('download', items, async item => {
+      if (item.isFolder || item.type === 'folder') {
+        throw new Error($gettext('Folders can’t be added to the archive'))
+      }
+      const data = await operations.download(item)
+      const modified = item.mdate ? new Date(item.mdate) : undefined
+      await archive.add({
+        name: nameOf.get(item)!,
+        data,
+        ...(modified && !Number.isNaN(modified.getTime()) && { modified }),
+      })
+    }, async ({ succeeded }) => {
+      // Don't save an empty archive
+      if (succeeded.length === 0) return archive.abort()
+      await archive.close()
+    })
+    // Cancelled, or another action started while the save dialog was open
+    if (!outcome || outcome.cancelled) await archive.abort()
+    return outcome
+  }
+
+  function deleteItems(items: SearchResource[]): Promise<BulkActionResult | null> {
+    return run('delete', items, item => operations.delete(item))
+  }
+
+  function copyItems(items: SearchResource[], target: FileOperationTarget): Promise<BulkActionResult | null> {
+    return run('copy', items, item => operations.copy(item, target))
+  }
+
+  function moveItems(items: SearchResource[], target: FileOperationTarget): Promise<BulkActionResult | null> {
+    return run('move', items, item => operations.move(item, target))
+  }
+
+  function addTags(items: SearchResource[], tags: string[]): Promise<BulkActionResult | null> {
+    return run('addTags', items, item => operations.addTags(item, tags))
+  }
+
+  function removeTags(items: SearchResource[], tags: string[]): Promise<BulkActionResult | null> {
+    return run('removeTags', items, item => operations.removeTags(item, tags))
+  }
+
+  /**
+   * Copy the private links of the selected items, one per line. Call it from
+   * the click handler: the clipboard write starts before the links are known.
+   */
+  async function copyLinks(items: SearchResource[]): Promise<BulkActionResult | null> {
+    if (running.value || items.length === 0) return null
+    let provide!: (text: string) => void
+    let withhold!: (reason: Error) => void
+    const text = new Promise<string>((resolve, reject) => {
+      provide = resolve
+      withhold = reject
+    })
+    const written = (options.writeText ?? writeToClipboard)(text)
+    // Awaited once there are links; nothing is written without them
+    written.catch(() => {})
+
+    const links = new Map<SearchResource, string>()
+    const outcome = await run('copyLinks', items, async item => {
+      const link = getPrivateLink(getServerUrl(), item)
+      if (!link) throw new Error($gettext('File ID not available'))
+      links.set(item, link)
+    }, async ({ succeeded }) => {
+      if (succeeded.length === 0) return
+      provide(succeeded.map(item => links.get(item)).join('\n'))
+      await written
+    })
+    withhold(new Error('No links to copy'))
+    return outcome
+  }
+
+  /**
+   * Stop the running action; items already started still finish
+   */
+  function cancel(): void {
+    cancelled = true
+  }
+
+  function dismissResult(): void {
+    result.value = null
+  }
+
+  return {
+    // State
+    running,
+    progress,
+    result,
+
+    // Methods
+    downloadArchive,
+    deleteItems,
+    copyItems,
+    moveItems,
+    addTags,
+    removeTags,
+    copyLinks,
+    cancel,
+    dismissResult,
+  }
+}
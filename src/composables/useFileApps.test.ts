@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { useFileApps } from './useFileApps'
+import type { SearchResource } from '../types'
+
+const request = vi.fn()
+
+vi.mock('vue3-gettext', () => ({
+  useGettext: () => ({
+    $gettext: (msg: string) => `t:${msg}`,
+    $ngettext: (singular: string, plural: string, n: number) => (n === 1 ? singular : plural),
+    $pgettext: (_context: string, msg: string) => msg,
+  })
+}))
+
+vi.mock('@ownclouders/web-pkg', () => ({
+  useClientService: () => ({ httpAuthenticated: { request } }),
+  useConfigStore: () => ({ serverUrl: 'https://cloud.example.com/' }),
+}))
+
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+const file = (name: string, mimeType: string) => ({ id: name, name, mimeType, path: `/${name}` }) as SearchResource
+
+beforeEach(() => {
+  request.mockReset()
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('useFileApps', () => {
+  it('loads the app provider list once', async () => {
+    request.mockResolvedValue({
+      data: { 'mime-types': [{ mime_type: DOCX, ext: 'docx', app_providers: [{ name: 'Collabora' }], default_application: 'Collabora' }] },
+    })
+    const { load, loaded, appsFor } = useFileApps()
+
+    await Promise.all([load(), load()])
+    await load()
+    expect(request).toHaveBeenCalledTimes(1)
+    expect(request).toHaveBeenCalledWith({ method: 'GET', url: 'https://cloud.example.com/app/list' })
+    expect(loaded.value).toBe(true)
+    expect(appsFor(file('a.docx', DOCX)).defaultApp?.id).toBe('Collabora')
+  })
+
+  it('keeps the built-in viewers without an app provider', async () => {
+    request.mockRejectedValue(Object.assign(new Error('HTTP 404'), { response: { status: 404 } }))
+    const { load, loaded, appsFor } = useFileApps()
+
+    await load()
+    expect(loaded.value).toBe(true)
+    expect(appsFor(file('a.docx', DOCX)).defaultApp).toBeNull()
+    expect(appsFor(file('a.pdf', 'application/pdf')).defaultApp).toEqual({ id: 'pdf-viewer', name: 't:PDF viewer', kind: 'web' })
+  })
+})
@@ -0,0 +1,68 @@
+/**
+ * Composable for the apps that open search results
+ *
+ * Loads the oCIS app provider list once (`/app/list`) and combines it with
+ * the viewers built into ownCloud Web (utils/fileApps.ts). Without an app
+ * provider (or if the list can't be loaded) only the built-in viewers are
+ * offered.
+ */
+
+import { ref } from 'vue'
+import { useClientService, useConfigStore } from '@ownclouders/web-pkg'
+import type { FileApp, MimeTypeApps, SearchResource } from '../types'
+import { getFileApps, parseAppList, type FileAppChoice } from '../utils/fileApps'
+import { useTranslations } from './useTranslations'
+
+export function useFileApps() {
+  const clientService = useClientService()
+  const configStore = useConfigStore()
+  const { $gettext } = useTranslations()
+
+  /** Apps per mime type from the app provider */
+  const mimeTypes = ref<MimeTypeApps[]>([])
+  const loaded = ref(false)
+  let loading: Promise<void> | null = null
+
+  /**
+   * Load the app provider list (once; later calls wait for the first)
+   */
+  function load(): Promise<void> {
+    if (loading) return loading
+    loading = (async () => {
+      const serverUrl = (configStore.serverUrl || '').replace(/\/$/, '')
+      try {
+        const response = await clientService.httpAuthenticated.request({ method: 'GET', url: `${serverUrl}/app/list` })
+        mimeTypes.value = parseAppList(response.data)
+      } catch (err) {
+        // 404 without an app provider: the built-in viewers still work
+        console.warn('[FileApps] Failed to load the app provider list:', err)
+        mimeTypes.value = []
+      } finally {
+        loaded.value = true
+      }
+    })()
+    return loading
+  }
+
+  function translate(app: FileApp): FileApp {
+    return app.kind === 'web' ? { ...app, name: $gettext(app.name) } : app
+  }
+
+  /**
+   * Apps that can open a result, and the one a click uses
+   */
+  function appsFor(item: SearchResource): FileAppChoice {
+    const { apps, defaultApp } = getFileApps(item, mimeTypes.value)
+    return { apps: apps.map(translate), defaultApp: defaultApp && translate(defaultApp) }
+  }
+
+  return {
+    // State
+    mimeTypes,
+    loaded,
+
+    // Methods
+    load,
+    appsFor,
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Composable for browsing folders of a space via WebDAV PROPFIND
+ * (used by the folder scope picker)
+ */
+
+import { ref } from 'vue'
+import { useClientService, useConfigStore } from '@ownclouders/web-pkg'
+import type { FolderEntry } from '../types'
+import { splitSpaceHref } from '../utils/spaces'
+import { normalizeFolderPath } from '../utils/scope'
+import { buildPropXml, selectDavProperties } from '../utils/davProperties'
+import { useTranslations } from './useTranslations'
+
+const PROPFIND_BODY = `<?xml version="1.0" encoding="UTF-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns">
+${buildPropXml(selectDavProperties(['resourcetype', 'displayname', 'fileid']))}
+</d:propfind>`
+
+/**
+ * Parse a Depth: 1 PROPFIND response into the folder itself and its subfolders
+ *
+ * @throws Error if the response isn't a WebDAV multistatus
+ */
+function parseFolderListing(xmlText: string, folderPath: string): { folder: FolderEntry | null; children: FolderEntry[] } {
+  const doc = new DOMParser().parseFromString(xmlText, 'application/xml')
+  if (doc.querySelector('parsererror') || !doc.getElementsByTagNameNS('DAV:', 'multistatus')[0]) {
+    throw new Error('Unexpected response format (not a WebDAV multistatus)')
+  }
+
+  let folder: FolderEntry | null = null
+  const children: FolderEntry[] = []
+  const responses = doc.getElementsByTagNameNS('DAV:', 'response')
+
+  for (let i = 0; i < responses.length; i++) {
+    const response = responses[i]
+    const href = response.getElementsByTagNameNS('DAV:', 'href')[0]?.textContent
+    const isCollection = response.getElementsByTagNameNS('DAV:', 'collection').length > 0
+    if (!href || !isCollection) continue
+
+    const path = normalizeFolderPath(splitSpaceHref(href)?.path)
+    const entry: FolderEntry = {
+      name: response.getElementsByTagNameNS('DAV:', 'displayname')[0]?.textContent || path.split('/').pop() || '/',
+      path,
+      fileId: response.getElementsByTagNameNS('http://owncloud.org/ns', 'fileid')[0]?.textContent || '',
+    }
+
+    if (path === folderPath) {
+      folder = entry
+    } else {
+      children.push(entry)
+    }
+  }
+
+  children.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }))
+  return { folder, children }
+}
+
+export function useFolderBrowser() {
+  const clientService = useClientService()
+  const configStore = useConfigStore()
+  const { $gettext } = useTranslations()
+
+  const currentFolder = ref<FolderEntry | null>(null)
+  const subfolders = ref<FolderEntry[]>([])
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  // Ignore responses of superseded requests (user clicked on quickly)
+  let requestCounter = 0
+
+  /**
+   * List a folder of a space. The folder itself ends up in `currentFolder`
+   * (with its resource ID for server-side scoping), its subfolders in `subfolders`.
+   */
+  async function openFolder(spaceId: string, path: string): Promise<void> {
+    const requestId = ++requestCounter
+    const folderPath = normalizeFolderPath(path)
+    const serverUrl = (configStore.serverUrl || '').replace(/\/$/, '')
+    const encodedPath = folderPath.split('/').map(s => encodeURIComponent(s)).join('/')
+
+    loading.value = true
+    error.value = null
+
+    try {
+      const response = await clientService.httpAuthenticated.request({
+        method: 'PROPFIND',
+        url: `${serverUrl}/dav/spaces/${encodeURIComponent(spaceId)}${encodedPath === '/' ? '' : encodedPath}`,
+        headers: {
+          'Content-Type': 'application/xml',
+          Depth: '1',
+        },
+        data: PROPFIND_BODY,
+      })
+      if (requestId !== requestCounter) return
+
+      const xmlText = typeof response.data === 'string' ? response.data : new XMLSerializer().serializeToString(response.data)
+      const { folder, children } = parseFolderListing(xmlText, folderPath)
+      currentFolder.value = folder || { name: folderPath.split('/').pop() || '/', path: folderPath, fileId: '' }
+      subfolders.value = children
+    } catch (err) {
+      if (requestId !== requestCounter) return
+      console.error('[FolderBrowser] Failed to list folder:', err)
+      const status = (err as { response?: { status?: number } })?.response?.status
+      error.value = status === 404
+        ? $gettext('Folder not found.')
+        : $gettext('Failed to load folders.')
+      subfolders.value = []
+    } finally {
+      if (requestId === requestCounter) {
+        loading.value = false
+      }
+    }
+  }
+
+  return {
+    currentFolder,
+    subfolders,
+    loading,
+    error,
+    openFolder,
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { ref } from 'vue'
+import { useMapView } from './useMapView'
+import { MAX_ZOOM } from '../utils/geoMap'
+
+const BARCELONA = { latitude: 41.3784, longitude: 2.1925 }
+
+describe('useMapView', () => {
+  it('converts between points and view positions', () => {
+    const map = useMapView({ tileUrl: () => null })
+    map.setView(BARCELONA, 10)
+    expect(map.toViewPoint(BARCELONA)).toEqual({ left: 400, top: 240 })
+    const point = map.toGeoPoint(400, 240)
+    expect(point.latitude).toBeCloseTo(BARCELONA.latitude, 8)
+    expect(point.longitude).toBeCloseTo(BARCELONA.longitude, 8)
+  })
+
+  it('pans and wraps around the date line', () => {
+    const map = useMapView({ tileUrl: () => null })
+    map.setView({ latitude: 0, longitude: 179 }, 2)
+    map.panBy(-256, 0)
+    expect(map.center.value.longitude).toBeCloseTo(-91, 6)
+  })
+
+  it('zooms around an anchor and reports the move', () => {
+    let moves = 0
+    const map = useMapView({ tileUrl: () => null, onMove: () => moves++ })
+    map.setView(BARCELONA, 10)
+    const anchor = { x: 100, y: 100 }
+    const before = map.toGeoPoint(anchor.x, anchor.y)
+    map.zoomBy(1, anchor)
+    const after = map.toGeoPoint(anchor.x, anchor.y)
+    expect(map.zoom.value).toBe(11)
+    expect(after.latitude).toBeCloseTo(before.latitude, 8)
+    expect(after.longitude).toBeCloseTo(before.longitude, 8)
+    expect(moves).toBe(1)
+
+    map.setView(BARCELONA, MAX_ZOOM)
+    map.zoomBy(1)
+    expect(moves).toBe(1)
+  })
+
+  it('lists tiles only with a tile URL', () => {
+    const tileUrl = ref<string | null>(null)
+    const map = useMapView({ tileUrl: () => tileUrl.value })
+    map.setView(BARCELONA, 4)
+    expect(map.tiles.value).toEqual([])
+    tileUrl.value = '/t/{z}/{x}/{y}.png'
+    expect(map.tiles.value.length).toBeGreaterThan(0)
+    expect(map.gridLines.value.meridians.length).toBeGreaterThan(0)
+  })
+})
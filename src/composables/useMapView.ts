@@ -0,0 +1,238 @@
+/**
+ * Composable for a pannable, zoomable map (map view, location picker)
+ *
+ * Keeps the view (size, center, zoom) and derives the visible tiles and the
+ * fallback grid lines from it (utils/geoMap.ts). Handles dragging to pan,
+ * the wheel and +/− to zoom, and the arrow keys; components bind
+ * `container`, `startDrag`, `onWheel` and `onKeydown` on the map element.
+ * The view size follows the container (ResizeObserver).
+ */
+
+import { ref, reactive, computed, getCurrentInstance, onMounted, onUnmounted } from 'vue'
+import {
+  MIN_ZOOM,
+  clampZoom,
+  fitBounds,
+  getGridLines,
+  getViewOrigin,
+  getVisibleTiles,
+  project,
+  unproject,
+  type GeoPoint,
+} from '../utils/geoMap'
+
+/** Pixels moved by an arrow key */
+const KEYBOARD_PAN = 100
+/** A pointer that moved less than this was a click, not a drag */
+const DRAG_THRESHOLD = 4
+/** One zoom level per wheel gesture step; touchpads send many small events */
+const WHEEL_INTERVAL = 200
+
+export interface MapViewOptions {
+  /** Tile URL template; null for the grid only */
+  tileUrl: () => string | null
+  /** Called when the user moves the view (drag, zoom) */
+  onMove?: () => void
+}
+
+export function useMapView(options: MapViewOptions) {
+  const container = ref<HTMLElement | null>(null)
+  const size = reactive({ width: 800, height: 480 })
+  const center = ref<GeoPoint>({ latitude: 20, longitude: 0 })
+  const zoom = ref(MIN_ZOOM)
+  const failedTiles = reactive(new Set<string>())
+  const dragging = ref(false)
+
+  /** Top left corner of the view in world pixels */
+  const origin = computed(() => getViewOrigin(center.value, zoom.value, size.width, size.height))
+
+  const tiles = computed(() => {
+    const tileUrl = options.tileUrl()
+    return tileUrl ? getVisibleTiles(tileUrl, center.value, zoom.value, size.width, size.height) : []
+  })
+
+  const gridLines = computed(() => getGridLines(center.value, zoom.value, size.width, size.height))
+
+  /**
+   * Position of a point in the view, in pixels from the top left corner
+   */
+  function toViewPoint(point: GeoPoint): { left: number; top: number } {
+    const { x, y } = project(point, zoom.value)
+    return { left: x - origin.value.x, top: y - origin.value.y }
+  }
+
+  /**
+   * Point under a view position
+   */
+  function toGeoPoint(left: number, top: number): GeoPoint {
+    return unproject({ x: origin.value.x + left, y: origin.value.y + top }, zoom.value)
+  }
+
+  /**
+   * View position of a pointer event
+   */
+  function getEventPosition(event: MouseEvent): { x: number; y: number } {
+    const rect = container.value?.getBoundingClientRect()
+    return rect ? { x: event.clientX - rect.left, y: event.clientY - rect.top } : { x: size.width / 2, y: size.height / 2 }
+  }
+
+  // View
+
+  function setView(newCenter: GeoPoint, newZoom: number): void {
+    zoom.value = clampZoom(newZoom)
+    center.value = {
+      latitude: Math.max(-85, Math.min(85, newCenter.latitude)),
+      longitude: ((((newCenter.longitude + 180) % 360) + 360) % 360) - 180,
+    }
+  }
+
+  /**
+   * Show all points at the largest zoom that fits them
+   */
+  function fitPoints(points: GeoPoint[]): void {
+    const fit = fitBounds(points, size.width, size.height)
+    setView(fit.center, fit.zoom)
+  }
+
+  function panBy(dx: number, dy: number): void {
+    const point = project(center.value, zoom.value)
+    setView(unproject({ x: point.x - dx, y: point.y - dy }, zoom.value), zoom.value)
+  }
+
+  /**
+   * Zoom by `delta` levels, keeping the point at `anchor` (view pixels) in place
+   */
+  function zoomBy(delta: number, anchor = { x: size.width / 2, y: size.height / 2 }): void {
+    const newZoom = clampZoom(zoom.value + delta)
+    if (newZoom === zoom.value) return
+    options.onMove?.()
+    const anchored = toGeoPoint(anchor.x, anchor.y)
+    const point = project(anchored, newZoom)
+    const newCenter = unproject(
+      { x: point.x - anchor.x + size.width / 2, y: point.y - anchor.y + size.height / 2 },
+      newZoom
+    )
+    setView(newCenter, newZoom)
+  }
+
+  // Input
+
+  let dragStart: { x: number; y: number } | null = null
+  let moved = false
+  let lastWheel = 0
+
+  function startDrag(event: PointerEvent): void {
+    if (event.button !== 0) return
+    dragStart = { x: event.clientX, y: event.clientY }
+    moved = false
+    window.addEventListener('pointermove', onDrag)
+    window.addEventListener('pointerup', stopDrag)
+  }
+
+  function onDrag(event: PointerEvent): void {
+    if (!dragStart) return
+    const dx = event.clientX - dragStart.x
+    const dy = event.clientY - dragStart.y
+    if (!moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return
+    if (!moved) options.onMove?.()
+    moved = true
+    dragging.value = true
+    panBy(dx, dy)
+    dragStart = { x: event.clientX, y: event.clientY }
+  }
+
+  function stopDrag(): void {
+    dragStart = null
+    dragging.value = false
+    window.removeEventListener('pointermove', onDrag)
+    window.removeEventListener('pointerup', stopDrag)
+    // The click that ends a drag isn't a click on the map
+    setTimeout(() => { moved = false })
+  }
+
+  /**
+   * Whether the current click ends a drag (and should be ignored)
+   */
+  function wasDragged(): boolean {
+    return moved
+  }
+
+  function onWheel(event: WheelEvent): void {
+    const now = Date.now()
+    if (event.deltaY === 0 || now - lastWheel < WHEEL_INTERVAL) return
+    lastWheel = now
+    zoomBy(event.deltaY < 0 ? 1 : -1, getEventPosition(event))
+  }
+
+  /**
+   * Arrow keys pan, +/− zoom
+   *
+   * @returns Whether the key was handled
+   */
+  function onKeydown(event: KeyboardEvent): boolean {
+    switch (event.key) {
+      case 'ArrowLeft': panBy(KEYBOARD_PAN, 0); break
+      case 'ArrowRight': panBy(-KEYBOARD_PAN, 0); break
+      case 'ArrowUp': panBy(0, KEYBOARD_PAN); break
+      case 'ArrowDown': panBy(0, -KEYBOARD_PAN); break
+      case '+':
+      case '=': zoomBy(1); break
+      case '-': zoomBy(-1); break
+      default: return false
+    }
+    event.preventDefault()
+    return true
+  }
+
+  // Size
+
+  let resizeObserver: ResizeObserver | null = null
+
+  function measure(): void {
+    if (!container.value) return
+    size.width = container.value.clientWidth || size.width
+    size.height = container.value.clientHeight || size.height
+  }
+
+  if (getCurrentInstance()) {
+    onMounted(() => {
+      measure()
+      if (typeof ResizeObserver !== 'undefined' && container.value) {
+        resizeObserver = new ResizeObserver(measure)
+        resizeObserver.observe(container.value)
+      }
+    })
+
+    onUnmounted(() => {
+      resizeObserver?.disconnect()
+      stopDrag()
+    })
+  }
+
+  return {
+    // State
+    container,
+    size,
+    center,
+    zoom,
+    origin,
+    tiles,
+    gridLines,
+    failedTiles,
+    dragging,
+
+    // Methods
+    toViewPoint,
+    toGeoPoint,
+    getEventPosition,
+    setView,
+    fitPoints,
+    panBy,
+    zoomBy,
+    measure,
+    startDrag,
+    wasDragged,
+    onWheel,
+    onKeydown,
+  }
+}
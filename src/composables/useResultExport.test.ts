@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { computed, reactive } from 'vue'
+import { useResultExport } from './useResultExport'
+import { createEmptyFilters } from '../types'
+import type { AdvancedSearchState, SearchResource } from '../types'
+import { DEFAULT_SORT } from '../utils/sort'
+
+vi.mock('vue3-gettext', () => ({
+  useGettext: () => ({
+    $gettext: (msg: string) => msg,
+    $ngettext: (singular: string, plural: string, n: number) => (n === 1 ? singular : plural),
+    $pgettext: (_context: string, msg: string) => msg,
+  })
+}))
+
+vi.mock('@ownclouders/web-pkg', () => ({
+  useSpacesStore: () => ({ spaces: [{ id: 's1', name: 'Personal' }] }),
+}))
+
+function resource(i: number): SearchResource {
+  return { id: String(i), name: `file${i}.txt`, path: `/file${i}.txt`, spaceId: 's1' } as SearchResource
+}
+
+/**
+ * Search state with `pages` pages of two results, the first one loaded
+ */
+function createSearch(pages: number) {
+  const state = reactive<AdvancedSearchState>({
+    filters: createEmptyFilters(),
+    results: { totalCount: pages * 2, items: [resource(0), resource(1)], hasMore: pages > 1, currentPage: 0 },
+    loading: false,
+    error: null,
+    kqlQuery: '',
+    kqlError: null,
+    viewMode: 'list',
+    sort: { ...DEFAULT_SORT },
+  })
+  const loadMore = vi.fn(async () => {
+    const results = state.results!
+    const page = results.currentPage + 1
+    state.results = {
+      ...results,
+      items: [...results.items, resource(page * 2), resource(page * 2 + 1)],
+      currentPage: page,
+      hasMore: page + 1 < pages,
+    }
+  })
+  const items = computed(() => (state.results?.items || []) as SearchResource[])
+  return { state, items, loadMore }
+}
+
+async function readJson(file: Blob) {
+  return JSON.parse(await file.text())
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('useResultExport', () => {
+  it('exports the loaded results', async () => {
+    const search = createSearch(3)
+    const save = vi.fn()
+    const { exportResults, exporting } = useResultExport({ ...search, save })
+
+    await exportResults('json')
+    expect(search.loadMore).not.toHaveBeenCalled()
+    expect(exporting.value).toBe(false)
+    const [file, fileName] = save.mock.calls[0]
+    expect(fileName).toMatch(/^search-results-\d{4}-\d{2}-\d{2}\.json$/)
+    expect((await readJson(file)).map((row: { name: string; space: string }) => [row.name, row.space]))
+      .toEqual([['file0.txt', 'Personal'], ['file1.txt', 'Personal']])
+  })
+
+  it('loads all pages first when asked to', async () => {
+    const search = createSearch(3)
+    const save = vi.fn()
+    const { exportResults } = useResultExport({ ...search, save })
+
+    await exportResults('json', { allPages: true })
+    expect(search.loadMore).toHaveBeenCalledTimes(2)
+    expect(await readJson(save.mock.calls[0][0])).toHaveLength(6)
+  })
+
+  it('reports a page that fails to load and saves nothing', async () => {
+    const search = createSearch(3)
+    search.loadMore.mockImplementation(async () => {
+      search.state.error = 'Search failed'
+    })
+    const save = vi.fn()
+    const { exportResults, error } = useResultExport({ ...search, save })
+
+    await exportResults('csv', { allPages: true })
+    expect(error.value).toBe('Search failed')
+    expect(save).not.toHaveBeenCalled()
+  })
+
+  it('stops loading pages when cancelled', async () => {
+    const search = createSearch(5)
+    const save = vi.fn()
+    const exporter = useResultExport({ ...search, save })
+    const original = search.loadMore.getMockImplementation()!
+    search.loadMore.mockImplementation(async () => {
+      await original()
+      exporter.cancel()
+    })
+
+    await exporter.exportResults('csv', { allPages: true })
+    expect(search.loadMore).toHaveBeenCalledTimes(1)
+    expect(save).not.toHaveBeenCalled()
+    expect(exporter.exporting.value).toBe(false)
+  })
+})
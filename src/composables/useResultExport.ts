@@ -0,0 +1,138 @@
+/**
+ * Composable for exporting search results to CSV, JSON or XLSX
+ *
+ * The file is written in the browser (utils/exportResults.ts) from the
+ * results in display order. With `allPages`, the remaining pages are loaded
+ * first, through the same paging as "Load more".
+ */
+
+import { ref, getCurrentInstance, onUnmounted, type Ref } from 'vue'
+import { useSpacesStore } from '@ownclouders/web-pkg'
+import type { SpaceResource } from '@ownclouders/web-client'
+import type { AdvancedSearchState, SearchResource } from '../types'
+import {
+  EXPORT_COLUMNS,
+  EXPORT_MIME_TYPES,
+  exportChunks,
+  getExportFileName,
+  type ExportFormat,
+} from '../utils/exportResults'
+import { downloadBlob } from '../utils/download'
+import { useTranslations } from './useTranslations'
+
+export interface ResultExportOptions {
+  state: AdvancedSearchState
+  /** Results in display order, e.g. useAdvancedSearch().sortedItems */
+  items: Ref<SearchResource[]>
+  /** Loads the next page, e.g. useAdvancedSearch().loadMore */
+  loadMore: () => Promise<void>
+  /** Hands the finished file to the user (default: browser download) */
+  save?: (file: Blob, fileName: string) => void
+}
+
+export interface ResultExportProgress {
+  /** Loading the remaining pages, or writing the file */
+  phase: 'fetching' | 'writing'
+  done: number
+  /** null while the number of results is unknown */
+  total: number | null
+}
+
+/**
+ * Composable for client-side result exports
+ */
+export function useResultExport(options: ResultExportOptions) {
+  const { state, items, loadMore } = options
+  const spacesStore = useSpacesStore()
+  const { $gettext } = useTranslations()
+
+  const exporting = ref(false)
+  const progress = ref<ResultExportProgress | null>(null)
+  const error = ref<string | null>(null)
+  let cancelled = false
+
+  function getSpaceName(spaceId: string): string {
+    const space = (spacesStore.spaces as SpaceResource[]).find(s => s?.id === spaceId)
+    return space?.name || space?.driveAlias || spaceId
+  }
+
+  /**
+   * Load the pages that are still missing
+   * @returns false if the export was cancelled meanwhile
+   */
+  async function fetchAllPages(): Promise<boolean> {
+    while (state.results?.hasMore) {
+      if (cancelled) return false
+      const page = state.results.currentPage
+      progress.value = { phase: 'fetching', done: state.results.items.length, total: state.results.totalCount }
+      await loadMore()
+      if (state.error) throw new Error(state.error)
+      // Another search is running or replaced the results
+      if (state.results?.currentPage !== page + 1) {
+        throw new Error($gettext('The search changed while loading all results'))
+      }
+    }
+    return !cancelled
+  }
+
+  /**
+   * Export the results; resolves once the file was handed to the user
+   */
+  async function exportResults(format: ExportFormat, { allPages = false } = {}): Promise<void> {
+    if (exporting.value || !state.results) return
+    exporting.value = true
+    cancelled = false
+    error.value = null
+    try {
+      if (allPages && !(await fetchAllPages())) return
+
+      const rows = [...items.value]
+      progress.value = { phase: 'writing', done: 0, total: rows.length }
+      const columns = EXPORT_COLUMNS.map(column => ({ ...column, label: $gettext(column.label) }))
+      const parts: Uint8Array[] = []
+      const chunks = exportChunks(format, rows, {
+        columns,
+        context: { getSpaceName },
+        onRow: count => {
+          progress.value = { phase: 'writing', done: count, total: rows.length }
+        },
+        isCancelled: () => cancelled,
+      })
+      for await (const chunk of chunks) {
+        parts.push(chunk)
+      }
+      if (cancelled) return
+
+      const save = options.save ?? downloadBlob
+      save(new Blob(parts, { type: EXPORT_MIME_TYPES[format] }), getExportFileName(format))
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : $gettext('Export failed')
+      console.error('[ResultExport] Export failed:', err)
+    } finally {
+      exporting.value = false
+      progress.value = null
+    }
+  }
+
+  /**
+   * Stop a running export (pages loaded so far stay in the results)
+   */
+  function cancel(): void {
+    cancelled = true
+  }
+
+  if (getCurrentInstance()) {
+    onUnmounted(cancel)
+  }
+
+  return {
+    // State
+    exporting,
+    progress,
+    error,
+
+    // Methods
+    exportResults,
+    cancel,
+  }
+}
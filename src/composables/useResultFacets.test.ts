@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest'
+import { nextTick, reactive } from 'vue'
+import { useResultFacets } from './useResultFacets'
+import { createEmptyFilters } from '../types'
+import type { SearchResource } from '../types'
+import { SIZE_BUCKETS } from '../utils/facets'
+
+vi.mock('vue3-gettext', () => ({
+  useGettext: () => ({
+    $gettext: (msg: string) => msg,
+    $ngettext: (singular: string, plural: string, n: number) => (n === 1 ? singular : plural),
+    $pgettext: (_context: string, msg: string) => msg,
+  })
+}))
+
+vi.mock('@ownclouders/web-pkg', () => ({
+  useSpacesStore: () => ({ spaces: [{ id: 's1', name: 'Personal' }, { id: 's2', name: 'Marketing' }] }),
+}))
+
+function resource(id: string, extra: Partial<SearchResource> = {}): SearchResource {
+  return { id, name: id, spaceId: 's1', mimeType: 'image/jpeg', size: 2000, mdate: '2023-05-01T00:00:00Z', ...extra } as SearchResource
+}
+
+describe('useResultFacets', () => {
+  it('labels and orders the facet values', () => {
+    const search = reactive({
+      items: [
+        resource('a'),
+        resource('b', { spaceId: 's2', mimeType: 'application/pdf', size: 5 * 1024 ** 3, mdate: '2024-01-01T00:00:00Z' }),
+        resource('c', { spaceId: 's2' }),
+      ],
+      filters: createEmptyFilters(),
+    })
+    const { facets } = useResultFacets({ items: () => search.items, filters: () => search.filters })
+
+    expect(facets.value.map(facet => facet.id)).toEqual(['mediaType', 'space', 'year', 'size'])
+    const [mediaType, space, year, size] = facets.value
+    expect(mediaType.values.map(v => [v.label, v.count])).toEqual([['Images', 2], ['PDFs', 1]])
+    expect(space.values.map(v => [v.label, v.count])).toEqual([['Marketing', 2], ['Personal', 1]])
+    expect(year.values.map(v => v.value)).toEqual(['2024', '2023'])
+    expect(size.values.map(v => v.label)).toEqual(['< 100 KB', '> 1 GB'])
+  })
+
+  it('follows appended pages and the filters', async () => {
+    const search = reactive({ items: [resource('a')], filters: createEmptyFilters() })
+    const { facets } = useResultFacets({ items: () => search.items, filters: () => search.filters })
+    const tags = () => facets.value.find(facet => facet.id === 'tag')
+
+    expect(tags()).toBeUndefined()
+    search.items = [...search.items, resource('b', { tags: ['trip'] }), resource('c', { tags: ['trip'] })]
+    await nextTick()
+    expect(tags()!.values).toEqual([{ value: 'trip', label: 'trip', count: 2, active: false, selectable: true }])
+
+    search.filters.standard.tags = 'trip'
+    expect(tags()!.values[0].active).toBe(true)
+    search.filters.standard.sizeRange = { min: undefined, max: SIZE_BUCKETS[0].max }
+    expect(facets.value.find(facet => facet.id === 'size')!.values[0].active).toBe(true)
+  })
+})
@@ -0,0 +1,121 @@
+/**
+ * Composable for the facet sidebar
+ *
+ * Counts the facet values of the loaded results (utils/facets.ts) as pages
+ * come in and labels them for display: media types by their filter label,
+ * spaces by name, size buckets as byte ranges. Values are flagged when the
+ * filters already narrow the search to them.
+ */
+
+import { computed, shallowRef, watch } from 'vue'
+import { useSpacesStore } from '@ownclouders/web-pkg'
+import type { SpaceResource } from '@ownclouders/web-client'
+import type { SearchFilters, SearchResource } from '../types'
+import { COMMON_MEDIA_TYPES } from '../types'
+import {
+  FACET_IDS,
+  SIZE_BUCKETS,
+  createFacetCounter,
+  getFacetSelection,
+  isFacetSelected,
+  type FacetCounts,
+  type FacetId,
+} from '../utils/facets'
+import { formatBytes } from '../utils/format'
+import { useTranslations } from './useTranslations'
+
+export interface FacetValue {
+  value: string
+  label: string
+  count: number
+  /** The filters already narrow the search to this value */
+  active: boolean
+  /** The value maps to a filter */
+  selectable: boolean
+}
+
+export interface Facet {
+  id: FacetId
+  label: string
+  values: FacetValue[]
+}
+
+export interface ResultFacetsOptions {
+  /** Loaded results in the order they came in */
+  items: () => SearchResource[]
+  filters: () => SearchFilters
+}
+
+export function useResultFacets(options: ResultFacetsOptions) {
+  const { $gettext } = useTranslations()
+  const spacesStore = useSpacesStore()
+
+  const counter = createFacetCounter()
+  const counts = shallowRef<FacetCounts>(counter.counts)
+
+  watch(options.items, items => {
+    // Maps are updated in place; a new object lets the computed re-run
+    if (counter.update(items)) counts.value = { ...counter.counts }
+  }, { immediate: true })
+
+  const facetLabels: Record<FacetId, string> = {
+    mediaType: $gettext('Media Type'),
+    space: $gettext('Space'),
+    cameraMake: $gettext('Camera Make'),
+    cameraModel: $gettext('Camera Model'),
+    tag: $gettext('Tags'),
+    year: $gettext('Year Modified'),
+    size: $gettext('Size'),
+  }
+
+  function getValueLabel(facet: FacetId, value: string): string {
+    switch (facet) {
+      case 'mediaType':
+        return COMMON_MEDIA_TYPES.find(type => type.value === value)?.label ?? value
+      case 'space':
+        return (spacesStore.spaces as SpaceResource[]).find(space => space?.id === value)?.name || value
+      case 'size': {
+        const bucket = SIZE_BUCKETS.find(candidate => candidate.key === value)
+        if (!bucket) return value
+        if (bucket.min === undefined) return `< ${formatBytes(bucket.max! + 1)}`
+        if (bucket.max === undefined) return `> ${formatBytes(bucket.min)}`
+        return `${formatBytes(bucket.min)} – ${formatBytes(bucket.max + 1)}`
+      }
+      default:
+        return value
+    }
+  }
+
+  /** Years newest first, sizes smallest first, everything else most frequent first */
+  function compareValues(facet: FacetId, a: FacetValue, b: FacetValue): number {
+    if (facet === 'year') return b.value.localeCompare(a.value)
+    if (facet === 'size') {
+      return SIZE_BUCKETS.findIndex(bucket => bucket.key === a.value) - SIZE_BUCKETS.findIndex(bucket => bucket.key === b.value)
+    }
+    return b.count - a.count || a.label.localeCompare(b.label)
+  }
+
+  const facets = computed<Facet[]>(() => {
+    const filters = options.filters()
+    return FACET_IDS
+      .map(id => ({
+        id,
+        label: facetLabels[id],
+        values: [...counts.value[id]]
+          .map(([value, count]) => ({
+            value,
+            label: getValueLabel(id, value),
+            count,
+            active: isFacetSelected(filters, id, value),
+            selectable: getFacetSelection(id, value) !== null,
+          }))
+          .sort((a, b) => compareValues(id, a, b)),
+      }))
+      .filter(facet => facet.values.length > 0)
+  })
+
+  return {
+    // Computed
+    facets,
+  }
+}
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { nextTick, ref } from 'vue'
+import { useSavedQueryAlerts } from './useSavedQueryAlerts'
+import { createEmptyFilters } from '../types'
+import type { SavedQuery, SavedQuerySnapshot, SavedQuerySyncStatus, SearchFilters } from '../types'
+
+function query(id: string, notify = true): SavedQuery {
+  return { id, name: id, filters: { ...createEmptyFilters(), term: id }, savedAt: '2024-01-01T00:00:00.000Z', notify }
+}
+
+/**
+ * Matches by search term; change `matches` to simulate new files
+ */
+function createFinder(matches: Record<string, string[]>) {
+  return vi.fn(async (filters: SearchFilters) => ({
+    items: (matches[filters.term || ''] || []).map(id => ({ id, fileId: id })),
+    complete: true,
+  }))
+}
+
+/**
+ * Saved queries that keep the snapshots they are given, like useSearchHistory
+ */
+function createSavedQueries(...queries: SavedQuery[]) {
+  const savedQueries = ref(queries)
+  const setSnapshot = vi.fn((id: string, snapshot: SavedQuerySnapshot | undefined) => {
+    savedQueries.value = savedQueries.value.map(q => (q.id === id ? { ...q, snapshot } : q))
+  })
+  return { savedQueries, setSnapshot }
+}
+
+let alerts: ReturnType<typeof useSavedQueryAlerts> | null = null
+
+beforeEach(() => {
+  const data = new Map<string, string>()
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => { data.set(key, value) },
+    removeItem: (key: string) => { data.delete(key) },
+  })
+  vi.useFakeTimers()
+})
+
+afterEach(() => {
+  alerts?.stop()
+  alerts = null
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('useSavedQueryAlerts', () => {
+  it('reports new matches of queries with alerts on each run', async () => {
+    const matches = { invoices: ['a', 'b'], photos: ['p'] }
+    const findMatches = createFinder(matches)
+    const queries = createSavedQueries(query('invoices'), query('photos', false))
+    alerts = useSavedQueryAlerts({ ...queries, findMatches, interval: 1000 })
+    await vi.waitFor(() => expect(alerts!.snapshots.value.invoices).toBeDefined())
+    expect(findMatches).toHaveBeenCalledTimes(1)
+    expect(alerts.totalUnread.value).toBe(0)
+
+    matches.invoices = ['c', 'a', 'b']
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(alerts.unreadCounts.value).toEqual({ invoices: 1 })
+    expect(alerts.totalUnread.value).toBe(1)
+  })
+
+  it('clears unread matches when the query is opened', async () => {
+    const matches = { invoices: ['a'] }
+    const queries = createSavedQueries(query('invoices'))
+    alerts = useSavedQueryAlerts({ ...queries, findMatches: createFinder(matches), interval: 1000 })
+    await vi.waitFor(() => expect(alerts!.snapshots.value.invoices).toBeDefined())
+    matches.invoices = ['b', 'a']
+    await alerts.check()
+
+    expect(alerts.markVisited('invoices')).toEqual(['b'])
+    expect(alerts.unreadCounts.value.invoices).toBe(0)
+    expect(alerts.markVisited('invoices')).toEqual([])
+  })
+
+  it('stores snapshots on the saved queries', async () => {
+    const matches = { invoices: ['a'] }
+    const queries = createSavedQueries(query('invoices'))
+    alerts = useSavedQueryAlerts({ ...queries, findMatches: createFinder(matches) })
+    await vi.waitFor(() => expect(queries.savedQueries.value[0].snapshot?.fileIds).toEqual(['a']))
+    alerts.stop()
+
+    matches.invoices = ['b', 'a']
+    alerts = useSavedQueryAlerts({ ...queries, findMatches: createFinder(matches) })
+    await vi.waitFor(() => expect(alerts!.unreadCounts.value.invoices).toBe(1))
+  })
+
+  it('waits for the saved queries to sync before the first run', async () => {
+    const findMatches = createFinder({ invoices: ['b', 'a'] })
+    const queries = createSavedQueries(query('invoices'))
+    const syncStatus = ref<SavedQuerySyncStatus>('syncing')
+    alerts = useSavedQueryAlerts({ ...queries, findMatches, syncStatus })
+    await alerts.check()
+    expect(findMatches).not.toHaveBeenCalled()
+
+    // Snapshot taken in another browser
+    queries.savedQueries.value = [{
+      ...query('invoices'),
+      snapshot: { fileIds: ['a'], checkedAt: '2024-01-01T00:00:00.000Z', unread: [], complete: true },
+    }]
+    syncStatus.value = 'synced'
+    await nextTick()
+    await alerts.check()
+    expect(alerts.unreadCounts.value.invoices).toBe(1)
+  })
+
+  it('does not store runs that change nothing but the time', async () => {
+    const queries = createSavedQueries(query('invoices'))
+    alerts = useSavedQueryAlerts({ ...queries, findMatches: createFinder({ invoices: ['a'] }) })
+    await vi.waitFor(() => expect(alerts!.snapshots.value.invoices).toBeDefined())
+
+    await alerts.check()
+    expect(queries.setSnapshot).toHaveBeenCalledTimes(1)
+  })
+
+  it('takes over snapshots this browser kept before', async () => {
+    localStorage.setItem('ocis-advanced-search-saved-query-snapshots', JSON.stringify({
+      version: 1,
+      snapshots: { invoices: { fileIds: ['a'], checkedAt: '2024-01-01T00:00:00.000Z', unread: ['a'] } },
+    }))
+    const queries = createSavedQueries(query('invoices'))
+    alerts = useSavedQueryAlerts({ ...queries, findMatches: createFinder({ invoices: ['a'] }) })
+
+    expect(alerts.unreadCounts.value).toEqual({ invoices: 1 })
+    expect(localStorage.getItem('ocis-advanced-search-saved-query-snapshots')).toBeNull()
+  })
+
+  it('takes a baseline when alerts are turned on and forgets it when turned off', async () => {
+    const findMatches = createFinder({ invoices: ['a'] })
+    const queries = createSavedQueries(query('invoices', false))
+    alerts = useSavedQueryAlerts({ ...queries, findMatches })
+    await alerts.check()
+    expect(findMatches).not.toHaveBeenCalled()
+
+    queries.savedQueries.value = [query('invoices')]
+    await nextTick()
+    await vi.waitFor(() => expect(alerts!.snapshots.value.invoices?.fileIds).toEqual(['a']))
+
+    queries.savedQueries.value = queries.savedQueries.value.map(q => ({ ...q, notify: false }))
+    await nextTick()
+    expect(alerts.snapshots.value).toEqual({})
+    expect(queries.savedQueries.value[0].snapshot).toBeUndefined()
+  })
+
+  it('keeps the previous snapshot when a run fails', async () => {
+    const findMatches = createFinder({ invoices: ['a'] })
+    const queries = createSavedQueries(query('invoices'))
+    alerts = useSavedQueryAlerts({ ...queries, findMatches })
+    await vi.waitFor(() => expect(alerts!.snapshots.value.invoices).toBeDefined())
+
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    findMatches.mockRejectedValueOnce(new Error('Network Error'))
+    await alerts.check()
+    expect(alerts.snapshots.value.invoices.fileIds).toEqual(['a'])
+  })
+
+  it('starts a new baseline when the query was edited', async () => {
+    const matches: Record<string, string[]> = { invoices: ['a'], receipts: ['r1', 'r2'] }
+    const queries = createSavedQueries(query('invoices'))
+    alerts = useSavedQueryAlerts({ ...queries, findMatches: createFinder(matches) })
+    await vi.waitFor(() => expect(alerts!.snapshots.value.invoices).toBeDefined())
+
+    queries.savedQueries.value = queries.savedQueries.value.map(q => ({
+      ...q,
+      filters: { ...createEmptyFilters(), term: 'receipts' },
+    }))
+    await alerts.check()
+    expect(alerts.snapshots.value.invoices).toMatchObject({ fileIds: ['r1', 'r2'], unread: [] })
+  })
+})
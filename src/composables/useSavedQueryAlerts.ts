@@ -0,0 +1,191 @@
+/**
+ * Composable for saved-search alerts
+ *
+ * While the app is open, saved queries with `notify` set are re-run every
+ * few minutes in the background (skipped while the page is hidden). Each
+ * run is diffed by file ID against the snapshot of the previous one
+ * (utils/savedQueryAlerts.ts); matches that appeared in between are unread
+ * until the saved query is opened again. Snapshots are stored on the saved
+ * queries (`snapshot`), so they are synced with them; runs wait while the
+ * saved queries sync, so another browser continues from the synced snapshot
+ * instead of taking a new baseline.
+ */
+
+import { ref, computed, watch, getCurrentInstance, onUnmounted, type Ref } from 'vue'
+import type { SavedQuery, SavedQuerySnapshot, SavedQuerySyncStatus, SearchFilters, SearchResource } from '../types'
+import { getMatchIds, parseSnapshots, sameSnapshotState, updateSnapshot } from '../utils/savedQueryAlerts'
+
+// Where snapshots were kept before they moved to the saved queries
+const LEGACY_SNAPSHOTS_KEY = 'ocis-advanced-search-saved-query-snapshots'
+// Time between background runs
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000
+
+export interface SavedQueryAlertsOptions {
+  savedQueries: Ref<SavedQuery[]>
+  /** Stores a saved query's snapshot, e.g. useSearchHistory().setQuerySnapshot */
+  setSnapshot: (id: string, snapshot: SavedQuerySnapshot | undefined) => void
+  /** Runs a query in the background, e.g. useAdvancedSearch().findMatches */
+  findMatches: (filters: SearchFilters) => Promise<{
+    items: Array<Pick<SearchResource, 'id' | 'fileId'>>
+    /** Every match was fetched */
+    complete: boolean
+  }>
+  /** Sync state of the saved queries; runs wait while they sync */
+  syncStatus?: Ref<SavedQuerySyncStatus>
+  /** Milliseconds between runs (default 5 minutes) */
+  interval?: number
+}
+
+/**
+ * Take over snapshots this browser kept in localStorage, once
+ */
+function takeLegacySnapshots(): Record<string, SavedQuerySnapshot> {
+  try {
+    const snapshots = parseSnapshots(localStorage.getItem(LEGACY_SNAPSHOTS_KEY))
+    localStorage.removeItem(LEGACY_SNAPSHOTS_KEY)
+    return snapshots
+  } catch (err) {
+    console.error('[SavedQueryAlerts] Failed to load snapshots:', err)
+    return {}
+  }
+}
+
+/**
+ * Composable for background runs of saved queries with alerts
+ */
+export function useSavedQueryAlerts(options: SavedQueryAlertsOptions) {
+  const { savedQueries, setSnapshot, findMatches, syncStatus } = options
+
+  const checking = ref(false)
+
+  const alertQueries = computed(() => savedQueries.value.filter(q => q.notify))
+
+  /** Snapshots of the queries with alerts, by saved query ID */
+  const snapshots = computed<Record<string, SavedQuerySnapshot>>(() =>
+    Object.fromEntries(alertQueries.value.filter(q => q.snapshot).map(q => [q.id, q.snapshot!]))
+  )
+
+  /** Unread new matches by saved query ID */
+  const unreadCounts = computed<Record<string, number>>(() =>
+    Object.fromEntries(Object.entries(snapshots.value).map(([id, snapshot]) => [id, snapshot.unread.length]))
+  )
+
+  const totalUnread = computed(() =>
+    Object.values(unreadCounts.value).reduce((sum, count) => sum + count, 0)
+  )
+
+  const isSyncing = () => syncStatus?.value === 'syncing'
+
+  /**
+   * Drop snapshots of queries with alerts turned off
+   */
+  function prune(): void {
+    savedQueries.value
+      .filter(q => !q.notify && q.snapshot)
+      .forEach(q => setSnapshot(q.id, undefined))
+  }
+
+  const legacySnapshots = takeLegacySnapshots()
+
+  /**
+   * Move snapshots kept in this browser onto queries that have none yet
+   */
+  function adoptLegacySnapshots(): void {
+    for (const query of alertQueries.value) {
+      const legacy = legacySnapshots[query.id]
+      delete legacySnapshots[query.id]
+      if (legacy && !query.snapshot) setSnapshot(query.id, legacy)
+    }
+  }
+
+  /**
+   * Run saved queries with alerts (all, or the given IDs) and update their
+   * snapshots. A query that fails keeps its previous snapshot; a run that
+   * changes nothing but the time isn't stored (every change is synced).
+   */
+  async function check(ids?: string[]): Promise<void> {
+    if (checking.value || isSyncing()) return
+    checking.value = true
+    try {
+      for (const query of alertQueries.value) {
+        if (ids && !ids.includes(query.id)) continue
+        try {
+          const { items, complete } = await findMatches(query.filters)
+          // Deleted or turned off while running
+          const current = alertQueries.value.find(q => q.id === query.id)
+          if (!current) continue
+          const filtersKey = JSON.stringify(query.filters)
+          const previous = current.snapshot
+          const snapshot = {
+            ...updateSnapshot(
+              previous && (previous.filtersKey ?? filtersKey) === filtersKey ? previous : undefined,
+              getMatchIds(items),
+              new Date().toISOString(),
+              complete
+            ),
+            filtersKey,
+          }
+          if (!previous || !sameSnapshotState(previous, snapshot)) setSnapshot(query.id, snapshot)
+        } catch (err) {
+          console.error(`[SavedQueryAlerts] Failed to run saved query "${query.name}":`, err)
+        }
+      }
+    } finally {
+      checking.value = false
+    }
+  }
+
+  /**
+   * The saved query was opened: its unread matches are read now
+   * @returns File IDs that were new since the last visit
+   */
+  function markVisited(id: string): string[] {
+    const snapshot = snapshots.value[id]
+    if (!snapshot || snapshot.unread.length === 0) return []
+    setSnapshot(id, { ...snapshot, unread: [] })
+    return snapshot.unread
+  }
+
+  // New alert queries get their baseline right away (once synced snapshots are in)
+  watch(
+    () => [alertQueries.value.map(q => q.id).join(','), isSyncing()],
+    () => {
+      if (isSyncing()) return
+      prune()
+      adoptLegacySnapshots()
+      const missing = alertQueries.value.filter(q => !q.snapshot).map(q => q.id)
+      if (missing.length > 0) void check(missing)
+    }
+  )
+
+  const timer = setInterval(() => {
+    if (typeof document !== 'undefined' && document.visibilityState === 'hidden') return
+    void check()
+  }, options.interval ?? DEFAULT_INTERVAL_MS)
+
+  function stop(): void {
+    clearInterval(timer)
+  }
+
+  if (getCurrentInstance()) {
+    onUnmounted(stop)
+  }
+  if (!isSyncing()) {
+    prune()
+    adoptLegacySnapshots()
+    void check()
+  }
+
+  return {
+    // State
+    snapshots,
+    checking,
+    unreadCounts,
+    totalUnread,
+
+    // Methods
+    check,
+    markVisited,
+    stop,
+  }
+}
@@ -0,0 +1,353 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { useSearchHistory } from './useSearchHistory'
+import { createEmptyFilters } from '../types'
+import type { SavedQuery, SavedQueryStore } from '../types'
+import { SAVED_QUERIES_SCHEMA_VERSION, SavedQueryConflictError, parseSavedQueries } from '../utils/savedQueries'
+
+// Mock vue3-gettext
+vi.mock('vue3-gettext', () => ({
+  useGettext: () => ({
+    $gettext: (msg: string) => msg,
+    $ngettext: (singular: string, plural: string, n: number) => (n === 1 ? singular : plural),
+    $pgettext: (_context: string, msg: string) => msg,
+  })
+}))
+
+// Mock @ownclouders/web-pkg (only used by the default WebDAV store)
+vi.mock('@ownclouders/web-pkg', () => ({
+  useClientService: () => ({ httpAuthenticated: { request: vi.fn() } }),
+  useConfigStore: () => ({ serverUrl: 'https://cloud.example.com' }),
+  useSpacesStore: () => ({ spaces: [] }),
+}))
+
+/**
+ * In-memory store with etags; `beforeSave` runs before a write is checked
+ */
+function createFakeStore(initial: SavedQuery[] | null = null) {
+  let stored = initial
+  let version = 1
+  const store: SavedQueryStore & {
+    offline: boolean
+    saves: number
+    beforeSave?: () => void
+    get stored(): SavedQuery[] | null
+    set stored(queries: SavedQuery[] | null)
+  } = {
+    id: 'fake',
+    offline: false,
+    saves: 0,
+    get stored() {
+      return stored
+    },
+    set stored(queries) {
+      stored = queries
+      version++
+    },
+    async load() {
+      if (store.offline) throw new Error('Network Error')
+      return stored ? { queries: JSON.parse(JSON.stringify(stored)), etag: `v${version}` } : null
+    },
+    async save(queries, etag) {
+      if (store.offline) throw new Error('Network Error')
+      store.beforeSave?.()
+      if ((stored ? `v${version}` : null) !== etag) throw new SavedQueryConflictError()
+      store.saves++
+      store.stored = JSON.parse(JSON.stringify(queries))
+      return `v${version}`
+    },
+  }
+  return store
+}
+
+function query(id: string, name = id): SavedQuery {
+  return { id, name, filters: createEmptyFilters(), savedAt: '2024-01-01T00:00:00.000Z' }
+}
+
+const names = (queries: SavedQuery[] | null) => (queries || []).map(q => q.name)
+
+beforeEach(() => {
+  const data = new Map<string, string>()
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => { data.set(key, value) },
+    removeItem: (key: string) => { data.delete(key) },
+  })
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('useSearchHistory', () => {
+  it('works with localStorage only', async () => {
+    const history = useSearchHistory({ store: 'local' })
+    history.saveQuery('Photos', createEmptyFilters())
+    await history.sync()
+    expect(history.syncStatus.value).toBe('local')
+    expect(names(useSearchHistory({ store: 'local' }).savedQueries.value)).toEqual(['Photos'])
+  })
+
+  it('loads stored queries and uploads local ones', async () => {
+    localStorage.setItem('ocis-advanced-search-saved-queries', JSON.stringify([query('local')]))
+    const store = createFakeStore([query('remote')])
+    const history = useSearchHistory({ store })
+    await history.sync()
+
+    expect(history.syncStatus.value).toBe('synced')
+    expect(names(history.savedQueries.value)).toEqual(['remote', 'local'])
+    expect(names(store.stored)).toEqual(['remote', 'local'])
+  })
+
+  it('does not create a file when there is nothing to store', async () => {
+    const store = createFakeStore()
+    await useSearchHistory({ store }).sync()
+    expect(store.stored).toBeNull()
+  })
+
+  it('syncs saves, renames and deletes', async () => {
+    const store = createFakeStore()
+    const history = useSearchHistory({ store })
+    await history.sync()
+
+    const saved = history.saveQuery('Beach', createEmptyFilters())!
+    await history.sync()
+    history.renameQuery(saved.id, 'Beach 2024')
+    await history.sync()
+    expect(names(store.stored)).toEqual(['Beach 2024'])
+
+    history.deleteQuery(saved.id)
+    await history.sync()
+    expect(store.stored).toEqual([])
+  })
+
+  it('merges when the stored list changed in between', async () => {
+    const store = createFakeStore([query('a')])
+    const history = useSearchHistory({ store })
+    await history.sync()
+
+    // Another browser renames "a" right before our write
+    store.beforeSave = () => {
+      store.beforeSave = undefined
+      store.stored = [query('a', 'renamed elsewhere')]
+    }
+    history.saveQuery('mine', createEmptyFilters())
+    await history.sync()
+
+    expect(names(store.stored)).toEqual(['mine', 'renamed elsewhere'])
+    expect(names(history.savedQueries.value)).toEqual(['mine', 'renamed elsewhere'])
+  })
+
+  it('keeps changes locally while offline and syncs them later', async () => {
+    const store = createFakeStore([query('a')])
+    store.offline = true
+    const history = useSearchHistory({ store })
+    await history.sync()
+    expect(history.syncStatus.value).toBe('offline')
+
+    history.saveQuery('offline', createEmptyFilters())
+    await history.sync()
+    expect(names(history.savedQueries.value)).toEqual(['offline'])
+
+    store.offline = false
+    await history.sync()
+    expect(history.syncStatus.value).toBe('synced')
+    expect(names(store.stored)).toEqual(['a', 'offline'])
+  })
+
+  it('reports a conflict that keeps recurring as an error', async () => {
+    const store = createFakeStore([query('a')])
+    const history = useSearchHistory({ store })
+    await history.sync()
+
+    store.beforeSave = () => { store.stored = [query('a', `changed ${Math.random()}`)] }
+    history.saveQuery('mine', createEmptyFilters())
+    await history.sync()
+    expect(history.syncStatus.value).toBe('error')
+    expect(names(history.savedQueries.value)).toContain('mine')
+  })
+
+  it('stores the sync base with its schema version', async () => {
+    const store = createFakeStore([query('a')])
+    await useSearchHistory({ store }).sync()
+    const base = JSON.parse(localStorage.getItem('ocis-advanced-search-saved-queries-synced')!)
+    expect(base.version).toBe(SAVED_QUERIES_SCHEMA_VERSION)
+    expect(names(base.queries)).toEqual(['a'])
+  })
+
+  it('merges against an empty base when the stored base is unreadable', async () => {
+    for (const base of ['[null, 42]', '"corrupted"', '{ "version": 99, "queries": [] }', '{']) {
+      localStorage.setItem('ocis-advanced-search-saved-queries', JSON.stringify([query('local')]))
+      localStorage.setItem('ocis-advanced-search-saved-queries-synced', base)
+      const store = createFakeStore([query('remote')])
+      const history = useSearchHistory({ store })
+      await history.sync()
+
+      expect(history.syncStatus.value).toBe('synced')
+      expect(names(store.stored)).toEqual(['remote', 'local'])
+    }
+  })
+
+  it('migrates a sync base written by an older schema', async () => {
+    const legacy = { id: 'a', name: 'a', filters: { term: 'x' }, savedAt: '2024-01-01T00:00:00.000Z' }
+    localStorage.setItem('ocis-advanced-search-saved-queries-synced', JSON.stringify([legacy]))
+    // Deleted in this browser since the last sync: the base must still know "a"
+    const store = createFakeStore(parseSavedQueries([legacy]).queries)
+    const history = useSearchHistory({ store })
+    await history.sync()
+
+    expect(history.syncStatus.value).toBe('synced')
+    expect(store.stored).toEqual([])
+  })
+
+  it('migrates stored queries from the unversioned format and keeps a backup', () => {
+    const legacy = JSON.stringify([{ id: 'old', name: 'Old', filters: { term: 'x' }, savedAt: '2023-01-01T00:00:00.000Z' }, { name: 42 }])
+    localStorage.setItem('ocis-advanced-search-saved-queries', legacy)
+    const history = useSearchHistory({ store: 'local' })
+
+    expect(history.savedQueries.value[0].filters).toEqual({ term: 'x', scope: 'allFiles', standard: {}, photo: {} })
+    expect(history.storageError.value).toBe('Some saved searches could not be read and were skipped.')
+    expect(localStorage.getItem('ocis-advanced-search-saved-queries-backup')).toBe(legacy)
+
+    history.saveQuery('New', createEmptyFilters())
+    expect(JSON.parse(localStorage.getItem('ocis-advanced-search-saved-queries')!).version).toBe(SAVED_QUERIES_SCHEMA_VERSION)
+  })
+
+  describe('importQueries', () => {
+    const file = JSON.stringify({ version: 1, queries: [query('x', 'Beach'), query('y', 'City'), { id: 'z' }] })
+
+    function withSaved() {
+      localStorage.setItem('ocis-advanced-search-saved-queries', JSON.stringify([query('a', 'beach'), query('b', 'Other')]))
+      return useSearchHistory({ store: 'local' })
+    }
+
+    it('merges, updating queries with the same name', () => {
+      const history = withSaved()
+      const result = history.importQueries(file, 'merge')
+      expect(result).toMatchObject({ added: 1, updated: 1, skipped: 0 })
+      expect(result.errors).toHaveLength(1)
+      expect(history.savedQueries.value.map(q => `${q.id}:${q.name}`)).toEqual(['a:Beach', 'b:Other', 'y:City'])
+    })
+
+    it('skips duplicates', () => {
+      const history = withSaved()
+      expect(history.importQueries(file, 'skipDuplicates')).toMatchObject({ added: 1, updated: 0, skipped: 1 })
+      expect(names(history.savedQueries.value)).toEqual(['beach', 'Other', 'City'])
+    })
+
+    it('replaces all saved queries', () => {
+      const history = withSaved()
+      expect(history.importQueries(file, 'replace')).toMatchObject({ added: 2 })
+      expect(names(history.savedQueries.value)).toEqual(['Beach', 'City'])
+    })
+
+    it('round-trips an export', () => {
+      const history = withSaved()
+      const exported = history.exportQueries()
+      expect(JSON.parse(exported).version).toBe(SAVED_QUERIES_SCHEMA_VERSION)
+      expect(history.importQueries(exported, 'skipDuplicates')).toMatchObject({ added: 0, skipped: 2, errors: [] })
+    })
+
+    it('leaves saved queries alone when the file is unreadable', () => {
+      const history = withSaved()
+      expect(history.importQueries('not json', 'replace').error).toBe('Not valid JSON')
+      expect(history.importQueries(JSON.stringify({ version: 1, queries: [{}] }), 'replace').added).toBe(0)
+      expect(names(history.savedQueries.value)).toEqual(['beach', 'Other'])
+    })
+  })
+
+  describe('organizing', () => {
+    it('pins, moves into folders and counts runs', () => {
+      const history = useSearchHistory({ store: 'local' })
+      const a = history.saveQuery('A', createEmptyFilters(), ' Finance ')!
+      const b = history.saveQuery('B', createEmptyFilters())!
+      expect(a.folder).toBe('Finance')
+
+      history.setQueryPinned(a.id, true)
+      history.editQuery(b.id, { name: 'B2', folder: 'Photos' })
+      history.recordQueryRun(b.id)
+      history.recordQueryRun(b.id)
+      expect(history.getQuery(a.id)?.pinned).toBe(true)
+      expect(history.getQuery(b.id)).toMatchObject({ name: 'B2', folder: 'Photos', runCount: 2 })
+      expect(history.getQuery(b.id)?.lastRunAt).toBeTruthy()
+
+      history.moveQuery(b.id, a.id)
+      expect(history.savedQueries.value.map(q => [q.name, q.folder, q.pinned])).toEqual([['B2', 'Finance', true], ['A', 'Finance', true]])
+
+      // Survives a reload
+      expect(useSearchHistory({ store: 'local' }).savedQueries.value).toEqual(history.savedQueries.value)
+    })
+
+    it('duplicates a query right after the original', () => {
+      const history = useSearchHistory({ store: 'local' })
+      const filters = { ...createEmptyFilters(), term: 'beach' }
+      const original = history.saveQuery('Beach', filters, 'Photos')!
+      history.saveQuery('Other', createEmptyFilters())
+      history.setQueryNotify(original.id, true)
+      history.recordQueryRun(original.id)
+
+      const copy = history.duplicateQuery(original.id)!
+      expect(copy).toMatchObject({ name: 'Beach (copy)', folder: 'Photos', filters })
+      expect(copy.notify).toBeUndefined()
+      expect(copy.runCount).toBeUndefined()
+      expect(names(history.savedQueries.value)).toEqual(['Other', 'Beach', 'Beach (copy)'])
+
+      history.editQuery(copy.id, { filters: { ...filters, term: 'sunset' } })
+      expect(history.getQuery(copy.id)?.filters.term).toBe('sunset')
+      expect(history.getQuery(original.id)?.filters.term).toBe('beach')
+    })
+
+    it('stores alert snapshots, but does not export them', () => {
+      const history = useSearchHistory({ store: 'local' })
+      const query = history.saveQuery('Beach', createEmptyFilters())!
+      const snapshot = { fileIds: ['f1'], checkedAt: '2024-05-01T08:00:00.000Z', unread: [], complete: true }
+      history.setQuerySnapshot(query.id, snapshot)
+      expect(useSearchHistory({ store: 'local' }).getQuery(query.id)?.snapshot).toEqual(snapshot)
+      expect(JSON.parse(history.exportQueries()).queries[0].snapshot).toBeUndefined()
+
+      history.setQuerySnapshot(query.id, undefined)
+      expect(history.getQuery(query.id)?.snapshot).toBeUndefined()
+    })
+
+    it('remembers the list order', () => {
+      useSearchHistory({ store: 'local' }).setSortOrder('runCount')
+      expect(useSearchHistory({ store: 'local' }).sortOrder.value).toBe('runCount')
+    })
+  })
+
+  describe('recent searches', () => {
+    const filters = (term: string) => ({ ...createEmptyFilters(), term })
+
+    it('records searches with their result count and keeps them across reloads', () => {
+      const history = useSearchHistory({ store: 'local' })
+      history.addToRecent(filters('beach'), 12)
+      history.addToRecent(filters('invoice'), null)
+
+      const reloaded = useSearchHistory({ store: 'local' }).recentSearches.value
+      expect(reloaded.map(e => [e.query, e.resultCount])).toEqual([['name:*invoice*', null], ['name:*beach*', 12]])
+      expect(reloaded[1].filters).toEqual(filters('beach'))
+    })
+
+    it('moves a repeated search to the top and skips searches without filters', () => {
+      const history = useSearchHistory({ store: 'local' })
+      history.addToRecent(filters('beach'), 1)
+      history.addToRecent(filters('invoice'), 2)
+      history.addToRecent(filters('beach'), 3)
+      expect(history.addToRecent(createEmptyFilters(), 100)).toBeNull()
+      expect(history.recentSearches.value.map(e => [e.filters.term, e.resultCount])).toEqual([['beach', 3], ['invoice', 2]])
+    })
+
+    it('removes single entries and clears the history', () => {
+      const history = useSearchHistory({ store: 'local' })
+      const beach = history.addToRecent(filters('beach'), 1)!
+      history.addToRecent(filters('invoice'), 2)
+
+      history.removeRecent(beach.id)
+      expect(useSearchHistory({ store: 'local' }).recentSearches.value.map(e => e.filters.term)).toEqual(['invoice'])
+
+      history.clearRecent()
+      expect(useSearchHistory({ store: 'local' }).recentSearches.value).toEqual([])
+    })
+  })
+})
@@ -1,13 +1,88 @@
 /**
  * Composable for managing saved search queries
- * Uses localStorage for persistence
+ *
+ * Queries are kept in localStorage (instant, works offline) and synced to a
+ * SavedQueryStore, by default a JSON file in the user's personal space
+ * (backends/davSavedQueryStore.ts). Every change is written locally first and
+ * then synced in the background; a sync loads the stored list, merges it with
+ * the local one against the last synced list (utils/savedQueries.ts) and
+ * writes the result back if the stored version is unchanged, retrying on
+ * conflicts. While the store is unreachable, changes stay local and are
+ * synced once the browser is back online.
+ *
+ * Stored, synced and exported lists carry a schema version and are migrated
+ * and validated when read (utils/savedQueries.ts). Entries that can't be read
+ * are skipped; the original data is kept under BACKUP_KEY.
+ *
+ * Searches that were run are kept as recent searches (filters and result
+ * count) in localStorage of this browser, for the search box autocomplete.
  */
 
-import { ref } from 'vue'
-import type { SavedQuery, SearchFilters } from '../types'
+import { ref, getCurrentInstance, onUnmounted } from 'vue'
+import { useClientService, useConfigStore, useSpacesStore } from '@ownclouders/web-pkg'
+import type { SpaceResource } from '@ownclouders/web-client'
+import type {
+  SavedQuery,
+  SavedQuerySnapshot,
+  SavedQuerySortOrder,
+  SavedQueryStore,
+  SavedQuerySyncStatus,
+  SearchFilters,
+  SearchHistoryEntry,
+} from '../types'
+import { createDavSavedQueryStore } from '../backends/davSavedQueryStore'
+import {
+  SAVED_QUERIES_SCHEMA_VERSION,
+  SavedQueryConflictError,
+  SavedQueryFormatError,
+  createSavedQueryId,
+  mergeSavedQueries,
+  parseSavedQueries,
+  sameSavedQueries,
+  serializeSavedQueries,
+  type SavedQueryEntryError,
+} from '../utils/savedQueries'
+import { getCopyName, moveSavedQuery } from '../utils/savedQueryList'
+import { addHistoryEntry, parseHistory, serializeHistory } from '../utils/searchHistory'
+import { buildKQL } from '../utils/kql'
 import { useTranslations } from './useTranslations'
 
 const STORAGE_KEY = 'ocis-advanced-search-saved-queries'
+// Stored data as it was before it was migrated or found (partly) unreadable
+const BACKUP_KEY = 'ocis-advanced-search-saved-queries-backup'
+// How the saved searches list is ordered (a preference of this browser)
+const SORT_ORDER_KEY = 'ocis-advanced-search-saved-queries-order'
+const SORT_ORDERS: SavedQuerySortOrder[] = ['custom', 'name', 'savedAt', 'lastRun', 'runCount']
+// Recent searches (this browser only)
+const HISTORY_KEY = 'ocis-advanced-search-history'
+// Saved queries as of the last sync, the base for merging
+const SYNC_BASE_KEY = 'ocis-advanced-search-saved-queries-synced'
+// Attempts to write after the stored list changed in between (412)
+const MAX_SYNC_ATTEMPTS = 3
+
+export interface SearchHistoryOptions {
+  /** Where saved queries are synced: 'dav' (default), 'local' (this browser only) or a custom store */
+  store?: 'dav' | 'local' | SavedQueryStore
+}
+
+/**
+ * How imported queries are combined with the saved ones. An imported query
+ * is a duplicate if a saved query has the same ID or name.
+ * - merge: duplicates update the saved query, others are added
+ * - replace: the imported queries replace all saved ones
+ * - skipDuplicates: duplicates are ignored, others are added
+ */
+export type SavedQueryImportMode = 'merge' | 'replace' | 'skipDuplicates'
+
+export interface SavedQueryImportResult {
+  added: number
+  updated: number
+  skipped: number
+  /** Entries that failed validation and were not imported */
+  errors: SavedQueryEntryError[]
+  /** Why nothing was imported (file unreadable, storage failure) */
+  error?: string
+}
 
 /** Result type for storage operations */
 interface StorageResult {
@@ -17,40 +92,52 @@ interface StorageResult {
 
 /** Last storage error for user feedback (raw, not translated) */
 let lastStorageError: string | null = null
-let lastStorageErrorKey: 'corrupted' | 'load_failed' | 'quota' | 'save_failed' | null = null
+let lastStorageErrorKey: 'corrupted' | 'invalid_entries' | 'load_failed' | 'quota' | 'save_failed' | null = null
 
 /**
- * Load saved queries from localStorage
+ * Load saved queries from localStorage, migrated to the current schema
  */
 function loadFromStorage(): SavedQuery[] {
+  let stored: string | null = null
   try {
-    const stored = localStorage.getItem(STORAGE_KEY)
-    if (stored) {
-      const parsed = JSON.parse(stored)
-      // Validate that it's an array
-      if (!Array.isArray(parsed)) {
-        lastStorageError = 'Corrupted data: expected array'
-        lastStorageErrorKey = 'corrupted'
-        return []
-      }
-      return parsed
+    stored = localStorage.getItem(STORAGE_KEY)
+    if (!stored) return []
+    const { queries, errors, version } = parseSavedQueries(stored)
+    if (errors.length > 0 || version < SAVED_QUERIES_SCHEMA_VERSION) {
+      // The next save only writes what could be read
+      backupStorage(stored)
     }
+    if (errors.length > 0) {
+      lastStorageError = `Skipped ${errors.length} invalid saved queries`
+      lastStorageErrorKey = 'invalid_entries'
+      console.error('[SearchHistory] Skipped invalid saved queries:', errors)
+    }
+    return queries
   } catch (err) {
+    if (stored) backupStorage(stored)
     const message = err instanceof Error ? err.message : 'Unknown error'
     lastStorageError = message
-    lastStorageErrorKey = 'load_failed'
+    lastStorageErrorKey = err instanceof SavedQueryFormatError ? 'corrupted' : 'load_failed'
     console.error('[SearchHistory] Failed to load saved queries:', err)
   }
   return []
 }
 
+function backupStorage(stored: string): void {
+  try {
+    localStorage.setItem(BACKUP_KEY, stored)
+  } catch (err) {
+    console.error('[SearchHistory] Failed to back up saved queries:', err)
+  }
+}
+
 /**
  * Save queries to localStorage
  * @returns Result indicating success or failure with error message
  */
 function saveToStorage(queries: SavedQuery[]): StorageResult {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(queries))
+    localStorage.setItem(STORAGE_KEY, serializeSavedQueries(queries))
     lastStorageError = null
     lastStorageErrorKey = null
     return { success: true }
@@ -70,24 +157,91 @@ function saveToStorage(queries: SavedQuery[]): StorageResult {
 }
 
 /**
- * Generate a unique ID
+ * Load the list as of the last sync, migrated and validated like the saved
+ * list (empty if never synced or unreadable: merging then keeps both sides)
  */
-function generateId(): string {
-  return `query_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+function loadSyncBase(): SavedQuery[] {
+  try {
+    const stored = localStorage.getItem(SYNC_BASE_KEY)
+    return stored ? parseSavedQueries(stored).queries : []
+  } catch (err) {
+    console.error('[SearchHistory] Failed to read sync state:', err)
+    return []
+  }
+}
+
+function saveSyncBase(queries: SavedQuery[]): void {
+  try {
+    localStorage.setItem(SYNC_BASE_KEY, serializeSavedQueries(queries))
+  } catch (err) {
+    console.error('[SearchHistory] Failed to save sync state:', err)
+  }
+}
+
+function loadHistory(): SearchHistoryEntry[] {
+  try {
+    return parseHistory(localStorage.getItem(HISTORY_KEY))
+  } catch (err) {
+    console.error('[SearchHistory] Failed to load recent searches:', err)
+    return []
+  }
+}
+
+function saveHistory(entries: SearchHistoryEntry[]): void {
+  try {
+    localStorage.setItem(HISTORY_KEY, serializeHistory(entries))
+  } catch (err) {
+    console.error('[SearchHistory] Failed to save recent searches:', err)
+  }
+}
+
+function loadSortOrder(): SavedQuerySortOrder {
+  try {
+    const stored = localStorage.getItem(SORT_ORDER_KEY) as SavedQuerySortOrder | null
+    return stored && SORT_ORDERS.includes(stored) ? stored : 'custom'
+  } catch {
+    return 'custom'
+  }
+}
+
+/**
+ * Whether a sync failed because the store can't be reached (no HTTP response)
+ */
+function isOfflineError(err: unknown): boolean {
+  if (err instanceof SavedQueryConflictError) return false
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true
+  return !(err as { response?: unknown })?.response
 }
 
 /**
  * Composable for managing search history and saved queries
  */
-export function useSearchHistory() {
+export function useSearchHistory(options: SearchHistoryOptions = {}) {
   const { $gettext } = useTranslations()
 
+  const store = resolveStore(options.store)
+
+  function resolveStore(choice: SearchHistoryOptions['store'] = 'dav'): SavedQueryStore | null {
+    if (typeof choice === 'object') return choice
+    if (choice === 'local') return null
+    const clientService = useClientService()
+    const configStore = useConfigStore()
+    const spacesStore = useSpacesStore()
+    return createDavSavedQueryStore({
+      http: clientService.httpAuthenticated,
+      getServerUrl: () => (configStore.serverUrl || '').replace(/\/$/, ''),
+      getPersonalSpace: () => (spacesStore.spaces as SpaceResource[]).find(s => s?.driveType === 'personal'),
+    })
+  }
+
   // Reactive state
   const savedQueries = ref<SavedQuery[]>(loadFromStorage())
+  const syncStatus = ref<SavedQuerySyncStatus>(store ? 'syncing' : 'local')
 
-  // Recent searches (not persisted across sessions, for autocomplete)
-  const recentSearches = ref<string[]>([])
-  const MAX_RECENT = 10
+  const sortOrder = ref<SavedQuerySortOrder>(loadSortOrder())
+
+  // Recent searches, newest first (for autocomplete)
+  const recentSearches = ref<SearchHistoryEntry[]>(loadHistory())
 
   // Expose storage error state with translation
   const storageError = ref<string | null>(null)
@@ -98,6 +252,8 @@ export function useSearchHistory() {
     switch (lastStorageErrorKey) {
       case 'corrupted':
         return $gettext('Saved searches data is corrupted and could not be loaded.')
+      case 'invalid_entries':
+        return $gettext('Some saved searches could not be read and were skipped.')
       case 'load_failed':
         return $gettext('Failed to load saved searches.')
       case 'quota':
@@ -114,17 +270,99 @@ export function useSearchHistory() {
     storageError.value = getTranslatedStorageError()
   }
 
+  // Running sync, and whether another one is needed once it's done
+  let syncRunning: Promise<void> | null = null
+  let syncAgain = false
+
+  /**
+   * Sync saved queries with the store (no-op without one).
+   * Calls while a sync is running are coalesced into one follow-up sync.
+   */
+  function sync(): Promise<void> {
+    if (!store) return Promise.resolve()
+    if (syncRunning) {
+      syncAgain = true
+      return syncRunning
+    }
+    syncRunning = (async () => {
+      do {
+        syncAgain = false
+        await syncOnce(store)
+      } while (syncAgain)
+    })().finally(() => {
+      syncRunning = null
+    })
+    return syncRunning
+  }
+
+  async function syncOnce(target: SavedQueryStore): Promise<void> {
+    syncStatus.value = 'syncing'
+    try {
+      for (let attempt = 1; ; attempt++) {
+        const local = savedQueries.value
+        const remote = await target.load()
+        const merged = remote ? mergeSavedQueries(loadSyncBase(), local, remote.queries) : local
+        // Nothing stored and nothing to store: don't create the file
+        const needsSave = remote ? !sameSavedQueries(merged, remote.queries) : merged.length > 0
+        if (needsSave) {
+          try {
+            await target.save(merged, remote?.etag ?? null)
+          } catch (err) {
+            if (err instanceof SavedQueryConflictError && attempt < MAX_SYNC_ATTEMPTS) continue
+            throw err
+          }
+        }
+        applySynced(local, merged)
+        break
+      }
+      syncStatus.value = 'synced'
+    } catch (err) {
+      syncStatus.value = isOfflineError(err) ? 'offline' : 'error'
+      console.error('[SearchHistory] Failed to sync saved queries:', err)
+    }
+  }
+
+  /**
+   * Take over a synced list, keeping local changes made while syncing
+   * (they go out with the next sync)
+   */
+  function applySynced(local: SavedQuery[], synced: SavedQuery[]): void {
+    saveSyncBase(synced)
+    const current = savedQueries.value
+    let next = synced
+    if (current !== local) {
+      next = mergeSavedQueries(local, current, synced)
+      syncAgain = true
+    }
+    if (!sameSavedQueries(next, current) && saveToStorage(next).success) {
+      savedQueries.value = next
+    }
+  }
+
+  // Retry when the browser comes back online
+  const onOnline = () => {
+    if (syncStatus.value === 'offline') void sync()
+  }
+  if (store && typeof window !== 'undefined') {
+    window.addEventListener('online', onOnline)
+    if (getCurrentInstance()) {
+      onUnmounted(() => window.removeEventListener('online', onOnline))
+    }
+  }
+  void sync()
+
   /**
    * Save a query with a name
    * @returns The saved query, or null if save failed
    */
-  function saveQuery(name: string, filters: SearchFilters): SavedQuery | null {
+  function saveQuery(name: string, filters: SearchFilters, folder = ''): SavedQuery | null {
     const query: SavedQuery = {
-      id: generateId(),
+      id: createSavedQueryId(),
       name,
       // Use JSON for deep clone (structuredClone can't handle Vue reactive proxies)
       filters: JSON.parse(JSON.stringify(filters)),
       savedAt: new Date().toISOString(),
+      ...(folder.trim() && { folder: folder.trim() }),
     }
 
     // Build new array without mutating state yet (avoids race condition on rollback)
@@ -140,6 +378,7 @@ export function useSearchHistory() {
     // Only update state after successful save
     savedQueries.value = newQueries
     storageError.value = null
+    void sync()
     return query
   }
 
@@ -166,37 +405,138 @@ export function useSearchHistory() {
     // Only update state after successful save
     savedQueries.value = newQueries
     storageError.value = null
+    void sync()
     return true
   }
 
   /**
-   * Update a saved query's name
-   * @returns true if renamed successfully
+   * Store a new list of saved queries and sync it
+   * @returns true if stored successfully
    */
-  function renameQuery(id: string, newName: string): boolean {
-    const index = savedQueries.value.findIndex(q => q.id === id)
-    if (index === -1) {
-      return false
-    }
-
-    // Build new array without mutating state yet (avoids race condition on rollback)
-    const newQueries = savedQueries.value.map(q =>
-      q.id === id ? { ...q, name: newName } : q
-    )
+  function commitQueries(newQueries: SavedQuery[], failureMessage: string): boolean {
     const result = saveToStorage(newQueries)
 
     if (!result.success) {
       // Don't modify state on failure - leave it unchanged
-      storageError.value = result.error || $gettext('Failed to rename query')
+      storageError.value = result.error || failureMessage
       return false
     }
 
     // Only update state after successful save
     savedQueries.value = newQueries
     storageError.value = null
+    void sync()
     return true
   }
 
+  /**
+   * Change fields of a saved query
+   * @returns true if updated successfully
+   */
+  function updateQuery(id: string, changes: Partial<Omit<SavedQuery, 'id'>>, failureMessage: string): boolean {
+    if (!savedQueries.value.some(q => q.id === id)) {
+      return false
+    }
+    // New array without mutating state yet (avoids race condition on rollback)
+    return commitQueries(savedQueries.value.map(q => (q.id === id ? { ...q, ...changes } : q)), failureMessage)
+  }
+
+  /**
+   * Update a saved query's name
+   * @returns true if renamed successfully
+   */
+  function renameQuery(id: string, newName: string): boolean {
+    return updateQuery(id, { name: newName }, $gettext('Failed to rename query'))
+  }
+
+  /**
+   * Change name, folder or filters of a saved query
+   * @returns true if changed successfully
+   */
+  function editQuery(id: string, changes: Partial<Pick<SavedQuery, 'name' | 'folder' | 'filters'>>): boolean {
+    const update = { ...changes }
+    if (update.folder !== undefined) update.folder = update.folder.trim()
+    // Use JSON for deep clone (structuredClone can't handle Vue reactive proxies)
+    if (update.filters) update.filters = JSON.parse(JSON.stringify(update.filters))
+    return updateQuery(id, update, $gettext('Failed to update query'))
+  }
+
+  /**
+   * Pin a saved query to the top of the list, or unpin it
+   * @returns true if changed successfully
+   */
+  function setQueryPinned(id: string, pinned: boolean): boolean {
+    return updateQuery(id, { pinned }, $gettext('Failed to update query'))
+  }
+
+  /**
+   * Move a saved query before another one (into that one's group), or to the end
+   * @returns true if moved successfully
+   */
+  function moveQuery(id: string, beforeId: string | null): boolean {
+    const newQueries = moveSavedQuery(savedQueries.value, id, beforeId)
+    if (newQueries === savedQueries.value) return false
+    return commitQueries(newQueries, $gettext('Failed to move query'))
+  }
+
+  /**
+   * Copy a saved query; the copy is listed right after the original and has
+   * no alerts, pin or run statistics of its own
+   * @returns The copy, or null if it could not be saved
+   */
+  function duplicateQuery(id: string): SavedQuery | null {
+    const index = savedQueries.value.findIndex(q => q.id === id)
+    if (index === -1) return null
+    const original = savedQueries.value[index]
+    const copy: SavedQuery = {
+      id: createSavedQueryId(),
+      name: getCopyName(original.name, savedQueries.value, $gettext('copy')),
+      filters: JSON.parse(JSON.stringify(original.filters)),
+      savedAt: new Date().toISOString(),
+      ...(original.folder && { folder: original.folder }),
+    }
+    const newQueries = [...savedQueries.value]
+    newQueries.splice(index + 1, 0, copy)
+    return commitQueries(newQueries, $gettext('Failed to save query')) ? copy : null
+  }
+
+  /**
+   * Count a run of a saved query (last run, run count)
+   */
+  function recordQueryRun(id: string): void {
+    const query = getQuery(id)
+    if (!query) return
+    updateQuery(id, { lastRunAt: new Date().toISOString(), runCount: (query.runCount || 0) + 1 }, $gettext('Failed to update query'))
+  }
+
+  /**
+   * Change how the saved searches list is ordered
+   */
+  function setSortOrder(order: SavedQuerySortOrder): void {
+    sortOrder.value = order
+    try {
+      localStorage.setItem(SORT_ORDER_KEY, order)
+    } catch (err) {
+      console.error('[SearchHistory] Failed to save sort order:', err)
+    }
+  }
+
+  /**
+   * Turn alerts for new matches of a saved query on or off
+   * @returns true if changed successfully
+   */
+  function setQueryNotify(id: string, notify: boolean): boolean {
+    return updateQuery(id, { notify }, $gettext('Failed to update query'))
+  }
+
+  /**
+   * Store the snapshot of a saved query's last background run (saved-search
+   * alerts), or drop it
+   */
+  function setQuerySnapshot(id: string, snapshot: SavedQuerySnapshot | undefined): void {
+    updateQuery(id, { snapshot }, $gettext('Failed to update query'))
+  }
+
   /**
    * Clear storage error
    */
@@ -212,24 +552,32 @@ export function useSearchHistory() {
   }
 
   /**
-   * Add to recent searches (for autocomplete)
+   * Record a search that was run (searches without any filter are skipped)
+   * @returns The history entry, or null if skipped
    */
-  function addToRecent(term: string): void {
-    if (!term || !term.trim()) return
+  function addToRecent(filters: SearchFilters, resultCount: number | null): SearchHistoryEntry | null {
+    const query = buildKQL(filters)
+    if (query === '*') return null
 
-    // Remove if already exists
-    const existing = recentSearches.value.indexOf(term)
-    if (existing !== -1) {
-      recentSearches.value.splice(existing, 1)
+    const entry: SearchHistoryEntry = {
+      id: createSavedQueryId(),
+      query,
+      // Use JSON for deep clone (structuredClone can't handle Vue reactive proxies)
+      filters: JSON.parse(JSON.stringify(filters)),
+      resultCount,
+      searchedAt: new Date().toISOString(),
     }
+    recentSearches.value = addHistoryEntry(recentSearches.value, entry)
+    saveHistory(recentSearches.value)
+    return entry
+  }
 
-    // Add to front
-    recentSearches.value.unshift(term)
-
-    // Trim to max
-    if (recentSearches.value.length > MAX_RECENT) {
-      recentSearches.value = recentSearches.value.slice(0, MAX_RECENT)
-    }
+  /**
+   * Remove one recent search
+   */
+  function removeRecent(id: string): void {
+    recentSearches.value = recentSearches.value.filter(entry => entry.id !== id)
+    saveHistory(recentSearches.value)
   }
 
   /**
@@ -237,6 +585,7 @@ export function useSearchHistory() {
    */
   function clearRecent(): void {
     recentSearches.value = []
+    saveHistory([])
   }
 
   /**
@@ -247,40 +596,60 @@ export function useSearchHistory() {
   }
 
   /**
-   * Export all saved queries as JSON
+   * Export all saved queries as JSON (versioned, see serializeSavedQueries),
+   * without alert snapshots
    */
   function exportQueries(): string {
-    return JSON.stringify(savedQueries.value, null, 2)
+    return serializeSavedQueries(savedQueries.value.map(({ snapshot, ...query }) => query))
   }
 
   /**
-   * Import queries from JSON
+   * Import queries from an exported file. Older formats are migrated; entries
+   * that fail validation are skipped and reported.
    */
-  function importQueries(json: string): number {
+  function importQueries(json: string, mode: SavedQueryImportMode = 'merge'): SavedQueryImportResult {
+    const result: SavedQueryImportResult = { added: 0, updated: 0, skipped: 0, errors: [] }
+    let imported: SavedQuery[]
     try {
-      const imported = JSON.parse(json) as SavedQuery[]
-      let count = 0
-
-      for (const query of imported) {
-        // Validate structure
-        if (query.name && query.filters) {
-          // Generate new ID to avoid conflicts
-          query.id = generateId()
-          query.savedAt = new Date().toISOString()
-          savedQueries.value.push(query)
-          count++
-        }
-      }
+      const parsed = parseSavedQueries(json)
+      imported = parsed.queries
+      result.errors = parsed.errors
+    } catch (err) {
+      console.error('[SearchHistory] Import failed:', err)
+      result.error = err instanceof Error ? err.message : String(err)
+      return result
+    }
 
-      if (count > 0) {
-        saveToStorage(savedQueries.value)
+    const next = mode === 'replace' ? [] : [...savedQueries.value]
+    for (const query of imported) {
+      const index = next.findIndex(q => q.id === query.id || q.name.toLowerCase() === query.name.toLowerCase())
+      if (index === -1) {
+        next.push(query)
+        result.added++
+      } else if (mode === 'skipDuplicates') {
+        result.skipped++
+      } else if (mode === 'replace') {
+        // Same name within the file: keep both, but IDs must stay unique
+        next.push(next[index].id === query.id ? { ...query, id: createSavedQueryId() } : query)
+        result.added++
+      } else {
+        next[index] = { ...query, id: next[index].id }
+        result.updated++
       }
+    }
 
-      return count
-    } catch (err) {
-      console.error('[SearchHistory] Import failed:', err)
-      return 0
+    // Nothing to import (replacing with nothing would only lose data)
+    if (result.added + result.updated === 0) return result
+    const saved = saveToStorage(next)
+    if (!saved.success) {
+      result.error = saved.error
+      return result
     }
+    // New array, so a running sync notices the change
+    savedQueries.value = next
+    storageError.value = null
+    void sync()
+    return result
   }
 
   return {
@@ -288,17 +657,29 @@ export function useSearchHistory() {
     savedQueries,
     recentSearches,
     storageError,
+    syncStatus,
+    sortOrder,
 
     // Methods
     saveQuery,
     deleteQuery,
     renameQuery,
+    setQueryNotify,
+    setQuerySnapshot,
+    editQuery,
+    setQueryPinned,
+    moveQuery,
+    duplicateQuery,
+    recordQueryRun,
+    setSortOrder,
     getQuery,
     addToRecent,
+    removeRecent,
     clearRecent,
     clearStorageError,
     isNameTaken,
     exportQueries,
     importQueries,
+    sync,
   }
 }
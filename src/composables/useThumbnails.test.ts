@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { useThumbnails } from './useThumbnails'
+import type { SearchResource } from '../types'
+
+const request = vi.fn()
+
+vi.mock('@ownclouders/web-pkg', () => ({
+  useClientService: () => ({ httpAuthenticated: { request } }),
+  useConfigStore: () => ({ serverUrl: 'https://cloud.example.com/' }),
+}))
+
+/**
+ * IntersectionObserver stand-in: tests decide what is visible
+ */
+class FakeObserver {
+  static instances: FakeObserver[] = []
+  observed = new Set<Element>()
+  constructor(public callback: (entries: IntersectionObserverEntry[]) => void) {
+    FakeObserver.instances.push(this)
+  }
+  observe(el: Element) { this.observed.add(el) }
+  unobserve(el: Element) { this.observed.delete(el) }
+  disconnect() { this.observed.clear() }
+  show(el: Element, visible = true) {
+    this.callback([{ target: el, isIntersecting: visible } as IntersectionObserverEntry])
+  }
+}
+
+const element = () => ({}) as Element
+const image = (id: string, extra: Partial<SearchResource> = {}) =>
+  ({ id, name: `${id}.jpg`, path: `/${id}.jpg`, spaceId: 's1', mimeType: 'image/jpeg', etag: `"${id}-1"`, ...extra }) as SearchResource
+
+let urlCounter = 0
+
+beforeEach(() => {
+  FakeObserver.instances = []
+  urlCounter = 0
+  request.mockReset()
+  request.mockImplementation(async () => ({ data: new Blob(['png']) }))
+  vi.stubGlobal('IntersectionObserver', FakeObserver)
+  vi.stubGlobal('window', { devicePixelRatio: 2 })
+  vi.spyOn(URL, 'createObjectURL').mockImplementation(() => `blob:thumb-${++urlCounter}`)
+  vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('useThumbnails', () => {
+  it('loads a thumbnail sized for the pixel ratio once the element is visible', async () => {
+    const { observe, thumbnailUrl, size } = useThumbnails({ size: 100 })
+    const [observer] = FakeObserver.instances
+    const el = element()
+    const item = image('a')
+
+    observe(el, item)
+    await flush()
+    expect(request).not.toHaveBeenCalled()
+
+    observer.show(el)
+    await flush()
+    expect(size).toBe(256)
+    expect(request).toHaveBeenCalledTimes(1)
+    const url = new URL(request.mock.calls[0][0].url)
+    expect(url.searchParams.get('x')).toBe('256')
+    expect(request.mock.calls[0][0].responseType).toBe('blob')
+    expect(thumbnailUrl(item)).toBe('blob:thumb-1')
+
+    // Cached: no second request
+    observer.show(el, false)
+    observer.show(el)
+    await flush()
+    expect(request).toHaveBeenCalledTimes(1)
+  })
+
+  it('skips files without thumbnails and does not retry failures', async () => {
+    request.mockRejectedValue(Object.assign(new Error('HTTP 404'), { response: { status: 404 } }))
+    const { observe, thumbnailUrl } = useThumbnails({ size: 100 })
+    const [observer] = FakeObserver.instances
+
+    const zip = image('z', { mimeType: 'application/zip' })
+    observe(element(), zip)
+    expect(observer.observed.size).toBe(0)
+
+    const el = element()
+    const item = image('a')
+    observe(el, item)
+    observer.show(el)
+    await flush()
+    observer.show(el)
+    await flush()
+    expect(request).toHaveBeenCalledTimes(1)
+    expect(thumbnailUrl(item)).toBeUndefined()
+  })
+
+  it('limits concurrent requests and drops the ones scrolled away', async () => {
+    const releases: Array<() => void> = []
+    request.mockImplementation(() => new Promise(resolve => releases.push(() => resolve({ data: new Blob(['png']) }))))
+    const { observe, thumbnailUrl } = useThumbnails({ size: 100, concurrency: 2 })
+    const [observer] = FakeObserver.instances
+    const items = ['a', 'b', 'c', 'd'].map(id => image(id))
+    const elements = items.map(() => element())
+
+    items.forEach((item, i) => {
+      observe(elements[i], item)
+      observer.show(elements[i])
+    })
+    await flush()
+    expect(request).toHaveBeenCalledTimes(2)
+
+    observer.show(elements[2], false)
+    releases[0]()
+    await flush()
+    expect(request).toHaveBeenCalledTimes(3)
+    expect(new URL(request.mock.calls[2][0].url).pathname).toBe('/dav/spaces/s1/d.jpg')
+    expect(thumbnailUrl(items[0])).toBe('blob:thumb-1')
+
+    // Back in view: requested again
+    observer.show(elements[2])
+    releases[1]()
+    await flush()
+    expect(request).toHaveBeenCalledTimes(4)
+  })
+
+  it('revokes the least recently used URLs and all of them on dispose', async () => {
+    const { observe, dispose, thumbnailUrl } = useThumbnails({ size: 100, cacheSize: 2 })
+    const [observer] = FakeObserver.instances
+    const items = ['a', 'b', 'c'].map(id => image(id))
+    for (const item of items) {
+      const el = element()
+      observe(el, item)
+      observer.show(el)
+      await flush()
+      // Scrolled past
+      observer.show(el, false)
+    }
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:thumb-1')
+    expect(thumbnailUrl(items[0])).toBeUndefined()
+
+    dispose()
+    expect(URL.revokeObjectURL).toHaveBeenCalledTimes(3)
+    expect(thumbnailUrl(items[2])).toBeUndefined()
+    expect(observer.observed.size).toBe(0)
+  })
+
+  it('keeps the thumbnails of visible elements', async () => {
+    const { observe, thumbnailUrl } = useThumbnails({ size: 100, cacheSize: 2 })
+    const [observer] = FakeObserver.instances
+    const items = ['a', 'b', 'c'].map(id => image(id))
+    const elements = items.map(() => element())
+    for (const [i, item] of items.entries()) {
+      observe(elements[i], item)
+      observer.show(elements[i])
+      await flush()
+    }
+    expect(URL.revokeObjectURL).not.toHaveBeenCalled()
+    expect(items.map(item => thumbnailUrl(item))).toEqual(['blob:thumb-1', 'blob:thumb-2', 'blob:thumb-3'])
+
+    // Once out of view it can go
+    observer.show(elements[0], false)
+    const el = element()
+    observe(el, image('d'))
+    observer.show(el)
+    await flush()
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:thumb-1')
+    expect(thumbnailUrl(items[1])).toBe('blob:thumb-2')
+  })
+
+  it('stops observing an element when it is unmounted', () => {
+    const { observe } = useThumbnails({ size: 100 })
+    const [observer] = FakeObserver.instances
+    const item = image('a')
+    observe(element(), item)
+    expect(observer.observed.size).toBe(1)
+    observe(null, item)
+    expect(observer.observed.size).toBe(0)
+  })
+})
@@ -0,0 +1,171 @@
+/**
+ * Composable for result thumbnails (grid view)
+ *
+ * Elements register with `observe(el, item)`; once one scrolls near the
+ * viewport its thumbnail is fetched from the thumbnail service
+ * (utils/thumbnails.ts), a few at a time. Thumbnails are kept as object
+ * URLs in an LRU cache; those of elements near the viewport are never
+ * evicted, so a visible card can't lose its thumbnail. All of them are
+ * revoked on unmount. A thumbnail that fails to load isn't requested again;
+ * the file icon stays.
+ */
+
+import { shallowReactive, getCurrentInstance, onUnmounted } from 'vue'
+import { useClientService, useConfigStore } from '@ownclouders/web-pkg'
+import type { SearchResource } from '../types'
+import {
+  createLimiter,
+  createLruCache,
+  getThumbnailKey,
+  getThumbnailSize,
+  getThumbnailUrl,
+  hasThumbnail,
+} from '../utils/thumbnails'
+
+/** Thumbnail requests at the same time */
+export const THUMBNAIL_CONCURRENCY = 4
+/** Object URLs kept before the least recently used ones are revoked */
+export const THUMBNAIL_CACHE_SIZE = 300
+
+export interface ThumbnailOptions {
+  /** Displayed size in CSS pixels (the grid cell) */
+  size: number
+  concurrency?: number
+  cacheSize?: number
+  /** Start loading this far outside the viewport */
+  rootMargin?: string
+}
+
+export function useThumbnails(options: ThumbnailOptions) {
+  const clientService = useClientService()
+  const configStore = useConfigStore()
+
+  const pixelRatio = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1
+  const size = getThumbnailSize(options.size, pixelRatio)
+  const limit = createLimiter(options.concurrency ?? THUMBNAIL_CONCURRENCY)
+
+  /** Object URLs by thumbnail key, for the template */
+  const urls = shallowReactive(new Map<string, string>())
+  // Thumbnail keys of elements near the viewport (pinned in the cache)
+  const visible = new Set<string>()
+  const cache = createLruCache<string, string>(options.cacheSize ?? THUMBNAIL_CACHE_SIZE, (url, key) => {
+    URL.revokeObjectURL(url)
+    urls.delete(key)
+  }, key => visible.has(key))
+  const failed = new Set<string>()
+  const pending = new Map<string, AbortController>()
+
+  // Observed elements and their items
+  const observed = new Map<string, { el: Element; item: SearchResource }>()
+  const itemsByElement = new WeakMap<Element, SearchResource>()
+  const observer = typeof IntersectionObserver !== 'undefined'
+    ? new IntersectionObserver(onIntersect, { rootMargin: options.rootMargin ?? '200px' })
+    : null
+  let disposed = false
+
+  function onIntersect(entries: IntersectionObserverEntry[]): void {
+    for (const entry of entries) {
+      const item = itemsByElement.get(entry.target)
+      if (!item) continue
+      const key = getThumbnailKey(item)
+      if (entry.isIntersecting) {
+        visible.add(key)
+        load(item)
+      } else {
+        visible.delete(key)
+        // Scrolled away before its turn came
+        pending.get(key)?.abort()
+      }
+    }
+  }
+
+  async function load(item: SearchResource): Promise<void> {
+    const key = getThumbnailKey(item)
+    if (disposed || cache.has(key) || failed.has(key) || pending.has(key) || !hasThumbnail(item)) return
+
+    const controller = new AbortController()
+    pending.set(key, controller)
+    const serverUrl = (configStore.serverUrl || '').replace(/\/$/, '')
+    try {
+      const blob = await limit(async () => {
+        const response = await clientService.httpAuthenticated.request({
+          method: 'GET',
+          url: getThumbnailUrl(serverUrl, item, size),
+          responseType: 'blob',
+          signal: controller.signal,
+        })
+        return response.data instanceof Blob ? response.data : new Blob([response.data as BlobPart])
+      }, controller.signal)
+      if (disposed) return
+      const url = URL.createObjectURL(blob)
+      cache.set(key, url)
+      urls.set(key, url)
+    } catch {
+      // Aborted requests are retried when the item comes back into view
+      if (!controller.signal.aborted) {
+        failed.add(key)
+      }
+    } finally {
+      if (pending.get(key) === controller) pending.delete(key)
+    }
+  }
+
+  /**
+   * Thumbnail of a result, once loaded (object URL)
+   */
+  function thumbnailUrl(item: SearchResource): string | undefined {
+    const key = getThumbnailKey(item)
+    if (!urls.has(key)) return undefined
+    return cache.get(key)
+  }
+
+  /**
+   * Watch an item's element (template ref callback; `el` is null on unmount)
+   */
+  function observe(el: Element | null, item: SearchResource): void {
+    const previous = observed.get(item.id)
+    if (previous?.el === el && previous.item === item) return
+    if (previous) {
+      observer?.unobserve(previous.el)
+      observed.delete(item.id)
+      visible.delete(getThumbnailKey(previous.item))
+    }
+    if (!el || disposed || !hasThumbnail(item)) return
+
+    observed.set(item.id, { el, item })
+    itemsByElement.set(el, item)
+    if (observer) {
+      observer.observe(el)
+    } else {
+      // No IntersectionObserver: load right away
+      load(item)
+    }
+  }
+
+  /**
+   * Stop observing, cancel requests and revoke all object URLs
+   */
+  function dispose(): void {
+    disposed = true
+    observer?.disconnect()
+    observed.clear()
+    visible.clear()
+    pending.forEach(controller => controller.abort())
+    pending.clear()
+    cache.clear()
+  }
+
+  if (getCurrentInstance()) {
+    onUnmounted(dispose)
+  }
+
+  return {
+    // State
+    size,
+
+    // Methods
+    thumbnailUrl,
+    observe,
+    dispose,
+  }
+}
@@ -2,7 +2,7 @@
  * Type definitions for the Advanced Search extension
  */
 
-import type { Resource } from '@ownclouders/web-client'
+import type { Resource, SpaceResource } from '@ownclouders/web-client'
 
 /**
  * Extended Resource type with oCIS-specific properties
@@ -40,6 +40,8 @@ export interface SearchResource extends Resource {
   }
   /** Last modified date (alternative property name) */
   lastModifiedDateTime?: string
+  /** File checksums by lower-case algorithm, e.g. { sha1: '…', md5: '…' } */
+  checksums?: Record<string, string>
 }
 
 /**
@@ -47,6 +49,28 @@ export interface SearchResource extends Resource {
  */
 export type SearchScope = 'allFiles' | 'currentFolder' | 'space'
 
+/**
+ * Where a scoped search looks ('space' and 'currentFolder' scopes)
+ */
+export interface SearchScopeTarget {
+  /** Space (drive) to search */
+  spaceId: string
+  /** Folder path within the space, e.g. '/Projects' ('currentFolder' scope) */
+  path?: string
+  /** Resource ID of the folder, used for server-side `scope:` KQL */
+  fileId?: string
+}
+
+/**
+ * A folder listed by the folder picker
+ */
+export interface FolderEntry {
+  name: string
+  /** Path within the space, e.g. '/Projects/2024' */
+  path: string
+  fileId: string
+}
+
 /**
  * Date range for filtering
  */
@@ -67,7 +91,7 @@ export interface NumericRange {
  * Standard oCIS search filters
  */
 export interface StandardFilters {
-  /** File name pattern (supports wildcards * and ?) */
+  /** File name pattern (supports wildcards * and ?; comma-separated alternatives are ORed) */
   name?: string
   /** File or folder type */
   type?: 'file' | 'folder' | ''
@@ -75,12 +99,14 @@ export interface StandardFilters {
   sizeRange?: NumericRange
   /** Modified date range */
   modifiedRange?: DateRange
-  /** MIME type filter (e.g., 'image/*', 'application/pdf') */
+  /** MIME type filter (e.g., 'image/*', 'application/pdf'; comma-separated alternatives are ORed) */
   mediaType?: string
-  /** Tags filter (comma-separated) */
+  /** Tags filter (comma-separated, ORed) */
   tags?: string
   /** Full-text content search */
   content?: string
+  /** Folder path: only items below this folder (e.g., '/Projects/X'; comma-separated alternatives are ORed) */
+  path?: string
   /** Include hidden files */
   includeHidden?: boolean
 }
@@ -89,9 +115,9 @@ export interface StandardFilters {
  * Photo/EXIF-specific filters (requires custom oCIS build)
  */
 export interface PhotoFilters {
-  /** Camera manufacturer (e.g., 'Canon', 'Nikon', 'samsung') */
+  /** Camera manufacturer (e.g., 'Canon', 'Nikon', 'samsung'; comma-separated alternatives are ORed) */
   cameraMake?: string
-  /** Camera model (e.g., 'EOS R5', 'SM-G998B') */
+  /** Camera model (e.g., 'EOS R5', 'SM-G998B'; comma-separated alternatives are ORed) */
   cameraModel?: string
   /** Photo capture date range */
   takenDateRange?: DateRange
@@ -103,8 +129,32 @@ export interface PhotoFilters {
   focalLengthRange?: NumericRange
   /** Image orientation (1-8 per EXIF spec) */
   orientation?: number
+  /** Where the photo was taken (GPS location) */
+  location?: LocationFilter
+}
+
+/**
+ * Area in degrees. `west` greater than `east` crosses the antimeridian.
+ */
+export interface GeoBoundingBox {
+  north: number
+  south: number
+  east: number
+  west: number
 }
 
+/**
+ * Location filter: a bounding box, or a radius around a point
+ */
+export type LocationFilter =
+  | ({ type: 'box' } & GeoBoundingBox)
+  | { type: 'radius'; latitude: number; longitude: number; radiusKm: number }
+
+/**
+ * How filter-panel filters are combined: 'all' = AND, 'any' = OR
+ */
+export type FilterMatchMode = 'all' | 'any'
+
 /**
  * Combined filter state for advanced search
  */
@@ -113,10 +163,21 @@ export interface SearchFilters {
   term?: string
   /** Search scope (where to search) */
   scope: SearchScope
+  /** Space/folder the scope refers to (ignored for 'allFiles') */
+  scopeTarget?: SearchScopeTarget
   /** Standard file filters */
   standard: StandardFilters
   /** Photo/EXIF filters */
   photo: PhotoFilters
+  /** Extra KQL clauses that don't map onto a filter field (ANDed with the rest) */
+  raw?: string
+  /** IDs of filters (as in ActiveFilter.id) that exclude matches instead of requiring them */
+  negated?: string[]
+  /**
+   * How the non-negated filters are combined (default 'all').
+   * The search term, location, negated filters and raw KQL are always ANDed.
+   */
+  match?: FilterMatchMode
 }
 
 /**
@@ -133,13 +194,219 @@ export interface ActiveFilter {
   value: string
   /** Category for grouping (standard, photo, text) */
   category: 'standard' | 'photo' | 'text'
+  /** Whether the filter excludes matches (NOT) */
+  negated?: boolean
+}
+
+/**
+ * Operators that can join a field name to its value in a KQL restriction
+ * (e.g. `name:foo`, `size>=100`)
+ */
+export type KqlOperator = ':' | '=' | '<' | '<=' | '>' | '>='
+
+/**
+ * Source position of an AST node (0-based character offsets, end exclusive)
+ */
+export interface KqlSpan {
+  start: number
+  end: number
+}
+
+/**
+ * Bare word, possibly containing wildcards or backslash escapes
+ */
+export interface KqlTermNode {
+  type: 'term'
+  /** Unescaped value (e.g. `file:name` for input `file\:name`) */
+  value: string
+  /** Text exactly as written in the query, used when serializing */
+  raw: string
+  span?: KqlSpan
+}
+
+/**
+ * Quoted phrase (e.g. `"annual report"`)
+ */
+export interface KqlPhraseNode {
+  type: 'phrase'
+  /** Phrase content without the surrounding quotes */
+  value: string
+  span?: KqlSpan
+}
+
+/**
+ * Inclusive value range (e.g. the `100..1000` in `size:100..1000`)
+ */
+export interface KqlRangeNode {
+  type: 'range'
+  from: string
+  to: string
+  span?: KqlSpan
+}
+
+/**
+ * Field restriction (e.g. `name:*.pdf`, `photo.iso>=100`)
+ */
+export interface KqlRestrictionNode {
+  type: 'restriction'
+  /** Field name as written (KQL field names are case-insensitive) */
+  field: string
+  operator: KqlOperator
+  value: KqlTermNode | KqlPhraseNode | KqlRangeNode
+  span?: KqlSpan
+}
+
+/**
+ * AND / OR combination of two or more expressions
+ */
+export interface KqlBooleanNode {
+  type: 'and' | 'or'
+  children: KqlNode[]
+  /** AND written as juxtaposition (`a b`) rather than `a AND b` */
+  implicit?: boolean
+  span?: KqlSpan
+}
+
+/**
+ * Negated expression (`NOT expr`)
+ */
+export interface KqlNotNode {
+  type: 'not'
+  child: KqlNode
+  span?: KqlSpan
+}
+
+/**
+ * Parenthesized expression, kept so queries serialize back as written
+ */
+export interface KqlGroupNode {
+  type: 'group'
+  child: KqlNode
+  span?: KqlSpan
+}
+
+/**
+ * Any node of a parsed KQL query
+ */
+export type KqlNode =
+  | KqlTermNode
+  | KqlPhraseNode
+  | KqlRestrictionNode
+  | KqlBooleanNode
+  | KqlNotNode
+  | KqlGroupNode
+
+/**
+ * KQL syntax error details for display next to the query input
+ */
+export interface KqlError {
+  /** Human-readable description of the problem */
+  message: string
+  /** 0-based character offset where the problem was detected */
+  position: number
+}
+
+/**
+ * Query builder rule row: `field operator value`, e.g. `size >= 1000`
+ */
+export interface QueryBuilderRule {
+  kind: 'rule'
+  /** Stable ID for list rendering and edits */
+  id: string
+  /** KQL field name (see QUERY_BUILDER_FIELDS) */
+  field: string
+  operator: KqlOperator
+  /** Value as entered (unescaped); empty rules are left out of the query */
+  value: string
+  /** Exclude matches (NOT) */
+  negated: boolean
+}
+
+/**
+ * Query builder group: children joined with AND or OR
+ */
+export interface QueryBuilderGroup {
+  kind: 'group'
+  id: string
+  combinator: 'and' | 'or'
+  /** Exclude matches of the whole group (NOT) */
+  negated: boolean
+  children: QueryBuilderNode[]
+}
+
+/**
+ * KQL the builder can't edit (free text, unknown fields, `a..b` ranges),
+ * shown read-only and passed through unchanged
+ */
+export interface QueryBuilderRaw {
+  kind: 'raw'
+  id: string
+  kql: string
+}
+
+export type QueryBuilderNode = QueryBuilderRule | QueryBuilderGroup | QueryBuilderRaw
+
+/**
+ * One page request to a search backend
+ */
+export interface SearchBackendRequest {
+  /** Space to search */
+  space: SpaceResource
+  /** KQL query, including any `scope:` restriction */
+  query: string
+  /** Number of results to skip */
+  offset: number
+  /** Maximum number of results */
+  limit: number
+  /** Requested server-side ordering */
+  sort?: SortKey
+  /** Properties to return, as DAV property registry names (default: all) */
+  properties?: string[]
+  /** Aborts the request */
+  signal?: AbortSignal
+}
+
+/**
+ * One page of results from a search backend
+ */
+export interface SearchBackendPage {
+  items: SearchResource[]
+  /** Total matches reported by the server, null if unknown */
+  total: number | null
+}
+
+/**
+ * The part of the authenticated HTTP client the search backends use
+ */
+export interface SearchHttpClient {
+  request(config: {
+    method: string
+    url: string
+    headers?: Record<string, string>
+    data?: unknown
+    signal?: AbortSignal
+    /** Response body type (file downloads use 'stream', thumbnails 'blob') */
+    responseType?: 'blob' | 'text' | 'json' | 'stream'
+    /** 'fetch' for 'stream' responses in the browser */
+    adapter?: 'fetch'
+  }): Promise<{ data: unknown; headers?: unknown }>
+}
+
+/**
+ * Transport for search requests (WebDAV REPORT, libre-graph, test fakes).
+ * Failed requests reject with the HTTP client's error (`response.status` set).
+ */
+export interface SearchBackend {
+  /** Identifies the backend, e.g. 'dav' or 'graph' */
+  id: string
+  search(request: SearchBackendRequest): Promise<SearchBackendPage>
 }
 
 /**
  * Search result with pagination info
  */
 export interface SearchResults {
-  /** Total number of matching items */
+  /** Total number of matching items (server-reported while pages are missing), null if unknown */
   totalCount: number | null
   /** The matching resources */
   items: Resource[]
@@ -147,6 +414,19 @@ export interface SearchResults {
   hasMore: boolean
   /** Current page number (0-indexed) */
   currentPage: number
+  /** Spaces that couldn't be searched (the rest of the results are still shown) */
+  spaceErrors?: SpaceSearchError[]
+}
+
+/**
+ * A space whose part of a fan-out search failed
+ */
+export interface SpaceSearchError {
+  spaceId: string
+  /** Space display name */
+  spaceName: string
+  /** User-facing error description */
+  message: string
 }
 
 /**
@@ -161,19 +441,175 @@ export interface SavedQuery {
   filters: SearchFilters
   /** When the query was saved */
   savedAt: string
+  /** Re-run in the background and report new matches (saved-search alerts) */
+  notify?: boolean
+  /** Listed above all other saved queries */
+  pinned?: boolean
+  /** User-defined group the query is listed under (none if empty) */
+  folder?: string
+  /** When the query was last run from the saved searches list */
+  lastRunAt?: string
+  /** How often the query was run from the saved searches list */
+  runCount?: number
+  /** Matches of the last background run, for alerts (version 5) */
+  snapshot?: SavedQuerySnapshot
+}
+
+/**
+ * A search that was run (persisted search history)
+ */
+export interface SearchHistoryEntry {
+  /** Unique ID */
+  id: string
+  /** KQL of the search, shown in the history and matched by autocomplete */
+  query: string
+  /** Full filter state, restored when the entry is picked */
+  filters: SearchFilters
+  /** Number of matches, null if unknown */
+  resultCount: number | null
+  /** When the search was last run */
+  searchedAt: string
+}
+
+/**
+ * How the saved searches list is ordered within its groups;
+ * 'custom' is the stored order (drag to reorder)
+ */
+export type SavedQuerySortOrder = 'custom' | 'name' | 'savedAt' | 'lastRun' | 'runCount'
+
+/**
+ * Last background run of a saved query with alerts (see useSavedQueryAlerts)
+ */
+export interface SavedQuerySnapshot {
+  /** File IDs matching at the last run */
+  fileIds: string[]
+  /** When the query was run (runs that change nothing else aren't stored) */
+  checkedAt: string
+  /** Matches that appeared since the query was last opened */
+  unread: string[]
+  /** Filters of the run (JSON); after the query is edited the next run is a new baseline */
+  filtersKey?: string
+  /** The run fetched every match; only complete runs are diffed */
+  complete?: boolean
 }
 
+/**
+ * Saved queries as held by a SavedQueryStore
+ */
+export interface SavedQueryDocument {
+  queries: SavedQuery[]
+  /** Version of the stored list (WebDAV etag), null if unknown */
+  etag: string | null
+}
+
+/**
+ * Remote storage for saved queries (a JSON file in the personal space, test fakes).
+ * Failed requests reject with the HTTP client's error (`response.status` set).
+ */
+export interface SavedQueryStore {
+  /** Identifies the store, e.g. 'dav' */
+  id: string
+  /** The stored queries, or null if nothing has been stored yet */
+  load(): Promise<SavedQueryDocument | null>
+  /**
+   * Replace the stored queries if they are still at `etag` (null: only if nothing is stored yet)
+   *
+   * @returns The new etag, null if the store doesn't report one
+   * @throws SavedQueryConflictError if the stored version changed
+   */
+  save(queries: SavedQuery[], etag: string | null): Promise<string | null>
+}
+
+/**
+ * Folder that files are copied or moved into
+ */
+export interface FileOperationTarget {
+  spaceId: string
+  /** Folder path within the space, e.g. '/Projects' */
+  path: string
+}
+
+/**
+ * Changes to files found by a search (WebDAV and libre-graph, test fakes),
+ * one resource per call. Failed requests reject with the HTTP client's
+ * error (`response.status` set).
+ */
+export interface FileOperations {
+  /** Identifies the implementation, e.g. 'ocis' */
+  id: string
+  /** File content, read as it arrives; resolves once the response starts */
+  download(item: SearchResource, signal?: AbortSignal): Promise<ReadableStream<Uint8Array>>
+  delete(item: SearchResource): Promise<void>
+  /** Copy into the target folder, keeping the name; fails if the name is taken */
+  copy(item: SearchResource, target: FileOperationTarget): Promise<void>
+  /** Move into the target folder, keeping the name; fails if the name is taken */
+  move(item: SearchResource, target: FileOperationTarget): Promise<void>
+  addTags(item: SearchResource, tags: string[]): Promise<void>
+  removeTags(item: SearchResource, tags: string[]): Promise<void>
+}
+
+/**
+ * An app that can open a file: an oCIS app provider (e.g. Collabora,
+ * OnlyOffice) or an app built into ownCloud Web (text editor, PDF viewer,
+ * media viewer)
+ */
+export interface FileApp {
+  /** Provider name (e.g. 'Collabora') or web app ID (e.g. 'text-editor') */
+  id: string
+  /** Display name (translated for web apps) */
+  name: string
+  /** Icon URL (app providers) */
+  icon?: string
+  /** 'provider': opened through the app provider; 'web': a route of ownCloud Web */
+  kind: 'provider' | 'web'
+}
+
+/**
+ * Apps the app provider offers for one mime type (`/app/list`)
+ */
+export interface MimeTypeApps {
+  mimeType: string
+  /** File extension without dot, e.g. 'docx' */
+  extension?: string
+  apps: FileApp[]
+  /** ID of the app configured as default */
+  defaultApp?: string
+}
+
+/**
+ * Sync state of saved queries with their store:
+ * 'local' = no store, 'offline' = store unreachable (changes are kept locally and synced later)
+ */
+export type SavedQuerySyncStatus = 'local' | 'syncing' | 'synced' | 'offline' | 'error'
+
 /**
  * View mode for results display
  */
-export type ResultViewMode = 'list' | 'grid' | 'table'
+export type ResultViewMode = 'list' | 'grid' | 'table' | 'map' | 'timeline'
+
+/**
+ * Fields results can be sorted by
+ */
+export type SortField = 'name' | 'size' | 'mtime' | 'takenDateTime'
+
+export type SortDirection = 'asc' | 'desc'
+
+/**
+ * One sort key
+ */
+export interface SortKey {
+  field: SortField
+  direction: SortDirection
+}
 
 /**
- * Sort configuration
+ * Sort configuration: the primary key plus optional multi-key settings
  */
-export interface SortConfig {
-  field: 'name' | 'size' | 'mtime' | 'takenDateTime'
-  direction: 'asc' | 'desc'
+export interface SortConfig extends SortKey {
+  /** Keep folders above files */
+  foldersFirst?: boolean
+  /** Tie-breakers after the primary key (default: name A-Z) */
+  secondary?: SortKey[]
 }
 
 /**
@@ -190,6 +626,8 @@ export interface AdvancedSearchState {
   error: string | null
   /** Built KQL query string (for debugging/display) */
   kqlQuery: string
+  /** Syntax error from the last attempt to apply KQL to the filters */
+  kqlError: KqlError | null
   /** Result view mode */
   viewMode: ResultViewMode
   /** Sort configuration */
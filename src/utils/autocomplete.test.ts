@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { SUGGESTION_LIMITS, buildSuggestions, completeField, type SuggestionSources } from './autocomplete'
+import { createEmptyFilters } from '../types'
+import type { SavedQuery, SearchHistoryEntry } from '../types'
+
+function recent(id: string, query: string): SearchHistoryEntry {
+  const term = query.includes(':') ? '' : query
+  return { id, query, filters: { ...createEmptyFilters(), term }, resultCount: 3, searchedAt: '2024-01-01T00:00:00.000Z' }
+}
+
+function saved(id: string, name: string, pinned = false): SavedQuery {
+  return { id, name, filters: createEmptyFilters(), savedAt: '2024-01-01T00:00:00.000Z', pinned }
+}
+
+const sources: SuggestionSources = {
+  history: [recent('r1', 'beach'), recent('r2', 'mediatype:image'), recent('r3', 'invoice')],
+  savedQueries: [saved('s1', 'Invoices'), saved('s2', 'Beach photos', true)],
+  fields: [
+    { field: 'name', label: 'Name' },
+    { field: 'mediatype', label: 'Media Type' },
+    { field: 'tags', label: 'Tags' },
+  ],
+}
+
+const ids = (input: string, from = sources) => buildSuggestions(input, from).map(s => s.id)
+
+describe('buildSuggestions', () => {
+  it('lists recent and saved searches (pinned first) for an empty input', () => {
+    expect(ids('')).toEqual(['recent:r1', 'recent:r2', 'recent:r3', 'saved:s2', 'saved:s1'])
+  })
+
+  it('suggests fields for the word being typed, before matching searches', () => {
+    expect(ids('me')).toEqual(['field:mediatype', 'recent:r2'])
+    expect(ids('beach ta')).toEqual(['field:tags'])
+    expect(ids('Media')).toEqual(['field:mediatype', 'recent:r2'])
+  })
+
+  it('stops suggesting fields once the value is typed', () => {
+    expect(ids('tags:')).toEqual([])
+  })
+
+  it('matches recent searches by query and saved searches by name', () => {
+    expect(ids('BEACH')).toEqual(['recent:r1', 'saved:s2'])
+    expect(ids('invoice')).toEqual(['recent:r3', 'saved:s1'])
+  })
+
+  it('limits suggestions per kind', () => {
+    const history = Array.from({ length: 10 }, (_, i) => recent(`r${i}`, `term${i}`))
+    expect(ids('', { ...sources, history, savedQueries: [] })).toHaveLength(SUGGESTION_LIMITS.recent)
+  })
+})
+
+describe('completeField', () => {
+  it('replaces the word being typed', () => {
+    expect(completeField('me', 'mediatype')).toBe('mediatype:')
+    expect(completeField('beach ta', 'tags')).toBe('beach tags:')
+    expect(completeField('', 'name')).toBe('name:')
+  })
+})
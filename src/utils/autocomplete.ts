@@ -0,0 +1,71 @@
+/**
+ * Suggestions for the main search box: recent searches, saved queries and
+ * KQL fields (completing the word being typed to `field:`).
+ */
+
+import type { SavedQuery, SearchHistoryEntry } from '../types'
+
+export type SearchSuggestionKind = 'recent' | 'saved' | 'field'
+
+export type SearchSuggestion =
+  | { kind: 'recent'; id: string; entry: SearchHistoryEntry }
+  | { kind: 'saved'; id: string; query: SavedQuery }
+  | { kind: 'field'; id: string; field: string; label: string }
+
+export interface SuggestionSources {
+  history: SearchHistoryEntry[]
+  savedQueries: SavedQuery[]
+  /** KQL fields with display labels */
+  fields: Array<{ field: string; label: string }>
+}
+
+/** Suggestions shown per kind */
+export const SUGGESTION_LIMITS: Record<SearchSuggestionKind, number> = {
+  recent: 5,
+  saved: 5,
+  field: 6,
+}
+
+/**
+ * The word being typed (text after the last space)
+ */
+function lastWord(input: string): string {
+  return input.slice(input.lastIndexOf(' ') + 1)
+}
+
+/**
+ * Suggestions for the current input, grouped by kind: fields first (the
+ * word being typed is most likely a field), then recent searches, then
+ * saved queries (pinned first). An empty input lists recent and saved ones.
+ */
+export function buildSuggestions(input: string, sources: SuggestionSources): SearchSuggestion[] {
+  const text = input.trim().toLowerCase()
+  const word = lastWord(input).toLowerCase()
+
+  const fields: SearchSuggestion[] = word && !word.includes(':')
+    ? sources.fields
+      .filter(f => f.field.toLowerCase().startsWith(word) || f.label.toLowerCase().startsWith(word))
+      .slice(0, SUGGESTION_LIMITS.field)
+      .map(f => ({ kind: 'field', id: `field:${f.field}`, field: f.field, label: f.label }))
+    : []
+
+  const recent: SearchSuggestion[] = sources.history
+    .filter(entry => !text || entry.query.toLowerCase().includes(text) || !!entry.filters.term?.toLowerCase().includes(text))
+    .slice(0, SUGGESTION_LIMITS.recent)
+    .map(entry => ({ kind: 'recent', id: `recent:${entry.id}`, entry }))
+
+  const saved: SearchSuggestion[] = sources.savedQueries
+    .filter(query => !text || query.name.toLowerCase().includes(text))
+    .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned))
+    .slice(0, SUGGESTION_LIMITS.saved)
+    .map(query => ({ kind: 'saved', id: `saved:${query.id}`, query }))
+
+  return [...fields, ...recent, ...saved]
+}
+
+/**
+ * Replace the word being typed with `field:`
+ */
+export function completeField(input: string, field: string): string {
+  return `${input.slice(0, input.lastIndexOf(' ') + 1)}${field}:`
+}
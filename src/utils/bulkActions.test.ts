@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import type { SearchResource } from '../types'
+import { getArchiveEntryNames, getPrivateLink, parseTags, runBulk } from './bulkActions'
+
+const item = (id: string, path = `/${id}.txt`, spaceId = 's1') =>
+  ({ id, name: path.split('/').pop(), path, spaceId }) as SearchResource
+
+describe('runBulk', () => {
+  it('reports successes and failures in item order', async () => {
+    const items = ['a', 'b', 'c', 'd'].map(id => item(id))
+    const progress: number[] = []
+    const result = await runBulk(items, async ({ id }) => {
+      await new Promise(resolve => setTimeout(resolve, id === 'a' ? 5 : 0))
+      if (id === 'b' || id === 'd') throw new Error(`no ${id}`)
+    }, { concurrency: 2, onProgress: done => progress.push(done) })
+
+    expect(result.succeeded.map(i => i.id)).toEqual(['a', 'c'])
+    expect(result.failures.map(f => [f.item.id, f.message])).toEqual([['b', 'no b'], ['d', 'no d']])
+    expect(result.cancelled).toBe(false)
+    expect(progress).toEqual([1, 2, 3, 4])
+  })
+
+  it('limits how many items run at the same time', async () => {
+    let active = 0
+    let peak = 0
+    await runBulk(Array.from({ length: 10 }, (_, i) => item(String(i))), async () => {
+      peak = Math.max(peak, ++active)
+      await new Promise(resolve => setTimeout(resolve, 1))
+      active--
+    }, { concurrency: 3 })
+    expect(peak).toBe(3)
+  })
+
+  it('skips the remaining items once cancelled', async () => {
+    const started: string[] = []
+    const result = await runBulk(['a', 'b', 'c'].map(id => item(id)), async ({ id }) => {
+      started.push(id)
+    }, { concurrency: 1, isCancelled: () => started.length >= 2 })
+    expect(started).toEqual(['a', 'b'])
+    expect(result.succeeded).toHaveLength(2)
+    expect(result.cancelled).toBe(true)
+  })
+
+  it('describes errors with the given function', async () => {
+    const result = await runBulk([item('a')], async () => {
+      throw Object.assign(new Error('HTTP 403'), { response: { status: 403 } })
+    }, { describeError: err => `status ${(err as { response: { status: number } }).response.status}` })
+    expect(result.failures[0].message).toBe('status 403')
+  })
+})
+
+describe('parseTags', () => {
+  it('splits, trims and removes blanks and duplicates', () => {
+    expect(parseTags(' work, , urgent,work ')).toEqual(['work', 'urgent'])
+    expect(parseTags('')).toEqual([])
+  })
+})
+
+describe('getPrivateLink', () => {
+  it('builds the link from the file ID', () => {
+    expect(getPrivateLink('https://cloud.example.com', { ...item('x'), fileId: 'a$b!c' } as SearchResource))
+      .toBe('https://cloud.example.com/f/a%24b!c')
+    expect(getPrivateLink('https://cloud.example.com', { name: 'x' } as SearchResource)).toBeNull()
+    // DAV results without a file ID have a made-up resource ID
+    expect(getPrivateLink('https://cloud.example.com', item('s1!/x.txt'))).toBeNull()
+  })
+})
+
+describe('getArchiveEntryNames', () => {
+  const spaceName = (id: string) => ({ s1: 'Personal', s2: 'Marketing' })[id] ?? id
+
+  it('uses the paths without leading slash', () => {
+    expect(getArchiveEntryNames([item('a', '/Docs/a.txt'), item('b', '/b.txt')], spaceName)).toEqual(['Docs/a.txt', 'b.txt'])
+  })
+
+  it('adds a folder per space when items come from several spaces', () => {
+    expect(getArchiveEntryNames([item('a', '/a.txt'), item('b', '/b.txt', 's2')], spaceName))
+      .toEqual(['Personal/a.txt', 'Marketing/b.txt'])
+  })
+
+  it('numbers clashing names', () => {
+    const names = getArchiveEntryNames([item('a', '/A.txt'), item('b', '/a.txt'), item('c', '/a.txt'), item('d', '/.env'), item('e', '/.env')], spaceName)
+    expect(names).toEqual(['A.txt', 'a (2).txt', 'a (3).txt', '.env', '.env (2)'])
+  })
+})
@@ -0,0 +1,116 @@
+/**
+ * Running an action on many results: a few at a time, with progress and
+ * the items that failed (one failure doesn't stop the others).
+ */
+
+import type { SearchResource } from '../types'
+
+/** Items processed at the same time */
+export const BULK_CONCURRENCY = 4
+
+export interface BulkFailure {
+  item: SearchResource
+  /** User-facing reason */
+  message: string
+}
+
+export interface BulkRunResult {
+  succeeded: SearchResource[]
+  failures: BulkFailure[]
+  /** Stopped before all items were processed */
+  cancelled: boolean
+}
+
+export interface BulkRunOptions {
+  concurrency?: number
+  /** Called after each item, with the number of items done */
+  onProgress?: (done: number, total: number) => void
+  /** Checked before each item; items not started yet are skipped when true */
+  isCancelled?: () => boolean
+  /** Turns an error into the failure message */
+  describeError?: (error: unknown, item: SearchResource) => string
+}
+
+/**
+ * Run `action` for every item. Results keep the order of `items`.
+ */
+export async function runBulk(
+  items: SearchResource[],
+  action: (item: SearchResource) => Promise<void>,
+  options: BulkRunOptions = {}
+): Promise<BulkRunResult> {
+  const describe = options.describeError ?? (error => (error instanceof Error ? error.message : String(error)))
+  const outcomes: Array<{ ok: true } | { ok: false; message: string } | undefined> = new Array(items.length)
+  let next = 0
+  let done = 0
+  let cancelled = false
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      if (options.isCancelled?.()) {
+        cancelled = true
+        return
+      }
+      const index = next++
+      try {
+        await action(items[index])
+        outcomes[index] = { ok: true }
+      } catch (error) {
+        outcomes[index] = { ok: false, message: describe(error, items[index]) }
+      }
+      options.onProgress?.(++done, items.length)
+    }
+  }
+
+  const workers = Math.max(1, Math.min(options.concurrency ?? BULK_CONCURRENCY, items.length))
+  await Promise.all(Array.from({ length: workers }, worker))
+
+  const succeeded: SearchResource[] = []
+  const failures: BulkFailure[] = []
+  outcomes.forEach((outcome, index) => {
+    if (!outcome) return
+    if (outcome.ok) {
+      succeeded.push(items[index])
+    } else {
+      failures.push({ item: items[index], message: outcome.message })
+    }
+  })
+  return { succeeded, failures, cancelled }
+}
+
+/**
+ * Tags typed as a comma-separated list, without blanks and duplicates
+ */
+export function parseTags(input: string): string[] {
+  return [...new Set(input.split(',').map(tag => tag.trim()).filter(Boolean))]
+}
+
+/**
+ * Private link to a resource (opens it in the web UI), null without a file
+ * ID (the resource ID of DAV results without one is made up)
+ */
+export function getPrivateLink(serverUrl: string, item: SearchResource): string | null {
+  return item.fileId ? `${serverUrl}/f/${encodeURIComponent(item.fileId)}` : null
+}
+
+/**
+ * Names of the files inside a download archive: their paths, under a
+ * folder per space when they come from several spaces. Clashing names get
+ * a number, e.g. 'report (2).pdf'.
+ */
+export function getArchiveEntryNames(items: SearchResource[], getSpaceName: (spaceId: string) => string): string[] {
+  const spaceIds = new Set(items.map(item => item.spaceId || ''))
+  const taken = new Set<string>()
+  return items.map(item => {
+    const path = (item.path || item.name || 'file').replace(/^\/+/, '')
+    const name = spaceIds.size > 1 ? `${getSpaceName(item.spaceId || '') || 'space'}/${path}` : path
+    let candidate = name
+    const dot = name.lastIndexOf('.')
+    const [base, extension] = dot > name.lastIndexOf('/') + 1 ? [name.slice(0, dot), name.slice(dot)] : [name, '']
+    for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+      candidate = `${base} (${n})${extension}`
+    }
+    taken.add(candidate.toLowerCase())
+    return candidate
+  })
+}
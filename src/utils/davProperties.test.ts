@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import type { SearchResource } from '../types'
+import type { DavPropertyValue } from './davProperties'
+import {
+  DAV_PROPERTIES,
+  DAV_NAMESPACES,
+  buildPropXml,
+  selectDavProperties,
+  applyDavProperties,
+  parseChecksums,
+} from './davProperties'
+
+function value(text: string, values: string[] = [], children: string[] = []): DavPropertyValue {
+  return { text, values, children }
+}
+
+/** Apply a response given as { 'oc:name': value } */
+function apply(props: Record<string, DavPropertyValue>): SearchResource {
+  const prefixes = Object.fromEntries(Object.entries(DAV_NAMESPACES).map(([prefix, ns]) => [ns, prefix]))
+  return applyDavProperties({ id: '', path: '/a' }, (ns, name) => props[`${prefixes[ns]}:${name}`] || null)
+}
+
+describe('DAV_PROPERTIES', () => {
+  it('declares each property once', () => {
+    const names = DAV_PROPERTIES.map(p => `${p.ns}:${p.name}`)
+    expect(new Set(names).size).toBe(names.length)
+  })
+})
+
+describe('buildPropXml', () => {
+  it('lists every registered property', () => {
+    const xml = buildPropXml()
+    expect(xml.startsWith('  <d:prop>')).toBe(true)
+    expect(xml).toContain('    <d:getetag/>')
+    expect(xml).toContain('    <oc:photo-taken-date-time/>')
+    expect(xml).toContain('    <oc:location-latitude/>')
+    expect(xml.split('\n')).toHaveLength(DAV_PROPERTIES.length + 2)
+  })
+
+  it('builds a subset', () => {
+    expect(buildPropXml(selectDavProperties(['fileid', 'displayname']), ''))
+      .toBe('<d:prop>\n  <d:displayname/>\n  <oc:fileid/>\n</d:prop>')
+  })
+})
+
+describe('selectDavProperties', () => {
+  it('rejects unknown names', () => {
+    expect(() => selectDavProperties(['fileid', 'bogus'])).toThrow('bogus')
+  })
+})
+
+describe('applyDavProperties', () => {
+  it('reads standard and ownCloud properties', () => {
+    const resource = apply({
+      'd:displayname': value('report.pdf'),
+      'd:getcontentlength': value('2048'),
+      'd:getetag': value('"abc"'),
+      'oc:fileid': value('s$s!n'),
+      'oc:permissions': value('RDNVW'),
+      'oc:favorite': value('1'),
+      'oc:tags': value('work, urgent,'),
+      'oc:share-types': value('03', ['0', '3']),
+      'oc:owner-id': value('einstein'),
+      'oc:owner-display-name': value('Albert Einstein'),
+    })
+    expect(resource).toMatchObject({
+      name: 'report.pdf',
+      size: 2048,
+      etag: '"abc"',
+      fileId: 's$s!n',
+      permissions: 'RDNVW',
+      starred: true,
+      tags: ['work', 'urgent'],
+      shareTypes: [0, 3],
+      owner: { id: 'einstein', displayName: 'Albert Einstein' },
+    })
+  })
+
+  it('detects collections from the resource type', () => {
+    expect(apply({ 'd:resourcetype': value('', [''], ['collection']) }).isFolder).toBe(true)
+    expect(apply({ 'd:resourcetype': value('') }).isFolder).toBeUndefined()
+  })
+
+  it('fills photo metadata and location', () => {
+    const resource = apply({
+      'oc:photo-camera-make': value('Canon'),
+      'oc:photo-taken-date-time': value('2024-06-01T10:00:00Z'),
+      'oc:photo-f-number': value('2.8'),
+      'oc:photo-iso': value('400'),
+      'oc:location-latitude': value('48.1'),
+      'oc:location-longitude': value('11.5'),
+      'oc:image-width': value('4000'),
+    })
+    expect(resource.photo).toEqual({ cameraMake: 'Canon', takenDateTime: '2024-06-01T10:00:00Z', fNumber: 2.8, iso: 400 })
+    expect(resource.location).toEqual({ latitude: 48.1, longitude: 11.5 })
+    expect(resource.image).toEqual({ width: 4000 })
+  })
+
+  it('leaves empty and non-numeric values out', () => {
+    const resource = apply({
+      'oc:photo-camera-make': value(''),
+      'oc:photo-iso': value('n/a'),
+      'oc:location-latitude': value(''),
+    })
+    expect(resource.photo).toBeUndefined()
+    expect(resource.location).toBeUndefined()
+  })
+
+  it('uses the folder size when there is no content length', () => {
+    expect(apply({ 'oc:size': value('4096') }).size).toBe(4096)
+  })
+})
+
+describe('parseChecksums', () => {
+  it('splits algorithm and value', () => {
+    expect(parseChecksums(['SHA1:abc MD5:def ADLER32:0a1b'])).toEqual({ sha1: 'abc', md5: 'def', adler32: '0a1b' })
+  })
+
+  it('ignores malformed entries', () => {
+    expect(parseChecksums(['', 'junk'])).toEqual({})
+  })
+})
@@ -0,0 +1,225 @@
+/**
+ * Declarative registry of the WebDAV properties requested for search results.
+ *
+ * Each entry names one property and how its value is copied onto a
+ * SearchResource. The `<d:prop>` list of REPORT/PROPFIND bodies and the
+ * parsing of the responses are both generated from it, so adding a property
+ * is a single entry here.
+ */
+
+import type { SearchResource } from '../types'
+
+export type DavNamespace = 'd' | 'oc'
+
+export const DAV_NAMESPACES: Record<DavNamespace, string> = {
+  d: 'DAV:',
+  oc: 'http://owncloud.org/ns',
+}
+
+/**
+ * Raw value of a property element in a response
+ */
+export interface DavPropertyValue {
+  /** Text content of the element, trimmed */
+  text: string
+  /** Text of each child element (list properties like oc:share-types) */
+  values: string[]
+  /** Local names of the child elements (d:resourcetype) */
+  children: string[]
+}
+
+/**
+ * Registry entry for one WebDAV property
+ */
+export interface DavProperty {
+  ns: DavNamespace
+  /** Element name, e.g. 'getetag' */
+  name: string
+  /** Copy the value onto the resource; not called for missing properties */
+  apply: (resource: SearchResource, value: DavPropertyValue) => void
+}
+
+function toNumber(text: string): number | undefined {
+  if (text === '') return undefined
+  const num = Number(text)
+  return Number.isFinite(num) ? num : undefined
+}
+
+function photoField(name: string, key: keyof NonNullable<SearchResource['photo']>, numeric = false): DavProperty {
+  return {
+    ns: 'oc',
+    name,
+    apply: (resource, { text }) => {
+      const value = numeric ? toNumber(text) : text || undefined
+      if (value === undefined) return
+      resource.photo = { ...resource.photo, [key]: value }
+    },
+  }
+}
+
+function locationField(name: string, key: 'latitude' | 'longitude' | 'altitude'): DavProperty {
+  return {
+    ns: 'oc',
+    name,
+    apply: (resource, { text }) => {
+      const value = toNumber(text)
+      if (value === undefined) return
+      resource.location = { ...resource.location, [key]: value }
+    },
+  }
+}
+
+function imageField(name: string, key: 'width' | 'height'): DavProperty {
+  return {
+    ns: 'oc',
+    name,
+    apply: (resource, { text }) => {
+      const value = toNumber(text)
+      if (value === undefined) return
+      resource.image = { ...resource.image, [key]: value }
+    },
+  }
+}
+
+/**
+ * Parse oc:checksums (`SHA1:abc MD5:def ADLER32:123`) into { sha1, md5, adler32 }
+ */
+export function parseChecksums(texts: string[]): Record<string, string> {
+  const checksums: Record<string, string> = {}
+  for (const entry of texts.join(' ').split(/\s+/)) {
+    const separator = entry.indexOf(':')
+    if (separator <= 0) continue
+    checksums[entry.slice(0, separator).toLowerCase()] = entry.slice(separator + 1)
+  }
+  return checksums
+}
+
+/**
+ * All properties requested for search results, in request order
+ */
+export const DAV_PROPERTIES: DavProperty[] = [
+  // Standard WebDAV properties
+  { ns: 'd', name: 'displayname', apply: (r, { text }) => { if (text) r.name = text } },
+  { ns: 'd', name: 'getcontenttype', apply: (r, { text }) => { r.mimeType = text } },
+  { ns: 'd', name: 'getcontentlength', apply: (r, { text }) => { r.size = toNumber(text) ?? r.size } },
+  { ns: 'd', name: 'getlastmodified', apply: (r, { text }) => { r.mdate = text } },
+  { ns: 'd', name: 'getetag', apply: (r, { text }) => { r.etag = text } },
+  {
+    ns: 'd',
+    name: 'resourcetype',
+    apply: (r, { children }) => { if (children.includes('collection')) r.isFolder = true },
+  },
+
+  // ownCloud properties
+  { ns: 'oc', name: 'fileid', apply: (r, { text }) => { r.fileId = text } },
+  { ns: 'oc', name: 'file-parent', apply: (r, { text }) => { r.parentId = text } },
+  // Folder sizes (getcontentlength is only set for files)
+  { ns: 'oc', name: 'size', apply: (r, { text }) => { if (!r.size) r.size = toNumber(text) ?? r.size } },
+  { ns: 'oc', name: 'permissions', apply: (r, { text }) => { r.permissions = text } },
+  { ns: 'oc', name: 'favorite', apply: (r, { text }) => { r.starred = text === '1' || text === 'true' } },
+  {
+    ns: 'oc',
+    name: 'tags',
+    apply: (r, { text }) => { r.tags = text.split(',').map(tag => tag.trim()).filter(Boolean) },
+  },
+  {
+    ns: 'oc',
+    name: 'share-types',
+    apply: (r, { values }) => {
+      r.shareTypes = values.map(v => toNumber(v)).filter((v): v is number => v !== undefined)
+    },
+  },
+  {
+    ns: 'oc',
+    name: 'owner-id',
+    apply: (r, { text }) => { if (text) r.owner = { ...r.owner, id: text, displayName: r.owner?.displayName || text } },
+  },
+  {
+    ns: 'oc',
+    name: 'owner-display-name',
+    apply: (r, { text }) => { if (text) r.owner = { ...r.owner, displayName: text } },
+  },
+  {
+    ns: 'oc',
+    name: 'checksums',
+    apply: (r, { text, values }) => { r.checksums = parseChecksums(values.length > 0 ? values : [text]) },
+  },
+  { ns: 'oc', name: 'privatelink', apply: (r, { text }) => { if (text) r.privateLink = text } },
+
+  // Photo (EXIF) metadata
+  photoField('photo-camera-make', 'cameraMake'),
+  photoField('photo-camera-model', 'cameraModel'),
+  photoField('photo-taken-date-time', 'takenDateTime'),
+  photoField('photo-f-number', 'fNumber', true),
+  photoField('photo-focal-length', 'focalLength', true),
+  photoField('photo-iso', 'iso', true),
+  photoField('photo-exposure-numerator', 'exposureNumerator', true),
+  photoField('photo-exposure-denominator', 'exposureDenominator', true),
+  photoField('photo-orientation', 'orientation', true),
+
+  // Image dimensions and GPS location
+  imageField('image-width', 'width'),
+  imageField('image-height', 'height'),
+  locationField('location-latitude', 'latitude'),
+  locationField('location-longitude', 'longitude'),
+  locationField('location-altitude', 'altitude'),
+]
+
+/**
+ * Look up registry entries by element name, keeping registry order
+ *
+ * @throws Error for names that aren't in the registry
+ */
+export function selectDavProperties(names: string[]): DavProperty[] {
+  const unknown = names.filter(name => !DAV_PROPERTIES.some(p => p.name === name))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown WebDAV properties: ${unknown.join(', ')}`)
+  }
+  return DAV_PROPERTIES.filter(p => names.includes(p.name))
+}
+
+/**
+ * Build the `<d:prop>` element requesting the given properties
+ */
+export function buildPropXml(properties: DavProperty[] = DAV_PROPERTIES, indent = '  '): string {
+  const lines = properties.map(p => `${indent}  <${p.ns}:${p.name}/>`)
+  return [`${indent}<d:prop>`, ...lines, `${indent}</d:prop>`].join('\n')
+}
+
+/**
+ * Copy the properties found in a response onto a resource
+ *
+ * @param lookup - Returns the raw value of a property, or null if the response lacks it
+ */
+export function applyDavProperties(
+  resource: SearchResource,
+  lookup: (ns: string, name: string) => DavPropertyValue | null,
+  properties: DavProperty[] = DAV_PROPERTIES
+): SearchResource {
+  for (const property of properties) {
+    const value = lookup(DAV_NAMESPACES[property.ns], property.name)
+    if (value) property.apply(resource, value)
+  }
+  return resource
+}
+
+/**
+ * Read a property's raw value from a `<d:response>` element.
+ * Properties in a non-200 propstat (e.g. 404 for unknown properties) count as missing.
+ */
+export function readDavProperty(response: Element, ns: string, name: string): DavPropertyValue | null {
+  const element = Array.from(response.getElementsByTagNameNS(DAV_NAMESPACES.d, 'propstat'))
+    .filter(propstat => {
+      const status = propstat.getElementsByTagNameNS(DAV_NAMESPACES.d, 'status')[0]?.textContent
+      return !status || / 200 /.test(`${status} `)
+    })
+    .map(propstat => propstat.getElementsByTagNameNS(ns, name)[0])
+    .find(Boolean)
+  if (!element) return null
+  const childElements = Array.from(element.children)
+  return {
+    text: (element.textContent || '').trim(),
+    values: childElements.map(child => (child.textContent || '').trim()),
+    children: childElements.map(child => child.localName),
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { downloadBlob } from './download'
+
+let link: { href: string; download: string; click: ReturnType<typeof vi.fn> }
+
+beforeEach(() => {
+  link = { href: '', download: '', click: vi.fn() }
+  vi.stubGlobal('document', {
+    createElement: () => link,
+    body: { appendChild: vi.fn(), removeChild: vi.fn() },
+  })
+  vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:download')
+  vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {})
+  vi.useFakeTimers()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('downloadBlob', () => {
+  it('clicks a download link and revokes its URL only later', () => {
+    downloadBlob(new Blob(['data']), 'results.csv')
+    expect(link).toMatchObject({ href: 'blob:download', download: 'results.csv' })
+    expect(link.click).toHaveBeenCalledTimes(1)
+    expect(URL.revokeObjectURL).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(60 * 1000)
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:download')
+  })
+})
@@ -0,0 +1,45 @@
+// How long a download's object URL is kept: some browsers (Firefox, Safari)
+// only start reading it after click() returned, and abort if it's gone
+const REVOKE_DELAY_MS = 60 * 1000
+
+/**
+ * Hand a file built in the browser to the user as a download
+ */
+export function downloadBlob(file: Blob, fileName: string): void {
+  const url = URL.createObjectURL(file)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS)
+}
+
+type SaveFilePicker = (options: { suggestedName: string }) => Promise<{
+  createWritable(): Promise<WritableStream<Uint8Array>>
+}>
+
+/**
+ * Stream a file built in the browser to the user: straight into a file they
+ * pick where the browser has a save file picker, otherwise collected and
+ * handed over as a download when the stream closes. Call it from the click
+ * handler, the picker needs the user gesture; rejects with an AbortError
+ * when the picker is dismissed.
+ */
+export async function openDownloadStream(fileName: string, type: string): Promise<WritableStream<Uint8Array>> {
+  const showSaveFilePicker = (window as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker
+  if (showSaveFilePicker) {
+    const handle = await showSaveFilePicker({ suggestedName: fileName })
+    return handle.createWritable()
+  }
+  const parts: Uint8Array[] = []
+  return new WritableStream({
+    write(chunk) {
+      parts.push(chunk)
+    },
+    close() {
+      downloadBlob(new Blob(parts, { type }), fileName)
+    },
+  })
+}
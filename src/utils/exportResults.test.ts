@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest'
+import {
+  EXPORT_COLUMNS,
+  EXPORT_ROWS_PER_CHUNK,
+  exportChunks,
+  getExportFileName,
+  toCsvField,
+  type ExportFormat,
+  type ExportOptions,
+} from './exportResults'
+import type { SearchResource } from '../types'
+
+const context = { getSpaceName: (spaceId: string) => (spaceId === 's1' ? 'Personal' : spaceId) }
+
+function item(overrides: Partial<SearchResource> = {}): SearchResource {
+  return {
+    id: '1',
+    name: 'beach.jpg',
+    path: '/Photos/beach.jpg',
+    spaceId: 's1',
+    size: '2048',
+    mimeType: 'image/jpeg',
+    mdate: 'Mon, 01 Jul 2024 10:00:00 GMT',
+    tags: ['summer', 'sea'],
+    photo: { cameraMake: 'Canon', cameraModel: 'EOS R5', iso: 100, exposureNumerator: 1, exposureDenominator: 250 },
+    location: { latitude: 43.7, longitude: 7.26 },
+    ...overrides,
+  } as SearchResource
+}
+
+async function exportText(format: ExportFormat, items: SearchResource[], options: Partial<ExportOptions> = {}) {
+  const decoder = new TextDecoder('utf-8', { ignoreBOM: true })
+  let text = ''
+  for await (const chunk of exportChunks(format, items, { context, ...options })) {
+    text += decoder.decode(chunk, { stream: true })
+  }
+  return text
+}
+
+describe('toCsvField', () => {
+  it('quotes separators, quotes and line breaks', () => {
+    expect(toCsvField('plain')).toBe('plain')
+    expect(toCsvField('a,b')).toBe('"a,b"')
+    expect(toCsvField('say "hi"')).toBe('"say ""hi"""')
+    expect(toCsvField('two\nlines')).toBe('"two\nlines"')
+    expect(toCsvField(null)).toBe('')
+    expect(toCsvField(-5)).toBe('-5')
+  })
+
+  it('keeps text that looks like a formula from being evaluated', () => {
+    expect(toCsvField('=SUM(A1)')).toBe("'=SUM(A1)")
+    expect(toCsvField('-1+2')).toBe("'-1+2")
+  })
+})
+
+describe('EXPORT_COLUMNS', () => {
+  it('reads the table columns and EXIF fields', () => {
+    const values = Object.fromEntries(EXPORT_COLUMNS.map(c => [c.id, c.value(item(), context)]))
+    expect(values).toMatchObject({
+      name: 'beach.jpg',
+      path: '/Photos/beach.jpg',
+      space: 'Personal',
+      size: 2048,
+      mimeType: 'image/jpeg',
+      modified: '2024-07-01T10:00:00.000Z',
+      tags: 'summer, sea',
+      cameraMake: 'Canon',
+      exposureTime: '1/250',
+      iso: 100,
+      fNumber: null,
+      latitude: 43.7,
+    })
+  })
+})
+
+describe('exportChunks', () => {
+  it('writes CSV with a header row', async () => {
+    const text = await exportText('csv', [item(), item({ name: 'a, b.txt', photo: undefined, tags: [] })])
+    const lines = text.split('\r\n')
+    expect(lines[0].startsWith('\ufeffName,Path,Space,Size (bytes)')).toBe(true)
+    expect(lines[1]).toContain('beach.jpg,/Photos/beach.jpg,Personal,2048,image/jpeg,2024-07-01T10:00:00.000Z,"summer, sea",Canon')
+    expect(lines[2].startsWith('"a, b.txt",')).toBe(true)
+    expect(lines).toHaveLength(4)
+  })
+
+  it('writes JSON objects keyed by column ID', async () => {
+    const rows = JSON.parse(await exportText('json', [item(), item({ id: '2', name: 'b' })]))
+    expect(rows).toHaveLength(2)
+    expect(rows[0]).toMatchObject({ name: 'beach.jpg', size: 2048, iso: 100, altitude: null })
+    expect(rows[1].name).toBe('b')
+    expect(JSON.parse(await exportText('json', []))).toEqual([])
+  })
+
+  it('writes an XLSX workbook with inline strings and numbers', async () => {
+    const text = await exportText('xlsx', [item({ name: 'Tom & <Jerry>' })])
+    expect(text.startsWith('PK')).toBe(true)
+    expect(text).toContain('[Content_Types].xml')
+    expect(text).toContain('<t xml:space="preserve">Tom &amp; &lt;Jerry&gt;</t>')
+    expect(text).toContain('<c><v>2048</v></c>')
+  })
+
+  it('reports progress and stops when cancelled', async () => {
+    const items = Array.from({ length: EXPORT_ROWS_PER_CHUNK * 3 }, (_, i) => item({ id: String(i) }))
+    let rows = 0
+    const text = await exportText('csv', items, {
+      onRow: count => { rows = count },
+      isCancelled: () => rows >= EXPORT_ROWS_PER_CHUNK,
+    })
+    expect(rows).toBe(EXPORT_ROWS_PER_CHUNK)
+    expect(text.split('\r\n')).toHaveLength(EXPORT_ROWS_PER_CHUNK + 2)
+  })
+})
+
+describe('getExportFileName', () => {
+  it('names the file after the day', () => {
+    expect(getExportFileName('xlsx', new Date(2024, 4, 1))).toBe('search-results-2024-05-01.xlsx')
+  })
+})
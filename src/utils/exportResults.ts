@@ -0,0 +1,242 @@
+/**
+ * Search result export: columns and the CSV, JSON and XLSX writers.
+ *
+ * Writers are async generators that produce the file row by row and pause
+ * every EXPORT_ROWS_PER_CHUNK rows, so large exports don't block the page.
+ * Everything runs in the browser; XLSX is written as a ZIP of SpreadsheetML
+ * parts (utils/zip.ts).
+ */
+
+import type { SearchResource } from '../types'
+import { zipStream } from './zip'
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx'
+
+export type ExportValue = string | number | null
+
+export interface ExportColumn {
+  /** Key in JSON exports */
+  id: string
+  /** Header in CSV/XLSX exports (untranslated) */
+  label: string
+  value: (item: SearchResource, context: ExportContext) => ExportValue
+}
+
+export interface ExportContext {
+  /** Display name of a space */
+  getSpaceName: (spaceId: string) => string
+}
+
+export interface ExportOptions {
+  columns?: ExportColumn[]
+  context: ExportContext
+  /** Called after each row */
+  onRow?: (count: number) => void
+  /** Checked between chunks; stops the export when true */
+  isCancelled?: () => boolean
+}
+
+/** Rows written between pauses */
+export const EXPORT_ROWS_PER_CHUNK = 500
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null
+  const number = Number(value)
+  return Number.isFinite(number) ? number : null
+}
+
+/**
+ * ISO timestamp for a date the server sent (RFC 1123 from WebDAV), or the value as is
+ */
+function toIsoDate(value: string | undefined): string | null {
+  if (!value) return null
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? value : new Date(time).toISOString()
+}
+
+/**
+ * Columns of the table view, plus all EXIF and location fields
+ */
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { id: 'name', label: 'Name', value: item => item.name ?? null },
+  { id: 'path', label: 'Path', value: item => item.path || null },
+  { id: 'space', label: 'Space', value: (item, context) => (item.spaceId ? context.getSpaceName(item.spaceId) : null) },
+  { id: 'size', label: 'Size (bytes)', value: item => toNumber(item.size) },
+  { id: 'mimeType', label: 'Type', value: item => item.mimeType || (item.isFolder ? 'folder' : null) },
+  { id: 'modified', label: 'Modified', value: item => toIsoDate(item.mdate || item.lastModifiedDateTime) },
+  { id: 'tags', label: 'Tags', value: item => (item.tags?.length ? item.tags.join(', ') : null) },
+  { id: 'cameraMake', label: 'Camera Make', value: item => item.photo?.cameraMake || null },
+  { id: 'cameraModel', label: 'Camera Model', value: item => item.photo?.cameraModel || null },
+  { id: 'takenDateTime', label: 'Date Taken', value: item => toIsoDate(item.photo?.takenDateTime) },
+  { id: 'fNumber', label: 'Aperture (f/)', value: item => toNumber(item.photo?.fNumber) },
+  {
+    id: 'exposureTime',
+    label: 'Exposure Time (s)',
+    value: item => {
+      const { exposureNumerator: num, exposureDenominator: den } = item.photo || {}
+      return num && den ? `${num}/${den}` : null
+    },
+  },
+  { id: 'iso', label: 'ISO', value: item => toNumber(item.photo?.iso) },
+  { id: 'focalLength', label: 'Focal Length (mm)', value: item => toNumber(item.photo?.focalLength) },
+  { id: 'orientation', label: 'Orientation', value: item => toNumber(item.photo?.orientation) },
+  { id: 'latitude', label: 'Latitude', value: item => toNumber(item.location?.latitude) },
+  { id: 'longitude', label: 'Longitude', value: item => toNumber(item.location?.longitude) },
+  { id: 'altitude', label: 'Altitude (m)', value: item => toNumber(item.location?.altitude) },
+]
+
+/**
+ * File name for an export or download, e.g. 'search-results-2024-05-01.csv'
+ */
+export function getExportFileName(extension: ExportFormat | 'zip', date = new Date()): string {
+  const day = [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+    .map(n => String(n).padStart(2, '0'))
+    .join('-')
+  return `search-results-${day}.${extension}`
+}
+
+/**
+ * One CSV field. Text starting like a formula is prefixed with ' so
+ * spreadsheet apps don't evaluate it.
+ */
+export function toCsvField(value: ExportValue): string {
+  if (value === null) return ''
+  if (typeof value === 'number') return String(value)
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Characters XML 1.0 doesn't allow
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g
+
+function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function toXlsxCell(value: ExportValue): string {
+  if (value === null) return '<c/>'
+  if (typeof value === 'number') return `<c><v>${value}</v></c>`
+  return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+}
+
+function pause(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0))
+}
+
+/**
+ * Rows of text, one per item, in chunks of EXPORT_ROWS_PER_CHUNK rows
+ */
+async function* rowChunks(
+  items: Iterable<SearchResource>,
+  formatRow: (values: ExportValue[]) => string,
+  options: ExportOptions
+): AsyncGenerator<string> {
+  const columns = options.columns ?? EXPORT_COLUMNS
+  let count = 0
+  let chunk = ''
+  for (const item of items) {
+    chunk += formatRow(columns.map(column => column.value(item, options.context)))
+    options.onRow?.(++count)
+    if (count % EXPORT_ROWS_PER_CHUNK === 0) {
+      yield chunk
+      chunk = ''
+      await pause()
+      if (options.isCancelled?.()) return
+    }
+  }
+  if (chunk) yield chunk
+}
+
+async function* csvChunks(items: Iterable<SearchResource>, options: ExportOptions): AsyncGenerator<string> {
+  const columns = options.columns ?? EXPORT_COLUMNS
+  // BOM, so spreadsheet apps read the file as UTF-8
+  yield '\ufeff' + columns.map(column => toCsvField(column.label)).join(',') + '\r\n'
+  yield* rowChunks(items, values => values.map(toCsvField).join(',') + '\r\n', options)
+}
+
+async function* jsonChunks(items: Iterable<SearchResource>, options: ExportOptions): AsyncGenerator<string> {
+  const columns = options.columns ?? EXPORT_COLUMNS
+  let first = true
+  yield '['
+  yield* rowChunks(items, values => {
+    const row = Object.fromEntries(columns.map((column, i) => [column.id, values[i]]))
+    const text = `${first ? '' : ','}\n  ${JSON.stringify(row)}`
+    first = false
+    return text
+  }, options)
+  yield '\n]\n'
+}
+
+async function* sheetChunks(items: Iterable<SearchResource>, options: ExportOptions): AsyncGenerator<string> {
+  const columns = options.columns ?? EXPORT_COLUMNS
+  yield '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+    `<row>${columns.map(column => toXlsxCell(column.label)).join('')}</row>`
+  yield* rowChunks(items, values => `<row>${values.map(toXlsxCell).join('')}</row>`, options)
+  yield '</sheetData></worksheet>'
+}
+
+async function* encode(chunks: AsyncIterable<string>): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder()
+  for await (const chunk of chunks) {
+    yield encoder.encode(chunk)
+  }
+}
+
+const XLSX_PARTS = {
+  '[Content_Types].xml':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '</Types>',
+  '_rels/.rels':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>',
+  'xl/workbook.xml':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<sheets><sheet name="Search results" sheetId="1" r:id="rId1"/></sheets></workbook>',
+  'xl/_rels/workbook.xml.rels':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '</Relationships>',
+}
+
+/**
+ * Write `items` in the given format, yielding the file's bytes as they are produced
+ */
+export function exportChunks(
+  format: ExportFormat,
+  items: Iterable<SearchResource>,
+  options: ExportOptions
+): AsyncGenerator<Uint8Array> {
+  switch (format) {
+    case 'csv':
+      return encode(csvChunks(items, options))
+    case 'json':
+      return encode(jsonChunks(items, options))
+    case 'xlsx':
+      return zipStream([
+        ...Object.entries(XLSX_PARTS).map(([name, data]) => ({ name, data })),
+        { name: 'xl/worksheets/sheet1.xml', data: encode(sheetChunks(items, options)) },
+      ])
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import { createEmptyFilters } from '../types'
+import type { SearchResource } from '../types'
+import {
+  SIZE_BUCKETS,
+  createFacetCounter,
+  getFacetSelection,
+  getFacetValues,
+  getMediaTypeGroup,
+  getSizeBucket,
+  isFacetSelected,
+} from './facets'
+
+const file = (id: string, extra: Partial<SearchResource> = {}) =>
+  ({ id, name: id, spaceId: 'personal', mdate: 'Mon, 01 Jan 2024 10:00:00 GMT', ...extra }) as SearchResource
+
+describe('getMediaTypeGroup', () => {
+  it('maps mime types onto the search media types', () => {
+    expect(getMediaTypeGroup(file('a', { mimeType: 'image/jpeg' }))).toBe('image')
+    expect(getMediaTypeGroup(file('a', { mimeType: 'application/pdf' }))).toBe('pdf')
+    expect(getMediaTypeGroup(file('a', { mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }))).toBe('spreadsheet')
+    expect(getMediaTypeGroup(file('a', { mimeType: 'text/csv' }))).toBe('spreadsheet')
+    expect(getMediaTypeGroup(file('a', { mimeType: 'text/plain' }))).toBe('document')
+    expect(getMediaTypeGroup(file('a', { isFolder: true }))).toBe('folder')
+    expect(getMediaTypeGroup(file('a', { mimeType: 'application/octet-stream' }))).toBeNull()
+  })
+})
+
+describe('getSizeBucket', () => {
+  it('finds the bucket with inclusive bounds', () => {
+    expect(getSizeBucket(file('a', { size: 0 }))).toBe(SIZE_BUCKETS[0])
+    expect(getSizeBucket(file('a', { size: 100 * 1024 }))).toBe(SIZE_BUCKETS[1])
+    expect(getSizeBucket(file('a', { size: '2000000' }))).toBe(SIZE_BUCKETS[2])
+    expect(getSizeBucket(file('a', { size: 5 * 1024 ** 3 }))).toBe(SIZE_BUCKETS[5])
+    expect(getSizeBucket(file('a', { isFolder: true, size: 10 }))).toBeNull()
+  })
+})
+
+describe('getFacetValues', () => {
+  it('collects the values of a result', () => {
+    const values = getFacetValues(file('a', {
+      mimeType: 'image/jpeg',
+      size: 3 * 1024 * 1024,
+      tags: ['trip', 'trip', 'beach'],
+      photo: { cameraMake: 'Canon', cameraModel: 'EOS R5' },
+    }))
+    expect(values).toEqual({
+      mediaType: ['image'],
+      space: ['personal'],
+      cameraMake: ['Canon'],
+      cameraModel: ['EOS R5'],
+      tag: ['trip', 'beach'],
+      year: ['2024'],
+      size: [SIZE_BUCKETS[2].key],
+    })
+  })
+})
+
+describe('createFacetCounter', () => {
+  const page1 = [file('a', { tags: ['x'] }), file('b', { tags: ['x', 'y'] })]
+  const page2 = [file('c', { tags: ['y'], spaceId: 'project' })]
+
+  it('counts appended pages only', () => {
+    const counter = createFacetCounter()
+    expect(counter.update(page1)).toBe(true)
+    expect(counter.counts.tag).toEqual(new Map([['x', 2], ['y', 1]]))
+
+    expect(counter.update([...page1, ...page2])).toBe(true)
+    expect(counter.counted).toBe(3)
+    expect(counter.counts.tag).toEqual(new Map([['x', 2], ['y', 2]]))
+    expect(counter.counts.space).toEqual(new Map([['personal', 2], ['project', 1]]))
+
+    expect(counter.update([...page1, ...page2])).toBe(false)
+  })
+
+  it('starts over for a different result list', () => {
+    const counter = createFacetCounter()
+    counter.update(page1)
+    counter.update(page2)
+    expect(counter.counted).toBe(1)
+    expect(counter.counts.tag).toEqual(new Map([['y', 1]]))
+    counter.update([])
+    expect(counter.counts.tag.size).toBe(0)
+  })
+})
+
+describe('facet selections', () => {
+  it('maps facet values onto filters', () => {
+    expect(getFacetSelection('mediaType', 'image')).toEqual({ standard: { mediaType: 'image' } })
+    expect(getFacetSelection('space', 'personal')).toEqual({ scope: { spaceId: 'personal' } })
+    expect(getFacetSelection('cameraModel', 'EOS R5')).toEqual({ photo: { cameraModel: 'EOS R5' } })
+    expect(getFacetSelection('year', '2024')).toEqual({ standard: { modifiedRange: { start: '2024-01-01', end: '2024-12-31' } } })
+    expect(getFacetSelection('size', SIZE_BUCKETS[0].key)).toEqual({ standard: { sizeRange: { min: undefined, max: 102399 } } })
+    expect(getFacetSelection('size', 'nonsense')).toBeNull()
+  })
+
+  it('tells whether the filters are narrowed to a value', () => {
+    const filters = createEmptyFilters()
+    expect(isFacetSelected(filters, 'tag', 'trip')).toBe(false)
+    filters.standard = { tags: 'trip', sizeRange: { min: SIZE_BUCKETS[1].min, max: SIZE_BUCKETS[1].max } }
+    filters.scope = 'space'
+    filters.scopeTarget = { spaceId: 'personal' }
+    expect(isFacetSelected(filters, 'tag', 'trip')).toBe(true)
+    expect(isFacetSelected(filters, 'size', SIZE_BUCKETS[1].key)).toBe(true)
+    expect(isFacetSelected(filters, 'space', 'personal')).toBe(true)
+  })
+})
@@ -0,0 +1,226 @@
+/**
+ * Facets of the loaded results: how many results have each media type,
+ * space, camera, tag, year modified and size bucket.
+ *
+ * Counting is incremental: the counter remembers how many results it has
+ * seen, and when the next page is appended only the new results are
+ * counted. A different result list (a new search) starts over.
+ *
+ * Each facet value maps to the filter that narrows the search to it
+ * (`getFacetSelection()`), so clicking a value drills down.
+ */
+
+import type { SearchFilters, SearchResource, SearchScopeTarget } from '../types'
+import { COMMON_MEDIA_TYPES } from '../types'
+
+export type FacetId = 'mediaType' | 'space' | 'cameraMake' | 'cameraModel' | 'tag' | 'year' | 'size'
+
+/** Facets in display order */
+export const FACET_IDS: FacetId[] = ['mediaType', 'space', 'cameraMake', 'cameraModel', 'tag', 'year', 'size']
+
+/** Chip / filter ID a facet sets (for removeFilter) */
+export const FACET_FILTER_IDS: Record<FacetId, string> = {
+  mediaType: 'mediaType',
+  space: 'scope',
+  cameraMake: 'cameraMake',
+  cameraModel: 'cameraModel',
+  tag: 'tags',
+  year: 'mtime',
+  size: 'size',
+}
+
+export interface SizeBucket {
+  /** `min..max` in bytes, either side may be empty */
+  key: string
+  min?: number
+  max?: number
+}
+
+const KB = 1024
+const MB = 1024 * KB
+const GB = 1024 * MB
+
+/** Size buckets, smallest first; bounds are inclusive like size ranges */
+export const SIZE_BUCKETS: SizeBucket[] = [
+  [undefined, 100 * KB],
+  [100 * KB, MB],
+  [MB, 10 * MB],
+  [10 * MB, 100 * MB],
+  [100 * MB, GB],
+  [GB, undefined],
+].map(([min, max]) => ({
+  key: `${min ?? ''}..${max !== undefined ? max - 1 : ''}`,
+  min,
+  max: max !== undefined ? max - 1 : undefined,
+}))
+
+/** Media type groups of the search (`mediatype:` values), checked in order */
+const MEDIA_TYPE_MATCHERS: Array<[string, (mimeType: string) => boolean]> = [
+  ['folder', m => m === 'httpd/unix-directory'],
+  ['image', m => m.startsWith('image/')],
+  ['video', m => m.startsWith('video/')],
+  ['audio', m => m.startsWith('audio/')],
+  ['pdf', m => m === 'application/pdf'],
+  ['spreadsheet', m => /spreadsheet|ms-excel|csv/.test(m)],
+  ['presentation', m => /presentation|powerpoint/.test(m)],
+  ['document', m => m.startsWith('text/') || /wordprocessing|msword|opendocument\.text/.test(m)],
+  ['archive', m => /zip|tar|gzip|rar|7z|compressed/.test(m)],
+]
+
+/**
+ * Media type group of a result (a COMMON_MEDIA_TYPES value), or null
+ */
+export function getMediaTypeGroup(item: SearchResource): string | null {
+  if (item.isFolder || item.type === 'folder') return 'folder'
+  const mimeType = (item.mimeType || '').toLowerCase()
+  return MEDIA_TYPE_MATCHERS.find(([, matches]) => matches(mimeType))?.[0] ?? null
+}
+
+function getSize(item: SearchResource): number | null {
+  const size = typeof item.size === 'string' ? parseInt(item.size, 10) : item.size
+  return typeof size === 'number' && Number.isFinite(size) ? size : null
+}
+
+/**
+ * Size bucket of a file (folders have none)
+ */
+export function getSizeBucket(item: SearchResource): SizeBucket | null {
+  if (item.isFolder || item.type === 'folder') return null
+  const size = getSize(item)
+  if (size === null) return null
+  return SIZE_BUCKETS.find(bucket => (bucket.min === undefined || size >= bucket.min) && (bucket.max === undefined || size <= bucket.max)) ?? null
+}
+
+/**
+ * Facet values of a result (several tags, at most one of everything else)
+ */
+export function getFacetValues(item: SearchResource): Record<FacetId, string[]> {
+  const mediaType = getMediaTypeGroup(item)
+  const modified = Date.parse(item.mdate || item.lastModifiedDateTime || '')
+  const size = getSizeBucket(item)
+  return {
+    mediaType: mediaType ? [mediaType] : [],
+    space: item.spaceId ? [item.spaceId] : [],
+    cameraMake: item.photo?.cameraMake ? [item.photo.cameraMake] : [],
+    cameraModel: item.photo?.cameraModel ? [item.photo.cameraModel] : [],
+    tag: [...new Set((item.tags || []).filter(Boolean))],
+    year: Number.isNaN(modified) ? [] : [String(new Date(modified).getUTCFullYear())],
+    size: size ? [size.key] : [],
+  }
+}
+
+export type FacetCounts = Record<FacetId, Map<string, number>>
+
+export interface FacetCounter {
+  /**
+   * Count a result list: only results appended since the last call, or all
+   * of them if the list changed otherwise
+   *
+   * @returns Whether anything was counted
+   */
+  update(items: SearchResource[]): boolean
+  /** Counts per facet value */
+  readonly counts: FacetCounts
+  /** Results counted */
+  readonly counted: number
+}
+
+function emptyCounts(): FacetCounts {
+  return Object.fromEntries(FACET_IDS.map(id => [id, new Map<string, number>()])) as FacetCounts
+}
+
+export function createFacetCounter(): FacetCounter {
+  let counts = emptyCounts()
+  let counted = 0
+  let firstId: string | undefined
+  let lastId: string | undefined
+
+  function add(items: SearchResource[]): void {
+    for (const item of items) {
+      const values = getFacetValues(item)
+      for (const id of FACET_IDS) {
+        for (const value of values[id]) {
+          counts[id].set(value, (counts[id].get(value) || 0) + 1)
+        }
+      }
+    }
+  }
+
+  return {
+    update(items) {
+      const appended = counted > 0 && items.length >= counted &&
+        items[0]?.id === firstId && items[counted - 1]?.id === lastId
+      if (appended && items.length === counted) return false
+      if (!appended) {
+        counts = emptyCounts()
+        counted = 0
+      }
+      add(items.slice(counted))
+      counted = items.length
+      firstId = items[0]?.id
+      lastId = items[items.length - 1]?.id
+      return true
+    },
+    get counts() {
+      return counts
+    },
+    get counted() {
+      return counted
+    },
+  }
+}
+
+/** Filter change that narrows a search to a facet value */
+export type FacetSelection =
+  | { standard: Partial<SearchFilters['standard']> }
+  | { photo: Partial<SearchFilters['photo']> }
+  | { scope: SearchScopeTarget }
+
+/**
+ * Filter for a facet value, null for values that can't be searched for
+ */
+export function getFacetSelection(facet: FacetId, value: string): FacetSelection | null {
+  switch (facet) {
+    case 'mediaType':
+      return COMMON_MEDIA_TYPES.some(type => type.value === value) ? { standard: { mediaType: value } } : null
+    case 'space':
+      return { scope: { spaceId: value } }
+    case 'cameraMake':
+      return { photo: { cameraMake: value } }
+    case 'cameraModel':
+      return { photo: { cameraModel: value } }
+    case 'tag':
+      return { standard: { tags: value } }
+    case 'year':
+      return /^\d{4}$/.test(value) ? { standard: { modifiedRange: { start: `${value}-01-01`, end: `${value}-12-31` } } } : null
+    case 'size': {
+      const bucket = SIZE_BUCKETS.find(candidate => candidate.key === value)
+      return bucket ? { standard: { sizeRange: { min: bucket.min, max: bucket.max } } } : null
+    }
+  }
+}
+
+/**
+ * Whether the filters already narrow the search to a facet value
+ */
+export function isFacetSelected(filters: SearchFilters, facet: FacetId, value: string): boolean {
+  const { standard, photo } = filters
+  switch (facet) {
+    case 'mediaType':
+      return standard.mediaType === value
+    case 'space':
+      return filters.scope === 'space' && filters.scopeTarget?.spaceId === value
+    case 'cameraMake':
+      return photo.cameraMake === value
+    case 'cameraModel':
+      return photo.cameraModel === value
+    case 'tag':
+      return standard.tags === value
+    case 'year':
+      return standard.modifiedRange?.start === `${value}-01-01` && standard.modifiedRange?.end === `${value}-12-31`
+    case 'size': {
+      const bucket = SIZE_BUCKETS.find(candidate => candidate.key === value)
+      return !!bucket && standard.sizeRange?.min === bucket.min && standard.sizeRange?.max === bucket.max
+    }
+  }
+}
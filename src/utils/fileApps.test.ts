@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import type { MimeTypeApps, SearchResource } from '../types'
+import { getAppUrl, getFileApps, getShowInFolderUrl, parseAppList } from './fileApps'
+
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+const appList = {
+  'mime-types': [
+    {
+      mime_type: DOCX,
+      ext: 'docx',
+      app_providers: [
+        { name: 'Collabora', product_name: 'Collabora', icon: 'https://cloud.example.com/collabora.svg' },
+        { name: 'OnlyOffice', product_name: 'ONLYOFFICE' },
+      ],
+      default_application: 'OnlyOffice',
+    },
+    { mime_type: 'application/pdf', ext: 'pdf', app_providers: [{ name: 'Collabora' }] },
+    { mime_type: 'application/x-empty', app_providers: [] },
+    { ext: 'odt', app_providers: [{ name: 'Collabora' }] },
+  ],
+}
+
+const file = (name: string, mimeType: string, extra: Partial<SearchResource> = {}) =>
+  ({ id: 's1!f1', fileId: 's1!f1', name, mimeType, path: `/Docs/${name}`, driveAlias: 'personal/admin', parentId: 's1!docs', ...extra }) as SearchResource
+
+describe('parseAppList', () => {
+  it('reads apps and default app per mime type', () => {
+    const list = parseAppList(appList)
+    expect(list.map(entry => entry.mimeType)).toEqual([DOCX, 'application/pdf'])
+    expect(list[0]).toEqual({
+      mimeType: DOCX,
+      extension: 'docx',
+      apps: [
+        { id: 'Collabora', name: 'Collabora', icon: 'https://cloud.example.com/collabora.svg', kind: 'provider' },
+        { id: 'OnlyOffice', name: 'ONLYOFFICE', kind: 'provider' },
+      ],
+      defaultApp: 'OnlyOffice',
+    })
+  })
+
+  it('accepts JSON text and ignores other shapes', () => {
+    expect(parseAppList(JSON.stringify(appList))).toHaveLength(2)
+    expect(parseAppList('<html>')).toEqual([])
+    expect(parseAppList({ 'mime-types': 'none' })).toEqual([])
+    expect(parseAppList(null)).toEqual([])
+  })
+})
+
+describe('getFileApps', () => {
+  const providerApps: MimeTypeApps[] = parseAppList(appList)
+
+  it('opens office files in the configured default app', () => {
+    const { apps, defaultApp } = getFileApps(file('report.docx', DOCX), providerApps)
+    expect(apps.map(app => app.id)).toEqual(['Collabora', 'OnlyOffice'])
+    expect(defaultApp?.id).toBe('OnlyOffice')
+  })
+
+  it('falls back to the extension for unknown mime types', () => {
+    const { defaultApp } = getFileApps(file('report.DOCX', 'application/octet-stream'), providerApps)
+    expect(defaultApp?.id).toBe('OnlyOffice')
+  })
+
+  it('offers the built-in viewers first', () => {
+    const pdf = getFileApps(file('a.pdf', 'application/pdf'), providerApps)
+    expect(pdf.apps.map(app => app.id)).toEqual(['pdf-viewer', 'Collabora'])
+    expect(pdf.defaultApp?.id).toBe('pdf-viewer')
+
+    expect(getFileApps(file('a.jpg', 'image/jpeg'), providerApps).defaultApp?.id).toBe('preview')
+    expect(getFileApps(file('a.md', 'text/markdown'), providerApps).defaultApp?.id).toBe('text-editor')
+  })
+
+  it('finds nothing for folders and unsupported files', () => {
+    expect(getFileApps(file('Docs', 'httpd/unix-directory', { isFolder: true }), providerApps)).toEqual({ apps: [], defaultApp: null })
+    expect(getFileApps(file('a.zip', 'application/zip'), providerApps).defaultApp).toBeNull()
+    expect(getFileApps(file('page.html', 'text/html'), []).apps).toEqual([])
+  })
+})
+
+describe('getAppUrl', () => {
+  it('opens web apps on their own route', () => {
+    const url = new URL(getAppUrl('https://cloud.example.com', { id: 'text-editor', name: 'Text editor', kind: 'web' }, file('notes 1.txt', 'text/plain')))
+    expect(url.pathname).toBe('/text-editor/personal/admin/Docs/notes%201.txt')
+    expect(url.searchParams.get('fileId')).toBe('s1!f1')
+    expect(url.searchParams.get('contextRouteName')).toBe('files-spaces-generic')
+    expect(url.searchParams.get('contextRouteParams.driveAliasAndItem')).toBe('personal/admin/Docs')
+    expect(url.searchParams.get('contextRouteQuery.fileId')).toBe('s1!docs')
+    expect(url.searchParams.has('app')).toBe(false)
+  })
+
+  it('opens app provider apps through the external route', () => {
+    const url = new URL(getAppUrl('https://cloud.example.com', { id: 'Collabora', name: 'Collabora', kind: 'provider' }, file('a.docx', DOCX)))
+    expect(url.pathname).toBe('/external/personal/admin/Docs/a.docx')
+    expect(url.searchParams.get('app')).toBe('Collabora')
+  })
+})
+
+describe('getShowInFolderUrl', () => {
+  it('opens the parent folder scrolled to the file', () => {
+    const url = new URL(getShowInFolderUrl('https://cloud.example.com', file('a.zip', 'application/zip')))
+    expect(url.pathname).toBe('/files/spaces/personal/admin/Docs')
+    expect(url.searchParams.get('fileId')).toBe('s1!docs')
+    expect(url.searchParams.get('scrollTo')).toBe('s1!f1')
+  })
+
+  it('uses the space root for top-level files', () => {
+    const url = new URL(getShowInFolderUrl('https://cloud.example.com', file('a.zip', 'application/zip', { path: '/a.zip', parentId: undefined })))
+    expect(url.pathname).toBe('/files/spaces/personal/admin')
+    expect(url.searchParams.has('fileId')).toBe(false)
+  })
+})
@@ -0,0 +1,153 @@
+/**
+ * Which apps can open a result, and the ownCloud Web URLs that open it.
+ *
+ * Office formats come from the oCIS app provider list (`/app/list`); the
+ * viewers built into ownCloud Web (media viewer, PDF viewer, text editor)
+ * aren't listed there and are matched by mime type here.
+ */
+
+import type { FileApp, MimeTypeApps, SearchResource } from '../types'
+
+/**
+ * Apps built into ownCloud Web, with the mime types they open.
+ * Names are untranslated (translate before display).
+ */
+export const WEB_APPS: Array<{ app: FileApp; opens: (mimeType: string) => boolean }> = [
+  {
+    app: { id: 'preview', name: 'Media viewer', kind: 'web' },
+    opens: mimeType => /^(image|video|audio)\//.test(mimeType),
+  },
+  {
+    app: { id: 'pdf-viewer', name: 'PDF viewer', kind: 'web' },
+    opens: mimeType => mimeType === 'application/pdf',
+  },
+  {
+    app: { id: 'text-editor', name: 'Text editor', kind: 'web' },
+    opens: mimeType =>
+      (mimeType.startsWith('text/') && mimeType !== 'text/html') ||
+      ['application/json', 'application/xml', 'application/x-yaml', 'application/yaml'].includes(mimeType),
+  },
+]
+
+export interface FileAppChoice {
+  /** Apps that can open the file, built-in viewers first */
+  apps: FileApp[]
+  /** App used when the result is clicked; null if nothing can open it */
+  defaultApp: FileApp | null
+}
+
+/**
+ * Parse the app provider list (`GET /app/list`). Unknown shapes give an
+ * empty list, entries without mime type or apps are skipped.
+ */
+export function parseAppList(data: unknown): MimeTypeApps[] {
+  const parsed = typeof data === 'string' ? safeJsonParse(data) : data
+  const mimeTypes = (parsed as { 'mime-types'?: unknown } | null)?.['mime-types']
+  if (!Array.isArray(mimeTypes)) return []
+
+  const result: MimeTypeApps[] = []
+  for (const entry of mimeTypes) {
+    if (typeof entry?.mime_type !== 'string' || !Array.isArray(entry.app_providers)) continue
+    const apps: FileApp[] = entry.app_providers
+      .filter((provider: { name?: unknown }) => typeof provider?.name === 'string' && provider.name)
+      .map((provider: { name: string; icon?: unknown; product_name?: unknown }) => ({
+        id: provider.name,
+        name: typeof provider.product_name === 'string' && provider.product_name ? provider.product_name : provider.name,
+        ...(typeof provider.icon === 'string' && provider.icon && { icon: provider.icon }),
+        kind: 'provider' as const,
+      }))
+    if (apps.length === 0) continue
+    result.push({
+      mimeType: entry.mime_type.toLowerCase(),
+      ...(typeof entry.ext === 'string' && entry.ext && { extension: entry.ext.toLowerCase() }),
+      apps,
+      ...(typeof entry.default_application === 'string' && entry.default_application && { defaultApp: entry.default_application }),
+    })
+  }
+  return result
+}
+
+function safeJsonParse(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return null
+  }
+}
+
+function extensionOf(item: SearchResource): string {
+  if (item.extension) return item.extension.toLowerCase()
+  const name = item.name || ''
+  const dot = name.lastIndexOf('.')
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : ''
+}
+
+/**
+ * Apps that can open a result. Folders get none.
+ */
+export function getFileApps(item: SearchResource, providerApps: MimeTypeApps[]): FileAppChoice {
+  if (item.isFolder || item.type === 'folder') return { apps: [], defaultApp: null }
+
+  const mimeType = (item.mimeType || '').toLowerCase()
+  const extension = extensionOf(item)
+  // Mime type first: servers often report e.g. `application/octet-stream` for unknown types
+  const provided = providerApps.find(entry => mimeType && entry.mimeType === mimeType)
+    ?? providerApps.find(entry => extension && entry.extension === extension)
+
+  const apps = WEB_APPS.filter(({ opens }) => mimeType && opens(mimeType)).map(({ app }) => app)
+  for (const app of provided?.apps ?? []) {
+    if (!apps.some(known => known.id === app.id)) apps.push(app)
+  }
+  const defaultApp = apps.find(app => app.kind === 'provider' && app.id === provided?.defaultApp) ?? apps[0] ?? null
+  return { apps, defaultApp }
+}
+
+const encodePath = (path: string) => path.split('/').map(s => encodeURIComponent(s)).join('/')
+
+function parentPath(path: string): string {
+  const lastSlash = path.lastIndexOf('/')
+  return lastSlash > 0 ? path.substring(0, lastSlash) : ''
+}
+
+/**
+ * URL that opens a result in an app. Web apps have their own route
+ * (`/text-editor/…`); app provider apps open through the `external` route
+ * with the app's name. The context parameters make the app's close button
+ * return to the result's folder.
+ */
+export function getAppUrl(baseUrl: string, app: FileApp, item: SearchResource): string {
+  const filePath = item.path || item.name || ''
+  const driveAlias = item.driveAlias || 'personal/home'
+  const parentId = item.parentReference?.id || item.parentId || ''
+
+  const params = new URLSearchParams({
+    fileId: item.fileId || item.id || '',
+    contextRouteName: 'files-spaces-generic',
+    'contextRouteParams.driveAliasAndItem': `${driveAlias}${parentPath(filePath)}`,
+  })
+  if (parentId) {
+    params.set('contextRouteQuery.fileId', parentId)
+  }
+  if (app.kind === 'provider') {
+    params.set('app', app.id)
+  }
+
+  const route = app.kind === 'provider' ? 'external' : app.id
+  return `${baseUrl}/${route}/${encodePath(`${driveAlias}${filePath}`)}?${params}`
+}
+
+/**
+ * URL of the result's folder in the Files app, scrolled to the result
+ */
+export function getShowInFolderUrl(baseUrl: string, item: SearchResource): string {
+  const driveAlias = item.driveAlias || 'personal/home'
+  const folderPath = parentPath(item.path || item.name || '')
+  const parentId = item.parentReference?.id || item.parentId || ''
+
+  const params = new URLSearchParams()
+  if (parentId) {
+    params.set('fileId', parentId)
+  }
+  params.set('scrollTo', item.fileId || item.id || '')
+  return `${baseUrl}/files/spaces/${encodePath(`${driveAlias}${folderPath}`)}?${params}`
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest'
+import type { SearchResource } from '../types'
+import {
+  MAX_ZOOM,
+  MIN_ZOOM,
+  TILE_SIZE,
+  clampZoom,
+  clusterLocations,
+  fitBounds,
+  formatCoordinates,
+  getGridLines,
+  getKmPerPixel,
+  getLocation,
+  getMapTileConfig,
+  getTileUrl,
+  getVisibleTiles,
+  project,
+  splitByLocation,
+  unproject,
+} from './geoMap'
+
+const photo = (id: string, latitude?: number, longitude?: number) =>
+  ({ id, name: `${id}.jpg`, mimeType: 'image/jpeg', location: { latitude, longitude } }) as SearchResource
+
+const BARCELONA = { latitude: 41.3784, longitude: 2.1925 }
+const BERLIN = { latitude: 52.52, longitude: 13.405 }
+
+describe('getMapTileConfig', () => {
+  it('reads the tile URL and attribution', () => {
+    expect(getMapTileConfig({ mapTileUrl: ' https://tiles.example.com/{z}/{x}/{y}.png ', mapTileAttribution: '© Example' }))
+      .toEqual({ tileUrl: 'https://tiles.example.com/{z}/{x}/{y}.png', attribution: '© Example' })
+  })
+
+  it('ignores tile URLs without placeholders and other values', () => {
+    expect(getMapTileConfig({ mapTileUrl: 'https://tiles.example.com/tile.png' }).tileUrl).toBeNull()
+    expect(getMapTileConfig({ mapTileUrl: 42 })).toEqual({ tileUrl: null, attribution: '' })
+    expect(getMapTileConfig(undefined)).toEqual({ tileUrl: null, attribution: '' })
+  })
+})
+
+describe('getLocation', () => {
+  it('returns valid coordinates', () => {
+    expect(getLocation(photo('a', 41.3784, 2.1925))).toEqual(BARCELONA)
+    expect(getLocation(photo('a', 0, 0))).toEqual({ latitude: 0, longitude: 0 })
+  })
+
+  it('rejects missing and out-of-range coordinates', () => {
+    expect(getLocation({ id: 'a', name: 'a' } as SearchResource)).toBeNull()
+    expect(getLocation(photo('a', 41.3784))).toBeNull()
+    expect(getLocation(photo('a', 91, 0))).toBeNull()
+    expect(getLocation(photo('a', 0, -181))).toBeNull()
+    expect(getLocation(photo('a', NaN, 0))).toBeNull()
+  })
+})
+
+describe('splitByLocation', () => {
+  it('splits results keeping their order', () => {
+    const { located, unlocated } = splitByLocation([photo('a', 1, 2), photo('b'), photo('c', 3, 4)])
+    expect(located.map(({ item }) => item.id)).toEqual(['a', 'c'])
+    expect(located[1].location).toEqual({ latitude: 3, longitude: 4 })
+    expect(unlocated.map(item => item.id)).toEqual(['b'])
+  })
+})
+
+describe('project / unproject', () => {
+  it('maps the world onto one tile at zoom 0', () => {
+    expect(project({ latitude: 0, longitude: 0 }, 0)).toEqual({ x: 128, y: 128 })
+    expect(project({ latitude: 0, longitude: -180 }, 0).x).toBe(0)
+    expect(project({ latitude: 0, longitude: 180 }, 1).x).toBe(2 * TILE_SIZE)
+  })
+
+  it('clamps latitudes beyond the map', () => {
+    expect(project({ latitude: 90, longitude: 0 }, 0).y).toBeCloseTo(0, 5)
+    expect(project({ latitude: -90, longitude: 0 }, 0).y).toBeCloseTo(TILE_SIZE, 5)
+  })
+
+  it('round-trips', () => {
+    const point = unproject(project(BARCELONA, 12), 12)
+    expect(point.latitude).toBeCloseTo(BARCELONA.latitude, 8)
+    expect(point.longitude).toBeCloseTo(BARCELONA.longitude, 8)
+  })
+})
+
+describe('getKmPerPixel', () => {
+  it('shrinks with zoom and towards the poles', () => {
+    expect(getKmPerPixel(0, 0)).toBeCloseTo(40075.016686 / 256, 6)
+    expect(getKmPerPixel(0, 1)).toBeCloseTo(getKmPerPixel(0, 0) / 2, 9)
+    expect(getKmPerPixel(60, 0)).toBeCloseTo(getKmPerPixel(0, 0) / 2, 9)
+  })
+})
+
+describe('clampZoom', () => {
+  it('rounds into the zoom range', () => {
+    expect(clampZoom(0)).toBe(MIN_ZOOM)
+    expect(clampZoom(30)).toBe(MAX_ZOOM)
+    expect(clampZoom(4.6)).toBe(5)
+  })
+})
+
+describe('fitBounds', () => {
+  it('centers on the points at the largest zoom that shows them', () => {
+    const { center, zoom } = fitBounds([BARCELONA, BERLIN], 800, 480)
+    expect(center.longitude).toBeCloseTo((BARCELONA.longitude + BERLIN.longitude) / 2, 6)
+    const a = project(BARCELONA, zoom)
+    const b = project(BERLIN, zoom)
+    expect(Math.abs(a.x - b.x)).toBeLessThanOrEqual(720)
+    expect(Math.abs(a.y - b.y)).toBeLessThanOrEqual(400)
+    const closer = { a: project(BARCELONA, zoom + 1), b: project(BERLIN, zoom + 1) }
+    expect(Math.abs(closer.a.x - closer.b.x) > 720 || Math.abs(closer.a.y - closer.b.y) > 400).toBe(true)
+  })
+
+  it('zooms in all the way on a single point', () => {
+    expect(fitBounds([BARCELONA], 800, 480)).toEqual({ center: expect.any(Object), zoom: MAX_ZOOM })
+  })
+
+  it('shows the whole world without points', () => {
+    expect(fitBounds([], 800, 480).zoom).toBe(MIN_ZOOM)
+  })
+})
+
+describe('clusterLocations', () => {
+  const { located } = splitByLocation([
+    photo('a', 41.3784, 2.1925),
+    photo('b', 41.3790, 2.1930),
+    photo('c', 52.52, 13.405),
+  ])
+
+  it('merges nearby results when zoomed out', () => {
+    const clusters = clusterLocations(located, 4)
+    expect(clusters.map(cluster => cluster.items.map(item => item.id))).toEqual([['a', 'b'], ['c']])
+    expect(clusters[0].id).toBe('a')
+    const a = project(located[0].location, 4)
+    const b = project(located[1].location, 4)
+    expect(clusters[0].point.x).toBeCloseTo((a.x + b.x) / 2, 6)
+  })
+
+  it('separates them when zoomed in', () => {
+    expect(clusterLocations(located, 18)).toHaveLength(3)
+  })
+})
+
+describe('getTileUrl', () => {
+  it('fills in the placeholders', () => {
+    expect(getTileUrl('https://{s}.tiles.example.com/{z}/{x}/{y}.png', 3, 5, 4)).toBe('https://c.tiles.example.com/4/3/5.png')
+    expect(getTileUrl('/tiles/{z}/{x}/{y}.png', 0, 0, 1)).toBe('/tiles/1/0/0.png')
+  })
+})
+
+describe('getVisibleTiles', () => {
+  it('covers the view', () => {
+    const tiles = getVisibleTiles('/t/{z}/{x}/{y}', { latitude: 0, longitude: 0 }, 1, 512, 512)
+    expect(tiles.map(tile => tile.url).sort()).toEqual(['/t/1/0/0', '/t/1/0/1', '/t/1/1/0', '/t/1/1/1'])
+    expect(tiles.find(tile => tile.url === '/t/1/1/1')).toMatchObject({ left: 256, top: 256 })
+  })
+
+  it('wraps columns around the date line and skips rows outside the world', () => {
+    const tiles = getVisibleTiles('/t/{z}/{x}/{y}', { latitude: 0, longitude: 180 }, 1, 512, 1024)
+    expect(tiles.every(tile => /^\/t\/1\/[01]\/[01]$/.test(tile.url))).toBe(true)
+    expect(tiles).toHaveLength(4)
+    expect(new Set(tiles.map(tile => tile.key)).size).toBe(4)
+  })
+})
+
+describe('getGridLines', () => {
+  it('draws lines about the requested spacing apart', () => {
+    const { meridians, parallels } = getGridLines({ latitude: 0, longitude: 0 }, 3, 1024, 512, 100)
+    expect(meridians.map(line => line.value)).toContain(0)
+    expect(parallels.map(line => line.value)).toContain(0)
+    const spacing = meridians[1].offset - meridians[0].offset
+    expect(spacing).toBeGreaterThanOrEqual(100)
+    expect(meridians.find(line => line.value === 0)!.offset).toBeCloseTo(512, 6)
+  })
+})
+
+describe('formatCoordinates', () => {
+  it('uses compass directions', () => {
+    expect(formatCoordinates(BARCELONA)).toBe('41.3784° N, 2.1925° E')
+    expect(formatCoordinates({ latitude: -33.8688, longitude: -70.6693 })).toBe('33.8688° S, 70.6693° W')
+  })
+})
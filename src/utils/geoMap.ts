@@ -0,0 +1,288 @@
+/**
+ * Placing results on a map (map view).
+ *
+ * Web Mercator ("slippy map") math: a point is projected to world pixels at
+ * a zoom level, where the world is `TILE_SIZE * 2^zoom` pixels wide. Tiles
+ * come from a configured URL template (`https://tiles.example.com/{z}/{x}/{y}.png`);
+ * without one, or while tiles can't be loaded (offline), the map only draws
+ * a latitude/longitude grid under the markers.
+ */
+
+import type { SearchResource } from '../types'
+
+export const TILE_SIZE = 256
+export const MIN_ZOOM = 1
+export const MAX_ZOOM = 18
+/** Markers closer than this (in screen pixels) are merged into a cluster */
+export const CLUSTER_RADIUS = 48
+
+/** Length of the equator */
+const EQUATOR_KM = 40075.016686
+/** Web Mercator can't show the poles; latitudes are clamped to this */
+const MAX_LATITUDE = 85.05112878
+const TILE_SUBDOMAINS = ['a', 'b', 'c']
+/** Grid line spacings in degrees, from fine to coarse */
+const GRID_STEPS = [0.001, 0.002, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30]
+
+export interface GeoPoint {
+  latitude: number
+  longitude: number
+}
+
+/** Position in world pixels at some zoom level */
+export interface MapPoint {
+  x: number
+  y: number
+}
+
+export interface LocatedResource {
+  item: SearchResource
+  location: GeoPoint
+}
+
+export interface MapCluster {
+  /** Stable while the cluster has the same first item */
+  id: string
+  items: SearchResource[]
+  /** Mean position of the items in world pixels */
+  point: MapPoint
+}
+
+export interface MapTile {
+  key: string
+  url: string
+  /** Offset from the top left corner of the view, in pixels */
+  left: number
+  top: number
+}
+
+export interface MapGridLine {
+  /** Latitude or longitude of the line */
+  value: number
+  /** Offset from the top (parallels) or left (meridians) of the view, in pixels */
+  offset: number
+}
+
+/** Map settings from the app config */
+export interface MapTileConfig {
+  /** Tile URL template, null for the grid only */
+  tileUrl: string | null
+  attribution: string
+}
+
+/**
+ * Map settings from the app config (`mapTileUrl`, `mapTileAttribution`).
+ * A tile URL needs the `{z}`, `{x}` and `{y}` placeholders, otherwise it is
+ * ignored.
+ */
+export function getMapTileConfig(config: unknown): MapTileConfig {
+  const values = (config && typeof config === 'object' ? config : {}) as Record<string, unknown>
+  const tileUrl = typeof values.mapTileUrl === 'string' ? values.mapTileUrl.trim() : ''
+  const valid = ['{z}', '{x}', '{y}'].every(placeholder => tileUrl.includes(placeholder))
+  return {
+    tileUrl: valid ? tileUrl : null,
+    attribution: typeof values.mapTileAttribution === 'string' ? values.mapTileAttribution : '',
+  }
+}
+
+/**
+ * Coordinates of a result, if it has valid ones
+ */
+export function getLocation(item: SearchResource): GeoPoint | null {
+  const latitude = item.location?.latitude
+  const longitude = item.location?.longitude
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') return null
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null
+  return { latitude, longitude }
+}
+
+/**
+ * Split results into those with coordinates and those without, keeping the order
+ */
+export function splitByLocation(items: SearchResource[]): { located: LocatedResource[]; unlocated: SearchResource[] } {
+  const located: LocatedResource[] = []
+  const unlocated: SearchResource[] = []
+  for (const item of items) {
+    const location = getLocation(item)
+    if (location) {
+      located.push({ item, location })
+    } else {
+      unlocated.push(item)
+    }
+  }
+  return { located, unlocated }
+}
+
+const worldSize = (zoom: number) => TILE_SIZE * Math.pow(2, zoom)
+
+export function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round(zoom)))
+}
+
+/**
+ * World pixel position of a point
+ */
+export function project(point: GeoPoint, zoom: number): MapPoint {
+  const size = worldSize(zoom)
+  const latitude = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, point.latitude))
+  const sin = Math.sin((latitude * Math.PI) / 180)
+  return {
+    x: ((point.longitude + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  }
+}
+
+/**
+ * Point at a world pixel position
+ */
+export function unproject(point: MapPoint, zoom: number): GeoPoint {
+  const size = worldSize(zoom)
+  const n = Math.PI - (2 * Math.PI * point.y) / size
+  return {
+    latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    longitude: (point.x / size) * 360 - 180,
+  }
+}
+
+/**
+ * Ground distance covered by one pixel at a latitude (for drawing a radius)
+ */
+export function getKmPerPixel(latitude: number, zoom: number): number {
+  return (EQUATOR_KM * Math.cos((latitude * Math.PI) / 180)) / worldSize(zoom)
+}
+
+/**
+ * Center and the largest zoom that shows all points in a view of
+ * `width` × `height` pixels (minus `padding` on each side)
+ */
+export function fitBounds(points: GeoPoint[], width: number, height: number, padding = 40): { center: GeoPoint; zoom: number } {
+  if (points.length === 0) return { center: { latitude: 20, longitude: 0 }, zoom: MIN_ZOOM }
+
+  const projected = points.map(point => project(point, 0))
+  const minX = Math.min(...projected.map(p => p.x))
+  const maxX = Math.max(...projected.map(p => p.x))
+  const minY = Math.min(...projected.map(p => p.y))
+  const maxY = Math.max(...projected.map(p => p.y))
+  const center = unproject({ x: (minX + maxX) / 2, y: (minY + maxY) / 2 }, 0)
+
+  const availableWidth = Math.max(1, width - 2 * padding)
+  const availableHeight = Math.max(1, height - 2 * padding)
+  let zoom = MAX_ZOOM
+  // Zoom 0 sizes are doubled once per zoom level
+  while (zoom > MIN_ZOOM && ((maxX - minX) * Math.pow(2, zoom) > availableWidth || (maxY - minY) * Math.pow(2, zoom) > availableHeight)) {
+    zoom--
+  }
+  return { center, zoom }
+}
+
+/**
+ * Merge markers that are within `radius` screen pixels of each other at a
+ * zoom level. Points are bucketed into cells of `radius` pixels; a cluster
+ * is one cell, placed at the mean position of its items.
+ */
+export function clusterLocations(located: LocatedResource[], zoom: number, radius = CLUSTER_RADIUS): MapCluster[] {
+  const cells = new Map<string, { items: SearchResource[]; x: number; y: number }>()
+  for (const { item, location } of located) {
+    const { x, y } = project(location, zoom)
+    const key = `${Math.floor(x / radius)}:${Math.floor(y / radius)}`
+    const cell = cells.get(key)
+    if (cell) {
+      cell.items.push(item)
+      cell.x += x
+      cell.y += y
+    } else {
+      cells.set(key, { items: [item], x, y })
+    }
+  }
+  return [...cells.values()].map(cell => ({
+    id: cell.items[0].id,
+    items: cell.items,
+    point: { x: cell.x / cell.items.length, y: cell.y / cell.items.length },
+  }))
+}
+
+/**
+ * Tile URL from a template: `{z}`, `{x}`, `{y}` and `{s}` (subdomain a–c)
+ */
+export function getTileUrl(template: string, x: number, y: number, zoom: number): string {
+  return template
+    .replace('{s}', TILE_SUBDOMAINS[Math.abs(x + y) % TILE_SUBDOMAINS.length])
+    .replace('{z}', String(zoom))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y))
+}
+
+/**
+ * Top left corner of a view centered on `center`, in world pixels
+ */
+export function getViewOrigin(center: GeoPoint, zoom: number, width: number, height: number): MapPoint {
+  const { x, y } = project(center, zoom)
+  return { x: x - width / 2, y: y - height / 2 }
+}
+
+/**
+ * Tiles covering a view. Columns wrap around the date line; rows above and
+ * below the world are left out.
+ */
+export function getVisibleTiles(template: string, center: GeoPoint, zoom: number, width: number, height: number): MapTile[] {
+  const origin = getViewOrigin(center, zoom, width, height)
+  const count = Math.pow(2, zoom)
+  const tiles: MapTile[] = []
+  const firstColumn = Math.floor(origin.x / TILE_SIZE)
+  const lastColumn = Math.ceil((origin.x + width) / TILE_SIZE) - 1
+  const firstRow = Math.max(0, Math.floor(origin.y / TILE_SIZE))
+  const lastRow = Math.min(count - 1, Math.ceil((origin.y + height) / TILE_SIZE) - 1)
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let column = firstColumn; column <= lastColumn; column++) {
+      const x = ((column % count) + count) % count
+      tiles.push({
+        key: `${zoom}/${column}/${row}`,
+        url: getTileUrl(template, x, row, zoom),
+        left: column * TILE_SIZE - origin.x,
+        top: row * TILE_SIZE - origin.y,
+      })
+    }
+  }
+  return tiles
+}
+
+/**
+ * Latitude/longitude lines of the fallback grid, about `spacing` pixels apart
+ */
+export function getGridLines(
+  center: GeoPoint,
+  zoom: number,
+  width: number,
+  height: number,
+  spacing = 100
+): { parallels: MapGridLine[]; meridians: MapGridLine[] } {
+  const origin = getViewOrigin(center, zoom, width, height)
+  const degreesPerPixel = 360 / worldSize(zoom)
+  const step = GRID_STEPS.find(candidate => candidate / degreesPerPixel >= spacing) ?? GRID_STEPS[GRID_STEPS.length - 1]
+  const round = (value: number) => Math.round(value / step) * step
+
+  const topLeft = unproject(origin, zoom)
+  const bottomRight = unproject({ x: origin.x + width, y: origin.y + height }, zoom)
+
+  const meridians: MapGridLine[] = []
+  for (let longitude = Math.ceil(topLeft.longitude / step) * step; longitude <= bottomRight.longitude; longitude += step) {
+    meridians.push({ value: round(longitude), offset: project({ latitude: 0, longitude }, zoom).x - origin.x })
+  }
+  const parallels: MapGridLine[] = []
+  const top = Math.min(MAX_LATITUDE, topLeft.latitude)
+  const bottom = Math.max(-MAX_LATITUDE, bottomRight.latitude)
+  for (let latitude = Math.ceil(bottom / step) * step; latitude <= top; latitude += step) {
+    parallels.push({ value: round(latitude), offset: project({ latitude, longitude: 0 }, zoom).y - origin.y })
+  }
+  return { parallels, meridians }
+}
+
+/**
+ * Coordinates for display, e.g. `41.3784° N, 2.1925° E`
+ */
+export function formatCoordinates(point: GeoPoint): string {
+  const latitude = `${Math.abs(point.latitude).toFixed(4)}° ${point.latitude < 0 ? 'S' : 'N'}`
+  const longitude = `${Math.abs(point.longitude).toFixed(4)}° ${point.longitude < 0 ? 'W' : 'E'}`
+  return `${latitude}, ${longitude}`
+}
@@ -7,8 +7,12 @@ import {
   buildStandardKQL,
   buildPhotoKQL,
   buildKQL,
+  buildRefineKQL,
+  appendKqlClause,
+  kqlToFilters,
 } from './kql'
 import { formatDateForKQL } from './format'
+import { createEmptyFilters } from '../types'
 
 describe('escapeKQL', () => {
   it('escapes special characters', () => {
@@ -338,3 +342,325 @@ describe('buildKQL', () => {
     )
   })
 })
+
+describe('buildKQL with raw clauses', () => {
+  it('appends raw KQL after the filters', () => {
+    const filters = {
+      term: '',
+      scope: 'allFiles' as const,
+      standard: { type: 'file' as const },
+      photo: {},
+      raw: 'owner:alice OR owner:bob',
+    }
+    expect(buildKQL(filters)).toBe('Type:1 AND (owner:alice OR owner:bob)')
+  })
+
+  it('groups an OR written in the search term', () => {
+    const filters = {
+      term: 'tags:a OR tags:b',
+      scope: 'allFiles' as const,
+      standard: { type: 'file' as const },
+      photo: {},
+    }
+    expect(buildKQL(filters)).toBe('(tags:a OR tags:b) AND Type:1')
+  })
+
+  it('passes unparseable raw KQL through verbatim', () => {
+    const filters = {
+      term: '',
+      scope: 'allFiles' as const,
+      standard: {},
+      photo: {},
+      raw: 'name:(',
+    }
+    expect(buildKQL(filters)).toBe('name:(')
+  })
+})
+
+describe('buildKQL with OR and NOT', () => {
+  it('ORs comma-separated alternatives', () => {
+    const filters = {
+      ...createEmptyFilters(),
+      standard: { name: 'report,*.pdf', mediaType: 'application/pdf, image/*' },
+      photo: { cameraMake: 'Canon,Nikon' },
+    }
+    expect(buildKQL(filters)).toBe(
+      '(name:*report* OR name:*.pdf) AND (mediatype:application\\/pdf OR mediatype:image\\/*) AND (photo.cameramake:Canon OR photo.cameramake:Nikon)'
+    )
+  })
+
+  it('negates filters listed in negated, after the positive ones', () => {
+    const filters = {
+      ...createEmptyFilters(),
+      standard: { tags: 'draft', type: 'file' as const, sizeRange: { min: 10, max: 20 } },
+      negated: ['tags', 'size'],
+    }
+    expect(buildKQL(filters)).toBe('Type:1 AND NOT (size>=10 AND size<=20) AND NOT tags:draft')
+  })
+
+  it('ORs positive filters in match any mode, keeping term and negations ANDed', () => {
+    const filters = {
+      ...createEmptyFilters(),
+      term: 'report',
+      standard: { type: 'folder' as const, content: 'budget', name: 'old' },
+      negated: ['name'],
+      match: 'any' as const,
+    }
+    expect(buildKQL(filters)).toBe('name:*report* AND (Type:2 OR content:budget) AND NOT name:*old*')
+  })
+
+  it('restricts to folders by path', () => {
+    const filters = { ...createEmptyFilters(), standard: { path: '/Projects/Q1 Plan/' } }
+    expect(buildKQL(filters)).toBe('path:*\\/Projects\\/Q1\\ Plan\\/*')
+    expect(kqlToFilters(buildKQL(filters)).standard.path).toBe('/Projects/Q1 Plan')
+  })
+})
+
+describe('buildKQL with a location', () => {
+  const box = { type: 'box' as const, north: 42.9, south: 40.5, east: 3.3, west: 0.1 }
+
+  it('restricts latitude and longitude to the box', () => {
+    const filters = { ...createEmptyFilters(), photo: { location: box } }
+    expect(buildKQL(filters)).toBe(
+      '((photo.location.latitude>=40.5 AND photo.location.latitude<=42.9) AND (photo.location.longitude>=0.1 AND photo.location.longitude<=3.3))'
+    )
+  })
+
+  it('sends a radius as the box around it', () => {
+    const filters = { ...createEmptyFilters(), photo: { location: { type: 'radius' as const, latitude: 0, longitude: 0, radiusKm: 111.19508 } } }
+    expect(buildKQL(filters)).toBe(
+      '((photo.location.latitude>=-1 AND photo.location.latitude<=1) AND (photo.location.longitude>=-1 AND photo.location.longitude<=1))'
+    )
+  })
+
+  it('matches either side of the antimeridian and leaves out a full longitude range', () => {
+    const pacific = { ...createEmptyFilters(), photo: { location: { type: 'box' as const, north: 10, south: -10, east: -170, west: 170 } } }
+    expect(buildKQL(pacific)).toContain('(photo.location.longitude>=170 OR photo.location.longitude<=-170)')
+    const band = { ...createEmptyFilters(), photo: { location: { type: 'box' as const, north: 10, south: -10, east: 180, west: -180 } } }
+    expect(buildKQL(band)).toBe('(photo.location.latitude>=-10 AND photo.location.latitude<=10)')
+  })
+
+  it('keeps the location ANDed in match any mode', () => {
+    const filters = {
+      ...createEmptyFilters(),
+      standard: { type: 'file' as const, tags: 'trip' },
+      photo: { location: box },
+      match: 'any' as const,
+    }
+    expect(buildKQL(filters)).toMatch(/^\(Type:1 OR tags:trip\) AND \(\(photo\.location\.latitude/)
+  })
+
+  it('maps latitude/longitude ranges back onto a box, also negated', () => {
+    const filters = { ...createEmptyFilters(), photo: { location: box } }
+    expect(kqlToFilters(buildKQL(filters)).photo.location).toEqual(box)
+    const negated = kqlToFilters(`NOT ${buildKQL(filters)}`)
+    expect(negated.photo.location).toEqual(box)
+    expect(negated.negated).toEqual(['location'])
+    expect(negated.raw).toBeUndefined()
+  })
+
+  it('fills in unbounded sides', () => {
+    expect(kqlToFilters('photo.location.latitude>=45').photo.location)
+      .toEqual({ type: 'box', north: 90, south: 45, east: 180, west: -180 })
+  })
+})
+
+describe('kqlToFilters', () => {
+  it('returns empty filters for empty and match-all queries', () => {
+    expect(kqlToFilters('').standard).toEqual({})
+    expect(kqlToFilters('*').term).toBe('')
+  })
+
+  it('maps field restrictions onto filters', () => {
+    const filters = kqlToFilters('name:*report* AND Type:1 AND mediatype:image\\/* AND photo.cameramake:Canon')
+    expect(filters.standard).toEqual({ name: 'report', type: 'file', mediaType: 'image/*' })
+    expect(filters.photo).toEqual({ cameraMake: 'Canon' })
+    expect(filters.raw).toBeUndefined()
+  })
+
+  it('collects comparison pairs into ranges', () => {
+    const filters = kqlToFilters('(size>=1000 AND size<=10000) AND photo.fnumber<=2.8')
+    expect(filters.standard.sizeRange).toEqual({ min: 1000, max: 10000 })
+    expect(filters.photo.fNumberRange).toEqual({ min: undefined, max: 2.8 })
+  })
+
+  it('accepts from..to range syntax', () => {
+    expect(kqlToFilters('photo.iso:100..800').photo.isoRange).toEqual({ min: 100, max: 800 })
+  })
+
+  it('maps ORed tags onto the tags filter', () => {
+    expect(kqlToFilters('(tags:vacation OR tags:photos)').standard.tags).toBe('vacation,photos')
+  })
+
+  it('maps free text onto the search term', () => {
+    expect(kqlToFilters('sunset "golden hour"').term).toBe('sunset golden hour')
+  })
+
+  it('keeps escaped colons in free text', () => {
+    for (const query of ['a\\:b', 'a\\:b "golden hour"']) {
+      const filters = kqlToFilters(query)
+      expect(filters.term).toBe(query)
+      expect(filters.raw).toBeUndefined()
+      expect(buildKQL(filters)).toBe(query)
+    }
+  })
+
+  it('maps ORed values and NOT clauses onto filters', () => {
+    const filters = kqlToFilters('name:*invoice* AND (mediatype:pdf OR mediatype:spreadsheet) AND NOT tags:draft AND owner:alice')
+    expect(filters.standard).toEqual({ name: 'invoice', mediaType: 'pdf,spreadsheet', tags: 'draft' })
+    expect(filters.negated).toEqual(['tags'])
+    expect(filters.raw).toBe('owner:alice')
+  })
+
+  it('maps negated ranges and folders', () => {
+    const filters = kqlToFilters('NOT (size>=1000 AND size<=2000) AND NOT path:*\\/Archive\\/*')
+    expect(filters.standard.sizeRange).toEqual({ min: 1000, max: 2000 })
+    expect(filters.standard.path).toBe('/Archive')
+    expect(filters.negated).toEqual(['size', 'path'])
+  })
+
+  it('keeps NOT clauses that span several filters as raw KQL', () => {
+    const filters = kqlToFilters('NOT (name:a AND Type:1)')
+    expect(filters.standard).toEqual({})
+    expect(filters.raw).toBe('NOT (name:a AND Type:1)')
+  })
+
+  it('keeps a filter that is both required and excluded as raw KQL', () => {
+    const filters = kqlToFilters('tags:a AND NOT tags:b')
+    expect(filters.standard.tags).toBe('a')
+    expect(filters.negated).toBeUndefined()
+    expect(filters.raw).toBe('NOT tags:b')
+  })
+
+  it('maps a top-level OR across fields onto match any', () => {
+    const filters = kqlToFilters('name:*report* OR Type:2 OR size>=1000')
+    expect(filters.match).toBe('any')
+    expect(filters.standard).toEqual({ name: 'report', type: 'folder', sizeRange: { min: 1000, max: undefined } })
+    expect(filters.raw).toBeUndefined()
+  })
+
+  it('keeps an OR across fields as raw KQL when other filters are required', () => {
+    const filters = kqlToFilters('Type:1 AND (name:a OR content:b)')
+    expect(filters.match).toBeUndefined()
+    expect(filters.standard).toEqual({ type: 'file' })
+    expect(filters.raw).toBe('name:a OR content:b')
+  })
+
+  it('only maps *x* name patterns onto the name filter', () => {
+    expect(kqlToFilters('name:*annual report*').standard.name).toBeUndefined()
+    expect(kqlToFilters('name:"*annual report*"').standard.name).toBe('annual report')
+    for (const query of ['name:a', 'name:*.pdf', 'name:report*', 'name:*a*b*', 'name:**', 'name:file\\:name']) {
+      const filters = kqlToFilters(query)
+      expect(filters.standard.name).toBeUndefined()
+      expect(buildKQL(filters)).toBe(query)
+    }
+  })
+
+  it('keeps comma values as raw KQL since commas separate alternatives', () => {
+    expect(kqlToFilters('tags:"a,b"').raw).toBe('tags:"a,b"')
+  })
+
+  it('keeps a second restriction on the same field as raw KQL', () => {
+    const filters = kqlToFilters('content:budget AND content:2024')
+    expect(filters.standard.content).toBe('budget')
+    expect(filters.raw).toBe('content:2024')
+  })
+
+  it('maps a top-level OR on one field onto alternatives', () => {
+    const filters = kqlToFilters('name:*report* OR name:*invoice*')
+    expect(filters.standard).toEqual({ name: 'report,invoice' })
+    expect(filters.raw).toBeUndefined()
+  })
+
+  it('round-trips filter-built queries', () => {
+    const queries = [
+      'name:*report* AND Type:2',
+      '(mtime>=2024-01-01 AND mtime<=2024-12-31) AND (tags:a OR tags:b)',
+      'photo.cameramodel:"EOS R5" AND (photo.iso>=100 AND photo.iso<=800)',
+      'Type:1 AND (mediatype:pdf OR mediatype:spreadsheet) AND NOT name:*draft*',
+      '(name:*report* OR Type:2) AND NOT tags:old',
+      'path:*\\/Projects\\/X\\/* AND NOT photo.cameramake:Canon',
+    ]
+    for (const query of queries) {
+      expect(buildKQL(kqlToFilters(query))).toBe(query)
+    }
+  })
+
+  it('rebuilds queries with clauses the filters cannot hold unchanged', () => {
+    const queries = [
+      'content:"annual report" OR name:x',
+      'name:x OR content:"annual report"',
+      'Type:1 AND name:report',
+      'tags:a AND mtime>=2024-01-15T10:00:00Z',
+      'report a\\:b',
+      'size>=1kb OR mtime>=today',
+    ]
+    for (const query of queries) {
+      expect(buildKQL(kqlToFilters(query))).toBe(query)
+    }
+  })
+
+  it('rebuilds a match-any OR in filter order without widening values', () => {
+    const filters = kqlToFilters('content:"annual report" OR name:*x*')
+    expect(filters.match).toBe('any')
+    expect(filters.standard).toEqual({ content: 'annual report', name: 'x' })
+    expect(buildKQL(filters)).toBe('(name:*x* OR content:"annual report")')
+  })
+
+  it('keeps range bounds the filters cannot hold as raw KQL', () => {
+    const queries = [
+      'mtime>=today',
+      'mtime>=2024-02-30',
+      'mtime>=2024-01-15T10:00:00Z',
+      'size>=1kb',
+      'size>=abc',
+      'size>1000',
+      'size:1..2mb',
+      'photo.iso<=1e3',
+      'photo.fnumber>=2.80',
+      'photo.orientation:6abc',
+    ]
+    for (const query of queries) {
+      const filters = kqlToFilters(query)
+      expect(filters.raw).toBe(query)
+      expect(buildKQL(filters)).toBe(query)
+    }
+  })
+
+  it('maps the valid bound of a pair and keeps the other raw', () => {
+    const filters = kqlToFilters('mtime>=2024-01-01 AND mtime<=yesterday')
+    expect(filters.standard.modifiedRange).toEqual({ start: '2024-01-01', end: '' })
+    expect(filters.raw).toBe('mtime<=yesterday')
+    expect(buildKQL(filters)).toBe('mtime>=2024-01-01 AND mtime<=yesterday')
+  })
+
+  it('throws on syntax errors', () => {
+    expect(() => kqlToFilters('a AND')).toThrow('Expected an expression after AND')
+  })
+})
+
+describe('buildRefineKQL', () => {
+  it('looks each term up in every refine field', () => {
+    expect(buildRefineKQL(['beach'])).toBe(
+      '(name:*beach* OR path:*beach* OR tags:*beach* OR photo.cameramake:*beach* OR photo.cameramodel:*beach*)'
+    )
+  })
+
+  it('requires all terms and quotes phrases', () => {
+    const kql = buildRefineKQL(['canon', 'eos r5'])!
+    expect(kql).toMatch(/^\(name:\*canon\* OR .*\) AND \(name:"\*eos r5\*" OR .*\)$/)
+    expect(buildRefineKQL([])).toBeNull()
+  })
+})
+
+describe('appendKqlClause', () => {
+  it('ANDs a clause to raw KQL', () => {
+    expect(appendKqlClause(undefined, 'name:*a*')).toBe('name:*a*')
+    expect(appendKqlClause('  ', 'name:*a*')).toBe('name:*a*')
+    expect(appendKqlClause('tags:x', 'name:*a*')).toBe('tags:x AND name:*a*')
+  })
+
+  it('keeps an OR together', () => {
+    expect(appendKqlClause('tags:x OR tags:y', 'name:*a*')).toBe('(tags:x OR tags:y) AND name:*a*')
+  })
+})
@@ -3,14 +3,39 @@
  *
  * KQL is the query language used by oCIS's Bleve-based search engine.
  * This module handles:
- * - Building KQL query strings from filter objects
+ * - Building KQL query strings from filter objects (via the AST in kqlParser.ts)
+ * - Parsing KQL back into filter objects
  * - Escaping special characters in search values
  * - Formatting range queries (size, dates, etc.)
  * - XML escaping for WebDAV REPORT requests
  */
 
-import type { SearchFilters, DateRange, NumericRange } from '../types'
+import type {
+  SearchFilters,
+  DateRange,
+  NumericRange,
+  LocationFilter,
+  KqlNode,
+  KqlTermNode,
+  KqlPhraseNode,
+  KqlRestrictionNode,
+  KqlBooleanNode,
+} from '../types'
+import { createEmptyFilters } from '../types'
 import { formatDateForKQL } from './format'
+import { LOCATION_KQL_FIELDS, getLocationBounds } from './locationFilter'
+import {
+  parseKql,
+  serializeKql,
+  unwrapGroups,
+  kqlTerm,
+  kqlPhrase,
+  kqlRestriction,
+  kqlBoolean,
+  kqlGroup,
+  kqlNot,
+  KqlSyntaxError,
+} from './kqlParser'
 
 /**
  * Regex patterns for escaping KQL special characters.
@@ -53,27 +78,51 @@ export function escapeKQL(value: string): string {
 }
 
 /**
- * Build a range query for KQL using comparison operators
- * oCIS KQL doesn't support [x TO y] syntax, use >= and <= instead
+ * Build a range expression node using comparison operators.
+ * oCIS KQL doesn't support [x TO y] syntax, use >= and <= instead.
+ * Both bounds are grouped so the pair stays together inside larger queries.
  */
-export function buildRangeQuery(field: string, range: NumericRange): string | null {
-  if (range.min === undefined && range.max === undefined) {
-    return null
-  }
-
-  const parts: string[] = []
+export function buildRangeNode(field: string, range: NumericRange): KqlNode | null {
+  const parts: KqlNode[] = []
   if (range.min !== undefined) {
-    parts.push(`${field}>=${range.min}`)
+    parts.push(kqlRestriction(field, '>=', kqlTerm(String(range.min))))
   }
   if (range.max !== undefined) {
-    parts.push(`${field}<=${range.max}`)
+    parts.push(kqlRestriction(field, '<=', kqlTerm(String(range.max))))
   }
+  return combineRangeParts(parts)
+}
 
-  // If both min and max, wrap in parentheses
-  if (parts.length === 2) {
-    return `(${parts.join(' AND ')})`
+/**
+ * Build a date range expression node using comparison operators.
+ * Invalid dates are dropped (see formatDateForKQL).
+ */
+export function buildDateRangeNode(field: string, range: DateRange): KqlNode | null {
+  const parts: KqlNode[] = []
+  const formattedStart = range.start ? formatDateForKQL(range.start) : null
+  if (formattedStart) {
+    parts.push(kqlRestriction(field, '>=', kqlTerm(formattedStart)))
+  }
+  const formattedEnd = range.end ? formatDateForKQL(range.end) : null
+  if (formattedEnd) {
+    parts.push(kqlRestriction(field, '<=', kqlTerm(formattedEnd)))
   }
-  return parts[0]
+  return combineRangeParts(parts)
+}
+
+function combineRangeParts(parts: KqlNode[]): KqlNode | null {
+  if (parts.length === 0) return null
+  // If both min and max, wrap in parentheses
+  return parts.length === 2 ? kqlGroup(kqlBoolean('and', parts)) : parts[0]
+}
+
+/**
+ * Build a range query for KQL using comparison operators
+ * oCIS KQL doesn't support [x TO y] syntax, use >= and <= instead
+ */
+export function buildRangeQuery(field: string, range: NumericRange): string | null {
+  const node = buildRangeNode(field, range)
+  return node ? serializeKql(node) : null
 }
 
 /**
@@ -81,29 +130,41 @@ export function buildRangeQuery(field: string, range: NumericRange): string | nu
  * oCIS KQL doesn't support [x TO y] syntax, use >= and <= instead
  */
 export function buildDateRangeQuery(field: string, range: DateRange): string | null {
-  if (!range.start && !range.end) {
-    return null
-  }
+  const node = buildDateRangeNode(field, range)
+  return node ? serializeKql(node) : null
+}
 
-  const parts: string[] = []
-  if (range.start) {
-    const formattedStart = formatDateForKQL(range.start)
-    if (formattedStart) {
-      parts.push(`${field}>=${formattedStart}`)
-    }
-  }
-  if (range.end) {
-    const formattedEnd = formatDateForKQL(range.end)
-    if (formattedEnd) {
-      parts.push(`${field}<=${formattedEnd}`)
-    }
-  }
+/** Coordinates in KQL: six decimals are about 10 cm */
+const formatDegrees = (value: number) => String(Number(value.toFixed(6)))
 
-  // If both min and max, wrap in parentheses
-  if (parts.length === 2) {
-    return `(${parts.join(' AND ')})`
+/**
+ * Build the latitude/longitude range node of a location filter (a radius
+ * becomes the box around its circle). A box crossing the antimeridian
+ * matches either side of it; a box spanning all longitudes only restricts
+ * the latitude.
+ */
+export function buildLocationNode(filter: LocationFilter): KqlNode {
+  const { north, south, east, west } = getLocationBounds(filter)
+  const latitude = LOCATION_KQL_FIELDS.latitude
+  const longitude = LOCATION_KQL_FIELDS.longitude
+  const parts: KqlNode[] = [
+    kqlGroup(kqlBoolean('and', [
+      kqlRestriction(latitude, '>=', kqlTerm(formatDegrees(south))),
+      kqlRestriction(latitude, '<=', kqlTerm(formatDegrees(north))),
+    ])),
+  ]
+  if (west > east) {
+    parts.push(kqlGroup(kqlBoolean('or', [
+      kqlRestriction(longitude, '>=', kqlTerm(formatDegrees(west))),
+      kqlRestriction(longitude, '<=', kqlTerm(formatDegrees(east))),
+    ])))
+  } else if (west > -180 || east < 180) {
+    parts.push(kqlGroup(kqlBoolean('and', [
+      kqlRestriction(longitude, '>=', kqlTerm(formatDegrees(west))),
+      kqlRestriction(longitude, '<=', kqlTerm(formatDegrees(east))),
+    ])))
   }
-  return parts.length > 0 ? parts[0] : null
+  return parts.length === 1 ? parts[0] : kqlGroup(kqlBoolean('and', parts))
 }
 
 /**
@@ -132,31 +193,222 @@ export function escapeXML(str: string): string {
  * - Multi-word phrase: "*phrase here*" (quotes wrap phrase, wildcards outside)
  *
  * @example
- * wrapForSearch("report")        // "*report*"
- * wrapForSearch("annual report") // ""*annual report*""
- * wrapForSearch("*.pdf", false)  // "*.pdf" (no extra wildcards)
+ * wrapForSearch("report")        // term  *report*
+ * wrapForSearch("annual report") // phrase "*annual report*"
+ * wrapForSearch("*.pdf", false)  // term  *.pdf (no extra wildcards)
  *
  * @param value - The search value
  * @param addWildcards - Whether to add * wildcards for partial matching (default: true)
- * @returns KQL-safe search term with proper quoting and wildcards
+ * @returns Term or phrase node with proper quoting and wildcards
  */
-function wrapForSearch(value: string, addWildcards: boolean = true): string {
+function wrapForSearch(value: string, addWildcards: boolean = true): KqlTermNode | KqlPhraseNode {
   const trimmed = value.trim()
   const hasSpaces = /\s/.test(trimmed)
 
   if (hasSpaces) {
     // Multi-word phrase: must quote, wildcards go OUTSIDE quotes to work
-    if (addWildcards) {
-      return `"*${trimmed}*"`
-    }
-    return `"${trimmed}"`
+    return kqlPhrase(addWildcards ? `*${trimmed}*` : trimmed)
   }
 
   // Single word: escape special chars, optionally wrap with wildcards
-  if (addWildcards) {
-    return `*${escapeKQL(trimmed)}*`
+  return kqlTerm(addWildcards ? `*${escapeKQL(trimmed)}*` : escapeKQL(trimmed))
+}
+
+/**
+ * Parse user-supplied KQL (main search box or raw clauses) into a node.
+ * Text that doesn't parse is kept verbatim so the server can report on it.
+ */
+export function parseUserKql(text: string): KqlNode | null {
+  try {
+    return parseKql(text)
+  } catch (err) {
+    if (err instanceof KqlSyntaxError) {
+      return kqlTerm(text)
+    }
+    throw err
   }
-  return escapeKQL(trimmed)
+}
+
+/**
+ * Split a comma-separated filter value into its alternatives.
+ * Name, media type, tags, folder and camera filters accept several values
+ * separated by commas, which are combined with OR.
+ */
+export function splitAlternatives(value: string): string[] {
+  return value.split(',').map(v => v.trim()).filter(Boolean)
+}
+
+/**
+ * Build `field:value` for each alternative, ORed together and grouped if more than one
+ */
+function buildAlternatives(
+  field: string,
+  value: string | undefined,
+  wrap: (alternative: string) => KqlTermNode | KqlPhraseNode
+): KqlNode | null {
+  const nodes = splitAlternatives(value || '').map(v => kqlRestriction(field, ':', wrap(v)))
+  if (nodes.length === 0) return null
+  return nodes.length === 1 ? nodes[0] : kqlGroup(kqlBoolean('or', nodes))
+}
+
+/**
+ * Wildcard pattern matching everything below a folder (`/Projects/X` -> `*\/Projects\/X\/*`)
+ */
+function folderPattern(folder: string): KqlTermNode {
+  const trimmed = folder.replace(/\/+$/, '')
+  return kqlTerm(`*${escapeKQL(trimmed)}\\/*`)
+}
+
+/**
+ * Reverse of folderPattern, or null if the value isn't a folder pattern
+ */
+function parseFolderPattern(value: string): string | null {
+  const match = value.match(/^\*(\/[^*?]*?)\/\*$/)
+  return match ? match[1] : null
+}
+
+/**
+ * Name filter value of a `name:*x*` pattern (the builder adds the
+ * wildcards back), or null for exact names and other patterns
+ */
+function parseNamePattern(value: string): string | null {
+  const match = value.match(/^\*([^*]+)\*$/)
+  return match && match[1].trim() ? match[1] : null
+}
+
+/**
+ * Build the main search box term: plain text searches names, anything
+ * containing ":" is parsed as KQL to allow power users to write raw queries
+ */
+function buildTermNode(term: string | undefined): KqlNode | null {
+  if (!term || !term.trim()) return null
+  if (!term.includes(':')) {
+    return kqlRestriction('name', ':', wrapForSearch(term.trim(), true))
+  }
+  return parseUserKql(term.trim())
+}
+
+/**
+ * A filter-panel field and how it becomes a KQL node.
+ * `id` matches ActiveFilter.id, which is also what `filters.negated` lists.
+ */
+interface FilterNodeBuilder {
+  id: string
+  build: (filters: SearchFilters) => KqlNode | null
+}
+
+const STANDARD_NODE_BUILDERS: FilterNodeBuilder[] = [
+  {
+    id: 'name',
+    // Don't add extra wildcards to alternatives that already include them
+    build: ({ standard }) => buildAlternatives('name', standard.name, v => wrapForSearch(v, !v.includes('*'))),
+  },
+  {
+    id: 'type',
+    // oCIS uses numeric type values: 1 = file, 2 = folder (not strings)
+    build: ({ standard }) => {
+      if (standard.type === 'file') return kqlRestriction('Type', ':', kqlTerm('1'))
+      if (standard.type === 'folder') return kqlRestriction('Type', ':', kqlTerm('2'))
+      return null
+    },
+  },
+  {
+    id: 'size',
+    build: ({ standard }) => standard.sizeRange ? buildRangeNode('size', standard.sizeRange) : null,
+  },
+  {
+    id: 'mtime',
+    build: ({ standard }) => standard.modifiedRange ? buildDateRangeNode('mtime', standard.modifiedRange) : null,
+  },
+  {
+    id: 'mediaType',
+    build: ({ standard }) => buildAlternatives('mediatype', standard.mediaType, v => kqlTerm(escapeKQL(v))),
+  },
+  {
+    id: 'tags',
+    build: ({ standard }) => buildAlternatives('tags', standard.tags, v => wrapForSearch(v, false)),
+  },
+  {
+    id: 'content',
+    // Content search also needs phrase handling for multi-word searches
+    build: ({ standard }) => standard.content
+      ? kqlRestriction('content', ':', wrapForSearch(standard.content, false))
+      : null,
+  },
+  {
+    id: 'path',
+    build: ({ standard }) => buildAlternatives('path', standard.path, folderPattern),
+  },
+]
+
+const PHOTO_NODE_BUILDERS: FilterNodeBuilder[] = [
+  {
+    id: 'cameraMake',
+    // Camera makes can have spaces (e.g., "FUJIFILM CORPORATION")
+    build: ({ photo }) => buildAlternatives('photo.cameramake', photo.cameraMake, v => wrapForSearch(v, false)),
+  },
+  {
+    id: 'cameraModel',
+    // Camera models often have spaces (e.g., "EOS R5", "iPhone 14 Pro")
+    build: ({ photo }) => buildAlternatives('photo.cameramodel', photo.cameraModel, v => wrapForSearch(v, false)),
+  },
+  {
+    id: 'takenDate',
+    build: ({ photo }) => photo.takenDateRange ? buildDateRangeNode('photo.takendatetime', photo.takenDateRange) : null,
+  },
+  {
+    id: 'iso',
+    build: ({ photo }) => photo.isoRange ? buildRangeNode('photo.iso', photo.isoRange) : null,
+  },
+  {
+    id: 'fNumber',
+    build: ({ photo }) => photo.fNumberRange ? buildRangeNode('photo.fnumber', photo.fNumberRange) : null,
+  },
+  {
+    id: 'focalLength',
+    build: ({ photo }) => photo.focalLengthRange ? buildRangeNode('photo.focallength', photo.focalLengthRange) : null,
+  },
+  {
+    id: 'orientation',
+    build: ({ photo }) => photo.orientation !== undefined && photo.orientation > 0
+      ? kqlRestriction('photo.orientation', ':', kqlTerm(String(photo.orientation)))
+      : null,
+  },
+  {
+    id: 'location',
+    build: ({ photo }) => photo.location ? buildLocationNode(photo.location) : null,
+  },
+]
+
+/**
+ * Filters that stay ANDed with `match: 'any'`: where a photo was taken
+ * narrows the search like a scope (and is applied client-side on servers
+ * without a location index, which can't be part of an OR)
+ */
+const ALWAYS_ANDED = new Set(['location'])
+
+function buildNodes(builders: FilterNodeBuilder[], filters: SearchFilters): KqlNode[] {
+  return builders.map(b => b.build(filters)).filter((n): n is KqlNode => n !== null)
+}
+
+/**
+ * Build KQL AST nodes for standard (non-photo) filters.
+ *
+ * @param standard - Standard filter fields (name, type, size, dates, etc.)
+ * @param term - Free-text search term from the main search input
+ * @returns One node per active filter, to be joined with AND
+ */
+export function buildStandardNodes(standard: SearchFilters['standard'], term: string): KqlNode[] {
+  const termNode = buildTermNode(term)
+  const nodes = buildNodes(STANDARD_NODE_BUILDERS, { ...createEmptyFilters(), standard })
+  return termNode ? [termNode, ...nodes] : nodes
+}
+
+/**
+ * Build KQL AST nodes for photo/EXIF filters
+ */
+export function buildPhotoNodes(photo: SearchFilters['photo']): KqlNode[] {
+  return buildNodes(PHOTO_NODE_BUILDERS, { ...createEmptyFilters(), photo })
 }
 
 /**
@@ -170,114 +422,513 @@ function wrapForSearch(value: string, addWildcards: boolean = true): string {
  * @returns Array of KQL expressions (e.g., ["name:*report*", "Type:1", "size>=1000"])
  */
 export function buildStandardKQL(standard: SearchFilters['standard'], term: string): string[] {
-  const parts: string[] = []
-
-  // Handle the main search term input
-  if (term && term.trim()) {
-    // If term contains ":" it's already a field query (e.g., "content:budget")
-    // Pass it through unchanged to allow power users to write raw KQL
-    if (!term.includes(':')) {
-      parts.push(`name:${wrapForSearch(term.trim(), true)}`)
+  return buildStandardNodes(standard, term).map(serializeKql)
+}
+
+/**
+ * Build KQL query parts for photo/EXIF filters
+ */
+export function buildPhotoKQL(photo: SearchFilters['photo']): string[] {
+  return buildPhotoNodes(photo).map(serializeKql)
+}
+
+/**
+ * Build the KQL AST for a complete filter set.
+ *
+ * Layout: `term AND <filters> AND location AND NOT <negated filters> AND raw`,
+ * where <filters> are ANDed, or ORed as one group when `filters.match` is 'any'.
+ *
+ * @returns Root node, or null when no filter is active
+ */
+export function buildKQLAst(filters: SearchFilters): KqlNode | null {
+  const negated = new Set(filters.negated || [])
+  const positives: KqlNode[] = []
+  const anded: KqlNode[] = []
+  const negatives: KqlNode[] = []
+
+  for (const { id, build } of [...STANDARD_NODE_BUILDERS, ...PHOTO_NODE_BUILDERS]) {
+    const node = build(filters)
+    if (!node) continue
+    if (negated.has(id)) {
+      negatives.push(kqlNot(node))
+    } else if (ALWAYS_ANDED.has(id)) {
+      anded.push(node)
     } else {
-      parts.push(term.trim())
+      positives.push(node)
     }
   }
 
-  if (standard.name) {
-    // Don't add extra wildcards if user already included them
-    parts.push(`name:${wrapForSearch(standard.name, !standard.name.includes('*'))}`)
+  const parts: KqlNode[] = []
+  const termNode = buildTermNode(filters.term)
+  if (termNode) parts.push(termNode)
+
+  if (filters.match === 'any' && positives.length > 1) {
+    parts.push(kqlGroup(kqlBoolean('or', positives)))
+  } else {
+    parts.push(...positives)
+  }
+  parts.push(...anded, ...negatives)
+
+  if (filters.raw && filters.raw.trim()) {
+    const rawNode = parseUserKql(filters.raw.trim())
+    if (rawNode) parts.push(rawNode)
   }
+  return parts.length > 0 ? kqlBoolean('and', parts) : null
+}
+
+/**
+ * Build complete KQL query from filters
+ */
+export function buildKQL(filters: SearchFilters): string {
+  const ast = buildKQLAst(filters)
+  return ast ? serializeKql(ast) : '*'
+}
+
+/** Fields a refine term is looked up in on the server (see utils/refine.ts) */
+const REFINE_FIELDS = ['name', 'path', 'tags', 'photo.cameramake', 'photo.cameramodel']
+
+/**
+ * KQL for refine terms: each term anywhere in the name, path, tags or
+ * camera, all terms required
+ *
+ * @example
+ * buildRefineKQL(['beach'])
+ * // (name:*beach* OR path:*beach* OR tags:*beach* OR photo.cameramake:*beach* OR photo.cameramodel:*beach*)
+ *
+ * @returns KQL clause, or null without terms
+ */
+export function buildRefineKQL(terms: string[]): string | null {
+  const nodes = terms
+    .filter(term => term.trim())
+    .map(term => kqlGroup(kqlBoolean('or', REFINE_FIELDS.map(field => kqlRestriction(field, ':', wrapForSearch(term))))))
+  return nodes.length > 0 ? serializeKql(kqlBoolean('and', nodes)) : null
+}
+
+/**
+ * AND a clause to raw KQL, keeping the precedence of both
+ */
+export function appendKqlClause(raw: string | undefined, clause: string): string {
+  const current = raw?.trim() ? parseUserKql(raw.trim()) : null
+  const added = parseUserKql(clause)
+  if (!current || !added) return current ? serializeKql(current) : clause
+  return serializeKql(kqlBoolean('and', [current, added]))
+}
+
+// ---------------------------------------------------------------------------
+// KQL -> filters
+// ---------------------------------------------------------------------------
+
+/**
+ * Where each filter ID lives in SearchFilters
+ */
+const FILTER_LOCATIONS: Record<string, ['standard' | 'photo', string]> = {
+  name: ['standard', 'name'],
+  type: ['standard', 'type'],
+  size: ['standard', 'sizeRange'],
+  mtime: ['standard', 'modifiedRange'],
+  mediaType: ['standard', 'mediaType'],
+  tags: ['standard', 'tags'],
+  content: ['standard', 'content'],
+  path: ['standard', 'path'],
+  cameraMake: ['photo', 'cameraMake'],
+  cameraModel: ['photo', 'cameraModel'],
+  takenDate: ['photo', 'takenDateRange'],
+  iso: ['photo', 'isoRange'],
+  fNumber: ['photo', 'fNumberRange'],
+  focalLength: ['photo', 'focalLengthRange'],
+  orientation: ['photo', 'orientation'],
+  location: ['photo', 'location'],
+}
+
+function getFilterValue(filters: SearchFilters, id: string): unknown {
+  const [category, key] = FILTER_LOCATIONS[id]
+  return (filters[category] as Record<string, unknown>)[key]
+}
+
+function setFilterValue(filters: SearchFilters, id: string, value: unknown): void {
+  const [category, key] = FILTER_LOCATIONS[id]
+  ;(filters[category] as Record<string, unknown>)[key] = value
+}
+
+function isFilterSet(filters: SearchFilters, id: string): boolean {
+  const value = getFilterValue(filters, id)
+  return value !== undefined && value !== ''
+}
+
+/**
+ * Handler for `field:value` restrictions.
+ * `parse` converts a KQL value to the filter representation (null = not representable).
+ */
+interface ValueHandler {
+  id: string
+  parse?: (value: string) => string | null
+  apply: (filters: SearchFilters, value: string) => boolean
+}
+
+/**
+ * Value handlers keyed by lowercase KQL field
+ */
+const FIELD_VALUE_HANDLERS: Record<string, ValueHandler> = {
+  name: { id: 'name', parse: parseNamePattern, apply: (f, v) => { f.standard.name = v; return true } },
+  type: {
+    id: 'type',
+    apply: (f, v) => {
+      if (v === '1' || v === 'file') f.standard.type = 'file'
+      else if (v === '2' || v === 'folder') f.standard.type = 'folder'
+      else return false
+      return true
+    },
+  },
+  mediatype: { id: 'mediaType', apply: (f, v) => { f.standard.mediaType = v; return true } },
+  tags: { id: 'tags', apply: (f, v) => { f.standard.tags = v; return true } },
+  tag: { id: 'tags', apply: (f, v) => { f.standard.tags = v; return true } },
+  content: { id: 'content', apply: (f, v) => { f.standard.content = v; return true } },
+  path: { id: 'path', parse: parseFolderPattern, apply: (f, v) => { f.standard.path = v; return true } },
+  'photo.cameramake': { id: 'cameraMake', apply: (f, v) => { f.photo.cameraMake = v; return true } },
+  'photo.cameramodel': { id: 'cameraModel', apply: (f, v) => { f.photo.cameraModel = v; return true } },
+  'photo.orientation': {
+    id: 'orientation',
+    apply: (f, v) => {
+      if (!isIntegerBound(v)) return false
+      f.photo.orientation = parseInt(v, 10)
+      return true
+    },
+  },
+}
+
+/**
+ * KQL fields whose filter holds comma-separated alternatives
+ */
+const MULTI_VALUE_FIELDS = new Set(['name', 'mediatype', 'tags', 'tag', 'path', 'photo.cameramake', 'photo.cameramodel'])
+
+/**
+ * Bound values a range filter holds and rebuilds unchanged; anything else
+ * (`today`, `1kb`, `2.80`) stays raw KQL
+ */
+const DATE_BOUND_REGEX = /^\d{4}-\d{2}-\d{2}$/
+const isIntegerBound = (value: string) => /^\d+$/.test(value) && String(parseInt(value, 10)) === value
+const isDecimalBound = (value: string) => /^\d+(\.\d+)?$/.test(value) && String(parseFloat(value)) === value
+const isDateBound = (value: string) => DATE_BOUND_REGEX.test(value) && formatDateForKQL(value) === value
+const isDegreesBound = (value: string) => /^-?\d+(\.\d+)?$/.test(value) && formatDegrees(parseFloat(value)) === value
+
+/**
+ * Handlers turning collected min/max bounds into range filters, keyed by KQL field.
+ * `accepts` tells which bound values the filter can hold.
+ */
+const RANGE_HANDLERS: Record<string, {
+  id: string
+  accepts: (value: string) => boolean
+  apply: (filters: SearchFilters, min?: string, max?: string) => void
+}> = {
+  size: { id: 'size', accepts: isIntegerBound, apply: (f, min, max) => { f.standard.sizeRange = toNumericRange(min, max, parseInt) } },
+  mtime: {
+    id: 'mtime',
+    accepts: isDateBound,
+    apply: (f, min, max) => { f.standard.modifiedRange = { start: min || '', end: max || '' } },
+  },
+  'photo.takendatetime': {
+    id: 'takenDate',
+    accepts: isDateBound,
+    apply: (f, min, max) => { f.photo.takenDateRange = { start: min || '', end: max || '' } },
+  },
+  'photo.iso': { id: 'iso', accepts: isIntegerBound, apply: (f, min, max) => { f.photo.isoRange = toNumericRange(min, max, parseInt) } },
+  'photo.fnumber': {
+    id: 'fNumber',
+    accepts: isDecimalBound,
+    apply: (f, min, max) => { f.photo.fNumberRange = toNumericRange(min, max, parseFloat) },
+  },
+  'photo.focallength': {
+    id: 'focalLength',
+    accepts: isDecimalBound,
+    apply: (f, min, max) => { f.photo.focalLengthRange = toNumericRange(min, max, parseFloat) },
+  },
+  // Latitude and longitude ranges make up one box; a missing side is unbounded
+  'photo.location.latitude': {
+    id: 'location',
+    accepts: isDegreesBound,
+    apply: (f, min, max) => {
+      f.photo.location = {
+        ...toLocationBox(f.photo.location),
+        south: min !== undefined ? parseFloat(min) : -90,
+        north: max !== undefined ? parseFloat(max) : 90,
+      }
+    },
+  },
+  'photo.location.longitude': {
+    id: 'location',
+    accepts: isDegreesBound,
+    apply: (f, min, max) => {
+      f.photo.location = {
+        ...toLocationBox(f.photo.location),
+        west: min !== undefined ? parseFloat(min) : -180,
+        east: max !== undefined ? parseFloat(max) : 180,
+      }
+    },
+  },
+}
 
-  // oCIS uses numeric type values: 1 = file, 2 = folder (not strings)
-  if (standard.type === 'file') {
-    parts.push('Type:1')
-  } else if (standard.type === 'folder') {
-    parts.push('Type:2')
+function toLocationBox(location: LocationFilter | undefined): LocationFilter & { type: 'box' } {
+  return location?.type === 'box' ? location : { type: 'box', north: 90, south: -90, east: 180, west: -180 }
+}
+
+function toNumericRange(min: string | undefined, max: string | undefined, parse: (v: string) => number): NumericRange {
+  return {
+    min: min !== undefined ? parse(min) : undefined,
+    max: max !== undefined ? parse(max) : undefined,
   }
+}
 
-  if (standard.sizeRange) {
-    const sizeQuery = buildRangeQuery('size', standard.sizeRange)
-    if (sizeQuery) parts.push(sizeQuery)
+/**
+ * Flatten the top-level AND chain into its conjuncts, looking through
+ * parentheses that only group ANDs (e.g. the `(size>=1 AND size<=2)` pairs
+ * produced by buildRangeQuery).
+ */
+function flattenConjuncts(node: KqlNode, out: KqlNode[] = []): KqlNode[] {
+  const inner = unwrapGroups(node)
+  if (inner.type === 'and') {
+    inner.children.forEach(child => flattenConjuncts(child, out))
+  } else {
+    out.push(inner)
   }
+  return out
+}
 
-  if (standard.modifiedRange) {
-    const mtimeQuery = buildDateRangeQuery('mtime', standard.modifiedRange)
-    if (mtimeQuery) parts.push(mtimeQuery)
+/**
+ * Maps KQL clauses onto a filter set, one clause at a time.
+ *
+ * Each map* method either maps the whole clause and returns true, or
+ * leaves the filters untouched and returns false (the caller then keeps
+ * the clause as raw KQL). Range bounds are collected first and applied
+ * in finish(), so `size>=1 AND size<=5` can arrive as separate clauses.
+ */
+class FilterMapper {
+  readonly filters: SearchFilters = createEmptyFilters()
+  private readonly bounds: Record<string, { min?: string; max?: string }> = {}
+  private readonly negated: string[] = []
+
+  /** Whether a filter ID is already taken (set, or has pending range bounds) */
+  private isMapped(id: string): boolean {
+    if (isFilterSet(this.filters, id)) return true
+    return Object.keys(this.bounds).some(field => RANGE_HANDLERS[field].id === id)
   }
 
-  if (standard.mediaType) {
-    parts.push(`mediatype:${escapeKQL(standard.mediaType)}`)
+  /** Whether any non-negated filter has been mapped */
+  hasPositive(): boolean {
+    return Object.keys(FILTER_LOCATIONS).some(id => this.isMapped(id) && !this.negated.includes(id))
   }
 
-  if (standard.tags) {
-    const tagList = standard.tags.split(',').map(t => t.trim()).filter(Boolean)
-    if (tagList.length === 1) {
-      parts.push(`tags:${wrapForSearch(tagList[0], false)}`)
-    } else if (tagList.length > 1) {
-      const tagQuery = tagList.map(t => `tags:${wrapForSearch(t, false)}`).join(' OR ')
-      parts.push(`(${tagQuery})`)
+  mapClause(node: KqlNode): boolean {
+    const inner = unwrapGroups(node)
+    switch (inner.type) {
+      case 'restriction':
+        return this.mapRestriction(inner)
+      case 'and':
+        return this.mapRangePair(inner.children)
+      case 'or':
+        return this.mapAlternatives(inner.children)
+      case 'not':
+        return this.mapNegation(inner.child)
+      default:
+        return false
     }
   }
 
-  if (standard.content) {
-    // Content search also needs phrase handling for multi-word searches
-    parts.push(`content:${wrapForSearch(standard.content, false)}`)
+  private mapRestriction(node: KqlRestrictionNode): boolean {
+    const field = node.field.toLowerCase()
+    if (node.operator !== ':' || node.value.type === 'range') {
+      return this.collectRange(node)
+    }
+    const value = this.parseValue(field, node.value.value)
+    const handler = FIELD_VALUE_HANDLERS[field]
+    if (value === null || this.isMapped(handler.id)) return false
+    return handler.apply(this.filters, value)
   }
 
-  return parts
-}
+  /**
+   * Convert a restriction value to its filter representation.
+   * Commas separate alternatives in the filter model, so values containing
+   * one can't be represented for multi-value fields.
+   */
+  private parseValue(field: string, value: string): string | null {
+    const handler = FIELD_VALUE_HANDLERS[field]
+    if (!handler) return null
+    if (MULTI_VALUE_FIELDS.has(field) && value.includes(',')) return null
+    return handler.parse ? handler.parse(value) : value
+  }
 
-/**
- * Build KQL query parts for photo/EXIF filters
- */
-export function buildPhotoKQL(photo: SearchFilters['photo']): string[] {
-  const parts: string[] = []
+  /**
+   * Record an inclusive comparison (`size>=100`) or `field:a..b` range.
+   * Strict comparisons and values the filter can't hold aren't mapped.
+   */
+  private collectRange(node: KqlRestrictionNode): boolean {
+    const field = node.field.toLowerCase()
+    const handler = RANGE_HANDLERS[field]
+    if (!handler || isFilterSet(this.filters, handler.id) || this.negated.includes(handler.id)) return false
+
+    const entry = this.bounds[field] || {}
+    if (node.value.type === 'range') {
+      if (entry.min !== undefined || entry.max !== undefined) return false
+      if (!handler.accepts(node.value.from) || !handler.accepts(node.value.to)) return false
+      this.bounds[field] = { min: node.value.from, max: node.value.to }
+      return true
+    }
+    if (node.value.type !== 'term' || !handler.accepts(node.value.value)) return false
 
-  if (photo.cameraMake) {
-    // Camera makes can have spaces (e.g., "FUJIFILM CORPORATION")
-    parts.push(`photo.cameramake:${wrapForSearch(photo.cameraMake, false)}`)
+    if (node.operator === '>=' && entry.min === undefined) {
+      this.bounds[field] = { ...entry, min: node.value.value }
+      return true
+    }
+    if (node.operator === '<=' && entry.max === undefined) {
+      this.bounds[field] = { ...entry, max: node.value.value }
+      return true
+    }
+    return false
   }
 
-  if (photo.cameraModel) {
-    // Camera models often have spaces (e.g., "EOS R5", "iPhone 14 Pro")
-    parts.push(`photo.cameramodel:${wrapForSearch(photo.cameraModel, false)}`)
+  /**
+   * Map `(field>=a AND field<=b)` nested somewhere other than the top level
+   */
+  private mapRangePair(children: KqlNode[]): boolean {
+    const restrictions = children.map(unwrapGroups)
+    if (restrictions.length !== 2 || restrictions.some(r => r.type !== 'restriction')) return false
+    const [first, second] = restrictions as KqlRestrictionNode[]
+    const field = first.field.toLowerCase()
+    if (field !== second.field.toLowerCase() || this.bounds[field]) return false
+    if (!this.collectRange(first)) return false
+    if (!this.collectRange(second)) {
+      delete this.bounds[field]
+      return false
+    }
+    return true
   }
 
-  if (photo.takenDateRange) {
-    const takenQuery = buildDateRangeQuery('photo.takendatetime', photo.takenDateRange)
-    if (takenQuery) parts.push(takenQuery)
-  }
+  /**
+   * Map `(field:a OR field:b)` onto a comma-separated multi-value filter
+   */
+  private mapAlternatives(children: KqlNode[]): boolean {
+    const restrictions = children.map(unwrapGroups)
+    const first = restrictions[0]
+    if (first.type !== 'restriction') return false
+    const field = first.field.toLowerCase()
+    if (!MULTI_VALUE_FIELDS.has(field)) return false
+
+    const values: string[] = []
+    for (const r of restrictions) {
+      if (r.type !== 'restriction' || r.field.toLowerCase() !== field
+        || r.operator !== ':' || r.value.type === 'range') {
+        return false
+      }
+      const value = this.parseValue(field, r.value.value)
+      if (value === null) return false
+      values.push(value.trim())
+    }
 
-  if (photo.isoRange) {
-    const isoQuery = buildRangeQuery('photo.iso', photo.isoRange)
-    if (isoQuery) parts.push(isoQuery)
+    const handler = FIELD_VALUE_HANDLERS[field]
+    if (this.isMapped(handler.id)) return false
+    return handler.apply(this.filters, values.join(','))
   }
 
-  if (photo.fNumberRange) {
-    const fQuery = buildRangeQuery('photo.fnumber', photo.fNumberRange)
-    if (fQuery) parts.push(fQuery)
+  /**
+   * Map `NOT <clause>` where the clause maps onto exactly one filter
+   */
+  private mapNegation(child: KqlNode): boolean {
+    const scratch = new FilterMapper()
+    // NOT (a AND b) maps if a and b make up one filter (e.g. a location box)
+    if (!flattenConjuncts(child).every(clause => scratch.mapClause(clause))) return false
+    const ids = scratch.finish().mappedIds
+    if (ids.length !== 1 || scratch.negated.length > 0 || this.isMapped(ids[0])) return false
+
+    setFilterValue(this.filters, ids[0], getFilterValue(scratch.filters, ids[0]))
+    this.negated.push(ids[0])
+    return true
   }
 
-  if (photo.focalLengthRange) {
-    const flQuery = buildRangeQuery('photo.focallength', photo.focalLengthRange)
-    if (flQuery) parts.push(flQuery)
+  /**
+   * Map a top-level `a OR b OR c` where each side is a different filter,
+   * which is what `match: 'any'` produces
+   */
+  mapAnyOf(children: KqlNode[]): boolean {
+    const scratch = new FilterMapper()
+    if (!children.every(child => unwrapGroups(child).type !== 'not' && scratch.mapClause(child))) return false
+    const ids = scratch.finish().mappedIds
+    if (ids.length !== children.length || ids.some(id => this.isMapped(id))) return false
+
+    ids.forEach(id => setFilterValue(this.filters, id, getFilterValue(scratch.filters, id)))
+    this.filters.match = 'any'
+    return true
   }
 
-  if (photo.orientation !== undefined && photo.orientation > 0) {
-    parts.push(`photo.orientation:${photo.orientation}`)
+  /**
+   * Apply collected range bounds and negations
+   * @returns IDs of all mapped filters
+   */
+  finish(): { filters: SearchFilters; mappedIds: string[] } {
+    for (const [field, { min, max }] of Object.entries(this.bounds)) {
+      RANGE_HANDLERS[field].apply(this.filters, min, max)
+      delete this.bounds[field]
+    }
+    if (this.negated.length > 0) {
+      this.filters.negated = [...this.negated]
+    }
+    const mappedIds = Object.keys(FILTER_LOCATIONS).filter(id => isFilterSet(this.filters, id))
+    return { filters: this.filters, mappedIds }
   }
+}
 
-  return parts
+/**
+ * Search term for free-text words. A term containing ":" is parsed as KQL
+ * (buildTermNode), so words with an escaped colon (`a\:b`) keep their
+ * source text; otherwise the plain words are used.
+ */
+function buildTermText(terms: Array<KqlTermNode | KqlPhraseNode>): string {
+  if (terms.some(term => term.value.includes(':'))) {
+    return terms.map(term => serializeKql(term)).join(' ')
+  }
+  return terms.map(term => term.value).join(' ')
 }
 
 /**
- * Build complete KQL query from filters
+ * Parse a KQL query into a filter set (reverse of buildKQL).
+ *
+ * Clauses of the top-level AND chain that correspond to a filter field are
+ * mapped onto it, including `NOT clause` (negated filter), `(f:a OR f:b)`
+ * (comma-separated alternatives) and a single OR across different filters
+ * (`match: 'any'`). Free-text words become the search term. Anything else
+ * (unknown fields, duplicates, deeper nesting) is preserved verbatim in
+ * `filters.raw`, so buildKQL(kqlToFilters(q)) loses nothing.
+ *
+ * @param kql - KQL query string (e.g., "name:*.pdf AND size>=1000")
+ * @throws KqlSyntaxError if the query is malformed
  */
-export function buildKQL(filters: SearchFilters): string {
-  const { standard, photo, term } = filters
-  const parts = [
-    ...buildStandardKQL(standard, term || ''),
-    ...buildPhotoKQL(photo)
-  ]
-  return parts.length > 0 ? parts.join(' AND ') : '*'
+export function kqlToFilters(kql: string): SearchFilters {
+  const ast = kql.trim() === '*' ? null : parseKql(kql)
+  if (!ast) {
+    return createEmptyFilters()
+  }
+
+  const mapper = new FilterMapper()
+  const terms: Array<KqlTermNode | KqlPhraseNode> = []
+  const unmapped: KqlNode[] = []
+
+  for (const node of flattenConjuncts(ast)) {
+    if (node.type === 'term' || node.type === 'phrase') {
+      if (node.value !== '*') terms.push(node)
+    } else if (!mapper.mapClause(node)) {
+      unmapped.push(node)
+    }
+  }
+
+  // A single OR across different filters becomes match: 'any', unless
+  // other positive filters exist (they'd be pulled into the OR on rebuild)
+  const ors = unmapped.filter(node => node.type === 'or')
+  if (ors.length === 1 && !mapper.hasPositive() && mapper.mapAnyOf((ors[0] as KqlBooleanNode).children)) {
+    unmapped.splice(unmapped.indexOf(ors[0]), 1)
+  }
+
+  const { filters } = mapper.finish()
+  filters.term = buildTermText(terms)
+  if (unmapped.length > 0) {
+    filters.raw = serializeKql(kqlBoolean('and', unmapped))
+  }
+  return filters
 }
@@ -0,0 +1,219 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseKql,
+  serializeKql,
+  tokenizeKql,
+  unescapeKQL,
+  KqlSyntaxError,
+  kqlTerm,
+  kqlPhrase,
+  kqlRestriction,
+  kqlBoolean,
+  kqlNot,
+} from './kqlParser'
+
+/** Parse and return the thrown KqlSyntaxError (fails the test if none is thrown) */
+function syntaxError(input: string): KqlSyntaxError {
+  try {
+    parseKql(input)
+  } catch (err) {
+    if (err instanceof KqlSyntaxError) return err
+    throw err
+  }
+  throw new Error(`Expected "${input}" to fail parsing`)
+}
+
+describe('tokenizeKql', () => {
+  it('splits words, operators and parentheses', () => {
+    const types = tokenizeKql('(size>=100 OR name:a)').map(t => t.type)
+    expect(types).toEqual(['lparen', 'word', 'operator', 'word', 'or', 'word', 'operator', 'word', 'rparen', 'eof'])
+  })
+
+  it('keeps escaped terminators inside words', () => {
+    const [word] = tokenizeKql('file\\:name')
+    expect(word).toMatchObject({ type: 'word', text: 'file\\:name', value: 'file:name' })
+  })
+
+  it('reads quoted phrases with escaped quotes', () => {
+    const [phrase] = tokenizeKql('"say \\"hi\\""')
+    expect(phrase).toMatchObject({ type: 'phrase', value: 'say "hi"' })
+  })
+
+  it('only treats uppercase AND/OR/NOT as operators', () => {
+    expect(tokenizeKql('a and b').map(t => t.type)).toEqual(['word', 'word', 'word', 'eof'])
+  })
+})
+
+describe('unescapeKQL', () => {
+  it('removes backslash escapes', () => {
+    expect(unescapeKQL('image\\/*')).toBe('image/*')
+    expect(unescapeKQL('a\\\\b')).toBe('a\\b')
+  })
+})
+
+describe('parseKql', () => {
+  it('returns null for empty input', () => {
+    expect(parseKql('')).toBeNull()
+    expect(parseKql('   ')).toBeNull()
+  })
+
+  it('parses a bare term', () => {
+    expect(parseKql('report')).toMatchObject({ type: 'term', value: 'report', span: { start: 0, end: 6 } })
+  })
+
+  it('parses a phrase', () => {
+    expect(parseKql('"annual report"')).toMatchObject({ type: 'phrase', value: 'annual report' })
+  })
+
+  it('parses field restrictions', () => {
+    expect(parseKql('name:*.pdf')).toMatchObject({
+      type: 'restriction',
+      field: 'name',
+      operator: ':',
+      value: { type: 'term', value: '*.pdf' },
+    })
+  })
+
+  it('parses comparison restrictions', () => {
+    expect(parseKql('photo.iso>=100')).toMatchObject({
+      type: 'restriction',
+      field: 'photo.iso',
+      operator: '>=',
+      value: { type: 'term', value: '100' },
+    })
+  })
+
+  it('parses quoted values containing colons', () => {
+    expect(parseKql('name:"10:30 meeting"')).toMatchObject({
+      type: 'restriction',
+      value: { type: 'phrase', value: '10:30 meeting' },
+    })
+  })
+
+  it('parses range values', () => {
+    expect(parseKql('size:100..1000')).toMatchObject({
+      type: 'restriction',
+      value: { type: 'range', from: '100', to: '1000' },
+    })
+  })
+
+  it('gives AND precedence over OR', () => {
+    const ast = parseKql('a OR b AND c')
+    expect(ast).toMatchObject({
+      type: 'or',
+      children: [{ type: 'term', value: 'a' }, { type: 'and', children: [{ value: 'b' }, { value: 'c' }] }],
+    })
+  })
+
+  it('treats juxtaposition as implicit AND', () => {
+    expect(parseKql('a b')).toMatchObject({ type: 'and', implicit: true })
+    expect(parseKql('a AND b')).not.toHaveProperty('implicit')
+  })
+
+  it('parses NOT and nested groups', () => {
+    expect(parseKql('NOT (a OR (b AND c))')).toMatchObject({
+      type: 'not',
+      child: {
+        type: 'group',
+        child: { type: 'or', children: [{ type: 'term' }, { type: 'group', child: { type: 'and' } }] },
+      },
+    })
+  })
+
+  it('allows ":" in an unquoted restriction value', () => {
+    expect(parseKql('mtime>=2024-01-15T10:00:00Z')).toMatchObject({
+      type: 'restriction',
+      field: 'mtime',
+      operator: '>=',
+      value: { type: 'term', value: '2024-01-15T10:00:00Z' },
+    })
+    expect(parseKql('mtime:2024-01-15T10:00:00Z AND a')).toMatchObject({
+      type: 'and',
+      children: [{ type: 'restriction', value: { value: '2024-01-15T10:00:00Z' } }, { type: 'term', value: 'a' }],
+    })
+  })
+
+  it('accepts keywords as restriction values', () => {
+    expect(parseKql('name:AND')).toMatchObject({ type: 'restriction', value: { type: 'term', value: 'AND' } })
+  })
+})
+
+describe('parseKql errors', () => {
+  it('reports an unclosed parenthesis at its position', () => {
+    const err = syntaxError('a AND (b OR c')
+    expect(err.message).toBe('Missing closing parenthesis')
+    expect(err.position).toBe(6)
+  })
+
+  it('reports an unmatched closing parenthesis', () => {
+    expect(syntaxError('a)').position).toBe(1)
+  })
+
+  it('reports a dangling operator', () => {
+    const err = syntaxError('a AND')
+    expect(err.message).toBe('Expected an expression after AND')
+    expect(err.position).toBe(5)
+  })
+
+  it('reports a missing value', () => {
+    const err = syntaxError('name: foo')
+    expect(err.message).toBe('Expected a value after "name:"')
+    expect(err.position).toBe(5)
+  })
+
+  it('reports a missing field name', () => {
+    expect(syntaxError(':foo').message).toBe('Missing field name before ":"')
+  })
+
+  it('reports an unterminated phrase at the opening quote', () => {
+    const err = syntaxError('name:"abc')
+    expect(err.message).toBe('Unterminated quoted phrase')
+    expect(err.position).toBe(5)
+  })
+
+  it('reports empty parentheses', () => {
+    expect(syntaxError('a ()').position).toBe(2)
+  })
+
+  it('rejects excessive nesting instead of overflowing the stack', () => {
+    const deep = '('.repeat(100) + 'a' + ')'.repeat(100)
+    expect(syntaxError(deep).message).toBe('Query is nested too deeply')
+  })
+})
+
+describe('serializeKql', () => {
+  const roundTrips = [
+    'name:*.pdf',
+    'name:"*annual report*"',
+    'mediatype:image\\/*',
+    '(size>=1000 AND size<=10000)',
+    'Type:1 AND (tags:a OR tags:b) AND NOT name:*draft*',
+    'a b c',
+    'a OR b AND c',
+    'NOT (a OR b)',
+    'size:100..1000',
+    'mtime>=2024-01-15T10:00:00Z',
+    'name:"say \\"hi\\""',
+    '((a))',
+  ]
+
+  for (const query of roundTrips) {
+    it(`round-trips ${query}`, () => {
+      expect(serializeKql(parseKql(query)!)).toBe(query)
+    })
+  }
+
+  it('normalizes whitespace', () => {
+    expect(serializeKql(parseKql('  a   AND\tb ')!)).toBe('a AND b')
+  })
+
+  it('adds parentheses needed for precedence in built trees', () => {
+    const or = kqlBoolean('or', [kqlTerm('a'), kqlTerm('b')])
+    expect(serializeKql(kqlBoolean('and', [or, kqlTerm('c')]))).toBe('(a OR b) AND c')
+    expect(serializeKql(kqlNot(kqlBoolean('and', [kqlTerm('a'), kqlTerm('b')])))).toBe('NOT (a AND b)')
+  })
+
+  it('escapes quotes in phrases', () => {
+    expect(serializeKql(kqlRestriction('content', ':', kqlPhrase('a "b" c')))).toBe('content:"a \\"b\\" c"')
+  })
+})
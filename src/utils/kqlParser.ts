@@ -0,0 +1,501 @@
+/**
+ * KQL tokenizer, parser and serializer.
+ *
+ * Turns a KQL query string into a typed AST (see KqlNode in ../types) and
+ * back again. The grammar follows the subset of KQL understood by oCIS:
+ *
+ *   query       := orExpr
+ *   orExpr      := andExpr ( "OR" andExpr )*
+ *   andExpr     := notExpr ( "AND"? notExpr )*      (juxtaposition = implicit AND)
+ *   notExpr     := "NOT" notExpr | primary
+ *   primary     := "(" orExpr ")" | restriction | WORD | PHRASE
+ *   restriction := WORD OPERATOR ( WORD | PHRASE | WORD ".." WORD )
+ *
+ * Operators (AND, OR, NOT) are case-sensitive, as in the KQL spec, so a
+ * lowercase "and" is searched for as a word. A restriction must be written
+ * without whitespace around its operator (`name:foo`, not `name: foo`).
+ *
+ * Parse failures throw KqlSyntaxError carrying the character offset of
+ * the problem, so the UI can point at it.
+ */
+
+import type {
+  KqlNode,
+  KqlOperator,
+  KqlTermNode,
+  KqlPhraseNode,
+  KqlRangeNode,
+  KqlRestrictionNode,
+  KqlBooleanNode,
+} from '../types'
+
+/**
+ * Error thrown for malformed KQL input
+ */
+export class KqlSyntaxError extends Error {
+  /** 0-based character offset where the problem was detected */
+  readonly position: number
+
+  constructor(message: string, position: number) {
+    super(message)
+    this.name = 'KqlSyntaxError'
+    this.position = position
+  }
+}
+
+type TokenType = 'word' | 'phrase' | 'lparen' | 'rparen' | 'and' | 'or' | 'not' | 'operator' | 'eof'
+
+interface Token {
+  type: TokenType
+  /** Source text of the token */
+  text: string
+  /** Unescaped value (words and phrases only) */
+  value: string
+  start: number
+  end: number
+}
+
+/**
+ * Characters that end a bare word unless escaped with a backslash
+ */
+const WORD_TERMINATORS = new Set(['(', ')', '"', ':', '=', '<', '>'])
+
+const KEYWORDS: Record<string, TokenType> = {
+  AND: 'and',
+  OR: 'or',
+  NOT: 'not',
+}
+
+/**
+ * Maximum nesting depth for groups and NOT chains.
+ * Guards against stack overflow on pathological input; real queries
+ * rarely go beyond 3 or 4 levels.
+ */
+const MAX_NESTING_DEPTH = 64
+
+/**
+ * Remove KQL backslash escapes (`file\:name` -> `file:name`)
+ */
+export function unescapeKQL(raw: string): string {
+  return raw.replace(/\\(.)/g, '$1')
+}
+
+/**
+ * Split a query string into tokens.
+ *
+ * @throws KqlSyntaxError for unterminated phrases or a trailing backslash
+ */
+export function tokenizeKql(input: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < input.length) {
+    const ch = input[i]
+
+    if (/\s/.test(ch)) {
+      i++
+      continue
+    }
+
+    if (ch === '(' || ch === ')') {
+      tokens.push({ type: ch === '(' ? 'lparen' : 'rparen', text: ch, value: ch, start: i, end: i + 1 })
+      i++
+      continue
+    }
+
+    if (ch === '"') {
+      const start = i
+      let value = ''
+      i++
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === '\\' && i + 1 < input.length) {
+          value += input[i + 1]
+          i += 2
+        } else {
+          value += input[i]
+          i++
+        }
+      }
+      if (i >= input.length) {
+        throw new KqlSyntaxError('Unterminated quoted phrase', start)
+      }
+      i++ // closing quote
+      tokens.push({ type: 'phrase', text: input.slice(start, i), value, start, end: i })
+      continue
+    }
+
+    if (ch === ':' || ch === '=' || ch === '<' || ch === '>') {
+      const start = i
+      const op = (ch === '<' || ch === '>') && input[i + 1] === '=' ? `${ch}=` : ch
+      i += op.length
+      tokens.push({ type: 'operator', text: op, value: op, start, end: i })
+      continue
+    }
+
+    // Bare word: runs until whitespace or an unescaped terminator. A
+    // restriction value may contain ":" (`mtime>=2024-01-15T10:00:00Z`)
+    const start = i
+    const isValue = tokens[tokens.length - 1]?.type === 'operator'
+    const ends = (c: string) => WORD_TERMINATORS.has(c) && !(isValue && c === ':')
+    while (i < input.length && !/\s/.test(input[i]) && !ends(input[i])) {
+      if (input[i] === '\\') {
+        if (i + 1 >= input.length) {
+          throw new KqlSyntaxError('Dangling escape character at end of query', i)
+        }
+        i += 2
+      } else {
+        i++
+      }
+    }
+    const text = input.slice(start, i)
+    tokens.push({ type: KEYWORDS[text] || 'word', text, value: unescapeKQL(text), start, end: i })
+  }
+
+  tokens.push({ type: 'eof', text: '', value: '', start: input.length, end: input.length })
+  return tokens
+}
+
+/**
+ * Find an unescaped ".." in a raw word, for `from..to` ranges.
+ * Returns -1 if there is none.
+ */
+function findRangeSeparator(raw: string): number {
+  for (let i = 0; i < raw.length - 1; i++) {
+    if (raw[i] === '\\') {
+      i++
+      continue
+    }
+    if (raw[i] === '.' && raw[i + 1] === '.') {
+      return i
+    }
+  }
+  return -1
+}
+
+/**
+ * Recursive-descent parser over the token list
+ */
+class KqlParser {
+  private pos = 0
+  private depth = 0
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): KqlNode | null {
+    if (this.peek().type === 'eof') {
+      return null
+    }
+    const node = this.parseOr()
+    const next = this.peek()
+    if (next.type !== 'eof') {
+      throw new KqlSyntaxError(
+        next.type === 'rparen' ? 'Unmatched closing parenthesis' : `Unexpected "${next.text}"`,
+        next.start
+      )
+    }
+    return node
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)]
+  }
+
+  private next(): Token {
+    const token = this.peek()
+    this.pos++
+    return token
+  }
+
+  private startsExpression(token: Token): boolean {
+    return token.type === 'word' || token.type === 'phrase' || token.type === 'lparen' || token.type === 'not'
+  }
+
+  private expectExpressionAfter(keyword: Token): void {
+    if (!this.startsExpression(this.peek())) {
+      throw new KqlSyntaxError(`Expected an expression after ${keyword.text}`, this.peek().start)
+    }
+  }
+
+  private parseOr(): KqlNode {
+    const first = this.parseAnd()
+    const children: KqlNode[] = [first]
+
+    while (this.peek().type === 'or') {
+      this.expectExpressionAfter(this.next())
+      children.push(this.parseAnd())
+    }
+
+    return children.length === 1 ? first : this.boolean('or', children, false)
+  }
+
+  private parseAnd(): KqlNode {
+    const first = this.parseNot()
+    const children: KqlNode[] = [first]
+    let allImplicit = true
+
+    for (;;) {
+      const token = this.peek()
+      if (token.type === 'and') {
+        this.next()
+        this.expectExpressionAfter(token)
+        allImplicit = false
+      } else if (!this.startsExpression(token)) {
+        break
+      }
+      children.push(this.parseNot())
+    }
+
+    return children.length === 1 ? first : this.boolean('and', children, allImplicit)
+  }
+
+  private parseNot(): KqlNode {
+    const token = this.peek()
+    if (token.type !== 'not') {
+      return this.parsePrimary()
+    }
+
+    this.next()
+    this.expectExpressionAfter(token)
+    this.enter(token)
+    const child = this.parseNot()
+    this.depth--
+    return { type: 'not', child, span: { start: token.start, end: child.span?.end ?? token.end } }
+  }
+
+  private parsePrimary(): KqlNode {
+    const token = this.peek()
+
+    switch (token.type) {
+      case 'lparen': {
+        this.next()
+        if (this.peek().type === 'rparen') {
+          throw new KqlSyntaxError('Empty parentheses', token.start)
+        }
+        this.enter(token)
+        const child = this.parseOr()
+        this.depth--
+        const close = this.peek()
+        if (close.type !== 'rparen') {
+          throw new KqlSyntaxError('Missing closing parenthesis', token.start)
+        }
+        this.next()
+        return { type: 'group', child, span: { start: token.start, end: close.end } }
+      }
+      case 'phrase':
+        this.next()
+        return this.phrase(token)
+      case 'word': {
+        this.next()
+        const op = this.peek()
+        if (op.type === 'operator' && op.start === token.end) {
+          return this.parseRestriction(token)
+        }
+        return this.term(token)
+      }
+      case 'operator':
+        throw new KqlSyntaxError(`Missing field name before "${token.text}"`, token.start)
+      case 'rparen':
+        throw new KqlSyntaxError('Unmatched closing parenthesis', token.start)
+      case 'eof':
+        throw new KqlSyntaxError('Unexpected end of query', token.start)
+      default:
+        throw new KqlSyntaxError(`Unexpected "${token.text}"`, token.start)
+    }
+  }
+
+  private parseRestriction(field: Token): KqlRestrictionNode {
+    const op = this.next()
+    const valueToken = this.peek()
+    const isValue = valueToken.type === 'word' || valueToken.type === 'phrase'
+      || valueToken.type === 'and' || valueToken.type === 'or' || valueToken.type === 'not'
+
+    if (!isValue || valueToken.start !== op.end) {
+      throw new KqlSyntaxError(`Expected a value after "${field.text}${op.text}"`, op.end)
+    }
+    this.next()
+
+    let value: KqlRestrictionNode['value']
+    if (valueToken.type === 'phrase') {
+      value = this.phrase(valueToken)
+    } else {
+      const separator = op.text === ':' ? findRangeSeparator(valueToken.text) : -1
+      if (separator > 0 && separator < valueToken.text.length - 2) {
+        value = {
+          type: 'range',
+          from: valueToken.text.slice(0, separator),
+          to: valueToken.text.slice(separator + 2),
+          span: { start: valueToken.start, end: valueToken.end },
+        }
+      } else {
+        value = this.term(valueToken)
+      }
+    }
+
+    return {
+      type: 'restriction',
+      field: field.value,
+      operator: op.text as KqlOperator,
+      value,
+      span: { start: field.start, end: valueToken.end },
+    }
+  }
+
+  private term(token: Token): KqlTermNode {
+    return { type: 'term', value: token.value, raw: token.text, span: { start: token.start, end: token.end } }
+  }
+
+  private phrase(token: Token): KqlPhraseNode {
+    return { type: 'phrase', value: token.value, span: { start: token.start, end: token.end } }
+  }
+
+  private boolean(type: 'and' | 'or', children: KqlNode[], implicit: boolean): KqlBooleanNode {
+    const node: KqlBooleanNode = {
+      type,
+      children,
+      span: { start: children[0].span?.start ?? 0, end: children[children.length - 1].span?.end ?? 0 },
+    }
+    if (type === 'and' && implicit) {
+      node.implicit = true
+    }
+    return node
+  }
+
+  private enter(token: Token): void {
+    if (++this.depth > MAX_NESTING_DEPTH) {
+      throw new KqlSyntaxError('Query is nested too deeply', token.start)
+    }
+  }
+}
+
+/**
+ * Parse a KQL query string into an AST.
+ *
+ * @example
+ * parseKql('name:*.pdf AND (size>=100 OR NOT tags:draft)')
+ *
+ * @param input - KQL query string
+ * @returns Root node, or null for an empty/whitespace-only query
+ * @throws KqlSyntaxError with the offset of the first problem found
+ */
+export function parseKql(input: string): KqlNode | null {
+  return new KqlParser(tokenizeKql(input)).parse()
+}
+
+/**
+ * Whether a node needs parentheses when nested inside `parent`.
+ * NOT binds tighter than AND, which binds tighter than OR.
+ */
+function needsParens(child: KqlNode, parent: 'and' | 'or' | 'not'): boolean {
+  if (child.type === 'or') return parent !== 'or'
+  if (child.type === 'and') return parent === 'not'
+  return false
+}
+
+function serializeChild(child: KqlNode, parent: 'and' | 'or' | 'not'): string {
+  const text = serializeKql(child)
+  return needsParens(child, parent) ? `(${text})` : text
+}
+
+/**
+ * Serialize a phrase value, escaping embedded quotes and backslashes
+ */
+function serializePhrase(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`
+}
+
+/**
+ * Serialize an AST back into a KQL string.
+ *
+ * Parsed queries serialize back to their original text modulo whitespace;
+ * hand-built trees get the minimal parentheses needed to keep precedence.
+ */
+export function serializeKql(node: KqlNode): string {
+  switch (node.type) {
+    case 'term':
+      return node.raw
+    case 'phrase':
+      return serializePhrase(node.value)
+    case 'restriction': {
+      const value = node.value.type === 'range'
+        ? `${node.value.from}..${node.value.to}`
+        : serializeKql(node.value)
+      return `${node.field}${node.operator}${value}`
+    }
+    case 'and':
+      return node.children.map(c => serializeChild(c, 'and')).join(node.implicit ? ' ' : ' AND ')
+    case 'or':
+      return node.children.map(c => serializeChild(c, 'or')).join(' OR ')
+    case 'not':
+      return `NOT ${serializeChild(node.child, 'not')}`
+    case 'group':
+      return `(${serializeKql(node.child)})`
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Node factories for building queries programmatically
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a term node from already-escaped KQL text
+ */
+export function kqlTerm(raw: string): KqlTermNode {
+  return { type: 'term', value: unescapeKQL(raw), raw }
+}
+
+/**
+ * Create a quoted phrase node
+ */
+export function kqlPhrase(value: string): KqlPhraseNode {
+  return { type: 'phrase', value }
+}
+
+/**
+ * Create a `from..to` range value node
+ */
+export function kqlRange(from: string, to: string): KqlRangeNode {
+  return { type: 'range', from, to }
+}
+
+/**
+ * Create a field restriction node
+ */
+export function kqlRestriction(
+  field: string,
+  operator: KqlOperator,
+  value: KqlRestrictionNode['value']
+): KqlRestrictionNode {
+  return { type: 'restriction', field, operator, value }
+}
+
+/**
+ * Combine nodes with AND/OR. A single node is returned unchanged.
+ */
+export function kqlBoolean(type: 'and' | 'or', children: KqlNode[]): KqlNode {
+  return children.length === 1 ? children[0] : { type, children }
+}
+
+/**
+ * Wrap a node in parentheses
+ */
+export function kqlGroup(child: KqlNode): KqlNode {
+  return { type: 'group', child }
+}
+
+/**
+ * Negate a node
+ */
+export function kqlNot(child: KqlNode): KqlNode {
+  return { type: 'not', child }
+}
+
+/**
+ * Strip redundant group wrappers (`((a))` -> `a`)
+ */
+export function unwrapGroups(node: KqlNode): KqlNode {
+  let current = node
+  while (current.type === 'group') {
+    current = current.child
+  }
+  return current
+}
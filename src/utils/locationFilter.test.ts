@@ -0,0 +1,196 @@
+import { describe, it, expect } from 'vitest'
+import type { LocationFilter, SearchFilters, SearchResource } from '../types'
+import {
+  filterByLocation,
+  getDistanceKm,
+  getLocationBounds,
+  isInBounds,
+  isLocationIndexed,
+  isValidLocationFilter,
+  matchesLocation,
+  normalizeLongitude,
+  parseCoordinates,
+  planLocationFilter,
+  withoutLocation,
+} from './locationFilter'
+
+const photo = (id: string, latitude?: number, longitude?: number) =>
+  ({ id, name: `${id}.jpg`, mimeType: 'image/jpeg', location: { latitude, longitude } }) as SearchResource
+
+const BARCELONA = { latitude: 41.3784, longitude: 2.1925 }
+const BERLIN = { latitude: 52.52, longitude: 13.405 }
+
+const catalonia: LocationFilter = { type: 'box', north: 42.9, south: 40.5, east: 3.3, west: 0.1 }
+const aroundBarcelona: LocationFilter = { type: 'radius', ...BARCELONA, radiusKm: 10 }
+
+const filters = (overrides: Partial<SearchFilters> = {}): SearchFilters => ({
+  term: '',
+  scope: 'allFiles',
+  standard: {},
+  photo: {},
+  ...overrides,
+})
+
+describe('normalizeLongitude', () => {
+  it('wraps into -180..180', () => {
+    expect(normalizeLongitude(190)).toBe(-170)
+    expect(normalizeLongitude(-190)).toBe(170)
+    expect(normalizeLongitude(2.5)).toBe(2.5)
+  })
+})
+
+describe('getDistanceKm', () => {
+  it('measures great-circle distances', () => {
+    expect(getDistanceKm(BARCELONA, BERLIN)).toBeCloseTo(1500, -1)
+    expect(getDistanceKm(BARCELONA, BARCELONA)).toBe(0)
+  })
+})
+
+describe('isValidLocationFilter', () => {
+  it('accepts filters in range', () => {
+    expect(isValidLocationFilter(catalonia)).toBe(true)
+    expect(isValidLocationFilter({ type: 'box', north: 10, south: -10, east: -170, west: 170 })).toBe(true)
+    expect(isValidLocationFilter(aroundBarcelona)).toBe(true)
+  })
+
+  it('rejects out-of-range values', () => {
+    expect(isValidLocationFilter({ ...catalonia, north: 91 })).toBe(false)
+    expect(isValidLocationFilter({ ...catalonia, south: 43 })).toBe(false)
+    expect(isValidLocationFilter({ ...catalonia, east: NaN })).toBe(false)
+    expect(isValidLocationFilter({ ...aroundBarcelona, radiusKm: 0 })).toBe(false)
+    expect(isValidLocationFilter({ ...aroundBarcelona, longitude: 181 })).toBe(false)
+  })
+})
+
+describe('getLocationBounds', () => {
+  it('returns a box as is', () => {
+    expect(getLocationBounds(catalonia)).toEqual({ north: 42.9, south: 40.5, east: 3.3, west: 0.1 })
+  })
+
+  it('encloses a radius', () => {
+    const bounds = getLocationBounds(aroundBarcelona)
+    expect(bounds.north - BARCELONA.latitude).toBeCloseTo(10 / 111.195, 4)
+    expect(bounds.east - BARCELONA.longitude).toBeGreaterThan(bounds.north - BARCELONA.latitude)
+    // No point of the eastern edge is inside the circle
+    for (let latitude = bounds.south; latitude <= bounds.north; latitude += 0.001) {
+      expect(getDistanceKm(BARCELONA, { latitude, longitude: bounds.east })).toBeGreaterThanOrEqual(10 - 1e-6)
+    }
+  })
+
+  it('crosses the antimeridian', () => {
+    const bounds = getLocationBounds({ type: 'radius', latitude: 0, longitude: 179.9, radiusKm: 50 })
+    expect(bounds.west).toBeGreaterThan(bounds.east)
+    expect(isInBounds({ latitude: 0, longitude: -179.9 }, bounds)).toBe(true)
+  })
+
+  it('covers all longitudes around a pole', () => {
+    expect(getLocationBounds({ type: 'radius', latitude: 89.9, longitude: 0, radiusKm: 50 }))
+      .toMatchObject({ north: 90, east: 180, west: -180 })
+  })
+})
+
+describe('isInBounds', () => {
+  it('checks both axes', () => {
+    expect(isInBounds(BARCELONA, catalonia)).toBe(true)
+    expect(isInBounds(BERLIN, catalonia)).toBe(false)
+    expect(isInBounds({ latitude: 41, longitude: 5 }, catalonia)).toBe(false)
+  })
+
+  it('wraps boxes with west > east', () => {
+    const pacific = { north: 10, south: -10, east: -170, west: 170 }
+    expect(isInBounds({ latitude: 0, longitude: 175 }, pacific)).toBe(true)
+    expect(isInBounds({ latitude: 0, longitude: -175 }, pacific)).toBe(true)
+    expect(isInBounds({ latitude: 0, longitude: 0 }, pacific)).toBe(false)
+  })
+})
+
+describe('matchesLocation / filterByLocation', () => {
+  const items = [photo('bcn', 41.3784, 2.1925), photo('tarragona', 41.1189, 1.2445), photo('berlin', 52.52, 13.405), photo('none')]
+
+  it('keeps results inside a box', () => {
+    expect(filterByLocation(items, catalonia).map(item => item.id)).toEqual(['bcn', 'tarragona'])
+  })
+
+  it('keeps results within a radius', () => {
+    expect(filterByLocation(items, aroundBarcelona).map(item => item.id)).toEqual(['bcn'])
+    expect(matchesLocation(items[1], { ...aroundBarcelona, radiusKm: 100 })).toBe(true)
+  })
+
+  it('keeps the others when negated, including results without location', () => {
+    expect(filterByLocation(items, catalonia, true).map(item => item.id)).toEqual(['berlin', 'none'])
+  })
+})
+
+describe('withoutLocation', () => {
+  it('removes the filter and its negation', () => {
+    const result = withoutLocation(filters({ photo: { cameraMake: 'Canon', location: catalonia }, negated: ['location', 'cameraMake'] }))
+    expect(result.photo).toEqual({ cameraMake: 'Canon' })
+    expect(result.negated).toEqual(['cameraMake'])
+  })
+})
+
+describe('isLocationIndexed', () => {
+  const capabilities = (enabled: unknown) => ({
+    ocs: { data: { capabilities: { search: { property: { 'photo.location': { enabled } } } } } },
+  })
+
+  it('reads the OCS capabilities', () => {
+    expect(isLocationIndexed(capabilities(true))).toBe(true)
+    expect(isLocationIndexed(JSON.stringify(capabilities(true)))).toBe(true)
+    expect(isLocationIndexed(capabilities(false))).toBe(false)
+  })
+
+  it('treats anything else as not indexed', () => {
+    expect(isLocationIndexed({ ocs: { data: { capabilities: {} } } })).toBe(false)
+    expect(isLocationIndexed('<xml/>')).toBe(false)
+    expect(isLocationIndexed(null)).toBe(false)
+  })
+})
+
+describe('parseCoordinates', () => {
+  it('parses decimal pairs', () => {
+    expect(parseCoordinates('41.3784, 2.1925')).toEqual(BARCELONA)
+    expect(parseCoordinates(' -33.8688 -70.6693 ')).toEqual({ latitude: -33.8688, longitude: -70.6693 })
+  })
+
+  it('parses compass directions', () => {
+    expect(parseCoordinates('41.3784° N, 2.1925° E')).toEqual(BARCELONA)
+    expect(parseCoordinates('33.8688 s, 70.6693 w')).toEqual({ latitude: -33.8688, longitude: -70.6693 })
+  })
+
+  it('rejects anything else', () => {
+    expect(parseCoordinates('Barcelona')).toBeNull()
+    expect(parseCoordinates('41.3784')).toBeNull()
+    expect(parseCoordinates('91, 0')).toBeNull()
+  })
+})
+
+describe('planLocationFilter', () => {
+  it('leaves filters without location alone', () => {
+    const plain = filters({ term: 'beach' })
+    expect(planLocationFilter(plain, false)).toEqual({ serverFilters: plain, client: null })
+  })
+
+  it('sends a box to servers with a location index', () => {
+    const box = filters({ photo: { location: catalonia } })
+    expect(planLocationFilter(box, true)).toEqual({ serverFilters: box, client: null })
+    const negated = filters({ photo: { location: catalonia }, negated: ['location'] })
+    expect(planLocationFilter(negated, true)).toEqual({ serverFilters: negated, client: null })
+  })
+
+  it('refines a radius on the results', () => {
+    const radius = filters({ photo: { location: aroundBarcelona } })
+    expect(planLocationFilter(radius, true)).toEqual({ serverFilters: radius, client: { filter: aroundBarcelona, negated: false } })
+  })
+
+  it('filters on the results only when the server can\'t', () => {
+    const negatedRadius = filters({ photo: { location: aroundBarcelona }, negated: ['location'] })
+    const plan = planLocationFilter(negatedRadius, true)
+    expect(plan.serverFilters.photo.location).toBeUndefined()
+    expect(plan.client).toEqual({ filter: aroundBarcelona, negated: true })
+
+    const box = planLocationFilter(filters({ photo: { location: catalonia } }), false)
+    expect(box.serverFilters.photo.location).toBeUndefined()
+    expect(box.client).toEqual({ filter: catalonia, negated: false })
+  })
+})
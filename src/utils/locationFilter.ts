@@ -0,0 +1,202 @@
+/**
+ * Location filter (where a photo was taken): a bounding box or a radius
+ * around a point.
+ *
+ * Servers that index GPS data (`photo.location` in the search capabilities)
+ * get latitude/longitude range clauses; a radius is sent as the box around
+ * its circle. Results are then checked here against the filter itself: all
+ * of them when the server doesn't index locations, and the corners of a
+ * radius's box otherwise.
+ */
+
+import type { GeoBoundingBox, LocationFilter, SearchFilters, SearchResource } from '../types'
+import { getLocation, type GeoPoint } from './geoMap'
+
+/** KQL fields of the indexed GPS location */
+export const LOCATION_KQL_FIELDS = {
+  latitude: 'photo.location.latitude',
+  longitude: 'photo.location.longitude',
+} as const
+
+/** Name of the location property in the server's search capabilities */
+const LOCATION_CAPABILITY = 'photo.location'
+/** Mean earth radius */
+const EARTH_RADIUS_KM = 6371.0088
+const KM_PER_DEGREE = (Math.PI * EARTH_RADIUS_KM) / 180
+
+/** Longitude in -180..180 */
+export function normalizeLongitude(longitude: number): number {
+  return ((((longitude + 180) % 360) + 360) % 360) - 180
+}
+
+/**
+ * Great-circle distance between two points (haversine)
+ */
+export function getDistanceKm(a: GeoPoint, b: GeoPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const dLatitude = toRadians(b.latitude - a.latitude)
+  const dLongitude = toRadians(b.longitude - a.longitude)
+  const h = Math.sin(dLatitude / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLongitude / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+/**
+ * Whether a filter has usable values (coordinates in range, south of north,
+ * a positive radius)
+ */
+export function isValidLocationFilter(filter: LocationFilter): boolean {
+  const latitude = (value: number) => Number.isFinite(value) && Math.abs(value) <= 90
+  const longitude = (value: number) => Number.isFinite(value) && Math.abs(value) <= 180
+  if (filter.type === 'box') {
+    return latitude(filter.south) && latitude(filter.north) && filter.south <= filter.north &&
+      longitude(filter.west) && longitude(filter.east)
+  }
+  return latitude(filter.latitude) && longitude(filter.longitude) && Number.isFinite(filter.radiusKm) && filter.radiusKm > 0
+}
+
+/**
+ * Bounding box of a filter. A radius that reaches a pole or spans half the
+ * globe covers all longitudes.
+ */
+export function getLocationBounds(filter: LocationFilter): GeoBoundingBox {
+  if (filter.type === 'box') {
+    return { north: filter.north, south: filter.south, east: filter.east, west: filter.west }
+  }
+  const latitudeDelta = filter.radiusKm / KM_PER_DEGREE
+  const north = Math.min(90, filter.latitude + latitudeDelta)
+  const south = Math.max(-90, filter.latitude - latitudeDelta)
+  // Widest longitude of the circle: where a meridian touches it (not its center's parallel)
+  const sin = Math.sin(filter.radiusKm / EARTH_RADIUS_KM)
+  const cos = Math.cos((filter.latitude * Math.PI) / 180)
+  const longitudeDelta = north === 90 || south === -90 || sin >= cos ? 180 : (Math.asin(sin / cos) * 180) / Math.PI
+  if (longitudeDelta >= 180) {
+    return { north, south, east: 180, west: -180 }
+  }
+  return {
+    north,
+    south,
+    east: normalizeLongitude(filter.longitude + longitudeDelta),
+    west: normalizeLongitude(filter.longitude - longitudeDelta),
+  }
+}
+
+/**
+ * Whether a point is inside a box (across the antimeridian if `west` > `east`)
+ */
+export function isInBounds(point: GeoPoint, bounds: GeoBoundingBox): boolean {
+  if (point.latitude < bounds.south || point.latitude > bounds.north) return false
+  return bounds.west <= bounds.east
+    ? point.longitude >= bounds.west && point.longitude <= bounds.east
+    : point.longitude >= bounds.west || point.longitude <= bounds.east
+}
+
+/**
+ * Whether a result was taken inside the filter's area (results without
+ * location never are)
+ */
+export function matchesLocation(item: SearchResource, filter: LocationFilter): boolean {
+  const point = getLocation(item)
+  if (!point) return false
+  if (filter.type === 'box') return isInBounds(point, filter)
+  return getDistanceKm(point, { latitude: filter.latitude, longitude: filter.longitude }) <= filter.radiusKm
+}
+
+/**
+ * Results matching a location filter, or not matching it if negated
+ */
+export function filterByLocation<T extends SearchResource>(items: T[], filter: LocationFilter, negated = false): T[] {
+  return items.filter(item => matchesLocation(item, filter) !== negated)
+}
+
+/**
+ * The filters without the location filter (the query for servers that
+ * don't index locations)
+ */
+export function withoutLocation(filters: SearchFilters): SearchFilters {
+  const { location: _location, ...photo } = filters.photo
+  const negated = filters.negated?.filter(id => id !== 'location')
+  return {
+    ...filters,
+    photo,
+    ...(negated && { negated }),
+  }
+}
+
+/**
+ * Whether the server's search index has GPS locations, from the OCS
+ * capabilities (`search.property["photo.location"].enabled`)
+ */
+export function isLocationIndexed(capabilities: unknown): boolean {
+  const parsed = typeof capabilities === 'string' ? safeJsonParse(capabilities) : capabilities
+  const data = (parsed as { ocs?: { data?: { capabilities?: unknown } } } | null)?.ocs?.data?.capabilities ?? parsed
+  const property = (data as { search?: { property?: Record<string, { enabled?: unknown }> } } | null)?.search?.property
+  return property?.[LOCATION_CAPABILITY]?.enabled === true
+}
+
+function safeJsonParse(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return null
+  }
+}
+
+const DECIMAL = '([+-]?\\d+(?:\\.\\d+)?)'
+const COMPASS_PATTERN = new RegExp(`^${DECIMAL}\\s*°?\\s*([NSns])[\\s,;]+${DECIMAL}\\s*°?\\s*([EWew])$`)
+const DECIMAL_PAIR_PATTERN = new RegExp(`^${DECIMAL}\\s*°?\\s*[\\s,;]\\s*${DECIMAL}\\s*°?$`)
+
+/**
+ * Parse typed coordinates: `41.3784, 2.1925` (latitude first) or
+ * `41.3784° N, 2.1925° E`
+ *
+ * @returns The point, or null if the text isn't a valid pair
+ */
+export function parseCoordinates(text: string): GeoPoint | null {
+  const trimmed = text.trim()
+  let latitude: number
+  let longitude: number
+
+  const compass = trimmed.match(COMPASS_PATTERN)
+  const pair = compass ? null : trimmed.match(DECIMAL_PAIR_PATTERN)
+  if (compass) {
+    latitude = parseFloat(compass[1]) * (compass[2].toUpperCase() === 'S' ? -1 : 1)
+    longitude = parseFloat(compass[3]) * (compass[4].toUpperCase() === 'W' ? -1 : 1)
+  } else if (pair) {
+    latitude = parseFloat(pair[1])
+    longitude = parseFloat(pair[2])
+  } else {
+    return null
+  }
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null
+  return { latitude, longitude }
+}
+
+/**
+ * How a search applies its location filter: the filters to compile into
+ * the query, and what's left to check on the results
+ */
+export interface LocationFilterPlan {
+  /** Filters for the server query (without the location if the server can't apply it) */
+  serverFilters: SearchFilters
+  /** Location check to apply to the results, null if the server did it all */
+  client: { filter: LocationFilter; negated: boolean } | null
+}
+
+/**
+ * Split a location filter between server and client. Servers with a
+ * location index get the bounding box (also negated); a radius is refined
+ * on the results, and a negated radius is left to the client entirely
+ * (excluding its box would also drop the box's corners).
+ */
+export function planLocationFilter(filters: SearchFilters, indexed: boolean): LocationFilterPlan {
+  const location = filters.photo.location
+  if (!location) return { serverFilters: filters, client: null }
+
+  const negated = (filters.negated || []).includes('location')
+  const onServer = indexed && (!negated || location.type === 'box')
+  return {
+    serverFilters: onServer ? filters : withoutLocation(filters),
+    client: !onServer || location.type === 'radius' ? { filter: location, negated } : null,
+  }
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import type { Resource } from '@ownclouders/web-client'
+import {
+  createPagingState,
+  parseContentRangeTotal,
+  getPageRequest,
+  isOffsetIgnored,
+  applyPage,
+  sumTotals,
+} from './paging'
+
+function resource(id: string, fileId = id): Resource {
+  return { id, fileId, name: id } as Resource
+}
+
+function resources(...ids: string[]): Resource[] {
+  return ids.map(id => resource(id))
+}
+
+describe('parseContentRangeTotal', () => {
+  it('reads the total of a range', () => {
+    expect(parseContentRangeTotal('rows 0-99/1234')).toBe(1234)
+    expect(parseContentRangeTotal('items 100-199/250')).toBe(250)
+    expect(parseContentRangeTotal('*/42')).toBe(42)
+  })
+
+  it('reads the oCIS "rest" form', () => {
+    expect(parseContentRangeTotal('rest 17')).toBe(17)
+  })
+
+  it('returns null without a known total', () => {
+    expect(parseContentRangeTotal(undefined)).toBeNull()
+    expect(parseContentRangeTotal('rows 0-99/*')).toBeNull()
+    expect(parseContentRangeTotal('garbage')).toBeNull()
+  })
+})
+
+describe('getPageRequest', () => {
+  it('continues at the received offset', () => {
+    expect(getPageRequest({ ...createPagingState('s'), received: 2 }, 2)).toEqual({ offset: 2, limit: 2 })
+  })
+
+  it('asks for a bigger limit in cursor mode', () => {
+    const state = { ...createPagingState('s'), received: 2, offsetSupported: false }
+    expect(getPageRequest(state, 2)).toEqual({ offset: 0, limit: 4 })
+  })
+
+  it('returns null for an exhausted space', () => {
+    expect(getPageRequest({ ...createPagingState('s'), exhausted: true }, 2)).toBeNull()
+  })
+})
+
+describe('isOffsetIgnored', () => {
+  const seen = new Set(['a', 'b'])
+
+  it('detects a repeated first page', () => {
+    expect(isOffsetIgnored({ offset: 2, limit: 2 }, resources('a', 'b'), seen)).toBe(true)
+  })
+
+  it('accepts a page with new results', () => {
+    expect(isOffsetIgnored({ offset: 2, limit: 2 }, resources('b', 'c'), seen)).toBe(false)
+  })
+
+  it('never applies to the first page or empty pages', () => {
+    expect(isOffsetIgnored({ offset: 0, limit: 2 }, resources('a', 'b'), seen)).toBe(false)
+    expect(isOffsetIgnored({ offset: 2, limit: 2 }, [], seen)).toBe(false)
+  })
+})
+
+describe('applyPage', () => {
+  it('advances the offset and keeps the total', () => {
+    const seen = new Set<string>()
+    const { state, items } = applyPage(createPagingState('s'), { offset: 0, limit: 2 }, resources('a', 'b'), 5, seen)
+    expect(items.map(i => i.id)).toEqual(['a', 'b'])
+    expect(state).toMatchObject({ received: 2, total: 5, exhausted: false })
+    expect([...seen]).toEqual(['a', 'b'])
+  })
+
+  it('drops results already seen, by fileId', () => {
+    const seen = new Set(['a'])
+    const { items } = applyPage(createPagingState('s'), { offset: 0, limit: 3 }, [resource('x', 'a'), resource('b')], null, seen)
+    expect(items.map(i => i.id)).toEqual(['b'])
+  })
+
+  it('is exhausted by a short page or the reported total', () => {
+    const short = applyPage(createPagingState('s'), { offset: 0, limit: 3 }, resources('a'), null, new Set())
+    expect(short.state.exhausted).toBe(true)
+    const complete = applyPage(createPagingState('s'), { offset: 0, limit: 2 }, resources('a', 'b'), 2, new Set())
+    expect(complete.state.exhausted).toBe(true)
+  })
+
+  it('takes only the new tail in cursor mode', () => {
+    const seen = new Set(['a', 'b'])
+    const state = { ...createPagingState('s'), received: 2, offsetSupported: false }
+    const result = applyPage(state, { offset: 0, limit: 4 }, resources('a', 'b', 'c', 'd'), null, seen)
+    expect(result.items.map(i => i.id)).toEqual(['c', 'd'])
+    expect(result.state).toMatchObject({ received: 4, exhausted: false })
+  })
+})
+
+describe('sumTotals', () => {
+  it('adds up the totals of all spaces', () => {
+    expect(sumTotals([{ ...createPagingState('a'), total: 3 }, { ...createPagingState('b'), total: 4 }])).toBe(7)
+  })
+
+  it('is unknown if any space has no total', () => {
+    expect(sumTotals([{ ...createPagingState('a'), total: 3 }, createPagingState('b')])).toBeNull()
+    expect(sumTotals([])).toBeNull()
+  })
+})
@@ -0,0 +1,116 @@
+/**
+ * Per-space paging for search results.
+ *
+ * Each searched space pages independently. Pages are requested with an
+ * offset; servers that ignore the offset (they return the first page again)
+ * are detected and switched to a cursor strategy that requests a bigger
+ * limit and keeps only results not seen yet, de-duplicated by fileId.
+ */
+
+import type { Resource } from '@ownclouders/web-client'
+
+/**
+ * Paging progress of one space
+ */
+export interface SpacePagingState {
+  spaceId: string
+  /** Results received so far (the next offset) */
+  received: number
+  /** Total matches reported by the server, null if unknown */
+  total: number | null
+  /** Cleared once the server is seen ignoring offsets */
+  offsetSupported: boolean
+  /** No more results in this space */
+  exhausted: boolean
+}
+
+/**
+ * Offset and limit for the next request of a space
+ */
+export interface PageRequest {
+  offset: number
+  limit: number
+}
+
+export function createPagingState(spaceId: string): SpacePagingState {
+  return { spaceId, received: 0, total: null, offsetSupported: true, exhausted: false }
+}
+
+/**
+ * Key used to de-duplicate results across pages and spaces
+ */
+export function resultKey(item: Pick<Resource, 'id' | 'fileId'>): string {
+  return item.fileId || item.id
+}
+
+/**
+ * Read the total match count from a REPORT response's Content-Range header.
+ * Accepts `rows 0-99/1234`, `items 0-99/1234` and oCIS' `rest 1234` forms.
+ *
+ * @returns null if the header is missing or has no (known) total
+ */
+export function parseContentRangeTotal(header: string | null | undefined): number | null {
+  if (!header) return null
+  const match = header.trim().match(/^(?:\w+\s+)?(?:\d+-\d+|\*)\/(\d+)$/) || header.trim().match(/^rest\s+(\d+)$/)
+  return match ? parseInt(match[1], 10) : null
+}
+
+/**
+ * The request for a space's next page, or null if the space is exhausted
+ */
+export function getPageRequest(state: SpacePagingState, pageSize: number): PageRequest | null {
+  if (state.exhausted) return null
+  return state.offsetSupported
+    ? { offset: state.received, limit: pageSize }
+    : { offset: 0, limit: state.received + pageSize }
+}
+
+/**
+ * Whether a later page consists only of results we already have, i.e. the
+ * server ignored the offset and returned the first page again
+ *
+ * @param seen - Keys of all results received before this request
+ */
+export function isOffsetIgnored(request: PageRequest, items: Resource[], seen: Set<string>): boolean {
+  return request.offset > 0 && items.length > 0 && items.every(item => seen.has(resultKey(item)))
+}
+
+/**
+ * Apply one response to a space's paging state.
+ *
+ * @param seen - Keys of all results received so far (any space); new keys are added
+ * @returns The updated state and the results not seen before
+ */
+export function applyPage(
+  state: SpacePagingState,
+  request: PageRequest,
+  items: Resource[],
+  total: number | null,
+  seen: Set<string>
+): { state: SpacePagingState; items: Resource[] } {
+  const fresh: Resource[] = []
+  for (const item of items) {
+    const key = resultKey(item)
+    if (seen.has(key)) continue
+    seen.add(key)
+    fresh.push(item)
+  }
+
+  const received = request.offset + items.length
+  const knownTotal = total ?? state.total
+  const exhausted = items.length < request.limit
+    || (knownTotal !== null && received >= knownTotal)
+
+  return {
+    state: { ...state, received, total: knownTotal, exhausted },
+    items: fresh,
+  }
+}
+
+/**
+ * Total matches across spaces, or null unless every space reported one
+ */
+export function sumTotals(states: SpacePagingState[]): number | null {
+  if (states.length === 0 || states.some(s => s.total === null)) return null
+  return states.reduce((sum, s) => sum + (s.total as number), 0)
+}
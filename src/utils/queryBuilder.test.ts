@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import {
+  kqlToBuilderTree,
+  builderTreeToKql,
+  applyBuilderAction,
+  createBuilderRule,
+  createBuilderGroup,
+  getBuilderField,
+} from './queryBuilder'
+
+describe('kqlToBuilderTree', () => {
+  it('returns an empty AND group for empty and match-all queries', () => {
+    expect(kqlToBuilderTree('')).toMatchObject({ kind: 'group', combinator: 'and', children: [] })
+    expect(kqlToBuilderTree('*').children).toEqual([])
+  })
+
+  it('wraps a single rule in a root group', () => {
+    const tree = kqlToBuilderTree('size>=1000')
+    expect(tree.children).toMatchObject([{ kind: 'rule', field: 'size', operator: '>=', value: '1000' }])
+  })
+
+  it('builds nested groups and negated rules', () => {
+    const tree = kqlToBuilderTree('Type:1 AND (tags:a OR tags:b) AND NOT name:*draft*')
+    expect(tree).toMatchObject({
+      combinator: 'and',
+      children: [
+        { kind: 'rule', field: 'Type', value: '1' },
+        { kind: 'group', combinator: 'or', children: [{ value: 'a' }, { value: 'b' }] },
+        { kind: 'rule', field: 'name', value: '*draft*', negated: true },
+      ],
+    })
+  })
+
+  it('keeps unsupported constructs as raw nodes', () => {
+    const tree = kqlToBuilderTree('report AND owner:alice AND size:1..5 AND Type:file AND NOT NOT name:a')
+    expect(tree.children.map(c => c.kind)).toEqual(['raw', 'raw', 'raw', 'raw', 'raw'])
+    expect(tree.children[1]).toMatchObject({ kql: 'owner:alice' })
+  })
+
+  it('keeps unparseable KQL as a single raw node', () => {
+    expect(kqlToBuilderTree('name:(').children).toMatchObject([{ kind: 'raw', kql: 'name:(' }])
+  })
+
+  it('matches field names case-insensitively', () => {
+    expect(kqlToBuilderTree('type:2').children[0]).toMatchObject({ kind: 'rule', field: 'Type' })
+    expect(getBuilderField('PHOTO.ISO')?.valueType).toBe('number')
+  })
+})
+
+describe('builderTreeToKql', () => {
+  const roundTrips = [
+    'name:*.pdf',
+    'Type:1 AND (tags:a OR tags:b) AND NOT name:*draft*',
+    'NOT (photo.iso>=100 AND photo.iso<=800) OR content:"annual report"',
+    'mtime>=2024-01-01 AND owner:alice',
+    'mediatype:image\\/*',
+  ]
+
+  for (const query of roundTrips) {
+    it(`round-trips ${query}`, () => {
+      expect(builderTreeToKql(kqlToBuilderTree(query))).toBe(query)
+    })
+  }
+
+  it('leaves out empty rules and groups', () => {
+    const rule = { ...createBuilderRule('name'), value: '*.pdf' }
+    const tree = createBuilderGroup('or', [createBuilderRule('tags'), createBuilderGroup('and'), rule])
+    expect(builderTreeToKql(tree)).toBe('name:*.pdf')
+    expect(builderTreeToKql(createBuilderGroup())).toBe('')
+  })
+
+  it('escapes text values and quotes values with spaces', () => {
+    const tree = createBuilderGroup('and', [
+      { ...createBuilderRule('name'), value: 'file (1)' },
+      { ...createBuilderRule('tags'), value: 'a:b' },
+    ])
+    expect(builderTreeToKql(tree)).toBe('name:"file (1)" AND tags:a\\:b')
+  })
+})
+
+describe('applyBuilderAction', () => {
+  it('adds, updates and removes nodes without mutating the tree', () => {
+    const root = createBuilderGroup('and')
+    const rule = createBuilderRule('size')
+
+    const added = applyBuilderAction(root, { type: 'add', groupId: root.id, node: rule })
+    expect(root.children).toHaveLength(0)
+    expect(added.children).toHaveLength(1)
+
+    const updated = applyBuilderAction(added, { type: 'update', id: rule.id, changes: { operator: '<', value: '10' } })
+    expect(builderTreeToKql(updated)).toBe('size<10')
+
+    const removed = applyBuilderAction(updated, { type: 'remove', id: rule.id })
+    expect(removed.children).toHaveLength(0)
+  })
+
+  it('edits nested groups', () => {
+    const inner = createBuilderGroup('and', [{ ...createBuilderRule('tags'), value: 'a' }, { ...createBuilderRule('tags'), value: 'b' }])
+    const root = createBuilderGroup('and', [inner])
+    const tree = applyBuilderAction(root, { type: 'update', id: inner.id, changes: { combinator: 'or', negated: true } })
+    expect(builderTreeToKql(tree)).toBe('NOT (tags:a OR tags:b)')
+  })
+
+  it('never removes the root group', () => {
+    const root = createBuilderGroup('and')
+    expect(applyBuilderAction(root, { type: 'remove', id: root.id })).toBe(root)
+  })
+})
@@ -0,0 +1,271 @@
+/**
+ * Visual query builder model and its conversion to and from KQL.
+ *
+ * The builder edits a tree of rules (field, operator, value) nested in
+ * AND/OR groups. It reads and writes the same KQL as the raw KQL editor,
+ * going through the AST in kqlParser.ts, so users can switch between the
+ * two freely. Clauses the builder can't edit become read-only raw nodes
+ * and are passed through unchanged.
+ */
+
+import type {
+  KqlNode,
+  KqlOperator,
+  QueryBuilderGroup,
+  QueryBuilderNode,
+  QueryBuilderRaw,
+  QueryBuilderRule,
+} from '../types'
+import { escapeKQL, parseUserKql } from './kql'
+import {
+  parseKql,
+  serializeKql,
+  unwrapGroups,
+  kqlTerm,
+  kqlPhrase,
+  kqlRestriction,
+  kqlBoolean,
+  kqlGroup,
+  kqlNot,
+  KqlSyntaxError,
+} from './kqlParser'
+
+/**
+ * Kind of input shown for a rule value
+ */
+export type QueryBuilderValueType = 'text' | 'number' | 'date' | 'choice'
+
+/**
+ * A field that can be picked in a rule row
+ */
+export interface QueryBuilderField {
+  /** KQL field name as written in queries */
+  field: string
+  /** Display label (untranslated) */
+  label: string
+  valueType: QueryBuilderValueType
+  /** Allowed values for 'choice' fields */
+  options?: { value: string; label: string }[]
+}
+
+/**
+ * Fields offered by the builder, in display order.
+ * Mirrors the fields the filter form compiles to (see buildKQLAst).
+ */
+export const QUERY_BUILDER_FIELDS: QueryBuilderField[] = [
+  { field: 'name', label: 'Name', valueType: 'text' },
+  {
+    field: 'Type',
+    label: 'Type',
+    valueType: 'choice',
+    options: [
+      { value: '1', label: 'File' },
+      { value: '2', label: 'Folder' },
+    ],
+  },
+  { field: 'mediatype', label: 'Media Type', valueType: 'text' },
+  { field: 'size', label: 'Size (bytes)', valueType: 'number' },
+  { field: 'mtime', label: 'Modified', valueType: 'date' },
+  { field: 'tags', label: 'Tags', valueType: 'text' },
+  { field: 'content', label: 'Content', valueType: 'text' },
+  { field: 'path', label: 'Path', valueType: 'text' },
+  { field: 'photo.cameramake', label: 'Camera Make', valueType: 'text' },
+  { field: 'photo.cameramodel', label: 'Camera Model', valueType: 'text' },
+  { field: 'photo.takendatetime', label: 'Date Taken', valueType: 'date' },
+  { field: 'photo.iso', label: 'ISO', valueType: 'number' },
+  { field: 'photo.fnumber', label: 'Aperture (f/)', valueType: 'number' },
+  { field: 'photo.focallength', label: 'Focal Length (mm)', valueType: 'number' },
+  { field: 'photo.orientation', label: 'Orientation', valueType: 'number' },
+]
+
+/**
+ * Operator labels shown in rule rows (untranslated)
+ */
+export const QUERY_BUILDER_OPERATOR_LABELS: Record<KqlOperator, string> = {
+  ':': 'is',
+  '=': 'is',
+  '>=': '≥',
+  '<=': '≤',
+  '>': '>',
+  '<': '<',
+}
+
+const TEXT_OPERATORS: KqlOperator[] = [':']
+const COMPARISON_OPERATORS: KqlOperator[] = [':', '>=', '<=', '>', '<']
+
+/**
+ * Look up a builder field by KQL name (case-insensitive, as oCIS treats field names)
+ */
+export function getBuilderField(field: string): QueryBuilderField | undefined {
+  const lower = field.toLowerCase()
+  return QUERY_BUILDER_FIELDS.find(f => f.field.toLowerCase() === lower)
+}
+
+/**
+ * Operators that make sense for a field
+ */
+export function getBuilderOperators(field: QueryBuilderField): KqlOperator[] {
+  return field.valueType === 'number' || field.valueType === 'date' ? COMPARISON_OPERATORS : TEXT_OPERATORS
+}
+
+let nodeIdCounter = 0
+
+function nextNodeId(): string {
+  nodeIdCounter += 1
+  return `qb-${nodeIdCounter}`
+}
+
+export function createBuilderRule(field = 'name'): QueryBuilderRule {
+  return { kind: 'rule', id: nextNodeId(), field, operator: ':', value: '', negated: false }
+}
+
+export function createBuilderGroup(
+  combinator: QueryBuilderGroup['combinator'] = 'and',
+  children: QueryBuilderNode[] = []
+): QueryBuilderGroup {
+  return { kind: 'group', id: nextNodeId(), combinator, negated: false, children }
+}
+
+export function createBuilderRaw(kql: string): QueryBuilderRaw {
+  return { kind: 'raw', id: nextNodeId(), kql }
+}
+
+/**
+ * Convert an AST node into a builder node, falling back to a raw node
+ */
+function toBuilderNode(node: KqlNode): QueryBuilderNode {
+  const inner = unwrapGroups(node)
+
+  if (inner.type === 'and' || inner.type === 'or') {
+    return createBuilderGroup(inner.type, inner.children.map(toBuilderNode))
+  }
+
+  if (inner.type === 'not') {
+    const child = toBuilderNode(inner.child)
+    if (child.kind !== 'raw' && !child.negated) {
+      return { ...child, negated: true }
+    }
+  }
+
+  if (inner.type === 'restriction' && inner.value.type !== 'range') {
+    const field = getBuilderField(inner.field)
+    const value = inner.value.value
+    const representable = field
+      && getBuilderOperators(field).includes(inner.operator)
+      && (field.valueType !== 'choice' || field.options?.some(o => o.value === value))
+    if (field && representable) {
+      return { ...createBuilderRule(field.field), operator: inner.operator, value }
+    }
+  }
+
+  return createBuilderRaw(serializeKql(inner))
+}
+
+/**
+ * Build a builder tree from KQL. The root is always a group; queries that
+ * fail to parse become a single raw node.
+ *
+ * @throws Never for syntax errors (other errors are rethrown)
+ */
+export function kqlToBuilderTree(kql: string): QueryBuilderGroup {
+  const text = kql.trim()
+  if (!text || text === '*') {
+    return createBuilderGroup('and')
+  }
+
+  let ast: KqlNode | null
+  try {
+    ast = parseKql(text)
+  } catch (err) {
+    if (err instanceof KqlSyntaxError) {
+      return createBuilderGroup('and', [createBuilderRaw(text)])
+    }
+    throw err
+  }
+  if (!ast) {
+    return createBuilderGroup('and')
+  }
+
+  const node = toBuilderNode(ast)
+  return node.kind === 'group' && !node.negated ? node : createBuilderGroup('and', [node])
+}
+
+/**
+ * Turn a rule value into a term or phrase.
+ * Numbers and dates come from typed inputs and are used as is; text is
+ * escaped like filter values (wildcards kept, phrases for whitespace).
+ */
+function buildRuleValue(rule: QueryBuilderRule) {
+  const value = rule.value.trim()
+  const valueType = getBuilderField(rule.field)?.valueType ?? 'text'
+  if (valueType !== 'text') {
+    return kqlTerm(value)
+  }
+  return /\s/.test(value) ? kqlPhrase(value) : kqlTerm(escapeKQL(value))
+}
+
+function builderNodeToAst(node: QueryBuilderNode, nested: boolean): KqlNode | null {
+  if (node.kind === 'raw') {
+    return parseUserKql(node.kql)
+  }
+
+  if (node.kind === 'rule') {
+    if (!node.value.trim()) return null
+    const restriction = kqlRestriction(node.field, node.operator, buildRuleValue(node))
+    return node.negated ? kqlNot(restriction) : restriction
+  }
+
+  const children = node.children
+    .map(child => builderNodeToAst(child, true))
+    .filter((child): child is KqlNode => child !== null)
+  if (children.length === 0) return null
+
+  const joined = kqlBoolean(node.combinator, children)
+  // Parenthesize nested groups so the text mirrors the builder's nesting
+  const grouped = nested && children.length > 1 ? kqlGroup(joined) : joined
+  return node.negated ? kqlNot(grouped) : grouped
+}
+
+/**
+ * Serialize a builder tree to KQL.
+ * Rules without a value and empty groups are left out.
+ *
+ * @returns KQL string, or '' if the tree has no complete rules
+ */
+export function builderTreeToKql(root: QueryBuilderGroup): string {
+  const ast = builderNodeToAst(root, false)
+  return ast ? serializeKql(ast) : ''
+}
+
+/**
+ * Edit emitted by builder components, applied at the root by applyBuilderAction
+ */
+export type QueryBuilderAction =
+  | { type: 'update'; id: string; changes: Partial<Omit<QueryBuilderRule, 'kind' | 'id'>> | Partial<Pick<QueryBuilderGroup, 'combinator' | 'negated'>> }
+  | { type: 'remove'; id: string }
+  | { type: 'add'; groupId: string; node: QueryBuilderNode }
+
+function applyToNode(node: QueryBuilderNode, action: QueryBuilderAction): QueryBuilderNode | null {
+  if (action.type === 'remove' && node.id === action.id) return null
+  if (action.type === 'update' && node.id === action.id && node.kind !== 'raw') {
+    return { ...node, ...action.changes } as QueryBuilderNode
+  }
+  if (node.kind !== 'group') return node
+
+  const children = node.children
+    .map(child => applyToNode(child, action))
+    .filter((child): child is QueryBuilderNode => child !== null)
+  if (action.type === 'add' && node.id === action.groupId) {
+    children.push(action.node)
+  }
+  return { ...node, children }
+}
+
+/**
+ * Apply an edit to a builder tree, returning a new tree.
+ * Raw nodes can only be removed; the root group can't be removed.
+ */
+export function applyBuilderAction(root: QueryBuilderGroup, action: QueryBuilderAction): QueryBuilderGroup {
+  const result = applyToNode(root, action)
+  return result && result.kind === 'group' ? result : root
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import type { SearchResource } from '../types'
+import { matchesRefinement, parseRefineTerms, refineItems, splitHighlights } from './refine'
+
+const photo = {
+  id: '1',
+  name: 'IMG_0042.jpg',
+  path: '/Holidays/Beach/IMG_0042.jpg',
+  tags: ['Summer'],
+  photo: { cameraMake: 'Canon', cameraModel: 'EOS R5' },
+} as SearchResource
+const report = { id: '2', name: 'Report.pdf', path: '/Work/Report.pdf' } as SearchResource
+
+describe('parseRefineTerms', () => {
+  it('splits words and keeps quoted phrases', () => {
+    expect(parseRefineTerms('  Beach  "EOS R5" canon beach ')).toEqual(['beach', 'eos r5', 'canon'])
+    expect(parseRefineTerms('"unclosed phrase')).toEqual(['unclosed phrase'])
+    expect(parseRefineTerms('""  ')).toEqual([])
+  })
+})
+
+describe('matchesRefinement', () => {
+  it('requires every term in the name, path, tags or camera', () => {
+    expect(matchesRefinement(photo, ['holidays', 'summer'])).toBe(true)
+    expect(matchesRefinement(photo, ['eos r5', '0042'])).toBe(true)
+    expect(matchesRefinement(photo, ['canon', 'work'])).toBe(false)
+    expect(matchesRefinement(report, [])).toBe(true)
+  })
+
+  it('keeps the order of the results', () => {
+    expect(refineItems([photo, report], ['jpg'])).toEqual([photo])
+    expect(refineItems([photo, report], ['r'])).toEqual([photo, report])
+  })
+})
+
+describe('splitHighlights', () => {
+  it('marks every occurrence, merging overlaps', () => {
+    expect(splitHighlights('Banana', ['an'])).toEqual([
+      { text: 'B', match: false },
+      { text: 'anan', match: true },
+      { text: 'a', match: false },
+    ])
+    expect(splitHighlights('Report 2024', ['rep', 'port', '2024'])).toEqual([
+      { text: 'Report', match: true },
+      { text: ' ', match: false },
+      { text: '2024', match: true },
+    ])
+  })
+
+  it('returns the text unmarked without matches', () => {
+    expect(splitHighlights('Report', ['x'])).toEqual([{ text: 'Report', match: false }])
+    expect(splitHighlights('', ['x'])).toEqual([])
+  })
+})
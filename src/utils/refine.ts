@@ -0,0 +1,98 @@
+/**
+ * Refining the loaded results by typing, without a new search.
+ *
+ * The refine text is split into terms (quoted phrases stay together); a
+ * result matches when every term occurs, case-insensitively, in its name,
+ * path, one of its tags or its camera make or model. Matches in displayed
+ * text are highlighted with `splitHighlights()`.
+ *
+ * The same terms can become a server-side KQL clause (`buildRefineKQL()` in
+ * utils/kql.ts).
+ */
+
+import type { SearchResource } from '../types'
+
+/**
+ * Terms of a refine text, lower-cased; `"two words"` is one term
+ */
+export function parseRefineTerms(text: string): string[] {
+  const terms: string[] = []
+  for (const match of text.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    const term = (match[1] ?? match[2]).trim().toLowerCase()
+    if (term && !terms.includes(term)) terms.push(term)
+  }
+  return terms
+}
+
+/**
+ * Text of a result that refine terms are matched against
+ */
+export function getRefineFields(item: SearchResource): string[] {
+  return [
+    item.name,
+    item.path,
+    ...(item.tags || []),
+    item.photo?.cameraMake,
+    item.photo?.cameraModel,
+  ].filter((field): field is string => !!field)
+}
+
+/**
+ * Whether every term occurs in one of the result's fields
+ */
+export function matchesRefinement(item: SearchResource, terms: string[]): boolean {
+  if (terms.length === 0) return true
+  const fields = getRefineFields(item).map(field => field.toLowerCase())
+  return terms.every(term => fields.some(field => field.includes(term)))
+}
+
+/**
+ * Results matching all terms, in their order
+ */
+export function refineItems(items: SearchResource[], terms: string[]): SearchResource[] {
+  return terms.length === 0 ? items : items.filter(item => matchesRefinement(item, terms))
+}
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+/**
+ * Split text into matching and non-matching segments; overlapping and
+ * adjacent matches are merged
+ */
+export function splitHighlights(text: string, terms: string[]): HighlightSegment[] {
+  if (!text) return []
+  const lower = text.toLowerCase()
+  const ranges: Array<[number, number]> = []
+  for (const term of terms) {
+    let index = lower.indexOf(term)
+    while (term && index !== -1) {
+      ranges.push([index, index + term.length])
+      index = lower.indexOf(term, index + 1)
+    }
+  }
+  if (ranges.length === 0) return [{ text, match: false }]
+
+  ranges.sort((a, b) => a[0] - b[0])
+  const merged: Array<[number, number]> = []
+  for (const range of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([...range])
+    }
+  }
+
+  const segments: HighlightSegment[] = []
+  let position = 0
+  for (const [start, end] of merged) {
+    if (start > position) segments.push({ text: text.slice(position, start), match: false })
+    segments.push({ text: text.slice(start, end), match: true })
+    position = end
+  }
+  if (position < text.length) segments.push({ text: text.slice(position), match: false })
+  return segments
+}
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest'
+import { createEmptyFilters } from '../types'
+import type { SavedQuery } from '../types'
+import {
+  SAVED_QUERIES_SCHEMA_VERSION,
+  SavedQueryFormatError,
+  mergeSavedQueries,
+  parseSavedQueries,
+  serializeSavedQueries,
+  validateSavedQuery,
+} from './savedQueries'
+
+function query(id: string, name = id): SavedQuery {
+  return { id, name, filters: createEmptyFilters(), savedAt: '2024-01-01T00:00:00.000Z' }
+}
+
+const ids = (queries: SavedQuery[]) => queries.map(q => q.id)
+
+describe('parseSavedQueries', () => {
+  it('round-trips the versioned format', () => {
+    const queries = [query('a'), query('b')]
+    expect(JSON.parse(serializeSavedQueries(queries)).version).toBe(SAVED_QUERIES_SCHEMA_VERSION)
+    expect(parseSavedQueries(serializeSavedQueries(queries))).toEqual({ queries, errors: [], version: SAVED_QUERIES_SCHEMA_VERSION })
+  })
+
+  it('migrates the unversioned array format', () => {
+    const legacy = [
+      { id: 'old', name: 'Old', filters: { term: 'beach', standard: { name: '*.jpg' } }, savedAt: '2023-05-01T10:00:00.000Z' },
+      { name: 'No ID', filters: { photo: { cameraMake: 'Canon' } } },
+    ]
+    const { queries, errors, version } = parseSavedQueries(JSON.stringify(legacy))
+    expect(version).toBe(0)
+    expect(errors).toEqual([])
+    expect(queries[0]).toEqual({
+      ...legacy[0],
+      filters: { term: 'beach', scope: 'allFiles', standard: { name: '*.jpg' }, photo: {} },
+    })
+    expect(queries[1].id).toMatch(/^query_/)
+    expect(queries[1].filters).toEqual({ scope: 'allFiles', standard: {}, photo: { cameraMake: 'Canon' } })
+  })
+
+  it('migrates version 1 files, which had no alerts', () => {
+    const { queries, version } = parseSavedQueries({ version: 1, queries: [query('a')] })
+    expect(version).toBe(1)
+    expect(queries).toEqual([query('a')])
+    expect(validateSavedQuery({ ...query('a'), notify: true })).toEqual([])
+    expect(validateSavedQuery({ ...query('a'), pinned: true, folder: 'Work', lastRunAt: '2024-05-01T08:00:00.000Z', runCount: 4 })).toEqual([])
+  })
+
+  it('migrates version 3 files, which had no location filter', () => {
+    const { queries, version } = parseSavedQueries({ version: 3, queries: [query('a')] })
+    expect(version).toBe(3)
+    expect(queries).toEqual([query('a')])
+  })
+
+  it('migrates version 4 files and checks alert snapshots', () => {
+    const { queries, version } = parseSavedQueries({ version: 4, queries: [query('a')] })
+    expect(version).toBe(4)
+    expect(queries).toEqual([query('a')])
+
+    const snapshot = { fileIds: ['f1'], checkedAt: '2024-05-01T08:00:00.000Z', unread: ['f1'], filtersKey: '{}', complete: true }
+    expect(validateSavedQuery({ ...query('a'), notify: true, snapshot })).toEqual([])
+    expect(validateSavedQuery({ ...query('a'), snapshot: { ...snapshot, unread: 'f1' } }))
+      .toEqual(['query.snapshot.unread must be a list of strings'])
+  })
+
+  it('round-trips location filters', () => {
+    const located = {
+      ...query('a'),
+      filters: { ...createEmptyFilters(), photo: { location: { type: 'radius' as const, latitude: 41.38, longitude: 2.19, radiusKm: 5 } } },
+    }
+    expect(parseSavedQueries(serializeSavedQueries([located])).queries).toEqual([located])
+  })
+
+  it('skips invalid entries and reports what is wrong with each', () => {
+    const bad = {
+      ...query('b', 'Bad'),
+      filters: { ...createEmptyFilters(), scope: 'everywhere', standard: { sizeRange: { min: '1MB' } }, extra: 1 },
+    }
+    const { queries, errors } = parseSavedQueries({ version: 1, queries: [query('a'), bad, null] })
+    expect(queries).toEqual([query('a')])
+    expect(errors).toEqual([
+      {
+        index: 1,
+        name: 'Bad',
+        messages: [
+          'query.filters.scope must be one of "allFiles", "currentFolder", "space"',
+          'query.filters.standard.sizeRange.min must be a number',
+          'query.filters.extra is not a known field',
+        ],
+      },
+      { index: 2, messages: ['query must be an object'] },
+    ])
+  })
+
+  it('rejects content that is not a saved queries file', () => {
+    expect(() => parseSavedQueries('{oops')).toThrow(SavedQueryFormatError)
+    expect(() => parseSavedQueries({ version: 1 })).toThrow('Not a saved searches file')
+    expect(() => parseSavedQueries({ version: 99, queries: [] })).toThrow('version 99 is not supported')
+  })
+})
+
+describe('validateSavedQuery', () => {
+  it('accepts fully populated filters', () => {
+    const filters = {
+      ...createEmptyFilters(),
+      term: 'x',
+      scope: 'currentFolder',
+      scopeTarget: { spaceId: 's', path: '/Photos', fileId: 'f' },
+      standard: { type: 'file', modifiedRange: { start: '2024-01-01', end: '' }, includeHidden: true },
+      photo: { isoRange: { min: 100, max: 800 }, orientation: 6 },
+      raw: 'tag:x',
+      negated: ['type'],
+      match: 'any',
+    }
+    expect(validateSavedQuery({ ...query('a'), filters })).toEqual([])
+  })
+
+  it('requires the core fields', () => {
+    expect(validateSavedQuery({ name: ' ', runCount: -1, filters: { scope: 'space', standard: {}, photo: { orientation: 9 } } })).toEqual([
+      'query.id is missing',
+      'query.savedAt is missing',
+      'query.runCount must be a whole number from 0 to 9007199254740991',
+      'query.filters.photo.orientation must be a whole number from 1 to 8',
+      'query.name must not be empty',
+    ])
+  })
+
+  it('checks location filters', () => {
+    const withLocation = (location: unknown) =>
+      validateSavedQuery({ ...query('a'), filters: { ...createEmptyFilters(), photo: { location } } })
+
+    expect(withLocation({ type: 'box', north: 42, south: 41, east: 3, west: 2 })).toEqual([])
+    expect(withLocation({ type: 'box', north: 42, south: 41, east: -170, west: 170 })).toEqual([])
+    expect(withLocation({ type: 'circle' })).toEqual(['query.filters.photo.location.type must be one of "box", "radius"'])
+    expect(withLocation({ type: 'radius', latitude: 41, longitude: 2 })).toEqual(['query.filters.photo.location.radiusKm is missing'])
+    expect(withLocation({ type: 'box', north: 40, south: 41, east: 3, west: 2 })).toEqual([
+      'query.filters.photo.location must have coordinates in range, south not above north',
+    ])
+    expect(withLocation({ type: 'radius', latitude: 41, longitude: 2, radiusKm: 0 })).toEqual([
+      'query.filters.photo.location must have coordinates in range and a positive radius',
+    ])
+  })
+})
+
+describe('mergeSavedQueries', () => {
+  const base = [query('a'), query('b'), query('c')]
+
+  it('keeps additions from both sides, remote ones first', () => {
+    const merged = mergeSavedQueries(base, [query('local'), ...base], [query('remote'), ...base])
+    expect(ids(merged)).toEqual(['remote', 'local', 'a', 'b', 'c'])
+  })
+
+  it('drops queries deleted on either side', () => {
+    expect(ids(mergeSavedQueries(base, [query('a'), query('c')], [query('a'), query('b')]))).toEqual(['a'])
+  })
+
+  it('takes the changed side, local winning when both changed', () => {
+    const local = [query('a', 'local A'), query('b'), query('c', 'local C')]
+    const remote = [query('a'), query('b', 'remote B'), query('c', 'remote C')]
+    expect(mergeSavedQueries(base, local, remote).map(q => q.name)).toEqual(['local A', 'remote B', 'local C'])
+  })
+
+  it('keeps a query changed on one side and deleted on the other', () => {
+    expect(ids(mergeSavedQueries(base, [query('a', 'renamed')], []))).toEqual(['a'])
+    expect(ids(mergeSavedQueries(base, [], [query('b', 'renamed')]))).toEqual(['b'])
+  })
+
+  it('uploads everything on the first sync', () => {
+    expect(ids(mergeSavedQueries([], [query('a')], [query('b')]))).toEqual(['b', 'a'])
+  })
+})
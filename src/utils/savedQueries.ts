@@ -0,0 +1,359 @@
+/**
+ * Saved query schema, migrations, validation and merging.
+ *
+ * Saved queries are kept in localStorage and mirrored to a JSON file in the
+ * user's personal space (backends/davSavedQueryStore.ts); exports use the
+ * same format: `{ "version": <schema version>, "queries": SavedQuery[] }`.
+ * Older payloads are migrated on read and every entry is validated, so a
+ * change to SearchFilters can't break or silently corrupt stored data.
+ *
+ * When both sides changed since the last sync, the lists are merged per
+ * query ID against the last synced list (three-way merge); see
+ * mergeSavedQueries.
+ */
+
+import type { LocationFilter, SavedQuery } from '../types'
+import { isValidLocationFilter } from './locationFilter'
+
+/**
+ * Current schema of stored and exported saved queries.
+ * Bump it when SavedQuery or SearchFilters change shape, and add a
+ * migration from the previous version to SAVED_QUERY_MIGRATIONS.
+ */
+export const SAVED_QUERIES_SCHEMA_VERSION = 5
+
+/**
+ * The stored version changed since it was loaded (e.g. saved from another browser)
+ */
+export class SavedQueryConflictError extends Error {
+  constructor(message = 'Saved searches were changed elsewhere') {
+    super(message)
+    this.name = 'SavedQueryConflictError'
+  }
+}
+
+/**
+ * Stored or exported data that can't be read at all (not JSON, unknown layout, newer schema)
+ */
+export class SavedQueryFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SavedQueryFormatError'
+  }
+}
+
+/**
+ * Problems with one entry of a saved queries payload
+ */
+export interface SavedQueryEntryError {
+  /** 0-based position in the payload */
+  index: number
+  /** The entry's name, if it has one */
+  name?: string
+  messages: string[]
+}
+
+/**
+ * Saved queries read from a payload
+ */
+export interface ParsedSavedQueries {
+  /** Valid entries, migrated to the current schema */
+  queries: SavedQuery[]
+  /** Entries that were skipped */
+  errors: SavedQueryEntryError[]
+  /** Schema version of the payload (0 for the unversioned array format) */
+  version: number
+}
+
+/**
+ * Generate a unique saved query ID
+ */
+export function createSavedQueryId(): string {
+  return `query_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+}
+
+type Payload = { version: number; queries: unknown[] }
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Upgrades from version N (key) to N + 1
+ */
+const SAVED_QUERY_MIGRATIONS: Record<number, (payload: Payload) => Payload> = {
+  // 0: a bare array, entries from before scopes and without guaranteed IDs
+  0: payload => ({
+    version: 1,
+    queries: payload.queries.map(entry => {
+      if (!isObject(entry)) return entry
+      const filters = entry.filters
+      return {
+        ...entry,
+        id: typeof entry.id === 'string' && entry.id ? entry.id : createSavedQueryId(),
+        savedAt: typeof entry.savedAt === 'string' ? entry.savedAt : new Date(0).toISOString(),
+        filters: isObject(filters)
+          ? { scope: 'allFiles', standard: {}, photo: {}, ...filters }
+          : filters,
+      }
+    }),
+  }),
+  // 1: before `notify` (older versions reject unknown fields, so it needs a new version)
+  1: payload => ({ ...payload, version: 2 }),
+  // 2: before pins, folders and run statistics
+  2: payload => ({ ...payload, version: 3 }),
+  // 3: before the location filter
+  3: payload => ({ ...payload, version: 4 }),
+  // 4: before alert snapshots were synced with the queries
+  4: payload => ({ ...payload, version: 5 }),
+}
+
+// Field validators: push a message per problem, `path` names the field
+type Check = (value: unknown, path: string, errors: string[]) => void
+
+const string: Check = (value, path, errors) => {
+  if (typeof value !== 'string') errors.push(`${path} must be a string`)
+}
+
+const boolean: Check = (value, path, errors) => {
+  if (typeof value !== 'boolean') errors.push(`${path} must be true or false`)
+}
+
+const number: Check = (value, path, errors) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) errors.push(`${path} must be a number`)
+}
+
+const date: Check = (value, path, errors) => {
+  if (typeof value !== 'string' || (value !== '' && !/^\d{4}-\d{2}-\d{2}$/.test(value))) {
+    errors.push(`${path} must be a date (YYYY-MM-DD)`)
+  }
+}
+
+const timestamp: Check = (value, path, errors) => {
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) errors.push(`${path} must be a date`)
+}
+
+const integer = (min: number, max: number): Check => (value, path, errors) => {
+  if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+    errors.push(`${path} must be a whole number from ${min} to ${max}`)
+  }
+}
+
+const oneOf = (...options: string[]): Check => (value, path, errors) => {
+  if (!options.includes(value as string)) {
+    errors.push(`${path} must be one of ${options.map(o => `"${o}"`).join(', ')}`)
+  }
+}
+
+const stringList: Check = (value, path, errors) => {
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) errors.push(`${path} must be a list of strings`)
+}
+
+const object = (fields: Record<string, Check>, required: string[] = []): Check => (value, path, errors) => {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`)
+    return
+  }
+  for (const key of required) {
+    if (value[key] === undefined) errors.push(`${path}.${key} is missing`)
+  }
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const check = fields[key]
+    if (!check) {
+      errors.push(`${path}.${key} is not a known field`)
+    } else if (fieldValue !== undefined) {
+      check(fieldValue, `${path}.${key}`, errors)
+    }
+  }
+}
+
+const numericRange = object({ min: number, max: number })
+const dateRange = object({ start: date, end: date })
+
+const locationShapes: Record<LocationFilter['type'], Check> = {
+  box: object({ type: string, north: number, south: number, east: number, west: number }, ['north', 'south', 'east', 'west']),
+  radius: object({ type: string, latitude: number, longitude: number, radiusKm: number }, ['latitude', 'longitude', 'radiusKm']),
+}
+
+const location: Check = (value, path, errors) => {
+  const check = isObject(value) ? locationShapes[value.type as LocationFilter['type']] : undefined
+  if (!check || !isObject(value)) {
+    oneOf('box', 'radius')(isObject(value) ? value.type : undefined, `${path}.type`, errors)
+    return
+  }
+  const before = errors.length
+  check(value, path, errors)
+  if (errors.length === before && !isValidLocationFilter(value as LocationFilter)) {
+    errors.push(value.type === 'box'
+      ? `${path} must have coordinates in range, south not above north`
+      : `${path} must have coordinates in range and a positive radius`)
+  }
+}
+
+const checkFilters = object({
+  term: string,
+  scope: oneOf('allFiles', 'currentFolder', 'space'),
+  scopeTarget: object({ spaceId: string, path: string, fileId: string }, ['spaceId']),
+  standard: object({
+    name: string,
+    type: oneOf('', 'file', 'folder'),
+    sizeRange: numericRange,
+    modifiedRange: dateRange,
+    mediaType: string,
+    tags: string,
+    content: string,
+    path: string,
+    includeHidden: boolean,
+  }),
+  photo: object({
+    cameraMake: string,
+    cameraModel: string,
+    takenDateRange: dateRange,
+    isoRange: numericRange,
+    fNumberRange: numericRange,
+    focalLengthRange: numericRange,
+    orientation: integer(1, 8),
+    location,
+  }),
+  raw: string,
+  negated: stringList,
+  match: oneOf('all', 'any'),
+}, ['scope', 'standard', 'photo'])
+
+const checkSavedQuery = object({
+  id: string,
+  name: string,
+  savedAt: timestamp,
+  notify: boolean,
+  pinned: boolean,
+  folder: string,
+  lastRunAt: timestamp,
+  runCount: integer(0, Number.MAX_SAFE_INTEGER),
+  snapshot: object({
+    fileIds: stringList,
+    checkedAt: timestamp,
+    unread: stringList,
+    filtersKey: string,
+    complete: boolean,
+  }, ['fileIds', 'checkedAt', 'unread']),
+  filters: checkFilters,
+}, ['id', 'name', 'filters', 'savedAt'])
+
+/**
+ * Check one entry against the current schema
+ *
+ * @returns Problems found, empty if the entry is a valid SavedQuery
+ */
+export function validateSavedQuery(value: unknown): string[] {
+  const errors: string[] = []
+  checkSavedQuery(value, 'query', errors)
+  if (isObject(value) && typeof value.name === 'string' && !value.name.trim()) {
+    errors.push('query.name must not be empty')
+  }
+  return errors
+}
+
+/**
+ * Check a filter state (as stored with saved queries and search history)
+ *
+ * @returns Problems found, empty if valid
+ */
+export function validateSearchFilters(value: unknown, path = 'filters'): string[] {
+  const errors: string[] = []
+  checkFilters(value, path, errors)
+  return errors
+}
+
+/**
+ * Serialize saved queries with the current schema version
+ */
+export function serializeSavedQueries(queries: SavedQuery[]): string {
+  return JSON.stringify({ version: SAVED_QUERIES_SCHEMA_VERSION, queries }, null, 2)
+}
+
+/**
+ * Read saved queries from a payload (JSON text or already parsed): detect its
+ * schema version, migrate it to the current one and validate every entry.
+ * Invalid entries are skipped and reported.
+ *
+ * @throws SavedQueryFormatError if the payload can't be read at all
+ */
+export function parseSavedQueries(content: unknown): ParsedSavedQueries {
+  let data = content
+  if (typeof content === 'string') {
+    try {
+      data = JSON.parse(content)
+    } catch {
+      throw new SavedQueryFormatError('Not valid JSON')
+    }
+  }
+
+  let payload: Payload
+  if (Array.isArray(data)) {
+    payload = { version: 0, queries: data }
+  } else if (isObject(data) && Number.isInteger(data.version) && Array.isArray(data.queries)) {
+    payload = { version: data.version as number, queries: data.queries }
+  } else {
+    throw new SavedQueryFormatError('Not a saved searches file')
+  }
+  const version = payload.version
+  if (version > SAVED_QUERIES_SCHEMA_VERSION || version < 0) {
+    throw new SavedQueryFormatError(`Saved searches format version ${version} is not supported (newest known: ${SAVED_QUERIES_SCHEMA_VERSION})`)
+  }
+  while (payload.version < SAVED_QUERIES_SCHEMA_VERSION) {
+    payload = SAVED_QUERY_MIGRATIONS[payload.version](payload)
+  }
+
+  const queries: SavedQuery[] = []
+  const errors: SavedQueryEntryError[] = []
+  payload.queries.forEach((entry, index) => {
+    const messages = validateSavedQuery(entry)
+    if (messages.length === 0) {
+      queries.push(JSON.parse(JSON.stringify(entry)))
+      return
+    }
+    const name = isObject(entry) && typeof entry.name === 'string' ? entry.name : undefined
+    errors.push({ index, ...(name !== undefined && { name }), messages })
+  })
+  return { queries, errors, version }
+}
+
+/**
+ * Whether two lists hold the same queries in the same order
+ */
+export function sameSavedQueries(a: SavedQuery[], b: SavedQuery[]): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Three-way merge of saved query lists by ID.
+ *
+ * - a query changed on one side only takes that side's version; changed on
+ *   both sides, the local version wins
+ * - a query deleted on one side is dropped, unless the other side changed it
+ * - queries added on either side are kept; remote additions come first
+ *   (newest saved queries are listed first), then the local order
+ *
+ * @param base - List as of the last sync
+ * @param local - Current local list
+ * @param remote - Current stored list
+ */
+export function mergeSavedQueries(base: SavedQuery[], local: SavedQuery[], remote: SavedQuery[]): SavedQuery[] {
+  const baseById = new Map(base.map(q => [q.id, q]))
+  const localIds = new Set(local.map(q => q.id))
+  const remoteById = new Map(remote.map(q => [q.id, q]))
+  const changed = (query: SavedQuery, baseQuery: SavedQuery | undefined) =>
+    !baseQuery || JSON.stringify(query) !== JSON.stringify(baseQuery)
+
+  const merged = remote.filter(q => !localIds.has(q.id) && changed(q, baseById.get(q.id)))
+  for (const query of local) {
+    const baseQuery = baseById.get(query.id)
+    const remoteQuery = remoteById.get(query.id)
+    if (remoteQuery) {
+      merged.push(baseQuery && !changed(query, baseQuery) ? remoteQuery : query)
+    } else if (changed(query, baseQuery)) {
+      merged.push(query)
+    }
+  }
+  return merged
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { getMatchIds, parseSnapshots, sameSnapshotState, updateSnapshot } from './savedQueryAlerts'
+
+describe('updateSnapshot', () => {
+  it('records a baseline on the first run', () => {
+    expect(updateSnapshot(undefined, ['a', 'b'], 't1', true))
+      .toEqual({ fileIds: ['a', 'b'], checkedAt: 't1', unread: [], complete: true })
+  })
+
+  it('marks matches missing from the previous run as unread', () => {
+    const first = updateSnapshot(undefined, ['a', 'b'], 't1', true)
+    const second = updateSnapshot(first, ['c', 'a', 'b'], 't2', true)
+    expect(second.unread).toEqual(['c'])
+
+    const third = updateSnapshot(second, ['d', 'c', 'a'], 't3', true)
+    expect(third).toEqual({ fileIds: ['d', 'c', 'a'], checkedAt: 't3', unread: ['c', 'd'], complete: true })
+  })
+
+  it('drops unread matches that no longer match', () => {
+    const snapshot = { fileIds: ['a', 'c'], checkedAt: 't1', unread: ['c'], complete: true }
+    expect(updateSnapshot(snapshot, ['a'], 't2', true).unread).toEqual([])
+  })
+
+  it('only diffs runs that both fetched every match', () => {
+    const partial = updateSnapshot(undefined, ['a', 'b'], 't1', false)
+    // 'c' may have been outside the previous window
+    const complete = updateSnapshot(partial, ['c', 'a', 'b'], 't2', true)
+    expect(complete.unread).toEqual([])
+
+    const unread = updateSnapshot(complete, ['d', 'c', 'a', 'b'], 't3', true)
+    expect(unread.unread).toEqual(['d'])
+    // A partial run keeps what is unread, whether it is in its window or not
+    expect(updateSnapshot(unread, ['e', 'a'], 't4', false)).toEqual({
+      fileIds: ['e', 'a'], checkedAt: 't4', unread: ['d'], complete: false,
+    })
+  })
+
+  it('takes snapshots from before runs were complete as a new baseline', () => {
+    const legacy = { fileIds: ['a'], checkedAt: 't1', unread: ['x'] }
+    expect(updateSnapshot(legacy, ['b', 'a'], 't2', true).unread).toEqual([])
+  })
+})
+
+describe('getMatchIds', () => {
+  it('uses file IDs, falling back to resource IDs, without duplicates', () => {
+    expect(getMatchIds([{ id: '1', fileId: 'f1' }, { id: '2' }, { id: '3', fileId: 'f1' }])).toEqual(['f1', '2'])
+  })
+})
+
+describe('sameSnapshotState', () => {
+  it('ignores when the snapshots were taken', () => {
+    const snapshot = { fileIds: ['a'], checkedAt: 't1', unread: [], complete: true }
+    expect(sameSnapshotState(snapshot, { ...snapshot, checkedAt: 't2' })).toBe(true)
+    expect(sameSnapshotState(snapshot, { ...snapshot, unread: ['a'] })).toBe(false)
+  })
+})
+
+describe('parseSnapshots', () => {
+  it('reads the former localStorage format and drops what it can not read', () => {
+    const snapshots = { q1: { fileIds: ['a'], checkedAt: 't1', unread: [] } }
+    expect(parseSnapshots(JSON.stringify({ version: 1, snapshots }))).toEqual(snapshots)
+    expect(parseSnapshots(JSON.stringify({ version: 1, snapshots: { ...snapshots, q2: { fileIds: 'a' } } }))).toEqual(snapshots)
+    expect(parseSnapshots(JSON.stringify({ version: 99, snapshots }))).toEqual({})
+    expect(parseSnapshots('{oops')).toEqual({})
+    expect(parseSnapshots(null)).toEqual({})
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * Saved-search alerts: snapshots of what a saved query matched at its last
+ * background run, diffed by file ID to find new matches.
+ *
+ * Snapshots are stored on the saved queries (`SavedQuery.snapshot`) and
+ * synced with them (see composables/useSavedQueryAlerts.ts). Earlier
+ * versions kept them in localStorage of each browser; `parseSnapshots()`
+ * reads that format so they can be taken over.
+ */
+
+import type { SavedQuerySnapshot, SearchResource } from '../types'
+
+/** Version of the snapshots formerly kept in localStorage */
+const LEGACY_SNAPSHOTS_VERSION = 1
+
+/**
+ * ID a result is diffed by (file ID, falling back to the resource ID)
+ */
+export function getMatchId(item: Pick<SearchResource, 'id' | 'fileId'>): string {
+  return String(item.fileId || item.id)
+}
+
+export function getMatchIds(items: Array<Pick<SearchResource, 'id' | 'fileId'>>): string[] {
+  return [...new Set(items.map(getMatchId))]
+}
+
+/**
+ * Snapshot after a run that matched `fileIds`; `complete` when the run
+ * fetched every match rather than the newest ones.
+ *
+ * The first run only records a baseline. After that, matches missing from
+ * the previous snapshot become unread, but only when both runs are
+ * complete: a partial run can't tell a new match from an older one that was
+ * outside the previous window. Unread matches that no longer match are
+ * dropped.
+ */
+export function updateSnapshot(
+  previous: SavedQuerySnapshot | undefined,
+  fileIds: string[],
+  checkedAt: string,
+  complete: boolean
+): SavedQuerySnapshot {
+  if (!previous) {
+    return { fileIds, checkedAt, unread: [], complete }
+  }
+  const current = new Set(fileIds)
+  if (!complete) {
+    return { fileIds, checkedAt, unread: previous.unread, complete }
+  }
+  const unread = previous.unread.filter(id => current.has(id))
+  if (!previous.complete) {
+    return { fileIds, checkedAt, unread, complete }
+  }
+  const known = new Set(previous.fileIds)
+  const unreadSet = new Set(unread)
+  for (const id of fileIds) {
+    if (!known.has(id) && !unreadSet.has(id)) unread.push(id)
+  }
+  return { fileIds, checkedAt, unread, complete }
+}
+
+/**
+ * Whether two snapshots differ in no more than when they were taken
+ */
+export function sameSnapshotState(a: SavedQuerySnapshot, b: SavedQuerySnapshot): boolean {
+  return JSON.stringify({ ...a, checkedAt: '' }) === JSON.stringify({ ...b, checkedAt: '' })
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string')
+}
+
+function isSnapshot(value: unknown): value is SavedQuerySnapshot {
+  const snapshot = value as SavedQuerySnapshot
+  return !!snapshot && typeof snapshot === 'object' &&
+    isStringList(snapshot.fileIds) && isStringList(snapshot.unread) && typeof snapshot.checkedAt === 'string'
+}
+
+/**
+ * Read snapshots formerly kept in localStorage (by saved query ID). Anything
+ * unreadable is dropped; the next run takes a new baseline.
+ */
+export function parseSnapshots(content: string | null): Record<string, SavedQuerySnapshot> {
+  if (!content) return {}
+  try {
+    const data = JSON.parse(content)
+    if (data?.version !== LEGACY_SNAPSHOTS_VERSION || !data.snapshots || typeof data.snapshots !== 'object') return {}
+    return Object.fromEntries(Object.entries(data.snapshots).filter(([, snapshot]) => isSnapshot(snapshot))) as
+      Record<string, SavedQuerySnapshot>
+  } catch {
+    return {}
+  }
+}
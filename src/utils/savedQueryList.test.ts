@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import { createEmptyFilters } from '../types'
+import type { SavedQuery } from '../types'
+import {
+  getCopyName,
+  getSavedQueryFolders,
+  groupSavedQueries,
+  moveSavedQuery,
+  searchSavedQueries,
+  sortSavedQueries,
+} from './savedQueryList'
+
+function query(id: string, fields: Partial<SavedQuery> = {}): SavedQuery {
+  return { id, name: id, filters: createEmptyFilters(), savedAt: '2024-01-01T00:00:00.000Z', ...fields }
+}
+
+const ids = (queries: SavedQuery[]) => queries.map(q => q.id)
+
+const list = [
+  query('invoices', { folder: 'Finance', runCount: 3, lastRunAt: '2024-03-01T00:00:00.000Z' }),
+  query('beach', { pinned: true, savedAt: '2024-02-01T00:00:00.000Z' }),
+  query('receipts', { folder: 'Finance ', runCount: 5, lastRunAt: '2024-02-01T00:00:00.000Z' }),
+  query('cameras', { folder: 'Photos' }),
+  query('misc'),
+]
+
+describe('groupSavedQueries', () => {
+  it('lists pinned queries, then folders by name, then the rest', () => {
+    expect(groupSavedQueries(list).map(g => [g.id, ids(g.queries)])).toEqual([
+      ['pinned', ['beach']],
+      ['folder:Finance', ['invoices', 'receipts']],
+      ['folder:Photos', ['cameras']],
+      ['other', ['misc']],
+    ])
+  })
+
+  it('leaves out groups without matches of the search', () => {
+    expect(groupSavedQueries(list, { search: 'fin rec' }).map(g => [g.id, ids(g.queries)])).toEqual([
+      ['folder:Finance', ['receipts']],
+    ])
+  })
+
+  it('sorts within groups', () => {
+    const finance = (order: Parameters<typeof sortSavedQueries>[1]) =>
+      ids(groupSavedQueries(list, { order }).find(g => g.folder === 'Finance')!.queries)
+    expect(finance('custom')).toEqual(['invoices', 'receipts'])
+    expect(finance('runCount')).toEqual(['receipts', 'invoices'])
+    expect(finance('lastRun')).toEqual(['invoices', 'receipts'])
+    expect(finance('name')).toEqual(['invoices', 'receipts'])
+  })
+})
+
+describe('searchSavedQueries', () => {
+  it('matches names and folders case-insensitively', () => {
+    expect(ids(searchSavedQueries(list, 'PHOTOS'))).toEqual(['cameras'])
+    expect(ids(searchSavedQueries(list, '  '))).toEqual(ids(list))
+  })
+})
+
+describe('getSavedQueryFolders', () => {
+  it('lists folder names once, trimmed and sorted', () => {
+    expect(getSavedQueryFolders(list)).toEqual(['Finance', 'Photos'])
+  })
+})
+
+describe('moveSavedQuery', () => {
+  it('moves a query before another one, into its group', () => {
+    const moved = moveSavedQuery(list, 'misc', 'receipts')
+    expect(ids(moved)).toEqual(['invoices', 'beach', 'misc', 'receipts', 'cameras'])
+    expect(moved[2]).toMatchObject({ folder: 'Finance ', pinned: false })
+
+    expect(moveSavedQuery(list, 'cameras', 'beach')[1]).toMatchObject({ id: 'cameras', pinned: true, folder: '' })
+  })
+
+  it('moves a query to the end, keeping its group', () => {
+    expect(ids(moveSavedQuery(list, 'invoices', null))).toEqual(['beach', 'receipts', 'cameras', 'misc', 'invoices'])
+  })
+
+  it('returns the same list for unknown IDs', () => {
+    expect(moveSavedQuery(list, 'nope', 'misc')).toBe(list)
+    expect(moveSavedQuery(list, 'misc', 'nope')).toBe(list)
+  })
+})
+
+describe('getCopyName', () => {
+  it('numbers copies that would clash', () => {
+    expect(getCopyName('misc', list)).toBe('misc (copy)')
+    expect(getCopyName('misc', [...list, query('x', { name: 'Misc (copy)' })])).toBe('misc (copy 2)')
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * Organizing the saved searches list: pins, folders, search, sort orders
+ * and drag-to-reorder.
+ *
+ * The stored order of saved queries is the 'custom' order; pins and folders
+ * are fields on each query (see SavedQuery).
+ */
+
+import type { SavedQuery, SavedQuerySortOrder } from '../types'
+
+/**
+ * A section of the saved searches list
+ */
+export interface SavedQueryGroup {
+  /** 'pinned', 'folder:<name>' or 'other' */
+  id: string
+  /** Folder name ('folder:' groups only) */
+  folder?: string
+  queries: SavedQuery[]
+}
+
+/**
+ * Folder names in use, sorted
+ */
+export function getSavedQueryFolders(queries: SavedQuery[]): string[] {
+  const folders = new Set(queries.map(q => q.folder?.trim()).filter((f): f is string => !!f))
+  return [...folders].sort((a, b) => a.localeCompare(b))
+}
+
+/**
+ * Queries whose name or folder contains every word of `search`
+ */
+export function searchSavedQueries(queries: SavedQuery[], search: string): SavedQuery[] {
+  const words = search.toLowerCase().split(/\s+/).filter(Boolean)
+  if (words.length === 0) return queries
+  return queries.filter(q => {
+    const text = `${q.name} ${q.folder || ''}`.toLowerCase()
+    return words.every(word => text.includes(word))
+  })
+}
+
+/**
+ * Order within a group; ties keep the stored order
+ */
+export function sortSavedQueries(queries: SavedQuery[], order: SavedQuerySortOrder): SavedQuery[] {
+  const byTime = (value: string | undefined) => (value ? Date.parse(value) || 0 : 0)
+  const compare: Record<SavedQuerySortOrder, ((a: SavedQuery, b: SavedQuery) => number) | null> = {
+    custom: null,
+    name: (a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }),
+    savedAt: (a, b) => byTime(b.savedAt) - byTime(a.savedAt),
+    lastRun: (a, b) => byTime(b.lastRunAt) - byTime(a.lastRunAt),
+    runCount: (a, b) => (b.runCount || 0) - (a.runCount || 0),
+  }
+  const fn = compare[order]
+  return fn ? [...queries].sort(fn) : queries
+}
+
+/**
+ * Split the list into pinned queries, one group per folder (by name) and
+ * the remaining queries. Empty groups are left out.
+ */
+export function groupSavedQueries(
+  queries: SavedQuery[],
+  { search = '', order = 'custom' }: { search?: string; order?: SavedQuerySortOrder } = {}
+): SavedQueryGroup[] {
+  const visible = sortSavedQueries(searchSavedQueries(queries, search), order)
+  const groups: SavedQueryGroup[] = [{ id: 'pinned', queries: visible.filter(q => q.pinned) }]
+  for (const folder of getSavedQueryFolders(queries)) {
+    groups.push({ id: `folder:${folder}`, folder, queries: visible.filter(q => !q.pinned && q.folder?.trim() === folder) })
+  }
+  groups.push({ id: 'other', queries: visible.filter(q => !q.pinned && !q.folder?.trim()) })
+  return groups.filter(group => group.queries.length > 0)
+}
+
+/**
+ * Move a query before another one (or to the end), taking over that
+ * query's group: its folder and whether it is pinned.
+ *
+ * @returns The new stored order (unchanged list if an ID is unknown)
+ */
+export function moveSavedQuery(queries: SavedQuery[], id: string, beforeId: string | null): SavedQuery[] {
+  const moving = queries.find(q => q.id === id)
+  const target = beforeId === null ? null : queries.find(q => q.id === beforeId)
+  if (!moving || target === undefined || moving === target) return queries
+
+  const moved: SavedQuery = target
+    ? { ...moving, pinned: !!target.pinned, folder: target.folder || '' }
+    : moving
+  const rest = queries.filter(q => q !== moving)
+  const index = target ? rest.indexOf(target) : rest.length
+  return [...rest.slice(0, index), moved, ...rest.slice(index)]
+}
+
+/**
+ * Name for a copy of a query that doesn't clash with an existing one
+ * ("Invoices (copy)", "Invoices (copy 2)", ...)
+ */
+export function getCopyName(name: string, queries: SavedQuery[], copyLabel = 'copy'): string {
+  const taken = new Set(queries.map(q => q.name.toLowerCase()))
+  let candidate = `${name} (${copyLabel})`
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${name} (${copyLabel} ${n})`
+  }
+  return candidate
+}
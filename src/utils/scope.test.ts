@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getActiveScopeTarget,
+  addScopeToKql,
+  normalizeFolderPath,
+  filterByScope,
+  scopeFromQuery,
+  scopeToQuery,
+} from './scope'
+
+describe('getActiveScopeTarget', () => {
+  it('ignores the target when searching all files', () => {
+    expect(getActiveScopeTarget({ scope: 'allFiles', scopeTarget: { spaceId: 's' } })).toBeNull()
+  })
+
+  it('ignores a scope without a target', () => {
+    expect(getActiveScopeTarget({ scope: 'space' })).toBeNull()
+  })
+
+  it('returns the target of a space scope', () => {
+    expect(getActiveScopeTarget({ scope: 'space', scopeTarget: { spaceId: 's' } })).toEqual({ spaceId: 's' })
+  })
+})
+
+describe('addScopeToKql', () => {
+  const target = { spaceId: 's', fileId: 'storage$space!node' }
+
+  it('ANDs the scope with the query', () => {
+    expect(addScopeToKql('name:*.pdf OR Type:2', target)).toBe('(name:*.pdf OR Type:2) AND scope:storage$space!node')
+  })
+
+  it('replaces a match-all query', () => {
+    expect(addScopeToKql('*', target)).toBe('scope:storage$space!node')
+  })
+
+  it('leaves the query alone without a resource ID', () => {
+    expect(addScopeToKql('name:a', { spaceId: 's', path: '/A' })).toBe('name:a')
+  })
+})
+
+describe('normalizeFolderPath', () => {
+  it('adds a leading slash and drops trailing ones', () => {
+    expect(normalizeFolderPath('Projects/2024/')).toBe('/Projects/2024')
+    expect(normalizeFolderPath('')).toBe('/')
+    expect(normalizeFolderPath('/')).toBe('/')
+  })
+})
+
+describe('filterByScope', () => {
+  const items = [
+    { id: '1', spaceId: 's', path: '/Projects/a.txt' },
+    { id: '2', spaceId: 's', path: '/Projects' },
+    { id: '3', spaceId: 's', path: '/ProjectsOld/b.txt' },
+    { id: '4', spaceId: 'other', path: '/Projects/c.txt' },
+  ]
+
+  it('keeps items below the folder in the same space', () => {
+    expect(filterByScope(items, { spaceId: 's', path: '/Projects/' }).map(i => i.id)).toEqual(['1'])
+  })
+
+  it('keeps the whole space for the root folder', () => {
+    expect(filterByScope(items, { spaceId: 's' }).map(i => i.id)).toEqual(['1', '2', '3'])
+  })
+})
+
+describe('scope URL parameters', () => {
+  it('round-trips a folder scope', () => {
+    const filters = { scope: 'currentFolder' as const, scopeTarget: { spaceId: 's', path: '/A', fileId: 'f' } }
+    const query = scopeToQuery(filters)
+    expect(query).toEqual({ scope: 'currentFolder', space: 's', folder: '/A', folderId: 'f' })
+    expect(scopeFromQuery(query)).toEqual(filters)
+  })
+
+  it('omits folder parameters for a space scope', () => {
+    expect(scopeToQuery({ scope: 'space', scopeTarget: { spaceId: 's', path: '/A' } }))
+      .toEqual({ scope: 'space', space: 's', folder: undefined, folderId: undefined })
+  })
+
+  it('clears all parameters when searching everywhere', () => {
+    expect(Object.values(scopeToQuery({ scope: 'allFiles' })).every(v => v === undefined)).toBe(true)
+  })
+
+  it('falls back to all files for incomplete or unknown values', () => {
+    expect(scopeFromQuery({ scope: 'space' }).scope).toBe('allFiles')
+    expect(scopeFromQuery({ scope: 'bogus', space: 's' }).scope).toBe('allFiles')
+  })
+})
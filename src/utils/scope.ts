@@ -0,0 +1,104 @@
+/**
+ * Search scope helpers: restricting a search to one space or folder.
+ *
+ * Scoping happens in two layers:
+ * - server side, by adding `scope:<resource id>` to the KQL (the oCIS
+ *   search service strips it from the query and only searches below that
+ *   resource), when the target's resource ID is known
+ * - client side, by dropping results outside the target space/folder,
+ *   which also covers servers that don't support `scope:`
+ */
+
+import type { Resource } from '@ownclouders/web-client'
+import type { SearchFilters, SearchScope, SearchScopeTarget } from '../types'
+import { parseUserKql } from './kql'
+import { kqlBoolean, kqlRestriction, kqlTerm, serializeKql } from './kqlParser'
+
+/**
+ * The scope target that applies to a filter set, or null when searching everywhere
+ */
+export function getActiveScopeTarget(filters: Pick<SearchFilters, 'scope' | 'scopeTarget'>): SearchScopeTarget | null {
+  if (filters.scope === 'allFiles' || !filters.scopeTarget?.spaceId) return null
+  return filters.scopeTarget
+}
+
+/**
+ * Add the server-side `scope:` restriction to a query.
+ * Resource IDs (`storage$space!node`) contain no KQL terminators, so they
+ * are used unescaped; the search service matches them literally.
+ *
+ * @returns The query unchanged if the target has no resource ID
+ */
+export function addScopeToKql(kql: string, target: SearchScopeTarget): string {
+  if (!target.fileId) return kql
+  const scopeNode = kqlRestriction('scope', ':', kqlTerm(target.fileId))
+  const query = kql.trim() === '*' ? null : parseUserKql(kql.trim())
+  return serializeKql(query ? kqlBoolean('and', [query, scopeNode]) : scopeNode)
+}
+
+/**
+ * Normalize a folder path: leading slash, no trailing slash ('/' for the root)
+ */
+export function normalizeFolderPath(path: string | undefined): string {
+  const trimmed = (path || '').trim().replace(/\/+$/, '')
+  if (!trimmed) return '/'
+  return trimmed.startsWith('/') ? trimmed : `/${trimmed}`
+}
+
+/**
+ * Whether a result lies inside the scope target (the folder itself excluded)
+ */
+export function isInScope(item: Pick<Resource, 'path'> & { spaceId?: string }, target: SearchScopeTarget): boolean {
+  if (item.spaceId !== target.spaceId) return false
+  const folder = normalizeFolderPath(target.path)
+  if (folder === '/') return true
+  return (item.path || '').startsWith(`${folder}/`)
+}
+
+/**
+ * Drop results outside the scope target
+ */
+export function filterByScope<T extends Pick<Resource, 'path'> & { spaceId?: string }>(
+  items: T[],
+  target: SearchScopeTarget
+): T[] {
+  return items.filter(item => isInScope(item, target))
+}
+
+/**
+ * Read a scope from URL query values, ignoring anything incomplete
+ */
+export function scopeFromQuery(query: {
+  scope?: string | null
+  space?: string | null
+  folder?: string | null
+  folderId?: string | null
+}): Pick<SearchFilters, 'scope' | 'scopeTarget'> {
+  const scope = query.scope as SearchScope
+  if ((scope !== 'space' && scope !== 'currentFolder') || !query.space) {
+    return { scope: 'allFiles', scopeTarget: undefined }
+  }
+  const scopeTarget: SearchScopeTarget = { spaceId: query.space }
+  if (scope === 'currentFolder') {
+    scopeTarget.path = normalizeFolderPath(query.folder || '/')
+    if (query.folderId) scopeTarget.fileId = query.folderId
+  }
+  return { scope, scopeTarget }
+}
+
+/**
+ * Write a scope as URL query values (undefined removes the parameter)
+ */
+export function scopeToQuery(filters: Pick<SearchFilters, 'scope' | 'scopeTarget'>): Record<string, string | undefined> {
+  const target = getActiveScopeTarget(filters)
+  if (!target) {
+    return { scope: undefined, space: undefined, folder: undefined, folderId: undefined }
+  }
+  const isFolder = filters.scope === 'currentFolder'
+  return {
+    scope: filters.scope,
+    space: target.spaceId,
+    folder: isFolder ? normalizeFolderPath(target.path) : undefined,
+    folderId: isFolder ? target.fileId : undefined,
+  }
+}
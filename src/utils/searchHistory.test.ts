@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { MAX_HISTORY_ENTRIES, addHistoryEntry, parseHistory, serializeHistory } from './searchHistory'
+import { createEmptyFilters } from '../types'
+import type { SearchHistoryEntry } from '../types'
+
+function entry(id: string, term: string, resultCount: number | null = 1): SearchHistoryEntry {
+  return {
+    id,
+    query: term,
+    filters: { ...createEmptyFilters(), term },
+    resultCount,
+    searchedAt: '2024-01-01T00:00:00.000Z',
+  }
+}
+
+describe('addHistoryEntry', () => {
+  it('adds newest first and moves a repeated search to the top', () => {
+    let entries = addHistoryEntry([], entry('1', 'beach'))
+    entries = addHistoryEntry(entries, entry('2', 'invoice'))
+    entries = addHistoryEntry(entries, entry('3', 'beach', 7))
+    expect(entries.map(e => [e.id, e.resultCount])).toEqual([['3', 7], ['2', 1]])
+  })
+
+  it('keeps at most MAX_HISTORY_ENTRIES', () => {
+    let entries: SearchHistoryEntry[] = []
+    for (let i = 0; i < MAX_HISTORY_ENTRIES + 5; i++) {
+      entries = addHistoryEntry(entries, entry(String(i), `term${i}`))
+    }
+    expect(entries).toHaveLength(MAX_HISTORY_ENTRIES)
+    expect(entries[0].id).toBe(String(MAX_HISTORY_ENTRIES + 4))
+  })
+})
+
+describe('parseHistory', () => {
+  it('round-trips and drops what it can not read', () => {
+    const entries = [entry('1', 'beach'), entry('2', 'invoice', null)]
+    expect(parseHistory(serializeHistory(entries))).toEqual(entries)
+
+    const broken = { ...entry('3', 'x'), filters: { term: 'x' } }
+    expect(parseHistory(JSON.stringify({ version: 1, entries: [...entries, broken, { id: 4 }] }))).toEqual(entries)
+    expect(parseHistory(JSON.stringify({ version: 99, entries }))).toEqual([])
+    expect(parseHistory('{oops')).toEqual([])
+    expect(parseHistory(null)).toEqual([])
+  })
+})
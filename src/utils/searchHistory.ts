@@ -0,0 +1,59 @@
+/**
+ * Persisted search history: entry list maintenance and storage format.
+ *
+ * Entries are kept newest first; running a search again moves its entry
+ * to the top instead of adding a duplicate.
+ */
+
+import type { SearchFilters, SearchHistoryEntry } from '../types'
+import { validateSearchFilters } from './savedQueries'
+
+/** Version of the stored history */
+export const SEARCH_HISTORY_VERSION = 1
+
+/** Entries kept; older ones are dropped */
+export const MAX_HISTORY_ENTRIES = 50
+
+/**
+ * Key identifying the same search (same filter state)
+ */
+function historyKey(filters: SearchFilters): string {
+  return JSON.stringify(filters)
+}
+
+/**
+ * Add a search to the top of the history, replacing an entry for the same filters
+ */
+export function addHistoryEntry(entries: SearchHistoryEntry[], entry: SearchHistoryEntry): SearchHistoryEntry[] {
+  const key = historyKey(entry.filters)
+  return [entry, ...entries.filter(e => historyKey(e.filters) !== key)].slice(0, MAX_HISTORY_ENTRIES)
+}
+
+export function serializeHistory(entries: SearchHistoryEntry[]): string {
+  return JSON.stringify({ version: SEARCH_HISTORY_VERSION, entries })
+}
+
+function isHistoryEntry(value: unknown): value is SearchHistoryEntry {
+  const entry = value as SearchHistoryEntry
+  return !!entry && typeof entry === 'object' &&
+    typeof entry.id === 'string' &&
+    typeof entry.query === 'string' &&
+    typeof entry.searchedAt === 'string' &&
+    (entry.resultCount === null || (typeof entry.resultCount === 'number' && entry.resultCount >= 0)) &&
+    validateSearchFilters(entry.filters).length === 0
+}
+
+/**
+ * Read the stored history. History is a convenience, so unreadable data
+ * and invalid entries are dropped rather than reported.
+ */
+export function parseHistory(content: string | null): SearchHistoryEntry[] {
+  if (!content) return []
+  try {
+    const data = JSON.parse(content)
+    if (data?.version !== SEARCH_HISTORY_VERSION || !Array.isArray(data.entries)) return []
+    return data.entries.filter(isHistoryEntry).slice(0, MAX_HISTORY_ENTRIES)
+  } catch {
+    return []
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { applySelectionClick, createSelection, pruneSelection, selectAll } from './selection'
+
+const ids = ['a', 'b', 'c', 'd', 'e']
+
+describe('applySelectionClick', () => {
+  it('toggles an item and makes it the anchor', () => {
+    const selected = applySelectionClick(createSelection(), ids, 'b', false)
+    expect(selected).toEqual({ ids: ['b'], anchor: 'b' })
+    expect(applySelectionClick(selected, ids, 'b', false)).toEqual({ ids: [], anchor: 'b' })
+  })
+
+  it('selects the range from the anchor, in both directions', () => {
+    const anchored = applySelectionClick(createSelection(), ids, 'b', false)
+    expect(applySelectionClick(anchored, ids, 'd', true)).toEqual({ ids: ['b', 'c', 'd'], anchor: 'b' })
+
+    const fromEnd = applySelectionClick(createSelection(), ids, 'd', false)
+    expect(applySelectionClick(fromEnd, ids, 'a', true).ids).toEqual(['d', 'a', 'b', 'c'])
+  })
+
+  it('keeps what was selected outside the range', () => {
+    let selection = applySelectionClick(createSelection(), ids, 'e', false)
+    selection = applySelectionClick(selection, ids, 'a', false)
+    selection = applySelectionClick(selection, ids, 'b', true)
+    expect(selection).toEqual({ ids: ['e', 'a', 'b'], anchor: 'a' })
+  })
+
+  it('toggles on shift-click without an anchor', () => {
+    expect(applySelectionClick(createSelection(), ids, 'c', true)).toEqual({ ids: ['c'], anchor: 'c' })
+  })
+})
+
+describe('selectAll', () => {
+  it('selects all or none', () => {
+    expect(selectAll(ids, true)).toEqual({ ids, anchor: null })
+    expect(selectAll(ids, false)).toEqual(createSelection())
+  })
+})
+
+describe('pruneSelection', () => {
+  it('drops items that are gone', () => {
+    const selection = { ids: ['a', 'c', 'x'], anchor: 'x' }
+    expect(pruneSelection(selection, ids)).toEqual({ ids: ['a', 'c'], anchor: null })
+  })
+
+  it('returns the same selection when nothing changed', () => {
+    const selection = { ids: ['a', 'c'], anchor: 'c' }
+    expect(pruneSelection(selection, ids)).toBe(selection)
+  })
+})
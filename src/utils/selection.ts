@@ -0,0 +1,61 @@
+/**
+ * Result selection: checkbox clicks, shift-click ranges and keeping the
+ * selection in line with the results.
+ *
+ * Items are identified by their resource ID; ranges follow the order the
+ * results are displayed in.
+ */
+
+export interface ResultSelection {
+  /** Selected resource IDs, in the order they were selected */
+  ids: string[]
+  /** Where the next shift-click range starts (the last item clicked without shift) */
+  anchor: string | null
+}
+
+export function createSelection(): ResultSelection {
+  return { ids: [], anchor: null }
+}
+
+/**
+ * Apply a click on an item's checkbox. A plain click toggles the item and
+ * makes it the anchor; a shift-click (`range`) selects everything from the
+ * anchor to the item, keeping what was selected before.
+ */
+export function applySelectionClick(
+  selection: ResultSelection,
+  orderedIds: string[],
+  id: string,
+  range: boolean
+): ResultSelection {
+  const anchorIndex = selection.anchor === null ? -1 : orderedIds.indexOf(selection.anchor)
+  const index = orderedIds.indexOf(id)
+  if (range && anchorIndex !== -1 && index !== -1) {
+    const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex]
+    const selected = new Set(selection.ids)
+    const added = orderedIds.slice(from, to + 1).filter(rangeId => !selected.has(rangeId))
+    return { ids: [...selection.ids, ...added], anchor: selection.anchor }
+  }
+  const ids = selection.ids.includes(id)
+    ? selection.ids.filter(selectedId => selectedId !== id)
+    : [...selection.ids, id]
+  return { ids, anchor: id }
+}
+
+/**
+ * Select all of `orderedIds`, or none
+ */
+export function selectAll(orderedIds: string[], selected: boolean): ResultSelection {
+  return selected ? { ids: [...orderedIds], anchor: null } : createSelection()
+}
+
+/**
+ * Drop selected items that are no longer in the results
+ * @returns The same object if nothing changed
+ */
+export function pruneSelection(selection: ResultSelection, availableIds: Iterable<string>): ResultSelection {
+  const available = new Set(availableIds)
+  const ids = selection.ids.filter(id => available.has(id))
+  const anchor = selection.anchor !== null && available.has(selection.anchor) ? selection.anchor : null
+  return ids.length === selection.ids.length && anchor === selection.anchor ? selection : { ids, anchor }
+}
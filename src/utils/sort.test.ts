@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import type { SearchResource } from '../types'
+import { getSortKeys, sortResources, isSortedByPrimary, nextSort } from './sort'
+
+function item(id: string, extra: Partial<SearchResource> = {}): SearchResource {
+  return { id, name: id, path: `/${id}`, ...extra }
+}
+
+const ids = (items: SearchResource[]) => items.map(i => i.id)
+
+describe('getSortKeys', () => {
+  it('breaks ties by name by default', () => {
+    expect(getSortKeys({ field: 'size', direction: 'desc' })).toEqual([
+      { field: 'size', direction: 'desc' },
+      { field: 'name', direction: 'asc' },
+    ])
+    expect(getSortKeys({ field: 'name', direction: 'desc' })).toEqual([{ field: 'name', direction: 'desc' }])
+  })
+
+  it('uses explicit secondary keys, skipping the primary field', () => {
+    expect(getSortKeys({
+      field: 'mtime',
+      direction: 'asc',
+      secondary: [{ field: 'mtime', direction: 'desc' }, { field: 'size', direction: 'asc' }],
+    })).toEqual([{ field: 'mtime', direction: 'asc' }, { field: 'size', direction: 'asc' }])
+  })
+})
+
+describe('sortResources', () => {
+  it('collates names naturally and ignores case', () => {
+    const items = [item('file10'), item('File2'), item('file1')]
+    expect(ids(sortResources(items, { field: 'name', direction: 'asc' }))).toEqual(['file1', 'File2', 'file10'])
+  })
+
+  it('sorts numbers and dates in both directions', () => {
+    const items = [item('a', { size: 10 }), item('b', { size: '300' }), item('c', { size: 2 })]
+    expect(ids(sortResources(items, { field: 'size', direction: 'desc' }))).toEqual(['b', 'a', 'c'])
+
+    const dated = [
+      item('old', { mdate: 'Mon, 01 Jan 2024 00:00:00 GMT' }),
+      item('new', { mdate: 'Sat, 01 Jun 2024 00:00:00 GMT' }),
+    ]
+    expect(ids(sortResources(dated, { field: 'mtime', direction: 'desc' }))).toEqual(['new', 'old'])
+  })
+
+  it('puts missing values last in both directions', () => {
+    const items = [item('none'), item('a', { photo: { takenDateTime: '2024-01-01T00:00:00Z' } }), item('b', { photo: { takenDateTime: '2023-01-01T00:00:00Z' } })]
+    expect(ids(sortResources(items, { field: 'takenDateTime', direction: 'asc' }))).toEqual(['b', 'a', 'none'])
+    expect(ids(sortResources(items, { field: 'takenDateTime', direction: 'desc' }))).toEqual(['a', 'b', 'none'])
+  })
+
+  it('keeps folders first, then sorts by the keys', () => {
+    const items = [item('b.txt', { size: 5 }), item('Zeta', { isFolder: true }), item('a.txt', { size: 5 }), item('Alpha', { type: 'folder' })]
+    const sorted = sortResources(items, { field: 'size', direction: 'desc', foldersFirst: true })
+    expect(ids(sorted)).toEqual(['Alpha', 'Zeta', 'a.txt', 'b.txt'])
+  })
+
+  it('does not modify the input', () => {
+    const items = [item('b'), item('a')]
+    sortResources(items, { field: 'name', direction: 'asc' })
+    expect(ids(items)).toEqual(['b', 'a'])
+  })
+})
+
+describe('isSortedByPrimary', () => {
+  it('checks the primary key only', () => {
+    const items = [item('b', { size: 3 }), item('a', { size: 3 }), item('c', { size: 1 })]
+    expect(isSortedByPrimary(items, { field: 'size', direction: 'desc' })).toBe(true)
+    expect(isSortedByPrimary(items, { field: 'size', direction: 'asc' })).toBe(false)
+  })
+})
+
+describe('nextSort', () => {
+  it('flips the direction of the primary field', () => {
+    expect(nextSort({ field: 'name', direction: 'asc' }, 'name')).toEqual({ field: 'name', direction: 'desc' })
+  })
+
+  it('switches to another field with its default direction', () => {
+    expect(nextSort({ field: 'name', direction: 'asc', foldersFirst: true, secondary: [] }, 'size'))
+      .toEqual({ field: 'size', direction: 'desc', foldersFirst: true })
+  })
+
+  it('adds and flips tie-breakers when appending', () => {
+    const withSize = nextSort({ field: 'mtime', direction: 'desc' }, 'size', true)
+    expect(withSize.secondary).toEqual([{ field: 'size', direction: 'desc' }])
+    expect(nextSort(withSize, 'size', true).secondary).toEqual([{ field: 'size', direction: 'asc' }])
+  })
+})
@@ -0,0 +1,146 @@
+/**
+ * Sorting of search results.
+ *
+ * Results are always ordered client-side by the SortConfig: folders first
+ * (optional), then the primary key, then the secondary keys as tie-breakers.
+ * Names use natural, locale-aware collation ("file2" before "file10").
+ * The primary key is also sent to the server so later pages continue in
+ * the same order where the server supports ordering.
+ */
+
+import type { SearchResource, SortConfig, SortDirection, SortField, SortKey } from '../types'
+
+// Runtime locale, numeric segments compared by value, case/accents ignored
+const nameCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' })
+
+/**
+ * Sort of a fresh search (newest first)
+ */
+export const DEFAULT_SORT: SortConfig = { field: 'mtime', direction: 'desc' }
+
+/**
+ * Direction a field starts with when first picked (names A-Z, everything else largest/newest first)
+ */
+export const DEFAULT_SORT_DIRECTIONS: Record<SortField, SortDirection> = {
+  name: 'asc',
+  size: 'desc',
+  mtime: 'desc',
+  takenDateTime: 'desc',
+}
+
+/**
+ * Field names used for server-side ordering
+ */
+export const SERVER_SORT_FIELDS: Record<SortField, string> = {
+  name: 'name',
+  size: 'size',
+  mtime: 'mtime',
+  takenDateTime: 'photo.takenDateTime',
+}
+
+function toTime(value: string | undefined): number | null {
+  if (!value) return null
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? null : time
+}
+
+/**
+ * Value getters per sort field; null sorts last in both directions
+ */
+const SORT_VALUE_GETTERS: Record<SortField, (item: SearchResource) => string | number | null> = {
+  name: item => item.name || null,
+  size: item => {
+    const size = typeof item.size === 'string' ? parseInt(item.size, 10) : item.size
+    return size === undefined || Number.isNaN(size) ? null : size
+  },
+  mtime: item => toTime(item.mdate),
+  takenDateTime: item => toTime(item.photo?.takenDateTime),
+}
+
+function isFolder(item: SearchResource): boolean {
+  return !!item.isFolder || item.type === 'folder'
+}
+
+/**
+ * The keys a config sorts by, in order. Without explicit secondary keys,
+ * ties are broken by name.
+ */
+export function getSortKeys(config: SortConfig): SortKey[] {
+  const primary: SortKey = { field: config.field, direction: config.direction }
+  const secondary = config.secondary
+    ?? (config.field === 'name' ? [] : [{ field: 'name' as const, direction: 'asc' as const }])
+  return [primary, ...secondary.filter(key => key.field !== config.field)]
+}
+
+function compareByKey(a: SearchResource, b: SearchResource, key: SortKey): number {
+  const getValue = SORT_VALUE_GETTERS[key.field]
+  const valueA = getValue(a)
+  const valueB = getValue(b)
+  if (valueA === null || valueB === null) {
+    // Missing values last, whatever the direction
+    return valueA === valueB ? 0 : valueA === null ? 1 : -1
+  }
+  const result = typeof valueA === 'string' && typeof valueB === 'string'
+    ? nameCollator.compare(valueA, valueB)
+    : (valueA as number) - (valueB as number)
+  return key.direction === 'asc' ? result : -result
+}
+
+/**
+ * Compare two results by a sort config
+ */
+export function compareResources(a: SearchResource, b: SearchResource, config: SortConfig): number {
+  if (config.foldersFirst) {
+    const folderOrder = Number(isFolder(b)) - Number(isFolder(a))
+    if (folderOrder !== 0) return folderOrder
+  }
+  for (const key of getSortKeys(config)) {
+    const result = compareByKey(a, b, key)
+    if (result !== 0) return result
+  }
+  return 0
+}
+
+/**
+ * Sorted copy of the results (stable: equal items keep the server order)
+ */
+export function sortResources<T extends SearchResource>(items: T[], config: SortConfig): T[] {
+  return [...items].sort((a, b) => compareResources(a, b, config))
+}
+
+/**
+ * Whether results are already in the order of a config's primary key
+ * (used to tell whether the server applied the requested ordering)
+ */
+export function isSortedByPrimary(items: SearchResource[], config: SortConfig): boolean {
+  const primary: SortKey = { field: config.field, direction: config.direction }
+  for (let i = 1; i < items.length; i++) {
+    if (compareByKey(items[i - 1], items[i], primary) > 0) return false
+  }
+  return true
+}
+
+/**
+ * The config after picking a field (column header click).
+ * Picking the primary field flips its direction; another field becomes the
+ * primary key, or with `append` (shift-click) is added as a tie-breaker.
+ */
+export function nextSort(current: SortConfig, field: SortField, append = false): SortConfig {
+  const flip = (direction: SortDirection): SortDirection => direction === 'asc' ? 'desc' : 'asc'
+
+  if (field === current.field) {
+    return { ...current, direction: flip(current.direction) }
+  }
+  if (!append) {
+    return { field, direction: DEFAULT_SORT_DIRECTIONS[field], foldersFirst: current.foldersFirst }
+  }
+
+  const secondary = current.secondary ?? []
+  const existing = secondary.find(key => key.field === field)
+  return {
+    ...current,
+    secondary: existing
+      ? secondary.map(key => key.field === field ? { ...key, direction: flip(key.direction) } : key)
+      : [...secondary, { field, direction: DEFAULT_SORT_DIRECTIONS[field] }],
+  }
+}
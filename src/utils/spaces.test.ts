@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import type { SpaceResource } from '@ownclouders/web-client'
+import { getSearchableSpaces, splitSpaceHref } from './spaces'
+
+function space(id: string, driveType: string, extra: Partial<SpaceResource> = {}): SpaceResource {
+  return { id, driveType, name: id, ...extra } as SpaceResource
+}
+
+describe('getSearchableSpaces', () => {
+  it('orders personal, project and shares drives', () => {
+    const spaces = [space('p1', 'project'), space('shares', 'virtual'), space('me', 'personal')]
+    expect(getSearchableSpaces(spaces).map(s => s.id)).toEqual(['me', 'p1', 'shares'])
+  })
+
+  it('skips disabled drives, unknown types and duplicates', () => {
+    const spaces = [
+      space('me', 'personal'),
+      space('me', 'personal'),
+      space('old', 'project', { disabled: true }),
+      space('pub', 'public'),
+    ]
+    expect(getSearchableSpaces(spaces).map(s => s.id)).toEqual(['me'])
+  })
+
+  it('searches mountpoints only without a Shares drive', () => {
+    const mounts = [space('me', 'personal'), space('m1', 'mountpoint')]
+    expect(getSearchableSpaces(mounts).map(s => s.id)).toEqual(['me', 'm1'])
+    expect(getSearchableSpaces([...mounts, space('shares', 'virtual')]).map(s => s.id)).toEqual(['me', 'shares'])
+  })
+})
+
+describe('splitSpaceHref', () => {
+  it('extracts the decoded space ID and path', () => {
+    expect(splitSpaceHref('/dav/spaces/abc%24def/My%20Photos/a.jpg')).toEqual({ spaceId: 'abc$def', path: '/My Photos/a.jpg' })
+  })
+
+  it('handles a remote.php prefix and the space root', () => {
+    expect(splitSpaceHref('/remote.php/dav/spaces/abc')).toEqual({ spaceId: 'abc', path: '/' })
+  })
+
+  it('returns null for other hrefs', () => {
+    expect(splitSpaceHref('/dav/files/admin/a.txt')).toBeNull()
+  })
+})
@@ -0,0 +1,50 @@
+/**
+ * Helpers for searching across all spaces (drives) the user can access.
+ */
+
+import type { SpaceResource } from '@ownclouders/web-client'
+
+/**
+ * Drive types that hold searchable files, in the order results are merged.
+ * 'virtual' is the "Shares" drive; 'mountpoint' drives are the individual
+ * accepted shares, only searched when no Shares drive is available.
+ */
+const SEARCHABLE_DRIVE_TYPES = ['personal', 'project', 'virtual', 'mountpoint']
+
+/**
+ * Pick the spaces to fan a search out to: enabled drives of a searchable
+ * type, personal first, without duplicates.
+ */
+export function getSearchableSpaces(spaces: SpaceResource[]): SpaceResource[] {
+  const seen = new Set<string>()
+  const candidates = spaces.filter(space => {
+    if (!space?.id || space.disabled || seen.has(space.id)) return false
+    if (!SEARCHABLE_DRIVE_TYPES.includes(space.driveType)) return false
+    seen.add(space.id)
+    return true
+  })
+
+  // The Shares drive already covers every mountpoint
+  const hasSharesDrive = candidates.some(space => space.driveType === 'virtual')
+  return candidates
+    .filter(space => !(hasSharesDrive && space.driveType === 'mountpoint'))
+    .sort((a, b) => SEARCHABLE_DRIVE_TYPES.indexOf(a.driveType) - SEARCHABLE_DRIVE_TYPES.indexOf(b.driveType))
+}
+
+/**
+ * Split a WebDAV href into space ID and path within the space.
+ * Works with or without a `/remote.php` prefix and with encoded space IDs.
+ *
+ * @example
+ * splitSpaceHref('/dav/spaces/abc%24def/Photos/a.jpg') // { spaceId: 'abc$def', path: '/Photos/a.jpg' }
+ *
+ * @returns null if the href isn't a spaces URL
+ */
+export function splitSpaceHref(href: string): { spaceId: string; path: string } | null {
+  const match = href.match(/\/dav\/spaces\/([^/]+)(.*)$/)
+  if (!match) return null
+  return {
+    spaceId: decodeURIComponent(match[1]),
+    path: decodeURIComponent(match[2] || '/'),
+  }
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { SearchResource } from '../types'
+import {
+  createLimiter,
+  createLruCache,
+  getThumbnailKey,
+  getThumbnailSize,
+  getThumbnailUrl,
+  hasThumbnail,
+} from './thumbnails'
+
+const file = (mimeType: string, extra: Partial<SearchResource> = {}) =>
+  ({ id: 's1!a', name: 'a', path: '/Photos/a b.jpg', spaceId: 's1$p', mimeType, ...extra }) as SearchResource
+
+describe('hasThumbnail', () => {
+  it('accepts images, PDFs and office documents', () => {
+    expect(hasThumbnail(file('image/jpeg'))).toBe(true)
+    expect(hasThumbnail(file('application/pdf'))).toBe(true)
+    expect(hasThumbnail(file('application/vnd.openxmlformats-officedocument.wordprocessingml.document'))).toBe(true)
+    expect(hasThumbnail(file('application/vnd.oasis.opendocument.spreadsheet'))).toBe(true)
+    expect(hasThumbnail(file('application/msword'))).toBe(true)
+  })
+
+  it('rejects folders and other files', () => {
+    expect(hasThumbnail(file('image/jpeg', { isFolder: true }))).toBe(false)
+    expect(hasThumbnail(file('application/zip'))).toBe(false)
+    expect(hasThumbnail(file('application/vnd.ms-excel.sheet.macroEnabled.12'))).toBe(false)
+    expect(hasThumbnail(file(''))).toBe(false)
+  })
+})
+
+describe('getThumbnailSize', () => {
+  it('rounds up to a size step for the pixel ratio', () => {
+    expect(getThumbnailSize(100)).toBe(128)
+    expect(getThumbnailSize(100, 2)).toBe(256)
+    expect(getThumbnailSize(100, 1.5)).toBe(256)
+    expect(getThumbnailSize(100, 0.5)).toBe(128)
+    expect(getThumbnailSize(2000, 3)).toBe(1024)
+  })
+})
+
+describe('getThumbnailUrl', () => {
+  it('builds the preview URL with size and etag', () => {
+    const url = new URL(getThumbnailUrl('https://cloud.example.com', file('image/jpeg', { etag: '"abc"' }), 256))
+    expect(url.pathname).toBe('/dav/spaces/s1%24p/Photos/a%20b.jpg')
+    expect(Object.fromEntries(url.searchParams)).toEqual({ preview: '1', x: '256', y: '256', a: '1', c: 'abc' })
+  })
+})
+
+describe('getThumbnailKey', () => {
+  it('changes with the etag', () => {
+    expect(getThumbnailKey(file('image/jpeg', { etag: '1' }))).not.toBe(getThumbnailKey(file('image/jpeg', { etag: '2' })))
+  })
+})
+
+describe('createLruCache', () => {
+  it('evicts the least recently used entries', () => {
+    const evicted: string[] = []
+    const cache = createLruCache<string, number>(2, (_value, key) => evicted.push(key))
+    cache.set('a', 1)
+    cache.set('b', 2)
+    cache.get('a')
+    cache.set('c', 3)
+    expect(evicted).toEqual(['b'])
+    expect(cache.has('a')).toBe(true)
+    expect(cache.size).toBe(2)
+  })
+
+  it('keeps pinned entries, even beyond the capacity', () => {
+    const pinned = new Set(['a', 'b'])
+    const evicted: string[] = []
+    const cache = createLruCache<string, number>(2, (_value, key) => evicted.push(key), key => pinned.has(key))
+    cache.set('a', 1)
+    cache.set('b', 2)
+    cache.set('c', 3)
+    expect(evicted).toEqual(['c'])
+
+    pinned.add('c')
+    cache.set('c', 3)
+    expect(cache.size).toBe(3)
+    pinned.clear()
+    cache.set('d', 4)
+    expect(evicted).toEqual(['c', 'a', 'b'])
+    expect(cache.size).toBe(2)
+  })
+
+  it('evicts replaced and deleted values, and everything on clear', () => {
+    const evicted: number[] = []
+    const cache = createLruCache<string, number>(5, value => evicted.push(value))
+    cache.set('a', 1)
+    cache.set('a', 2)
+    cache.set('b', 3)
+    cache.delete('b')
+    cache.delete('missing')
+    cache.set('c', 4)
+    cache.clear()
+    expect(evicted).toEqual([1, 3, 2, 4])
+    expect(cache.size).toBe(0)
+  })
+})
+
+describe('createLimiter', () => {
+  it('runs at most the given number of tasks at a time, in order', async () => {
+    const limit = createLimiter(2)
+    const started: number[] = []
+    let active = 0
+    let peak = 0
+    const results = await Promise.all([1, 2, 3, 4, 5].map(n => limit(async () => {
+      started.push(n)
+      peak = Math.max(peak, ++active)
+      await new Promise(resolve => setTimeout(resolve, 1))
+      active--
+      return n * 10
+    })))
+    expect(results).toEqual([10, 20, 30, 40, 50])
+    expect(started).toEqual([1, 2, 3, 4, 5])
+    expect(peak).toBe(2)
+  })
+
+  it('drops waiting tasks whose signal is aborted', async () => {
+    const limit = createLimiter(1)
+    let release!: () => void
+    const first = limit(() => new Promise<void>(resolve => { release = resolve }))
+    const controller = new AbortController()
+    const task = vi.fn(async () => {})
+    const second = limit(task, controller.signal)
+
+    controller.abort()
+    await expect(second).rejects.toMatchObject({ name: 'AbortError' })
+    release()
+    await first
+    expect(task).not.toHaveBeenCalled()
+    await expect(limit(task, controller.signal)).rejects.toMatchObject({ name: 'AbortError' })
+  })
+
+  it('keeps going after a failed task', async () => {
+    const limit = createLimiter(1)
+    await expect(limit(async () => { throw new Error('boom') })).rejects.toThrow('boom')
+    expect(await limit(async () => 'ok')).toBe('ok')
+  })
+})
@@ -0,0 +1,157 @@
+/**
+ * Thumbnails of results from the oCIS thumbnail service
+ * (`GET /dav/spaces/<id>/<path>?preview=1&x=<px>&y=<px>`).
+ *
+ * Sizes are rounded up to a few steps so the server and the cache see the
+ * same sizes across screens. Object URLs live in an LRU cache that revokes
+ * the ones it drops; requests go through a limiter so scrolling a large
+ * grid doesn't flood the server.
+ */
+
+import type { SearchResource } from '../types'
+
+/** Requested thumbnail sizes in device pixels */
+export const THUMBNAIL_SIZES = [64, 128, 256, 512, 1024]
+
+const OFFICE_MIME_TYPE = /^application\/(vnd\.openxmlformats-officedocument\.|vnd\.oasis\.opendocument\.|msword$|vnd\.ms-(excel|powerpoint)$)/
+
+/**
+ * Whether the thumbnail service can render the result: images, PDFs and
+ * office documents
+ */
+export function hasThumbnail(item: SearchResource): boolean {
+  if (item.isFolder || item.type === 'folder') return false
+  const mimeType = (item.mimeType || '').toLowerCase()
+  return mimeType.startsWith('image/') || mimeType === 'application/pdf' || OFFICE_MIME_TYPE.test(mimeType)
+}
+
+/**
+ * Thumbnail size for a cell of `cssPixels`, on a screen with `pixelRatio`
+ */
+export function getThumbnailSize(cssPixels: number, pixelRatio = 1): number {
+  const needed = Math.ceil(cssPixels * Math.max(1, pixelRatio))
+  return THUMBNAIL_SIZES.find(size => size >= needed) ?? THUMBNAIL_SIZES[THUMBNAIL_SIZES.length - 1]
+}
+
+/**
+ * Thumbnail URL of a result. The etag (`c`) makes a changed file get a new
+ * thumbnail instead of a cached one; `a=1` keeps the aspect ratio.
+ */
+export function getThumbnailUrl(serverUrl: string, item: SearchResource, size: number): string {
+  const path = (item.path || item.name || '').split('/').map(s => encodeURIComponent(s)).join('/')
+  const params = new URLSearchParams({ preview: '1', x: String(size), y: String(size), a: '1' })
+  const etag = (item.etag || '').replace(/"/g, '')
+  if (etag) params.set('c', etag)
+  return `${serverUrl}/dav/spaces/${encodeURIComponent(item.spaceId || '')}${path}?${params}`
+}
+
+/**
+ * Cache key of a result's thumbnail: changes when the file does
+ */
+export function getThumbnailKey(item: SearchResource): string {
+  return `${item.id}|${item.etag || ''}`
+}
+
+export interface LruCache<K, V> {
+  get(key: K): V | undefined
+  has(key: K): boolean
+  set(key: K, value: V): void
+  delete(key: K): void
+  /** Drops all entries (each one is passed to `onEvict`) */
+  clear(): void
+  readonly size: number
+}
+
+/**
+ * Cache that drops the least recently used entries beyond `capacity`,
+ * calling `onEvict` for each dropped entry (e.g. to revoke an object URL).
+ * Entries `isPinned` accepts are never dropped (only on clear or delete);
+ * while too many are pinned the cache holds more than `capacity`.
+ */
+export function createLruCache<K, V>(
+  capacity: number,
+  onEvict?: (value: V, key: K) => void,
+  isPinned?: (key: K) => boolean
+): LruCache<K, V> {
+  // Map iteration order is insertion order: the first key is the oldest
+  const entries = new Map<K, V>()
+
+  return {
+    get(key) {
+      if (!entries.has(key)) return undefined
+      const value = entries.get(key)!
+      entries.delete(key)
+      entries.set(key, value)
+      return value
+    },
+    has: key => entries.has(key),
+    set(key, value) {
+      const previous = entries.get(key)
+      entries.delete(key)
+      if (previous !== undefined && previous !== value) onEvict?.(previous, key)
+      entries.set(key, value)
+      if (entries.size <= capacity) return
+      // Oldest first
+      const evictable = [...entries].filter(([candidate]) => !isPinned?.(candidate))
+      for (const [oldestKey, oldest] of evictable.slice(0, entries.size - capacity)) {
+        entries.delete(oldestKey)
+        onEvict?.(oldest, oldestKey)
+      }
+    },
+    delete(key) {
+      if (!entries.has(key)) return
+      const value = entries.get(key)!
+      entries.delete(key)
+      onEvict?.(value, key)
+    },
+    clear() {
+      const all = [...entries]
+      entries.clear()
+      all.forEach(([key, value]) => onEvict?.(value, key))
+    },
+    get size() {
+      return entries.size
+    },
+  }
+}
+
+/**
+ * Runs at most `concurrency` tasks at a time, the others wait in order.
+ * A waiting task whose signal is aborted is dropped (rejects with an
+ * AbortError) without being started.
+ */
+export function createLimiter(concurrency: number) {
+  let active = 0
+  const queue: Array<() => void> = []
+
+  function next(): void {
+    if (active >= concurrency) return
+    const start = queue.shift()
+    if (start) start()
+  }
+
+  return function run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const abort = () => {
+        const index = queue.indexOf(start)
+        if (index !== -1) queue.splice(index, 1)
+        reject(new DOMException('Aborted', 'AbortError'))
+      }
+      const start = () => {
+        signal?.removeEventListener('abort', abort)
+        active++
+        task().then(resolve, reject).finally(() => {
+          active--
+          next()
+        })
+      }
+      if (signal?.aborted) {
+        abort()
+        return
+      }
+      signal?.addEventListener('abort', abort, { once: true })
+      queue.push(start)
+      next()
+    })
+  }
+}
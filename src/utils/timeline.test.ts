@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import type { SearchResource } from '../types'
+import { buildTimeline, findScrubberMark, getScrubberMarks, getTimelineTime } from './timeline'
+
+const photo = (id: string, taken?: string, mdate?: string) =>
+  ({ id, name: `${id}.jpg`, mdate, ...(taken && { photo: { takenDateTime: taken } }) }) as SearchResource
+
+describe('getTimelineTime', () => {
+  it('prefers the date taken over the modification time', () => {
+    expect(getTimelineTime(photo('a', '2023-07-14T18:42:10Z', 'Mon, 01 Jan 2024 10:00:00 GMT'))).toBe(Date.parse('2023-07-14T18:42:10Z'))
+    expect(getTimelineTime(photo('b', undefined, 'Mon, 01 Jan 2024 10:00:00 GMT'))).toBe(Date.parse('2024-01-01T10:00:00Z'))
+  })
+
+  it('returns null without a usable date', () => {
+    expect(getTimelineTime(photo('a'))).toBeNull()
+    expect(getTimelineTime(photo('b', 'not a date'))).toBeNull()
+  })
+})
+
+describe('buildTimeline', () => {
+  const items = [
+    photo('may-19-morning', '2024-05-19T08:00:00Z'),
+    photo('jul-2023', '2023-07-14T18:42:10Z'),
+    photo('undated'),
+    photo('may-19-late', '2024-05-19T23:30:00Z'),
+    photo('may-02', undefined, '2024-05-02T12:00:00Z'),
+    photo('dec-2023', '2023-12-31T23:59:59Z'),
+  ]
+
+  it('groups newest first into years, months and days', () => {
+    const { years, undated, count } = buildTimeline(items)
+    expect(years.map(year => [year.key, year.count])).toEqual([['2024', 3], ['2023', 2]])
+    expect(years[0].months.map(month => month.key)).toEqual(['2024-05'])
+    expect(years[0].months[0].days.map(day => [day.key, day.items.map(item => item.id)])).toEqual([
+      ['2024-05-19', ['may-19-late', 'may-19-morning']],
+      ['2024-05-02', ['may-02']],
+    ])
+    expect(years[1].months.map(month => [month.key, month.month, month.count])).toEqual([['2023-12', 12, 1], ['2023-07', 7, 1]])
+    expect(undated.map(item => item.id)).toEqual(['undated'])
+    expect(count).toBe(6)
+  })
+
+  it('groups oldest first when ascending', () => {
+    const { years } = buildTimeline(items, 'asc')
+    expect(years.map(year => year.key)).toEqual(['2023', '2024'])
+    expect(years[1].months[0].days[0].key).toBe('2024-05-02')
+  })
+})
+
+describe('scrubber marks', () => {
+  const timeline = buildTimeline([
+    photo('a', '2024-05-19T08:00:00Z'),
+    photo('b', '2024-05-18T08:00:00Z'),
+    photo('c', '2024-03-01T08:00:00Z'),
+    photo('d', '2023-07-14T08:00:00Z'),
+  ])
+  const marks = getScrubberMarks(timeline)
+
+  it('places months by the results before them', () => {
+    expect(marks.map(mark => [mark.key, mark.offset])).toEqual([['2024-05', 0], ['2024-03', 0.5], ['2023-07', 0.75]])
+  })
+
+  it('finds the month at a position', () => {
+    expect(findScrubberMark(marks, 0)?.key).toBe('2024-05')
+    expect(findScrubberMark(marks, 0.6)?.key).toBe('2024-03')
+    expect(findScrubberMark(marks, 1)?.key).toBe('2023-07')
+    expect(findScrubberMark([], 0.5)).toBeNull()
+  })
+})
@@ -0,0 +1,142 @@
+/**
+ * Timeline view: results grouped by year, month and day.
+ *
+ * A result's date is its EXIF `photo.takenDateTime`, or its modification
+ * time without one. EXIF times have no time zone and oCIS stores them as
+ * UTC, so days are cut in UTC: a photo taken at 23:30 stays on that day
+ * wherever the browser is. Results without either date go last.
+ */
+
+import type { SearchResource, SortDirection } from '../types'
+
+export interface TimelineDay {
+  /** `YYYY-MM-DD` */
+  key: string
+  items: SearchResource[]
+}
+
+export interface TimelineMonth {
+  /** `YYYY-MM` */
+  key: string
+  year: number
+  /** 1–12 */
+  month: number
+  days: TimelineDay[]
+  count: number
+}
+
+export interface TimelineYear {
+  /** `YYYY` */
+  key: string
+  year: number
+  months: TimelineMonth[]
+  count: number
+}
+
+export interface Timeline {
+  years: TimelineYear[]
+  /** Results without a date */
+  undated: SearchResource[]
+  count: number
+}
+
+/** A month on the scrubber */
+export interface ScrubberMark {
+  /** Month key (`YYYY-MM`) */
+  key: string
+  year: number
+  month: number
+  /** Position on the scrubber, 0 (top) to 1, by the results before it */
+  offset: number
+}
+
+function toTime(value: string | undefined): number | null {
+  if (!value) return null
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? null : time
+}
+
+/**
+ * Time a result is placed at: taken, else modified (null without either)
+ */
+export function getTimelineTime(item: SearchResource): number | null {
+  return toTime(item.photo?.takenDateTime) ?? toTime(item.mdate || item.lastModifiedDateTime)
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+/**
+ * Group results by day, month and year, newest first unless `direction` is
+ * 'asc'. Results of a day keep their relative order.
+ */
+export function buildTimeline(items: SearchResource[], direction: SortDirection = 'desc'): Timeline {
+  const dated: Array<{ item: SearchResource; time: number }> = []
+  const undated: SearchResource[] = []
+  for (const item of items) {
+    const time = getTimelineTime(item)
+    if (time === null) {
+      undated.push(item)
+    } else {
+      dated.push({ item, time })
+    }
+  }
+  const sign = direction === 'asc' ? 1 : -1
+  dated.sort((a, b) => sign * (a.time - b.time))
+
+  const years: TimelineYear[] = []
+  for (const { item, time } of dated) {
+    const date = new Date(time)
+    const year = date.getUTCFullYear()
+    const month = date.getUTCMonth() + 1
+    const monthKey = `${year}-${pad(month)}`
+    const dayKey = `${monthKey}-${pad(date.getUTCDate())}`
+
+    let timelineYear = years[years.length - 1]
+    if (timelineYear?.year !== year) {
+      timelineYear = { key: String(year), year, months: [], count: 0 }
+      years.push(timelineYear)
+    }
+    let timelineMonth = timelineYear.months[timelineYear.months.length - 1]
+    if (timelineMonth?.key !== monthKey) {
+      timelineMonth = { key: monthKey, year, month, days: [], count: 0 }
+      timelineYear.months.push(timelineMonth)
+    }
+    let day = timelineMonth.days[timelineMonth.days.length - 1]
+    if (day?.key !== dayKey) {
+      day = { key: dayKey, items: [] }
+      timelineMonth.days.push(day)
+    }
+    day.items.push(item)
+    timelineMonth.count++
+    timelineYear.count++
+  }
+
+  return { years, undated, count: items.length }
+}
+
+/**
+ * One scrubber mark per month, placed by the share of results before it
+ */
+export function getScrubberMarks(timeline: Timeline): ScrubberMark[] {
+  const marks: ScrubberMark[] = []
+  let before = 0
+  for (const year of timeline.years) {
+    for (const month of year.months) {
+      marks.push({ key: month.key, year: month.year, month: month.month, offset: timeline.count ? before / timeline.count : 0 })
+      before += month.count
+    }
+  }
+  return marks
+}
+
+/**
+ * Mark at a scrubber position (0–1): the last one starting at or above it
+ */
+export function findScrubberMark(marks: ScrubberMark[], position: number): ScrubberMark | null {
+  let found: ScrubberMark | null = null
+  for (const mark of marks) {
+    if (mark.offset > position) break
+    found = mark
+  }
+  return found ?? marks[0] ?? null
+}
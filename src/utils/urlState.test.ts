@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import { createEmptyFilters } from '../types'
+import type { SearchFilters } from '../types'
+import { DEFAULT_SORT } from './sort'
+import {
+  getUrlStateVersion,
+  hasUrlSearchState,
+  searchStateFromQuery,
+  searchStateToQuery,
+  urlStateKey,
+  type UrlSearchState,
+} from './urlState'
+
+function state(filters: Partial<SearchFilters> = {}, extra: Partial<UrlSearchState> = {}): UrlSearchState {
+  return {
+    filters: { ...createEmptyFilters(), ...filters },
+    sort: { ...DEFAULT_SORT },
+    viewMode: 'list',
+    ...extra,
+  }
+}
+
+describe('searchStateToQuery', () => {
+  it('writes nothing for a fresh search', () => {
+    expect(searchStateToQuery(state())).toEqual({})
+  })
+
+  it('writes compact, versioned parameters and skips defaults', () => {
+    const query = searchStateToQuery(state({
+      term: 'beach',
+      standard: { mediaType: 'image', sizeRange: { min: 1000 } },
+      photo: { takenDateRange: { start: '2023-01-01', end: '2023-12-31' }, fNumberRange: { min: 1.4, max: 2.8 } },
+    }, { sort: { field: 'takenDateTime', direction: 'desc' }, viewMode: 'grid' }))
+    expect(query).toEqual({
+      v: '1',
+      q: 'beach',
+      mt: 'image',
+      size: '1000..',
+      taken: '2023-01-01..2023-12-31',
+      fn: '1.4..2.8',
+      sort: 'takenDateTime:desc',
+      view: 'grid',
+    })
+  })
+})
+
+describe('searchStateFromQuery', () => {
+  it('round-trips the full state', () => {
+    const original = state({
+      term: 'report',
+      scope: 'currentFolder',
+      scopeTarget: { spaceId: 's', path: '/Docs', fileId: 'f' },
+      standard: {
+        name: '*.pdf',
+        type: 'file',
+        sizeRange: { min: 10, max: 500 },
+        modifiedRange: { start: '2024-01-01', end: '' },
+        tags: 'work,finance',
+        content: 'revenue',
+        path: '/Docs/2024',
+        includeHidden: true,
+      },
+      photo: {
+        cameraMake: 'Canon',
+        cameraModel: 'EOS R5',
+        isoRange: { max: 800 },
+        focalLengthRange: { min: 35 },
+        orientation: 6,
+        location: { type: 'box', north: 41.5, south: 41.25, east: 2.3, west: -0.75 },
+      },
+      raw: 'name:"a b" OR size>1',
+      negated: ['tags', 'cameraMake'],
+      match: 'any',
+    }, {
+      sort: { field: 'size', direction: 'asc', foldersFirst: true, secondary: [{ field: 'name', direction: 'desc' }] },
+      viewMode: 'table',
+    })
+    expect(searchStateFromQuery(searchStateToQuery(original))).toEqual(original)
+  })
+
+  it('uses defaults for missing parameters', () => {
+    expect(searchStateFromQuery({})).toEqual(state())
+  })
+
+  it('drops malformed values', () => {
+    const restored = searchStateFromQuery({
+      v: '1',
+      type: 'symlink',
+      size: 'big..',
+      taken: '2023-13..yesterday',
+      iso: '100',
+      orient: '12',
+      loc: 'box:42,1,41,2',
+      not: 'tags,<script>',
+      sort: 'colour:asc,size:up',
+      view: 'carousel',
+    })
+    expect(restored.filters.standard).toEqual({})
+    expect(restored.filters.photo).toEqual({})
+    expect(restored.filters.negated).toEqual(['tags'])
+    expect(restored.sort).toEqual({ field: 'size', direction: 'desc' })
+    expect(restored.viewMode).toBe('list')
+  })
+
+  it('reads radius location filters', () => {
+    const query = searchStateToQuery(state({ photo: { location: { type: 'radius', latitude: 41.38, longitude: 2.19, radiusKm: 5 } } }))
+    expect(query.loc).toBe('r:41.38,2.19,5')
+    expect(searchStateFromQuery(query).filters.photo.location).toEqual({ type: 'radius', latitude: 41.38, longitude: 2.19, radiusKm: 5 })
+    expect(searchStateFromQuery({ v: '1', loc: 'r:41.38,2.19' }).filters.photo).toEqual({})
+    expect(searchStateFromQuery({ v: '1', loc: 'r:41.38,2.19,-1' }).filters.photo).toEqual({})
+  })
+
+  it('keeps the timeline view', () => {
+    expect(searchStateFromQuery({ v: '1', view: 'timeline' }).viewMode).toBe('timeline')
+  })
+
+  it('reads unversioned scope-only links', () => {
+    const query = { scope: 'space', space: 's' }
+    expect(getUrlStateVersion(query)).toBe(0)
+    expect(searchStateFromQuery(query).filters).toEqual({ ...createEmptyFilters(), scope: 'space', scopeTarget: { spaceId: 's' } })
+  })
+})
+
+describe('hasUrlSearchState / urlStateKey', () => {
+  it('only looks at search parameters', () => {
+    expect(hasUrlSearchState({ fileId: 'x' })).toBe(false)
+    expect(hasUrlSearchState({ q: 'a' })).toBe(true)
+    expect(urlStateKey({ q: 'a b', v: '1', other: 'x' })).toBe(urlStateKey({ v: '1', q: 'a b' }))
+    expect(urlStateKey({ q: 'a' })).not.toBe(urlStateKey({ q: 'b' }))
+  })
+})
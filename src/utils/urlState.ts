@@ -0,0 +1,281 @@
+/**
+ * Search state <-> URL query parameters, for shareable search links.
+ *
+ * The full filter set, sort, view mode and scope are written as short
+ * parameters (`?v=1&q=beach&mt=image&taken=2023-01-01..2023-12-31&sort=takenDateTime:desc`).
+ * Defaults are left out so links stay short. `v` is the format version:
+ * links without it predate versioning (scope parameters only) and read the
+ * same way. A future format change bumps URL_STATE_VERSION and adds a
+ * migration from the previous version to URL_STATE_MIGRATIONS.
+ *
+ * Reading is lenient: malformed values are dropped instead of failing the
+ * whole link.
+ */
+
+import type {
+  DateRange,
+  LocationFilter,
+  NumericRange,
+  ResultViewMode,
+  SearchFilters,
+  SortConfig,
+  SortDirection,
+  SortField,
+  SortKey,
+} from '../types'
+import { createEmptyFilters } from '../types'
+import { DEFAULT_SORT } from './sort'
+import { scopeFromQuery, scopeToQuery } from './scope'
+import { isValidLocationFilter } from './locationFilter'
+
+export const URL_STATE_VERSION = 1
+
+/**
+ * Query values as read from the router (first value of repeated parameters)
+ */
+export type UrlQueryValues = Record<string, string | null | undefined>
+
+/**
+ * Everything a search link restores
+ */
+export interface UrlSearchState {
+  filters: SearchFilters
+  sort: SortConfig
+  viewMode: ResultViewMode
+}
+
+/**
+ * Upgrades from version N (key) to N + 1
+ */
+const URL_STATE_MIGRATIONS: Record<number, (query: UrlQueryValues) => UrlQueryValues> = {}
+
+const DEFAULT_VIEW_MODE: ResultViewMode = 'list'
+const VIEW_MODES: ResultViewMode[] = ['list', 'grid', 'table', 'map', 'timeline']
+const SORT_FIELDS: SortField[] = ['name', 'size', 'mtime', 'takenDateTime']
+
+/** Every parameter owned by the search state (other parameters are left alone) */
+export const URL_STATE_KEYS = [
+  'v', 'q',
+  'name', 'type', 'size', 'mod', 'mt', 'tags', 'content', 'path', 'hidden',
+  'make', 'model', 'taken', 'iso', 'fn', 'fl', 'orient', 'loc',
+  'raw', 'not', 'match',
+  'scope', 'space', 'folder', 'folderId',
+  'sort', 'ff', 'view',
+] as const
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const FILTER_ID_PATTERN = /^[A-Za-z]+$/
+
+function encodeRange(range: NumericRange | undefined): string | undefined {
+  if (!range || (range.min === undefined && range.max === undefined)) return undefined
+  return `${range.min ?? ''}..${range.max ?? ''}`
+}
+
+function splitRange(value: string | null | undefined): [string, string] | null {
+  const separator = value ? value.indexOf('..') : -1
+  return separator >= 0 ? [value!.slice(0, separator), value!.slice(separator + 2)] : null
+}
+
+function decodeRange(value: string | null | undefined): NumericRange | undefined {
+  const parts = splitRange(value)
+  if (!parts) return undefined
+  const range: NumericRange = {}
+  for (const [key, text] of [['min', parts[0]], ['max', parts[1]]] as const) {
+    const number = text === '' ? NaN : Number(text)
+    if (Number.isFinite(number)) range[key] = number
+  }
+  return range.min !== undefined || range.max !== undefined ? range : undefined
+}
+
+function encodeDateRange(range: DateRange | undefined): string | undefined {
+  if (!range || (!range.start && !range.end)) return undefined
+  return `${range.start || ''}..${range.end || ''}`
+}
+
+function decodeDateRange(value: string | null | undefined): DateRange | undefined {
+  const parts = splitRange(value)
+  if (!parts) return undefined
+  const start = DATE_PATTERN.test(parts[0]) ? parts[0] : ''
+  const end = DATE_PATTERN.test(parts[1]) ? parts[1] : ''
+  return start || end ? { start, end } : undefined
+}
+
+/**
+ * `box:<south>,<west>,<north>,<east>` or `r:<latitude>,<longitude>,<km>`
+ */
+function encodeLocation(location: LocationFilter | undefined): string | undefined {
+  if (!location) return undefined
+  return location.type === 'box'
+    ? `box:${location.south},${location.west},${location.north},${location.east}`
+    : `r:${location.latitude},${location.longitude},${location.radiusKm}`
+}
+
+function decodeLocation(value: string | null | undefined): LocationFilter | undefined {
+  const match = (value || '').match(/^(box|r):(.*)$/)
+  if (!match) return undefined
+  const numbers = match[2].split(',').map(text => (text === '' ? NaN : Number(text)))
+  let location: LocationFilter
+  if (match[1] === 'box' && numbers.length === 4) {
+    const [south, west, north, east] = numbers
+    location = { type: 'box', north, south, east, west }
+  } else if (match[1] === 'r' && numbers.length === 3) {
+    const [latitude, longitude, radiusKm] = numbers
+    location = { type: 'radius', latitude, longitude, radiusKm }
+  } else {
+    return undefined
+  }
+  return isValidLocationFilter(location) ? location : undefined
+}
+
+function encodeSort(sort: SortConfig): string | undefined {
+  const keys = [sort, ...(sort.secondary || [])]
+  const isDefault = sort.field === DEFAULT_SORT.field && sort.direction === DEFAULT_SORT.direction && !sort.secondary?.length
+  return isDefault ? undefined : keys.map(key => `${key.field}:${key.direction}`).join(',')
+}
+
+function decodeSortKey(text: string): SortKey | null {
+  const [field, direction] = text.split(':')
+  if (!SORT_FIELDS.includes(field as SortField)) return null
+  return { field: field as SortField, direction: (direction === 'asc' ? 'asc' : 'desc') as SortDirection }
+}
+
+function decodeSort(value: string | null | undefined, foldersFirst: boolean): SortConfig {
+  const keys = (value || '').split(',').map(decodeSortKey).filter((key): key is SortKey => key !== null)
+  const [primary, ...secondary] = keys
+  const sort: SortConfig = primary ? { ...primary } : { ...DEFAULT_SORT }
+  if (secondary.length > 0) sort.secondary = secondary
+  if (foldersFirst) sort.foldersFirst = true
+  return sort
+}
+
+/**
+ * Write the search state as query parameters (defaults are omitted; nothing
+ * at all for a fresh search)
+ */
+export function searchStateToQuery(state: UrlSearchState): Record<string, string> {
+  const { filters, sort, viewMode } = state
+  const { standard, photo } = filters
+  const values: Record<string, string | undefined> = {
+    v: String(URL_STATE_VERSION),
+    q: filters.term || undefined,
+    name: standard.name || undefined,
+    type: standard.type || undefined,
+    size: encodeRange(standard.sizeRange),
+    mod: encodeDateRange(standard.modifiedRange),
+    mt: standard.mediaType || undefined,
+    tags: standard.tags || undefined,
+    content: standard.content || undefined,
+    path: standard.path || undefined,
+    hidden: standard.includeHidden ? '1' : undefined,
+    make: photo.cameraMake || undefined,
+    model: photo.cameraModel || undefined,
+    taken: encodeDateRange(photo.takenDateRange),
+    iso: encodeRange(photo.isoRange),
+    fn: encodeRange(photo.fNumberRange),
+    fl: encodeRange(photo.focalLengthRange),
+    orient: photo.orientation ? String(photo.orientation) : undefined,
+    loc: encodeLocation(photo.location),
+    raw: filters.raw || undefined,
+    not: filters.negated?.length ? filters.negated.join(',') : undefined,
+    match: filters.match === 'any' ? 'any' : undefined,
+    ...scopeToQuery(filters),
+    sort: encodeSort(sort),
+    ff: sort.foldersFirst ? '1' : undefined,
+    view: viewMode !== DEFAULT_VIEW_MODE ? viewMode : undefined,
+  }
+  const query: Record<string, string> = {}
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined) query[key] = value
+  }
+  return Object.keys(query).length > 1 ? query : {}
+}
+
+/**
+ * Version of a query's search state (0 for unversioned links)
+ */
+export function getUrlStateVersion(query: UrlQueryValues): number {
+  const version = parseInt(query.v || '', 10)
+  return Number.isInteger(version) && version > 0 ? version : 0
+}
+
+/**
+ * Whether the query carries any search state
+ */
+export function hasUrlSearchState(query: UrlQueryValues): boolean {
+  return URL_STATE_KEYS.some(key => !!query[key])
+}
+
+/**
+ * Bring an older query up to the current version
+ */
+function migrateQuery(query: UrlQueryValues): UrlQueryValues {
+  let migrated = query
+  for (let version = Math.max(getUrlStateVersion(query), 1); version < URL_STATE_VERSION; version++) {
+    migrated = URL_STATE_MIGRATIONS[version]?.(migrated) ?? migrated
+  }
+  return migrated
+}
+
+/**
+ * Read the search state from query parameters.
+ * Missing parameters take their defaults (empty filters, default sort, list view).
+ */
+export function searchStateFromQuery(input: UrlQueryValues): UrlSearchState {
+  const query = migrateQuery(input)
+  const filters = createEmptyFilters()
+  const { standard, photo } = filters
+  const text = (key: string) => query[key]?.trim() || undefined
+
+  filters.term = query.q || ''
+  standard.name = text('name')
+  if (query.type === 'file' || query.type === 'folder') standard.type = query.type
+  standard.sizeRange = decodeRange(query.size)
+  standard.modifiedRange = decodeDateRange(query.mod)
+  standard.mediaType = text('mt')
+  standard.tags = text('tags')
+  standard.content = text('content')
+  standard.path = text('path')
+  if (query.hidden === '1') standard.includeHidden = true
+
+  photo.cameraMake = text('make')
+  photo.cameraModel = text('model')
+  photo.takenDateRange = decodeDateRange(query.taken)
+  photo.isoRange = decodeRange(query.iso)
+  photo.fNumberRange = decodeRange(query.fn)
+  photo.focalLengthRange = decodeRange(query.fl)
+  const orientation = parseInt(query.orient || '', 10)
+  if (orientation >= 1 && orientation <= 8) photo.orientation = orientation
+  photo.location = decodeLocation(query.loc)
+
+  filters.raw = text('raw')
+  const negated = (query.not || '').split(',').filter(id => FILTER_ID_PATTERN.test(id))
+  if (negated.length > 0) filters.negated = negated
+  if (query.match === 'any') filters.match = 'any'
+
+  const { scope, scopeTarget } = scopeFromQuery(query)
+  filters.scope = scope
+  if (scopeTarget) filters.scopeTarget = scopeTarget
+
+  // Drop keys left undefined so the state compares equal to a fresh one
+  for (const group of [standard, photo] as Array<Record<string, unknown>>) {
+    Object.keys(group).forEach(key => group[key] === undefined && delete group[key])
+  }
+  if (filters.raw === undefined) delete filters.raw
+
+  const view = query.view as ResultViewMode
+  return {
+    filters,
+    sort: decodeSort(query.sort, query.ff === '1'),
+    viewMode: VIEW_MODES.includes(view) ? view : DEFAULT_VIEW_MODE,
+  }
+}
+
+/**
+ * Stable key of the search state in a query, to tell whether two URLs show the same search
+ */
+export function urlStateKey(query: UrlQueryValues): string {
+  return URL_STATE_KEYS
+    .filter(key => !!query[key])
+    .map(key => `${key}=${encodeURIComponent(query[key] as string)}`)
+    .join('&')
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import { createZipWriter, crc32, zipStream } from './zip'
+
+async function collect(chunks: AsyncIterable<Uint8Array>): Promise<Uint8Array> {
+  const parts: Uint8Array[] = []
+  for await (const chunk of chunks) parts.push(chunk)
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    bytes.set(part, offset)
+    offset += part.length
+  }
+  return bytes
+}
+
+/**
+ * Read the files of a stored (uncompressed) archive through its central directory
+ */
+function readZip(bytes: Uint8Array): Record<string, { text: string; crc: number }> {
+  const view = new DataView(bytes.buffer)
+  const end = bytes.length - 22
+  expect(view.getUint32(end, true)).toBe(0x06054b50)
+  const count = view.getUint16(end + 10, true)
+  let pos = view.getUint32(end + 16, true)
+  const files: Record<string, { text: string; crc: number }> = {}
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(pos, true)).toBe(0x02014b50)
+    const crc = view.getUint32(pos + 16, true)
+    const size = view.getUint32(pos + 20, true)
+    const nameLength = view.getUint16(pos + 28, true)
+    const offset = view.getUint32(pos + 42, true)
+    const name = new TextDecoder().decode(bytes.subarray(pos + 46, pos + 46 + nameLength))
+    expect(view.getUint32(offset, true)).toBe(0x04034b50)
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true)
+    const data = bytes.subarray(dataStart, dataStart + size)
+    expect(crc32(data)).toBe(crc)
+    // Data descriptor right after the data
+    expect(view.getUint32(dataStart + size, true)).toBe(0x08074b50)
+    files[name] = { text: new TextDecoder().decode(data), crc }
+    pos += 46 + nameLength
+  }
+  return files
+}
+
+describe('crc32', () => {
+  it('matches the standard checksum, also when continued over chunks', () => {
+    const bytes = new TextEncoder().encode('hello world')
+    expect(crc32(new TextEncoder().encode('hello'))).toBe(0x3610a686)
+    expect(crc32(bytes.subarray(5), crc32(bytes.subarray(0, 5)))).toBe(crc32(bytes))
+  })
+})
+
+describe('zipStream', () => {
+  it('writes entries from strings, bytes and async chunks', async () => {
+    async function* chunks() {
+      yield new TextEncoder().encode('first ')
+      yield new Uint8Array(0)
+      yield new TextEncoder().encode('second')
+    }
+    const bytes = await collect(zipStream([
+      { name: 'a.txt', data: 'plain text' },
+      { name: 'dir/ü.bin', data: new Uint8Array([104, 105]) },
+      { name: 'streamed.txt', data: chunks() },
+    ]))
+    const files = readZip(bytes)
+    expect(Object.keys(files)).toEqual(['a.txt', 'dir/ü.bin', 'streamed.txt'])
+    expect(files['a.txt'].text).toBe('plain text')
+    expect(files['dir/ü.bin'].text).toBe('hi')
+    expect(files['streamed.txt'].text).toBe('first second')
+  })
+
+  it('writes an empty archive', async () => {
+    expect(readZip(await collect(zipStream([])))).toEqual({})
+  })
+})
+
+describe('createZipWriter', () => {
+  function createOutput() {
+    const parts: Uint8Array[] = []
+    const output = { closed: false, aborted: false }
+    const stream = new WritableStream<Uint8Array>({
+      write(chunk) { parts.push(chunk) },
+      close() { output.closed = true },
+      abort() { output.aborted = true },
+    })
+    return { stream, output, bytes: () => collect((async function* () { yield* parts })()) }
+  }
+
+  it('writes entries in the order they are added, streams included', async () => {
+    const { stream, output, bytes } = createOutput()
+    const writer = createZipWriter(stream)
+    const body = new Blob(['from a stream']).stream()
+    await Promise.all([
+      writer.add({ name: 'a.txt', data: 'first' }),
+      writer.add({ name: 'b.txt', data: body }),
+    ])
+    await writer.close()
+
+    expect(output.closed).toBe(true)
+    const files = readZip(await bytes())
+    expect(Object.keys(files)).toEqual(['a.txt', 'b.txt'])
+    expect(files['b.txt'].text).toBe('from a stream')
+  })
+
+  it('rejects an entry whose data fails and keeps the archive readable', async () => {
+    const { stream, bytes } = createOutput()
+    const writer = createZipWriter(stream)
+    async function* failing() {
+      yield new TextEncoder().encode('partial')
+      throw new Error('Connection reset')
+    }
+    await expect(writer.add({ name: 'broken.txt', data: failing() })).rejects.toThrow('Connection reset')
+    await writer.add({ name: 'ok.txt', data: 'fine' })
+    await writer.close()
+
+    const files = readZip(await bytes())
+    expect(files['broken.txt'].text).toBe('partial')
+    expect(files['ok.txt'].text).toBe('fine')
+  })
+
+  it('aborts the output', async () => {
+    const { stream, output } = createOutput()
+    const writer = createZipWriter(stream)
+    await writer.add({ name: 'a.txt', data: 'first' })
+    await writer.abort()
+
+    expect(output.aborted).toBe(true)
+    expect(output.closed).toBe(false)
+    await expect(writer.add({ name: 'b.txt', data: 'late' })).rejects.toThrow()
+  })
+})
@@ -0,0 +1,243 @@
+/**
+ * Minimal streaming ZIP writer (no compression).
+ *
+ * Entries are written as they are read: each file's CRC and size follow its
+ * data in a data descriptor, so nothing has to be buffered. Used for XLSX
+ * exports, which are ZIP archives of XML files, and for downloading selected
+ * files as one archive, which `createZipWriter()` streams into the download
+ * as each file arrives. No ZIP64, so the archive must stay below 4 GB.
+ */
+
+export interface ZipEntry {
+  /** Path inside the archive, e.g. 'xl/workbook.xml' */
+  name: string
+  data: Uint8Array | string | Iterable<Uint8Array> | AsyncIterable<Uint8Array> | ReadableStream<Uint8Array>
+  /** Modification time (default: now) */
+  modified?: Date
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+/**
+ * Continue a CRC-32 over more bytes (start with 0)
+ */
+export function crc32(data: Uint8Array, crc = 0): number {
+  let c = ~crc >>> 0
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8)
+  }
+  return ~c >>> 0
+}
+
+// General purpose flags: sizes in data descriptor (bit 3), UTF-8 names (bit 11)
+const FLAGS = 0x0808
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980)
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+function header(size: number, fill: (view: DataView) => void): Uint8Array {
+  const bytes = new Uint8Array(size)
+  fill(new DataView(bytes.buffer))
+  return bytes
+}
+
+async function* chunksOf(data: ZipEntry['data']): AsyncGenerator<Uint8Array> {
+  if (typeof data === 'string') {
+    yield new TextEncoder().encode(data)
+  } else if (data instanceof Uint8Array) {
+    yield data
+  } else if (data instanceof ReadableStream) {
+    // Not every browser can iterate streams
+    const reader = data.getReader()
+    try {
+      for (let read = await reader.read(); !read.done; read = await reader.read()) yield read.value
+    } finally {
+      reader.releaseLock()
+    }
+  } else {
+    for await (const chunk of data) yield chunk
+  }
+}
+
+interface CentralRecord {
+  name: Uint8Array
+  time: number
+  date: number
+  crc: number
+  size: number
+  offset: number
+}
+
+/**
+ * Write a ZIP archive, yielding its bytes as they are produced
+ */
+export async function* zipStream(entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder()
+  const records: CentralRecord[] = []
+  let offset = 0
+
+  for await (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const { time, date } = dosDateTime(entry.modified ?? new Date())
+
+    const local = header(30 + name.length, view => {
+      view.setUint32(0, 0x04034b50, true)
+      view.setUint16(4, 20, true) // version needed
+      view.setUint16(6, FLAGS, true)
+      view.setUint16(8, 0, true) // stored
+      view.setUint16(10, time, true)
+      view.setUint16(12, date, true)
+      // CRC and sizes: see data descriptor
+      view.setUint16(26, name.length, true)
+    })
+    local.set(name, 30)
+    const record: CentralRecord = { name, time, date, crc: 0, size: 0, offset }
+    yield local
+    offset += local.length
+
+    for await (const chunk of chunksOf(entry.data)) {
+      if (chunk.length === 0) continue
+      record.crc = crc32(chunk, record.crc)
+      record.size += chunk.length
+      yield chunk
+    }
+    offset += record.size
+
+    yield header(16, view => {
+      view.setUint32(0, 0x08074b50, true)
+      view.setUint32(4, record.crc, true)
+      view.setUint32(8, record.size, true)
+      view.setUint32(12, record.size, true)
+    })
+    offset += 16
+    records.push(record)
+  }
+
+  const directoryOffset = offset
+  let directorySize = 0
+  for (const record of records) {
+    const central = header(46 + record.name.length, view => {
+      view.setUint32(0, 0x02014b50, true)
+      view.setUint16(4, 20, true) // version made by
+      view.setUint16(6, 20, true) // version needed
+      view.setUint16(8, FLAGS, true)
+      view.setUint16(10, 0, true)
+      view.setUint16(12, record.time, true)
+      view.setUint16(14, record.date, true)
+      view.setUint32(16, record.crc, true)
+      view.setUint32(20, record.size, true)
+      view.setUint32(24, record.size, true)
+      view.setUint16(28, record.name.length, true)
+      view.setUint32(42, record.offset, true)
+    })
+    central.set(record.name, 46)
+    directorySize += central.length
+    yield central
+  }
+
+  yield header(22, view => {
+    view.setUint32(0, 0x06054b50, true)
+    view.setUint16(8, records.length, true)
+    view.setUint16(10, records.length, true)
+    view.setUint32(12, directorySize, true)
+    view.setUint32(16, directoryOffset, true)
+  })
+}
+
+export interface ZipWriter {
+  /**
+   * Write an entry after the ones added before; resolves once its data is
+   * written, rejects when reading it fails (the entry keeps what was read)
+   * or the output fails
+   */
+  add(entry: ZipEntry): Promise<void>
+  /** Finish the archive and close the output */
+  close(): Promise<void>
+  /** Stop writing and abort the output */
+  abort(reason?: unknown): Promise<void>
+}
+
+interface QueuedEntry {
+  entry: ZipEntry
+  settle: (err?: unknown) => void
+}
+
+/**
+ * Write a ZIP archive into a stream, one entry at a time as they are added
+ */
+export function createZipWriter(output: WritableStream<Uint8Array>): ZipWriter {
+  const writer = output.getWriter()
+  const queue: Array<QueuedEntry | null> = []
+  let wake: (() => void) | null = null
+  let failure: Error | null = null
+
+  function push(item: QueuedEntry | null): void {
+    queue.push(item)
+    wake?.()
+    wake = null
+  }
+
+  async function* entries(): AsyncGenerator<ZipEntry> {
+    for (;;) {
+      while (queue.length === 0) await new Promise<void>(resolve => { wake = resolve })
+      const item = queue.shift()!
+      if (!item) return
+      yield { ...item.entry, data: track(item) }
+    }
+  }
+
+  async function* track({ entry, settle }: QueuedEntry): AsyncGenerator<Uint8Array> {
+    try {
+      yield* chunksOf(entry.data)
+      settle()
+    } catch (err) {
+      settle(err)
+    } finally {
+      // Only reached unsettled when the output failed mid-entry
+      settle(new Error('Archive output closed'))
+    }
+  }
+
+  const done = (async () => {
+    for await (const chunk of zipStream(entries())) await writer.write(chunk)
+    await writer.close()
+  })()
+  done.catch(err => {
+    failure ??= err instanceof Error ? err : new Error('Archive output failed')
+    queue.splice(0).forEach(item => item?.settle(failure))
+  })
+
+  return {
+    add(entry) {
+      if (failure) return Promise.reject(failure)
+      return new Promise<void>((resolve, reject) => {
+        push({ entry, settle: err => (err === undefined ? resolve() : reject(err)) })
+      })
+    },
+    close() {
+      push(null)
+      return done
+    },
+    async abort(reason) {
+      failure ??= reason instanceof Error ? reason : new Error('Archive aborted')
+      push(null)
+      await writer.abort(reason).catch(() => {})
+      await done.catch(() => {})
+    },
+  }
+}
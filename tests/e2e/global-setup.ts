@@ -2,6 +2,7 @@ import { chromium, FullConfig } from '@playwright/test'
 import path from 'path'
 import fs from 'fs'
 import { fileURLToPath } from 'url'
+import { startMockOcis } from '../mock-ocis/server'
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
@@ -15,10 +16,19 @@ const AUTH_CACHE_MINUTES = parseInt(process.env.AUTH_CACHE_MINUTES || '10', 10)
  * All tests reuse this authenticated session
  *
  * oCIS uses OpenID Connect (OIDC) via its built-in IdP
+ *
+ * With OCIS_MOCK set, starts the offline mock server on baseURL instead
+ * (no authentication needed) and returns its teardown.
  */
 async function globalSetup(config: FullConfig) {
   const baseURL = config.projects[0].use.baseURL || 'https://cloud.faure.ca'
 
+  if (process.env.OCIS_MOCK) {
+    const server = await startMockOcis({ port: parseInt(new URL(baseURL).port, 10) })
+    console.log(`Mock oCIS server listening on ${server.url}`)
+    return () => server.close()
+  }
+
   // Check if auth file exists and is recent enough
   if (fs.existsSync(authFile)) {
     const stats = fs.statSync(authFile)
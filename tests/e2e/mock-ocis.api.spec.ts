@@ -0,0 +1,58 @@
+import { test, expect } from '@playwright/test'
+
+/**
+ * API-level checks against the offline mock server (OCIS_MOCK=1 pnpm test:e2e).
+ * These exercise the same endpoints the extension calls, without a browser.
+ */
+
+const personal = encodeURIComponent('storage-users-1$personal-admin')
+
+function searchBody(pattern: string, limit = 50): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<oc:search-files xmlns:oc="http://owncloud.org/ns" xmlns:d="DAV:">
+  <oc:search>
+    <oc:pattern>${pattern}</oc:pattern>
+    <oc:limit>${limit}</oc:limit>
+  </oc:search>
+  <d:prop>
+    <d:displayname/>
+    <oc:photo-camera-make/>
+  </d:prop>
+</oc:search-files>`
+}
+
+test.describe('Mock oCIS API', () => {
+  test('lists drives', async ({ request }) => {
+    const response = await request.get('/graph/v1.0/me/drives')
+    expect(response.ok()).toBe(true)
+    const data = await response.json()
+    expect(data.value.map((d: { driveType: string }) => d.driveType)).toEqual(['personal', 'project'])
+  })
+
+  test('searches photos by camera', async ({ request }) => {
+    const response = await request.fetch(`/dav/spaces/${personal}`, {
+      method: 'REPORT',
+      headers: { 'Content-Type': 'application/xml' },
+      data: searchBody('mediatype:image AND photo.cameramake:Canon'),
+    })
+    expect(response.status()).toBe(207)
+    expect(response.headers()['content-range']).toBe('rows 0-0/1')
+    const xml = await response.text()
+    expect(xml).toContain('<d:displayname>beach.jpg</d:displayname>')
+    expect(xml).toContain('<oc:photo-camera-make>Canon</oc:photo-camera-make>')
+  })
+
+  test('rejects invalid KQL', async ({ request }) => {
+    const response = await request.fetch(`/dav/spaces/${personal}`, {
+      method: 'REPORT',
+      data: searchBody('name:('),
+    })
+    expect(response.status()).toBe(400)
+  })
+
+  test('reports capabilities', async ({ request }) => {
+    const response = await request.get('/ocs/v1.php/cloud/capabilities?format=json')
+    const data = await response.json()
+    expect(data.ocs.data.capabilities.search.ocr).toBe(false)
+  })
+})
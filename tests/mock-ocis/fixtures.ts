@@ -0,0 +1,345 @@
+/**
+ * Fixture file tree for the mock oCIS server: a personal space and a project
+ * space with documents and photos carrying EXIF metadata.
+ *
+ * Folders are implied by the file paths. IDs follow the oCIS format
+ * (`storageid$spaceid` for spaces, `storageid$spaceid!nodeid` for files).
+ */
+
+export interface MockPhoto {
+  cameraMake?: string
+  cameraModel?: string
+  takenDateTime?: string
+  fNumber?: number
+  focalLength?: number
+  iso?: number
+  exposureNumerator?: number
+  exposureDenominator?: number
+  orientation?: number
+}
+
+export interface MockLocation {
+  latitude: number
+  longitude: number
+  altitude?: number
+}
+
+export interface FixtureFile {
+  /** Path within the space, e.g. '/Photos/2023/beach.jpg' */
+  path: string
+  mimeType: string
+  /** ISO date */
+  mtime: string
+  /** Text content (also used for content: searches); binary files get a placeholder image */
+  content?: string
+  /** Size in bytes, defaults to the content length */
+  size?: number
+  tags?: string[]
+  favorite?: boolean
+  photo?: MockPhoto
+  location?: MockLocation
+  image?: { width: number; height: number }
+}
+
+export interface FixtureSpace {
+  id: string
+  name: string
+  driveType: 'personal' | 'project' | 'virtual' | 'mountpoint'
+  driveAlias: string
+  files: FixtureFile[]
+}
+
+/**
+ * A file or folder of the mock server's tree
+ */
+export interface MockEntry {
+  id: string
+  spaceId: string
+  parentId: string
+  /** '/' for the space root */
+  path: string
+  name: string
+  isFolder: boolean
+  mimeType: string
+  size: number
+  mtime: string
+  etag: string
+  tags: string[]
+  favorite: boolean
+  content?: string
+  photo?: MockPhoto
+  location?: MockLocation
+  image?: { width: number; height: number }
+}
+
+export const DEFAULT_FIXTURES: FixtureSpace[] = [
+  {
+    id: 'storage-users-1$personal-admin',
+    name: 'Admin',
+    driveType: 'personal',
+    driveAlias: 'personal/admin',
+    files: [
+      {
+        path: '/Documents/report-2024.pdf',
+        mimeType: 'application/pdf',
+        mtime: '2024-03-15T09:30:00Z',
+        content: 'Annual report 2024: revenue grew in every region.',
+        size: 482133,
+        tags: ['work', 'finance'],
+      },
+      {
+        path: '/Documents/notes.txt',
+        mimeType: 'text/plain',
+        mtime: '2024-05-02T17:12:00Z',
+        content: 'Meeting notes: plan the summer photo walk.',
+        favorite: true,
+      },
+      {
+        path: '/Documents/Budget 2024.xlsx',
+        mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        mtime: '2024-01-20T08:00:00Z',
+        size: 23140,
+        tags: ['finance'],
+      },
+      {
+        path: '/Photos/2023/beach.jpg',
+        mimeType: 'image/jpeg',
+        mtime: '2023-07-15T10:00:00Z',
+        size: 3145728,
+        tags: ['holiday'],
+        photo: {
+          cameraMake: 'Canon',
+          cameraModel: 'EOS R5',
+          takenDateTime: '2023-07-14T18:42:10Z',
+          fNumber: 2.8,
+          focalLength: 35,
+          iso: 100,
+          exposureNumerator: 1,
+          exposureDenominator: 500,
+          orientation: 1,
+        },
+        location: { latitude: 41.3784, longitude: 2.1925, altitude: 3 },
+        image: { width: 8192, height: 5464 },
+      },
+      {
+        path: '/Photos/2023/mountain.jpg',
+        mimeType: 'image/jpeg',
+        mtime: '2023-09-03T12:00:00Z',
+        size: 2621440,
+        tags: ['holiday', 'hiking'],
+        photo: {
+          cameraMake: 'NIKON CORPORATION',
+          cameraModel: 'NIKON Z 6',
+          takenDateTime: '2023-09-02T07:15:00Z',
+          fNumber: 8,
+          focalLength: 24,
+          iso: 200,
+          exposureNumerator: 1,
+          exposureDenominator: 250,
+          orientation: 1,
+        },
+        location: { latitude: 46.5581, longitude: 7.9891, altitude: 2061 },
+        image: { width: 6048, height: 4024 },
+      },
+      {
+        path: '/Photos/2024/city.jpg',
+        mimeType: 'image/jpeg',
+        mtime: '2024-04-10T20:00:00Z',
+        size: 1887436,
+        photo: {
+          cameraMake: 'Apple',
+          cameraModel: 'iPhone 14 Pro',
+          takenDateTime: '2024-04-10T19:03:44Z',
+          fNumber: 1.78,
+          focalLength: 6.86,
+          iso: 640,
+          exposureNumerator: 1,
+          exposureDenominator: 60,
+          orientation: 6,
+        },
+        location: { latitude: 48.8584, longitude: 2.2945, altitude: 35 },
+        image: { width: 4032, height: 3024 },
+      },
+      {
+        path: '/Photos/2024/portrait.jpg',
+        mimeType: 'image/jpeg',
+        mtime: '2024-06-21T15:00:00Z',
+        size: 2202009,
+        photo: {
+          cameraMake: 'FUJIFILM',
+          cameraModel: 'X-T4',
+          takenDateTime: '2024-06-21T14:20:05Z',
+          fNumber: 1.4,
+          focalLength: 56,
+          iso: 160,
+          exposureNumerator: 1,
+          exposureDenominator: 1000,
+          orientation: 8,
+        },
+        image: { width: 6240, height: 4160 },
+      },
+      {
+        path: '/Videos/clip.mp4',
+        mimeType: 'video/mp4',
+        mtime: '2024-02-11T11:11:00Z',
+        size: 52428800,
+      },
+      {
+        path: '/Archive/backup-2022.zip',
+        mimeType: 'application/zip',
+        mtime: '2022-12-31T23:00:00Z',
+        size: 104857600,
+      },
+    ],
+  },
+  {
+    id: 'storage-users-1$project-marketing',
+    name: 'Marketing',
+    driveType: 'project',
+    driveAlias: 'project/marketing',
+    files: [
+      {
+        path: '/Campaign/brief.docx',
+        mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        mtime: '2024-05-06T10:00:00Z',
+        content: 'Campaign brief: summer launch with outdoor photography.',
+        tags: ['work', 'campaign'],
+      },
+      {
+        path: '/Campaign/poster.png',
+        mimeType: 'image/png',
+        mtime: '2024-05-08T16:30:00Z',
+        size: 901120,
+        tags: ['campaign'],
+        image: { width: 2480, height: 3508 },
+      },
+      {
+        path: '/Campaign/Shoot/shoot-01.jpg',
+        mimeType: 'image/jpeg',
+        mtime: '2024-05-20T09:00:00Z',
+        size: 4718592,
+        tags: ['campaign'],
+        photo: {
+          cameraMake: 'SONY',
+          cameraModel: 'ILCE-7M3',
+          takenDateTime: '2024-05-19T08:05:00Z',
+          fNumber: 4,
+          focalLength: 85,
+          iso: 400,
+          exposureNumerator: 1,
+          exposureDenominator: 320,
+          orientation: 1,
+        },
+        location: { latitude: 52.5163, longitude: 13.3777, altitude: 34 },
+        image: { width: 6000, height: 4000 },
+      },
+      {
+        path: '/Campaign/Shoot/shoot-02.jpg',
+        mimeType: 'image/jpeg',
+        mtime: '2024-05-20T09:01:00Z',
+        size: 4823449,
+        tags: ['campaign'],
+        photo: {
+          cameraMake: 'SONY',
+          cameraModel: 'ILCE-7M3',
+          takenDateTime: '2024-05-19T08:07:30Z',
+          fNumber: 4,
+          focalLength: 85,
+          iso: 400,
+          orientation: 1,
+        },
+        location: { latitude: 52.5163, longitude: 13.3779, altitude: 34 },
+        image: { width: 6000, height: 4000 },
+      },
+    ],
+  },
+]
+
+/**
+ * Expand fixture spaces into entries: space roots, implied folders and files
+ */
+export function buildFixtureTree(spaces: FixtureSpace[]): MockEntry[] {
+  const entries: MockEntry[] = []
+  let counter = 0
+
+  for (const space of spaces) {
+    const rootId = `${space.id}!${space.id.split('$').pop()}`
+    const byPath = new Map<string, MockEntry>()
+    const root: MockEntry = {
+      id: rootId,
+      spaceId: space.id,
+      parentId: '',
+      path: '/',
+      name: space.name,
+      isFolder: true,
+      mimeType: 'httpd/unix-directory',
+      size: 0,
+      mtime: '2022-01-01T00:00:00Z',
+      etag: `"${rootId}"`,
+      tags: [],
+      favorite: false,
+    }
+    byPath.set('/', root)
+    entries.push(root)
+
+    const ensureFolder = (path: string): MockEntry => {
+      const existing = byPath.get(path)
+      if (existing) return existing
+      const parentPath = path.slice(0, path.lastIndexOf('/')) || '/'
+      const parent = ensureFolder(parentPath)
+      const id = `${space.id}!node-${++counter}`
+      const folder: MockEntry = {
+        id,
+        spaceId: space.id,
+        parentId: parent.id,
+        path,
+        name: path.split('/').pop() || '',
+        isFolder: true,
+        mimeType: 'httpd/unix-directory',
+        size: 0,
+        mtime: '2022-01-01T00:00:00Z',
+        etag: `"${id}"`,
+        tags: [],
+        favorite: false,
+      }
+      byPath.set(path, folder)
+      entries.push(folder)
+      return folder
+    }
+
+    for (const file of space.files) {
+      const parentPath = file.path.slice(0, file.path.lastIndexOf('/')) || '/'
+      const parent = ensureFolder(parentPath)
+      const id = `${space.id}!node-${++counter}`
+      entries.push({
+        id,
+        spaceId: space.id,
+        parentId: parent.id,
+        path: file.path,
+        name: file.path.split('/').pop() || '',
+        isFolder: false,
+        mimeType: file.mimeType,
+        size: file.size ?? (file.content ? Buffer.byteLength(file.content) : 0),
+        mtime: file.mtime,
+        etag: `"${id}-1"`,
+        tags: file.tags || [],
+        favorite: !!file.favorite,
+        content: file.content,
+        photo: file.photo,
+        location: file.location,
+        image: file.image,
+      })
+    }
+
+    // Folder sizes are the sum of their files
+    for (const entry of entries) {
+      if (!entry.isFolder || entry.spaceId !== space.id) continue
+      const prefix = entry.path === '/' ? '/' : `${entry.path}/`
+      entry.size = entries
+        .filter(e => !e.isFolder && e.spaceId === space.id && e.path.startsWith(prefix))
+        .reduce((sum, e) => sum + e.size, 0)
+    }
+  }
+
+  return entries
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { KqlSyntaxError } from '../../src/utils/kqlParser'
+import { DEFAULT_FIXTURES, buildFixtureTree } from './fixtures'
+import { searchEntries } from './kql'
+
+const entries = buildFixtureTree(DEFAULT_FIXTURES)
+const names = (query: string) => searchEntries(query, entries).map(e => e.name).sort()
+
+describe('buildFixtureTree', () => {
+  it('creates space roots and implied folders', () => {
+    const photos = entries.find(e => e.path === '/Photos/2023')!
+    const parent = entries.find(e => e.id === photos.parentId)!
+    expect(photos.isFolder).toBe(true)
+    expect(parent.path).toBe('/Photos')
+    expect(entries.filter(e => e.path === '/')).toHaveLength(DEFAULT_FIXTURES.length)
+  })
+})
+
+describe('searchEntries', () => {
+  it('matches names with wildcards, ignoring case', () => {
+    expect(names('name:*.PDF')).toEqual(['report-2024.pdf'])
+    expect(names('name:shoot-0?.jpg')).toEqual(['shoot-01.jpg', 'shoot-02.jpg'])
+  })
+
+  it('matches free text against names and content', () => {
+    expect(names('summer')).toEqual(['brief.docx', 'notes.txt'])
+    expect(names('"photo walk"')).toEqual(['notes.txt'])
+  })
+
+  it('supports types, media types and tags', () => {
+    expect(names('Type:2 AND name:20*')).toEqual(['2023', '2024'])
+    expect(names('mediatype:spreadsheet')).toEqual(['Budget 2024.xlsx'])
+    expect(names('tags:finance AND NOT mediatype:pdf')).toEqual(['Budget 2024.xlsx'])
+  })
+
+  it('compares numbers and dates', () => {
+    expect(names('size>=50000000')).toEqual(['backup-2022.zip', 'clip.mp4'])
+    expect(names('photo.iso:100..200')).toEqual(['beach.jpg', 'mountain.jpg', 'portrait.jpg'])
+    expect(names('photo.takendatetime>=2024-05-19 AND photo.takendatetime<=2024-05-19')).toEqual(['shoot-01.jpg', 'shoot-02.jpg'])
+    expect(names('mtime:2022-12-31')).toEqual(['backup-2022.zip'])
+  })
+
+  it('matches camera fields and OR groups', () => {
+    expect(names('photo.cameramake:sony OR (photo.cameramake:Canon AND photo.fnumber<=2.8)'))
+      .toEqual(['beach.jpg', 'shoot-01.jpg', 'shoot-02.jpg'])
+  })
+
+  it('compares GPS coordinates', () => {
+    expect(names('(photo.location.latitude>=52 AND photo.location.latitude<=53) AND photo.location.longitude<=13.3778'))
+      .toEqual(['shoot-01.jpg'])
+    expect(names('photo.location.longitude:2..3')).toEqual(['beach.jpg', 'city.jpg'])
+  })
+
+  it('restricts to a folder with scope', () => {
+    const folder = entries.find(e => e.path === '/Photos/2024')!
+    expect(names(`scope:${folder.id} AND mediatype:image`)).toEqual(['city.jpg', 'portrait.jpg'])
+  })
+
+  it('matches everything except space roots for *', () => {
+    expect(searchEntries('*', entries)).toHaveLength(entries.length - DEFAULT_FIXTURES.length)
+  })
+
+  it('does not match unknown fields', () => {
+    expect(names('colour:red')).toEqual([])
+  })
+
+  it('throws on invalid queries', () => {
+    expect(() => searchEntries('name:(', entries)).toThrow(KqlSyntaxError)
+  })
+})
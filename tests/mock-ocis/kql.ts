@@ -0,0 +1,172 @@
+/**
+ * Small KQL evaluator for the mock oCIS server.
+ *
+ * Queries are parsed with the extension's own KQL parser and evaluated
+ * against fixture entries, roughly like the oCIS search service: field
+ * names are case-insensitive, text matches are case-insensitive with `*`
+ * and `?` wildcards, numbers and dates support comparisons and ranges.
+ */
+
+import { parseKql } from '../../src/utils/kqlParser'
+import type { KqlNode, KqlRestrictionNode } from '../../src/types'
+import type { MockEntry } from './fixtures'
+
+/**
+ * Mime types behind the `mediatype:` groups used by the filter panel
+ */
+const MEDIA_TYPE_GROUPS: Record<string, (mimeType: string) => boolean> = {
+  image: m => m.startsWith('image/'),
+  video: m => m.startsWith('video/'),
+  audio: m => m.startsWith('audio/'),
+  pdf: m => m === 'application/pdf',
+  document: m => m.startsWith('text/') || /wordprocessing|msword|opendocument\.text/.test(m),
+  spreadsheet: m => /spreadsheet|ms-excel|csv/.test(m),
+  presentation: m => /presentation|powerpoint/.test(m),
+  archive: m => /zip|tar|gzip|rar|7z|compressed/.test(m),
+  folder: m => m === 'httpd/unix-directory',
+}
+
+/**
+ * Context for evaluating `scope:` restrictions
+ */
+export interface KqlEvaluationContext {
+  /** All entries, to resolve the folder a `scope:` resource ID points to */
+  entries: MockEntry[]
+}
+
+function wildcardToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')
+  return new RegExp(`^${escaped}$`, 'i')
+}
+
+function matchesText(value: string | undefined, pattern: string): boolean {
+  if (value === undefined) return false
+  return wildcardToRegExp(pattern).test(value)
+}
+
+function toTime(value: string, endOfDay: boolean): number {
+  // Date-only upper bounds include the whole day
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value)
+  return Date.parse(dateOnly && endOfDay ? `${value}T23:59:59.999Z` : value)
+}
+
+function compare(
+  actual: number | undefined,
+  node: KqlRestrictionNode,
+  parse: (value: string, upper: boolean) => number
+): boolean {
+  if (actual === undefined || Number.isNaN(actual)) return false
+  if (node.value.type === 'range') {
+    return actual >= parse(node.value.from, false) && actual <= parse(node.value.to, true)
+  }
+  const operator = node.operator
+  const expected = parse(node.value.value, operator === '<=' || operator === '>')
+  switch (operator) {
+    case '>': return actual > expected
+    case '>=': return actual >= expected
+    case '<': return actual < parse(node.value.value, false)
+    case '<=': return actual <= expected
+    default: {
+      // `:` on a date matches the whole day
+      const from = parse(node.value.value, false)
+      const to = parse(node.value.value, true)
+      return actual >= from && actual <= to
+    }
+  }
+}
+
+const parseNumber = (value: string) => Number(value)
+const parseDate = (value: string, upper: boolean) => toTime(value, upper)
+
+function textValue(node: KqlRestrictionNode): string {
+  return node.value.type === 'range' ? `${node.value.from}..${node.value.to}` : node.value.value
+}
+
+function isBelow(entry: MockEntry, folder: MockEntry): boolean {
+  if (entry.spaceId !== folder.spaceId || entry.id === folder.id) return false
+  return folder.path === '/' || entry.path.startsWith(`${folder.path}/`)
+}
+
+function evaluateRestriction(node: KqlRestrictionNode, entry: MockEntry, context: KqlEvaluationContext): boolean {
+  const field = node.field.toLowerCase()
+  const text = textValue(node)
+
+  switch (field) {
+    case 'name':
+      return matchesText(entry.name, text)
+    case 'path':
+      return matchesText(entry.path, text)
+    case 'type':
+      return text === '2' ? entry.isFolder : text === '1' ? !entry.isFolder : false
+    case 'mediatype':
+      return (MEDIA_TYPE_GROUPS[text.toLowerCase()] || (m => matchesText(m, text)))(entry.mimeType)
+    case 'mimetype':
+      return matchesText(entry.mimeType, text)
+    case 'tag':
+    case 'tags':
+      return entry.tags.some(tag => matchesText(tag, text))
+    case 'content':
+      return !!entry.content && entry.content.toLowerCase().includes(text.replace(/\*/g, '').toLowerCase())
+    case 'size':
+      return compare(entry.isFolder ? undefined : entry.size, node, parseNumber)
+    case 'mtime':
+      return compare(Date.parse(entry.mtime), node, parseDate)
+    case 'scope': {
+      const folder = context.entries.find(e => e.id === text)
+      return !!folder && isBelow(entry, folder)
+    }
+    case 'photo.cameramake':
+      return matchesText(entry.photo?.cameraMake, text)
+    case 'photo.cameramodel':
+      return matchesText(entry.photo?.cameraModel, text)
+    case 'photo.takendatetime':
+      return compare(entry.photo?.takenDateTime ? Date.parse(entry.photo.takenDateTime) : undefined, node, parseDate)
+    case 'photo.iso':
+      return compare(entry.photo?.iso, node, parseNumber)
+    case 'photo.fnumber':
+      return compare(entry.photo?.fNumber, node, parseNumber)
+    case 'photo.focallength':
+      return compare(entry.photo?.focalLength, node, parseNumber)
+    case 'photo.orientation':
+      return compare(entry.photo?.orientation, node, parseNumber)
+    case 'photo.location.latitude':
+      return compare(entry.location?.latitude, node, parseNumber)
+    case 'photo.location.longitude':
+      return compare(entry.location?.longitude, node, parseNumber)
+    default:
+      return false
+  }
+}
+
+function evaluateNode(node: KqlNode, entry: MockEntry, context: KqlEvaluationContext): boolean {
+  switch (node.type) {
+    case 'term':
+    case 'phrase': {
+      // Free text matches the name or the content
+      const value = node.value.replace(/\*/g, '').toLowerCase()
+      return entry.name.toLowerCase().includes(value) || !!entry.content?.toLowerCase().includes(value)
+    }
+    case 'restriction':
+      return evaluateRestriction(node, entry, context)
+    case 'and':
+      return node.children.every(child => evaluateNode(child, entry, context))
+    case 'or':
+      return node.children.some(child => evaluateNode(child, entry, context))
+    case 'not':
+      return !evaluateNode(node.child, entry, context)
+    case 'group':
+      return evaluateNode(node.child, entry, context)
+  }
+}
+
+/**
+ * Entries matching a KQL query (`*` or an empty query matches everything).
+ * Space roots never match.
+ *
+ * @throws KqlSyntaxError for invalid queries
+ */
+export function searchEntries(query: string, entries: MockEntry[], context: KqlEvaluationContext = { entries }): MockEntry[] {
+  const trimmed = query.trim()
+  const ast = trimmed === '*' ? null : parseKql(trimmed)
+  return entries.filter(entry => entry.path !== '/' && (!ast || evaluateNode(ast, entry, context)))
+}
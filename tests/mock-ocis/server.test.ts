@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
+import { createGraphSearchBackend } from '../../src/backends/graphSearchBackend'
+import { buildSearchReportBody } from '../../src/backends/davSearchBackend'
+import type { SearchHttpClient } from '../../src/types'
+import type { SpaceResource } from '@ownclouders/web-client'
+import { startMockOcis, type MockOcisServer } from './server'
+
+let server: MockOcisServer
+const personal = 'storage-users-1$personal-admin'
+
+beforeAll(async () => {
+  server = await startMockOcis()
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+afterEach(() => {
+  server.reset()
+})
+
+function davUrl(path = '') {
+  return `${server.url}/dav/spaces/${encodeURIComponent(personal)}${path}`
+}
+
+function report(query: string, extra: { offset?: number; limit?: number; properties?: string[]; sort?: { field: 'name' | 'size'; direction: 'asc' | 'desc' } } = {}) {
+  return fetch(davUrl(), {
+    method: 'REPORT',
+    headers: { 'Content-Type': 'application/xml' },
+    body: buildSearchReportBody({ query, offset: extra.offset ?? 0, limit: extra.limit ?? 50, sort: extra.sort, properties: extra.properties }),
+  })
+}
+
+const hrefs = (xml: string) => [...xml.matchAll(/<d:href>([^<]*)<\/d:href>/g)].map(m => decodeURIComponent(m[1]))
+
+describe('mock oCIS server', () => {
+  it('answers search REPORTs with paging, sorting and a total', async () => {
+    const response = await report('mediatype:image', { offset: 1, limit: 2, sort: { field: 'name', direction: 'asc' } })
+    expect(response.status).toBe(207)
+    expect(response.headers.get('content-range')).toBe('rows 1-2/4')
+    expect(hrefs(await response.text())).toEqual([
+      `/dav/spaces/${personal}/Photos/2024/city.jpg`,
+      `/dav/spaces/${personal}/Photos/2023/mountain.jpg`,
+    ])
+  })
+
+  it('returns the requested properties with EXIF metadata', async () => {
+    const xml = await (await report('photo.cameramake:Canon', { properties: ['displayname', 'photo-iso', 'location-latitude', 'fileid'] })).text()
+    expect(xml).toContain('<d:displayname>beach.jpg</d:displayname>')
+    expect(xml).toContain('<oc:photo-iso>100</oc:photo-iso>')
+    expect(xml).toContain('<oc:location-latitude>41.3784</oc:location-latitude>')
+    expect(xml).not.toContain('getcontentlength')
+  })
+
+  it('rejects invalid KQL with 400', async () => {
+    expect((await report('name:(')).status).toBe(400)
+  })
+
+  it('lists folders with PROPFIND', async () => {
+    const response = await fetch(davUrl('/Photos'), { method: 'PROPFIND', headers: { Depth: '1' } })
+    expect(response.status).toBe(207)
+    expect(hrefs(await response.text())).toEqual([
+      `/dav/spaces/${personal}/Photos/`,
+      `/dav/spaces/${personal}/Photos/2023/`,
+      `/dav/spaces/${personal}/Photos/2024/`,
+    ])
+  })
+
+  it('serves content and previews', async () => {
+    const file = await fetch(davUrl('/Documents/notes.txt'))
+    expect(await file.text()).toContain('Meeting notes')
+
+    const preview = await fetch(`${davUrl('/Photos/2023/beach.jpg')}?preview=1&x=64&y=64`)
+    expect(preview.headers.get('content-type')).toBe('image/png')
+    expect((await fetch(`${davUrl('/Documents/report-2024.pdf')}?preview=1&x=128&y=128`)).status).toBe(200)
+    expect((await fetch(`${davUrl('/Documents/notes.txt')}?preview=1`)).status).toBe(404)
+  })
+
+  it('deletes resources and their children until reset', async () => {
+    expect((await fetch(davUrl('/Photos/2023'), { method: 'DELETE' })).status).toBe(204)
+    expect((await fetch(davUrl('/Photos/2023/beach.jpg'))).status).toBe(404)
+    expect(server.entries.some(e => e.name === 'mountain.jpg')).toBe(false)
+
+    server.reset()
+    expect((await fetch(davUrl('/Photos/2023/beach.jpg'))).status).toBe(200)
+  })
+
+  it('copies and moves resources with their children', async () => {
+    const copy = await fetch(davUrl('/Photos/2023'), { method: 'COPY', headers: { Destination: davUrl('/Archive/2023') } })
+    expect(copy.status).toBe(201)
+    expect((await fetch(davUrl('/Archive/2023/beach.jpg'))).status).toBe(200)
+    expect((await fetch(davUrl('/Photos/2023/beach.jpg'))).status).toBe(200)
+
+    const move = await fetch(davUrl('/Documents/notes.txt'), { method: 'MOVE', headers: { Destination: davUrl('/Archive/notes.txt') } })
+    expect(move.status).toBe(201)
+    expect((await fetch(davUrl('/Documents/notes.txt'))).status).toBe(404)
+    expect(await (await fetch(davUrl('/Archive/notes.txt'))).text()).toContain('Meeting notes')
+  })
+
+  it('rejects copies into missing folders, into themselves and over existing names', async () => {
+    const copy = (from: string, to: string, headers: Record<string, string> = {}) =>
+      fetch(davUrl(from), { method: 'COPY', headers: { Destination: davUrl(to), ...headers } })
+    expect((await copy('/Documents/notes.txt', '/Missing/notes.txt')).status).toBe(409)
+    expect((await copy('/Photos', '/Photos/2023/Photos')).status).toBe(403)
+    expect((await copy('/Documents/notes.txt', '/Archive/backup-2022.zip', { Overwrite: 'F' })).status).toBe(412)
+  })
+
+  it('adds and removes tags', async () => {
+    const notes = server.entries.find(e => e.name === 'notes.txt')!
+    const tags = (method: string, body: unknown) => fetch(`${server.url}/graph/v1.0/extensions/org.libregraph/tags`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+    expect((await tags('PUT', { resourceId: notes.id, tags: ['a', 'b'] })).status).toBe(200)
+    expect(notes.tags).toEqual(['a', 'b'])
+    expect((await tags('DELETE', { resourceId: notes.id, tags: ['a'] })).status).toBe(204)
+    expect(notes.tags).toEqual(['b'])
+    expect((await tags('PUT', { resourceId: 'unknown', tags: ['a'] })).status).toBe(404)
+    expect((await tags('PUT', { resourceId: notes.id, tags: [] })).status).toBe(400)
+  })
+
+  it('lists drives and capabilities', async () => {
+    const drives = await (await fetch(`${server.url}/graph/v1.0/me/drives`)).json()
+    expect(drives.value.map((d: { driveAlias: string }) => d.driveAlias)).toEqual(['personal/admin', 'project/marketing'])
+
+    const capabilities = await (await fetch(`${server.url}/ocs/v1.php/cloud/capabilities?format=json`)).json()
+    expect(capabilities.ocs.data.version.string).toBe('7.0.0')
+    expect(capabilities.ocs.data.capabilities.search.property['photo.location']).toEqual({ enabled: true })
+  })
+
+  it('lists app providers per mime type', async () => {
+    const list = await (await fetch(`${server.url}/app/list`)).json()
+    const docx = list['mime-types'].find((entry: { ext: string }) => entry.ext === 'docx')
+    expect(docx.app_providers.map((app: { name: string }) => app.name)).toEqual(['Collabora', 'OnlyOffice'])
+    expect(docx.default_application).toBe('Collabora')
+  })
+
+  it('works with the graph search backend', async () => {
+    const http: SearchHttpClient = {
+      async request(config) {
+        const response = await fetch(config.url, { method: config.method, headers: config.headers, body: JSON.stringify(config.data) })
+        return { data: await response.json() }
+      },
+    }
+    const backend = createGraphSearchBackend({ http, getServerUrl: () => server.url, getDriveAlias: () => undefined })
+    const space = { id: 'storage-users-1$project-marketing', driveAlias: 'project/marketing' } as SpaceResource
+
+    const page = await backend.search({ space, query: 'photo.cameramodel:ILCE*', offset: 0, limit: 1, sort: { field: 'name', direction: 'desc' } })
+    expect(page.total).toBe(2)
+    expect(page.items.map(i => [i.name, i.path, i.photo?.iso])).toEqual([['shoot-02.jpg', '/Campaign/Shoot/shoot-02.jpg', 400]])
+  })
+})
@@ -0,0 +1,694 @@
+/**
+ * Offline stand-in for the parts of oCIS the extension talks to.
+ *
+ * Serves a fixture file tree (see fixtures.ts) over:
+ * - REPORT /dav/spaces/<id>           search-files with KQL pattern, limit, offset and sort
+ * - PROPFIND /dav/spaces/<id>/<path>  Depth 0 and 1
+ * - GET /dav/spaces/<id>/<path>       file content, `?preview=1` for image, PDF and office previews
+ * - PUT /dav/spaces/<id>/<path>       with If-Match / If-None-Match
+ * - MKCOL, DELETE /dav/spaces/<id>/<path>
+ * - COPY, MOVE /dav/spaces/<id>/<path>  with Destination and Overwrite
+ * - GET /graph/v1.0/me/drives
+ * - PUT, DELETE /graph/v1.0/extensions/org.libregraph/tags
+ * - POST /graph/v1.0/search/query
+ * - GET /ocs/v1.php/cloud/capabilities
+ * - GET /app/list                     app providers (Collabora, OnlyOffice) per mime type
+ *
+ * Any Authorization header (or none) is accepted. Changes only affect the
+ * in-memory tree; `reset()` restores the fixtures.
+ *
+ * Used by the unit tests (`startMockOcis()` in beforeAll) and by Playwright
+ * in mock mode (OCIS_MOCK=1, see tests/e2e/global-setup.ts).
+ */
+
+import http from 'node:http'
+import { createHash } from 'node:crypto'
+import type { AddressInfo } from 'node:net'
+import { KqlSyntaxError } from '../../src/utils/kqlParser'
+import { DEFAULT_FIXTURES, buildFixtureTree, type FixtureSpace, type MockEntry } from './fixtures'
+import { searchEntries } from './kql'
+
+export interface MockOcisOptions {
+  /** Port to listen on, 0 (default) picks a free one */
+  port?: number
+  host?: string
+  fixtures?: FixtureSpace[]
+  user?: { id: string; displayName: string }
+}
+
+export interface MockOcisServer {
+  /** Base URL without trailing slash */
+  url: string
+  spaces: FixtureSpace[]
+  /** Current tree (space roots, folders and files) */
+  entries: MockEntry[]
+  /** Restore the fixture tree after changes */
+  reset(): void
+  close(): Promise<void>
+}
+
+// 1x1 transparent PNG, served for previews and binary files
+const PLACEHOLDER_IMAGE = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+  'base64'
+)
+
+const MOCK_VERSION = { major: 7, minor: 0, micro: 0, string: '7.0.0', edition: 'Community', product: 'Infinite Scale' }
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    req.on('data', chunk => chunks.push(chunk))
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+    req.on('error', reject)
+  })
+}
+
+/**
+ * Text of the first `<prefix:name>` element in a request body
+ */
+function xmlElementText(body: string, name: string): string | null {
+  const match = body.match(new RegExp(`<(?:\\w+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${name}>`))
+  return match ? unescapeXml(match[1].trim()) : null
+}
+
+/**
+ * Local names of the properties requested in a `<d:prop>` block, or null for allprop
+ */
+function requestedProps(body: string): Set<string> | null {
+  const prop = body.match(/<(?:\w+:)?prop>([\s\S]*?)<\/(?:\w+:)?prop>/)
+  if (!prop) return null
+  return new Set([...prop[1].matchAll(/<(?:\w+:)?([\w-]+)\s*\/>/g)].map(m => m[1]))
+}
+
+function encodePath(path: string): string {
+  return path.split('/').map(segment => encodeURIComponent(segment)).join('/')
+}
+
+function hrefFor(entry: MockEntry): string {
+  const path = entry.path === '/' ? '/' : `${encodePath(entry.path)}${entry.isFolder ? '/' : ''}`
+  return `/dav/spaces/${encodeURIComponent(entry.spaceId)}${path}`
+}
+
+function checksums(entry: MockEntry): string {
+  const data = entry.content ?? entry.id
+  const sha1 = createHash('sha1').update(data).digest('hex')
+  const md5 = createHash('md5').update(data).digest('hex')
+  return `SHA1:${sha1} MD5:${md5}`
+}
+
+/**
+ * Property values of an entry by local name (only those it has)
+ */
+function entryProps(entry: MockEntry, baseUrl: string, user: { id: string; displayName: string }): Array<[string, string, string]> {
+  const props: Array<[string, string, string]> = [
+    ['d', 'displayname', escapeXml(entry.name)],
+    ['d', 'getlastmodified', new Date(entry.mtime).toUTCString()],
+    ['d', 'getetag', escapeXml(entry.etag)],
+    ['d', 'resourcetype', entry.isFolder ? '<d:collection/>' : ''],
+    ['oc', 'fileid', escapeXml(entry.id)],
+    ['oc', 'file-parent', escapeXml(entry.parentId)],
+    ['oc', 'size', String(entry.size)],
+    ['oc', 'permissions', entry.isFolder ? 'RDNVCKZP' : 'RDNVWZP'],
+    ['oc', 'favorite', entry.favorite ? '1' : '0'],
+    ['oc', 'tags', escapeXml(entry.tags.join(','))],
+    ['oc', 'share-types', ''],
+    ['oc', 'owner-id', escapeXml(user.id)],
+    ['oc', 'owner-display-name', escapeXml(user.displayName)],
+    ['oc', 'privatelink', escapeXml(`${baseUrl}/f/${encodeURIComponent(entry.id)}`)],
+  ]
+  if (!entry.isFolder) {
+    props.push(
+      ['d', 'getcontenttype', escapeXml(entry.mimeType)],
+      ['d', 'getcontentlength', String(entry.size)],
+      ['oc', 'checksums', `<oc:checksum>${checksums(entry)}</oc:checksum>`]
+    )
+  }
+  const photo = entry.photo
+  if (photo) {
+    const fields: Array<[string, string | number | undefined]> = [
+      ['photo-camera-make', photo.cameraMake],
+      ['photo-camera-model', photo.cameraModel],
+      ['photo-taken-date-time', photo.takenDateTime],
+      ['photo-f-number', photo.fNumber],
+      ['photo-focal-length', photo.focalLength],
+      ['photo-iso', photo.iso],
+      ['photo-exposure-numerator', photo.exposureNumerator],
+      ['photo-exposure-denominator', photo.exposureDenominator],
+      ['photo-orientation', photo.orientation],
+    ]
+    for (const [name, value] of fields) {
+      if (value !== undefined) props.push(['oc', name, escapeXml(String(value))])
+    }
+  }
+  if (entry.image) {
+    props.push(['oc', 'image-width', String(entry.image.width)], ['oc', 'image-height', String(entry.image.height)])
+  }
+  if (entry.location) {
+    props.push(['oc', 'location-latitude', String(entry.location.latitude)], ['oc', 'location-longitude', String(entry.location.longitude)])
+    if (entry.location.altitude !== undefined) props.push(['oc', 'location-altitude', String(entry.location.altitude)])
+  }
+  return props
+}
+
+function multistatus(responses: string[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<d:multistatus xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns" xmlns:s="http://sabredav.org/ns">
+${responses.join('\n')}
+</d:multistatus>`
+}
+
+function davError(message: string, exception = 'Sabre\\DAV\\Exception\\BadRequest'): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<d:error xmlns:d="DAV:" xmlns:s="http://sabredav.org/ns">
+  <s:exception>${escapeXml(exception)}</s:exception>
+  <s:message>${escapeXml(message)}</s:message>
+</d:error>`
+}
+
+function sortValue(entry: MockEntry, field: string): string | number | undefined {
+  switch (field.toLowerCase()) {
+    case 'name': return entry.name.toLowerCase()
+    case 'size': return entry.size
+    case 'mtime':
+    case 'lastmodifieddatetime': return Date.parse(entry.mtime)
+    case 'photo.takendatetime':
+    case 'photo/takendatetime': return entry.photo?.takenDateTime ? Date.parse(entry.photo.takenDateTime) : undefined
+    default: return undefined
+  }
+}
+
+/**
+ * Sort search hits; without a sort field hits keep the index (tree) order
+ */
+function sortEntries(entries: MockEntry[], field: string | null, descending: boolean): MockEntry[] {
+  if (!field) return entries
+  return [...entries].sort((a, b) => {
+    const va = sortValue(a, field)
+    const vb = sortValue(b, field)
+    if (va === undefined || vb === undefined) return va === vb ? 0 : va === undefined ? 1 : -1
+    const result = va < vb ? -1 : va > vb ? 1 : 0
+    return descending ? -result : result
+  })
+}
+
+function graphDriveItem(entry: MockEntry, space: FixtureSpace) {
+  const parentPath = entry.path.slice(0, entry.path.lastIndexOf('/'))
+  return {
+    id: entry.id,
+    name: entry.name,
+    size: entry.size,
+    eTag: entry.etag,
+    lastModifiedDateTime: entry.mtime,
+    ...(entry.isFolder ? { folder: {} } : { file: { mimeType: entry.mimeType } }),
+    parentReference: { id: entry.parentId, driveId: space.id, driveType: space.driveType, path: `/drives/${space.id}/root:${parentPath}` },
+    ...(entry.photo && { photo: entry.photo }),
+    ...(entry.location && { location: entry.location }),
+    ...(entry.image && { image: entry.image }),
+  }
+}
+
+/**
+ * Start the mock server
+ */
+export async function startMockOcis(options: MockOcisOptions = {}): Promise<MockOcisServer> {
+  const spaces = options.fixtures || DEFAULT_FIXTURES
+  const user = options.user || { id: 'admin', displayName: 'Admin' }
+  let entries = buildFixtureTree(spaces)
+  let baseUrl = ''
+  let created = 0
+
+  const findEntry = (spaceId: string, path: string) => entries.find(e => e.spaceId === spaceId && e.path === path)
+  const spaceRoot = (spaceId: string) => findEntry(spaceId, '/')
+
+  function propResponse(entry: MockEntry, requested: Set<string> | null): string {
+    const all = entryProps(entry, baseUrl, user)
+    const found = all.filter(([, name]) => !requested || requested.has(name))
+    const foundNames = new Set(all.map(([, name]) => name))
+    const missing = requested ? [...requested].filter(name => !foundNames.has(name)) : []
+    const element = ([ns, name, value]: [string, string, string]) =>
+      value === '' ? `<${ns}:${name}/>` : `<${ns}:${name}>${value}</${ns}:${name}>`
+    const propstats = [
+      `    <d:propstat>\n      <d:prop>\n        ${found.map(element).join('\n        ')}\n      </d:prop>\n      <d:status>HTTP/1.1 200 OK</d:status>\n    </d:propstat>`,
+    ]
+    if (missing.length > 0) {
+      propstats.push(
+        `    <d:propstat>\n      <d:prop>\n        ${missing.map(name => `<oc:${name}/>`).join('\n        ')}\n      </d:prop>\n      <d:status>HTTP/1.1 404 Not Found</d:status>\n    </d:propstat>`
+      )
+    }
+    return `  <d:response>\n    <d:href>${escapeXml(hrefFor(entry))}</d:href>\n${propstats.join('\n')}\n  </d:response>`
+  }
+
+  function send(res: http.ServerResponse, status: number, body: string | Buffer = '', headers: Record<string, string> = {}): void {
+    res.writeHead(status, { 'Content-Length': String(Buffer.byteLength(body)), ...headers })
+    res.end(body)
+  }
+
+  const sendJson = (res: http.ServerResponse, status: number, data: unknown) =>
+    send(res, status, JSON.stringify(data), { 'Content-Type': 'application/json' })
+
+  const sendXml = (res: http.ServerResponse, status: number, xml: string, headers: Record<string, string> = {}) =>
+    send(res, status, xml, { 'Content-Type': 'application/xml; charset=utf-8', ...headers })
+
+  async function handleReport(req: http.IncomingMessage, res: http.ServerResponse, spaceId: string): Promise<void> {
+    const body = await readBody(req)
+    const pattern = xmlElementText(body, 'pattern') ?? ''
+    const limit = Number(xmlElementText(body, 'limit') ?? 50)
+    const offset = Number(xmlElementText(body, 'offset') ?? 0)
+    const sortBy = xmlElementText(body, 'sort-by')
+    const descending = xmlElementText(body, 'sort-order') === 'desc'
+
+    let hits: MockEntry[]
+    try {
+      hits = searchEntries(pattern, entries.filter(e => e.spaceId === spaceId), { entries })
+    } catch (error) {
+      if (error instanceof KqlSyntaxError) {
+        sendXml(res, 400, davError(error.message))
+        return
+      }
+      throw error
+    }
+
+    const sorted = sortEntries(hits, sortBy, descending)
+    const page = sorted.slice(offset, offset + limit)
+    const requested = requestedProps(body)
+    const range = page.length > 0 ? `rows ${offset}-${offset + page.length - 1}/${sorted.length}` : `rows */${sorted.length}`
+    sendXml(res, 207, multistatus(page.map(entry => propResponse(entry, requested))), { 'Content-Range': range })
+  }
+
+  async function handlePropfind(req: http.IncomingMessage, res: http.ServerResponse, entry: MockEntry): Promise<void> {
+    const body = await readBody(req)
+    const requested = requestedProps(body)
+    const depth = req.headers.depth === '0' ? 0 : 1
+    const children = depth === 1 && entry.isFolder ? entries.filter(e => e.parentId === entry.id) : []
+    sendXml(res, 207, multistatus([entry, ...children].map(e => propResponse(e, requested))))
+  }
+
+  function handleGet(res: http.ServerResponse, entry: MockEntry, preview: boolean): void {
+    if (entry.isFolder) {
+      sendXml(res, 405, davError('Cannot download a folder', 'Sabre\\DAV\\Exception\\MethodNotAllowed'))
+      return
+    }
+    if (preview) {
+      if (!/^image\/|^application\/(pdf$|vnd\.openxmlformats-officedocument\.)/.test(entry.mimeType)) {
+        send(res, 404)
+        return
+      }
+      send(res, 200, PLACEHOLDER_IMAGE, { 'Content-Type': 'image/png' })
+      return
+    }
+    const data = entry.content !== undefined ? Buffer.from(entry.content) : PLACEHOLDER_IMAGE
+    send(res, 200, data, { 'Content-Type': entry.mimeType, ETag: entry.etag })
+  }
+
+  function handleDelete(res: http.ServerResponse, entry: MockEntry): void {
+    if (entry.path === '/') {
+      sendXml(res, 403, davError('Cannot delete a space root', 'Sabre\\DAV\\Exception\\Forbidden'))
+      return
+    }
+    const prefix = `${entry.path}/`
+    entries = entries.filter(e => e.spaceId !== entry.spaceId || (e.path !== entry.path && !e.path.startsWith(prefix)))
+    send(res, 204)
+  }
+
+  function newEntry(parent: MockEntry, path: string, isFolder: boolean): MockEntry {
+    const id = `${parent.spaceId}!created-${++created}`
+    return {
+      id,
+      spaceId: parent.spaceId,
+      parentId: parent.id,
+      path,
+      name: path.split('/').pop() || '',
+      isFolder,
+      mimeType: isFolder ? 'httpd/unix-directory' : 'application/octet-stream',
+      size: 0,
+      mtime: new Date().toISOString(),
+      etag: `"${id}-1"`,
+      tags: [],
+      favorite: false,
+    }
+  }
+
+  const parentPath = (path: string) => path.slice(0, path.lastIndexOf('/')) || '/'
+
+  async function handlePut(req: http.IncomingMessage, res: http.ServerResponse, spaceId: string, path: string): Promise<void> {
+    const content = await readBody(req)
+    const existing = findEntry(spaceId, path)
+    const ifMatch = req.headers['if-match']
+    if ((ifMatch && ifMatch !== existing?.etag) || (req.headers['if-none-match'] === '*' && existing)) {
+      sendXml(res, 412, davError('Precondition failed', 'Sabre\\DAV\\Exception\\PreconditionFailed'))
+      return
+    }
+    if (existing?.isFolder) {
+      sendXml(res, 409, davError('A folder exists at this path', 'Sabre\\DAV\\Exception\\Conflict'))
+      return
+    }
+    const parent = findEntry(spaceId, parentPath(path))
+    if (!parent?.isFolder) {
+      sendXml(res, 409, davError('Parent folder does not exist', 'Sabre\\DAV\\Exception\\Conflict'))
+      return
+    }
+
+    const entry = existing || newEntry(parent, path, false)
+    const revision = parseInt(entry.etag.match(/-(\d+)"$/)?.[1] || '0', 10) + 1
+    entry.content = content
+    entry.size = Buffer.byteLength(content)
+    entry.mimeType = (req.headers['content-type'] || 'application/octet-stream').split(';')[0]
+    entry.mtime = new Date().toISOString()
+    entry.etag = `"${entry.id}-${revision}"`
+    if (!existing) entries.push(entry)
+    send(res, existing ? 204 : 201, '', { ETag: entry.etag })
+  }
+
+  function handleMkcol(res: http.ServerResponse, spaceId: string, path: string): void {
+    if (findEntry(spaceId, path)) {
+      sendXml(res, 405, davError('The resource already exists', 'Sabre\\DAV\\Exception\\MethodNotAllowed'))
+      return
+    }
+    const parent = findEntry(spaceId, parentPath(path))
+    if (!parent?.isFolder) {
+      sendXml(res, 409, davError('Parent folder does not exist', 'Sabre\\DAV\\Exception\\Conflict'))
+      return
+    }
+    entries.push(newEntry(parent, path, true))
+    send(res, 201)
+  }
+
+  /**
+   * COPY or MOVE an entry (with its subtree) to the `Destination` URL
+   */
+  function handleCopyMove(req: http.IncomingMessage, res: http.ServerResponse, entry: MockEntry, move: boolean): void {
+    const destination = String(req.headers.destination || '').match(/\/dav\/spaces\/([^/]+)(\/.*)$/)
+    if (!destination) {
+      sendXml(res, 400, davError('Missing or invalid Destination header', 'Sabre\\DAV\\Exception\\BadRequest'))
+      return
+    }
+    const targetSpaceId = decodeURIComponent(destination[1])
+    const targetPath = decodeURIComponent(destination[2]).replace(/(.)\/+$/, '$1')
+    const parent = findEntry(targetSpaceId, parentPath(targetPath))
+    if (!parent?.isFolder) {
+      sendXml(res, 409, davError('Destination folder does not exist', 'Sabre\\DAV\\Exception\\Conflict'))
+      return
+    }
+    if (entry.path === '/' || (targetSpaceId === entry.spaceId && `${targetPath}/`.startsWith(`${entry.path}/`))) {
+      sendXml(res, 403, davError('Cannot copy or move a folder into itself', 'Sabre\\DAV\\Exception\\Forbidden'))
+      return
+    }
+    const existing = findEntry(targetSpaceId, targetPath)
+    if (existing && req.headers.overwrite === 'F') {
+      sendXml(res, 412, davError('The destination exists', 'Sabre\\DAV\\Exception\\PreconditionFailed'))
+      return
+    }
+
+    const sourcePath = entry.path
+    const prefix = `${sourcePath}/`
+    // Parents before their children
+    const subtree = entries
+      .filter(e => e.spaceId === entry.spaceId && (e === entry || e.path.startsWith(prefix)))
+      .sort((a, b) => a.path.length - b.path.length)
+    if (existing) {
+      const existingPrefix = `${existing.path}/`
+      entries = entries.filter(e => e.spaceId !== targetSpaceId || (e !== existing && !e.path.startsWith(existingPrefix)))
+    }
+    // Parent IDs in the destination tree
+    const parentIds = new Map<string, string>()
+    for (const source of subtree) {
+      const path = targetPath + source.path.slice(sourcePath.length)
+      const name = path.split('/').pop() || ''
+      const parentId = source === entry ? parent.id : parentIds.get(source.parentId)!
+      if (move) {
+        Object.assign(source, { spaceId: targetSpaceId, path, name, parentId })
+        parentIds.set(source.id, source.id)
+      } else {
+        const id = `${targetSpaceId}!created-${++created}`
+        entries.push({ ...source, id, etag: `"${id}-1"`, spaceId: targetSpaceId, path, name, parentId, tags: [...source.tags] })
+        parentIds.set(source.id, id)
+      }
+    }
+    send(res, existing ? 204 : 201)
+  }
+
+  async function handleTags(req: http.IncomingMessage, res: http.ServerResponse, add: boolean): Promise<void> {
+    let body: { resourceId?: string; tags?: string[] } | undefined
+    try {
+      body = JSON.parse(await readBody(req))
+    } catch {
+      body = undefined
+    }
+    if (!body?.resourceId || !Array.isArray(body.tags) || body.tags.length === 0) {
+      sendJson(res, 400, { error: { code: 'invalidRequest', message: 'resourceId and tags are required' } })
+      return
+    }
+    const entry = entries.find(e => e.id === body!.resourceId)
+    if (!entry) {
+      sendJson(res, 404, { error: { code: 'itemNotFound', message: 'Resource not found' } })
+      return
+    }
+    const tags = body.tags
+    entry.tags = add
+      ? [...entry.tags, ...tags.filter(tag => !entry.tags.includes(tag))]
+      : entry.tags.filter(tag => !tags.includes(tag))
+    send(res, add ? 200 : 204)
+  }
+
+  async function handleGraphSearch(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    let request: {
+      query?: { queryString?: string }
+      contentSources?: string[]
+      from?: number
+      size?: number
+      sortProperties?: Array<{ name: string; isDescending?: boolean }>
+    } | undefined
+    try {
+      request = JSON.parse(await readBody(req))?.requests?.[0]
+    } catch {
+      request = undefined
+    }
+    if (!request) {
+      sendJson(res, 400, { error: { code: 'invalidRequest', message: 'Missing search request' } })
+      return
+    }
+
+    const driveIds = (request.contentSources || []).map(source => source.replace(/^\/drives\//, ''))
+    const searchable = driveIds.length > 0 ? entries.filter(e => driveIds.includes(e.spaceId)) : entries
+    let hits: MockEntry[]
+    try {
+      hits = searchEntries(request.query?.queryString ?? '', searchable, { entries })
+    } catch (error) {
+      if (error instanceof KqlSyntaxError) {
+        sendJson(res, 400, { error: { code: 'invalidRequest', message: error.message } })
+        return
+      }
+      throw error
+    }
+
+    const sort = request.sortProperties?.[0]
+    const sorted = sortEntries(hits, sort?.name ?? null, !!sort?.isDescending)
+    const from = request.from ?? 0
+    const page = sorted.slice(from, from + (request.size ?? 25))
+    sendJson(res, 200, {
+      value: [{
+        searchTerms: [request.query?.queryString ?? ''],
+        hitsContainers: [{
+          hits: page.map(entry => ({
+            hitId: entry.id,
+            resource: graphDriveItem(entry, spaces.find(s => s.id === entry.spaceId)!),
+          })),
+          total: sorted.length,
+          moreResultsAvailable: from + page.length < sorted.length,
+        }],
+      }],
+    })
+  }
+
+  function graphDrives() {
+    return spaces.map(space => {
+      const root = spaceRoot(space.id)
+      const used = root?.size ?? 0
+      return {
+        id: space.id,
+        name: space.name,
+        driveType: space.driveType,
+        driveAlias: space.driveAlias,
+        webUrl: `${baseUrl}/f/${encodeURIComponent(space.id)}`,
+        owner: { user: { id: user.id, displayName: user.displayName } },
+        quota: { used, total: 10 * 1024 ** 3, remaining: 10 * 1024 ** 3 - used, state: 'normal' },
+        root: { id: root?.id, webDavUrl: `${baseUrl}/dav/spaces/${encodeURIComponent(space.id)}` },
+      }
+    })
+  }
+
+  function capabilities() {
+    return {
+      ocs: {
+        meta: { status: 'ok', statuscode: 100, message: 'OK' },
+        data: {
+          version: MOCK_VERSION,
+          capabilities: {
+            core: { webdav_root: 'remote.php/webdav', status: { installed: true, productname: 'Infinite Scale', version: MOCK_VERSION.string } },
+            files: {
+              privateLinks: true,
+              favorites: true,
+              tags: true,
+              archivers: [],
+              app_providers: [{ enabled: true, version: '1.1.0', apps_url: '/app/list', open_url: '/app/open', new_url: '/app/new' }],
+            },
+            spaces: { enabled: true, projects: true },
+            search: { property: { name: { enabled: true }, mtime: { enabled: true }, mediatype: { enabled: true }, content: { enabled: true }, 'photo.location': { enabled: true } }, ocr: false },
+          },
+        },
+      },
+    }
+  }
+
+  function appList() {
+    const collabora = { name: 'Collabora', product_name: 'Collabora', icon: `${baseUrl}/icons/collabora.svg` }
+    const onlyOffice = { name: 'OnlyOffice', product_name: 'OnlyOffice', icon: `${baseUrl}/icons/onlyoffice.svg` }
+    const office = (mimeType: string, ext: string, name: string) => ({
+      mime_type: mimeType,
+      ext,
+      name,
+      app_providers: [collabora, onlyOffice],
+      default_application: 'Collabora',
+      allow_creation: true,
+    })
+    return {
+      'mime-types': [
+        office('application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'docx', 'Microsoft Word'),
+        office('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'xlsx', 'Microsoft Excel'),
+        office('application/vnd.openxmlformats-officedocument.presentationml.presentation', 'pptx', 'Microsoft PowerPoint'),
+        office('application/vnd.oasis.opendocument.text', 'odt', 'OpenDocument'),
+        { mime_type: 'application/pdf', ext: 'pdf', name: 'PDF', app_providers: [onlyOffice], allow_creation: false },
+      ],
+    }
+  }
+
+  async function route(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', baseUrl)
+    const method = (req.method || 'GET').toUpperCase()
+
+    if (method === 'OPTIONS') {
+      send(res, 204)
+      return
+    }
+
+    if (url.pathname.startsWith('/ocs/') && url.pathname.endsWith('/cloud/capabilities')) {
+      sendJson(res, 200, capabilities())
+      return
+    }
+    if (url.pathname === '/app/list' && method === 'GET') {
+      sendJson(res, 200, appList())
+      return
+    }
+    if (url.pathname === '/graph/v1.0/me/drives' && method === 'GET') {
+      sendJson(res, 200, { value: graphDrives() })
+      return
+    }
+    if (url.pathname === '/graph/v1.0/search/query' && method === 'POST') {
+      await handleGraphSearch(req, res)
+      return
+    }
+    if (url.pathname === '/graph/v1.0/extensions/org.libregraph/tags' && (method === 'PUT' || method === 'DELETE')) {
+      await handleTags(req, res, method === 'PUT')
+      return
+    }
+
+    const dav = url.pathname.replace(/^\/remote\.php/, '').match(/^\/dav\/spaces\/([^/]+)(\/.*)?$/)
+    if (!dav) {
+      send(res, 404)
+      return
+    }
+    const spaceId = decodeURIComponent(dav[1])
+    if (!spaceRoot(spaceId)) {
+      sendXml(res, 404, davError(`Space ${spaceId} not found`, 'Sabre\\DAV\\Exception\\NotFound'))
+      return
+    }
+
+    if (method === 'REPORT') {
+      await handleReport(req, res, spaceId)
+      return
+    }
+
+    const path = decodeURIComponent(dav[2] || '/').replace(/(.)\/+$/, '$1')
+    if (method === 'PUT') {
+      await handlePut(req, res, spaceId, path)
+      return
+    }
+    if (method === 'MKCOL') {
+      handleMkcol(res, spaceId, path)
+      return
+    }
+    const entry = findEntry(spaceId, path)
+    if (!entry) {
+      sendXml(res, 404, davError(`Resource ${path} not found`, 'Sabre\\DAV\\Exception\\NotFound'))
+      return
+    }
+
+    switch (method) {
+      case 'PROPFIND':
+        await handlePropfind(req, res, entry)
+        return
+      case 'GET':
+        handleGet(res, entry, url.searchParams.get('preview') === '1')
+        return
+      case 'DELETE':
+        handleDelete(res, entry)
+        return
+      case 'COPY':
+      case 'MOVE':
+        handleCopyMove(req, res, entry, method === 'MOVE')
+        return
+      default:
+        sendXml(res, 405, davError(`${method} is not supported`, 'Sabre\\DAV\\Exception\\MethodNotAllowed'))
+    }
+  }
+
+  const server = http.createServer((req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*')
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, Depth, Destination, If-Match, If-None-Match, Overwrite, X-Request-ID')
+    res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, POST, DELETE, OPTIONS, MKCOL, PROPFIND, REPORT, COPY, MOVE')
+    res.setHeader('Access-Control-Expose-Headers', 'Content-Range, ETag')
+    route(req, res).catch(error => {
+      if (!res.headersSent) send(res, 500, String(error))
+    })
+  })
+
+  const host = options.host || '127.0.0.1'
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(options.port ?? 0, host, () => resolve())
+  })
+  baseUrl = `http://${host}:${(server.address() as AddressInfo).port}`
+
+  return {
+    url: baseUrl,
+    spaces,
+    get entries() {
+      return entries
+    },
+    reset() {
+      entries = buildFixtureTree(spaces)
+    },
+    close() {
+      return new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())))
+    },
+  }
+}